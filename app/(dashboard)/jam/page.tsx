@@ -1,6 +1,14 @@
 import JamSessionClient from "@/components/jam/jam-session-client";
 
-export default function JamSessionPage() {
+interface JamSessionPageProps {
+  searchParams: Promise<{ room?: string | string[] }>;
+}
+
+export default async function JamSessionPage({ searchParams }: JamSessionPageProps) {
+  // Invite links look like /jam?room=CODE
+  const { room } = await searchParams;
+  const initialRoom = Array.isArray(room) ? room[0] : room;
+
   return (
     <div className="flex justify-center">
       <main className="flex min-h-screen w-full max-w-4xl flex-col items-center justify-center gap-8">
@@ -9,9 +17,8 @@ export default function JamSessionPage() {
           <p className="text-lg text-gray-600 dark:text-gray-400">Play music together in real-time with friends!</p>
         </div>
 
-        <JamSessionClient />
+        <JamSessionClient initialRoom={initialRoom} />
       </main>
     </div>
   );
 }
-
@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import MediaPipeHands from "@/app/lib/MediaPipeHands";
+import { HandTrackingListener } from "@/app/types/mediapipe";
+
+const subscribeStatus = (onChange: () => void) =>
+  MediaPipeHands.getInstance().onStatusChange(onChange);
+
+/**
+ * Subscribe a component to the shared hand tracker.
+ * `onFrame` always sees the latest props/state, so it can be declared inline.
+ */
+export function useMediaPipe(onFrame: HandTrackingListener) {
+  const onFrameRef = useRef(onFrame);
+  // The camera may already be running (e.g. when switching instruments)
+  const isActive = useSyncExternalStore(
+    subscribeStatus,
+    () => MediaPipeHands.getInstance().isRunning(),
+    () => false
+  );
+
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  });
+
+  useEffect(() => {
+    const tracker = MediaPipeHands.getInstance();
+
+    // Preload the model so "Start Camera" is fast
+    tracker.initialize().catch((error) => {
+      console.error("Error initializing MediaPipe Hands:", error);
+    });
+
+    const unsubscribe = tracker.subscribe((frame) => onFrameRef.current(frame));
+    return unsubscribe;
+  }, []);
+
+  const startCamera = useCallback(async () => {
+    await MediaPipeHands.getInstance().startCamera();
+  }, []);
+
+  const stopCamera = useCallback(() => {
+    MediaPipeHands.getInstance().stopCamera();
+  }, []);
+
+  return { isActive, startCamera, stopCamera };
+}
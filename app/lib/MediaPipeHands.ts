@@ -1,6 +1,346 @@
+import type { Options, Results } from "@mediapipe/hands";
+import { HandLandmarks } from "@/app/types/motion";
+import { MEDIAPIPE_HANDS_URL } from "@/app/lib/utils/config";
+import {
+  HandTrackingFrame,
+  HandTrackingListener,
+  HandTrackingOptions,
+} from "@/app/types/mediapipe";
 
+type HandsType = {
+  setOptions: (options: Options) => void;
+  onResults: (callback: (results: Results) => void) => void;
+  send: (data: { image: HTMLVideoElement }) => Promise<void>;
+  close: () => Promise<void>;
+};
 
+type HandsConstructor = new (config: {
+  locateFile: (file: string) => string;
+}) => HandsType;
+
+const DEFAULT_OPTIONS: HandTrackingOptions = {
+  maxNumHands: 2,
+  modelComplexity: 1,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+
+// How long the camera stays open after the last subscriber leaves. Long enough
+// for PracticeClient to swap one player for another without re-opening it.
+const IDLE_STOP_MS = 2000;
+
+/**
+ * Shared hand-tracking engine.
+ * Owns the MediaPipe Hands instance, the camera stream and the frame loop so
+ * every instrument player consumes the same model and camera. Use
+ * `MediaPipeHands.getInstance()` rather than constructing one per component.
+ */
 export default class MediaPipeHands {
-  
+  private static instance: MediaPipeHands | null = null;
+
+  private hands: HandsType | null = null;
+  private loadingPromise: Promise<void> | null = null;
+  private options: HandTrackingOptions;
+  private assetBaseUrl: string;
+  private video: HTMLVideoElement | null = null;
+  private stream: MediaStream | null = null;
+  private opening: Promise<void> | null = null; // camera being opened
+  private cameraGeneration = 0; // bumped by stopCamera, so an opening camera knows it was stopped
+  private animationFrame: number | null = null;
+  private idleTimer: number | null = null;
+  private listeners: Set<HandTrackingListener> = new Set();
+  private statusListeners: Set<(running: boolean) => void> = new Set();
+
+  constructor(
+    options: Partial<HandTrackingOptions> = {},
+    assetBaseUrl: string = MEDIAPIPE_HANDS_URL
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.assetBaseUrl = assetBaseUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * Get the app-wide tracker (created on first use)
+   */
+  static getInstance(): MediaPipeHands {
+    if (!MediaPipeHands.instance) {
+      MediaPipeHands.instance = new MediaPipeHands();
+    }
+    return MediaPipeHands.instance;
+  }
+
+  /**
+   * Load the MediaPipe script and create the Hands instance (only once)
+   */
+  initialize(): Promise<void> {
+    if (this.hands) return Promise.resolve();
+    if (this.loadingPromise) return this.loadingPromise;
+
+    this.loadingPromise = this.loadHandsClass()
+      .then((Hands) => {
+        const hands = new Hands({
+          locateFile: (file: string) => `${this.assetBaseUrl}/${file}`,
+        });
+        hands.setOptions(this.options);
+        hands.onResults((results) => this.handleResults(results));
+        this.hands = hands;
+        console.log("✋ MediaPipe Hands initialized");
+      })
+      .catch((error) => {
+        // Allow a later call to retry (e.g. after the network comes back)
+        this.loadingPromise = null;
+        throw error;
+      });
+
+    return this.loadingPromise;
+  }
+
+  /**
+   * Resolve the global Hands class, injecting the script tag if needed
+   */
+  private loadHandsClass(): Promise<HandsConstructor> {
+    return new Promise((resolve, reject) => {
+      if (typeof window === "undefined") {
+        reject(new Error("MediaPipe Hands can only be loaded in the browser"));
+        return;
+      }
+
+      const existing = (window as unknown as { Hands?: HandsConstructor }).Hands;
+      if (existing) {
+        resolve(existing);
+        return;
+      }
+
+      const script = document.createElement("script");
+      script.src = `${this.assetBaseUrl}/hands.js`;
+      script.crossOrigin = "anonymous";
+      script.onload = () => {
+        const Hands = (window as unknown as { Hands?: HandsConstructor }).Hands;
+        if (Hands) {
+          resolve(Hands);
+        } else {
+          reject(new Error("MediaPipe Hands script loaded without a Hands class"));
+        }
+      };
+      script.onerror = () => {
+        reject(new Error("Failed to load MediaPipe Hands script"));
+      };
+      document.head.appendChild(script);
+    });
+  }
+
+  /**
+   * Convert raw MediaPipe results into typed frames and notify subscribers
+   */
+  private handleResults(results: Results) {
+    const hands: HandLandmarks[] = (results.multiHandLandmarks || []).map(
+      (landmarks, handIndex) => {
+        const handedness = results.multiHandedness?.[handIndex];
+        return {
+          landmarks: landmarks.map((lm) => ({ x: lm.x, y: lm.y, z: lm.z ?? 0 })),
+          handIndex,
+          handedness: handedness?.label,
+          handednessScore: handedness?.score,
+        };
+      }
+    );
+
+    const frame: HandTrackingFrame = {
+      image: results.image,
+      hands,
+      timestamp: performance.now(),
+    };
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(frame);
+      } catch (error) {
+        console.error("Hand tracking listener error:", error);
+      }
+    });
+  }
+
+  /**
+   * Open the camera and start feeding frames to MediaPipe.
+   * Calling this while the camera is already running (or opening) is a no-op.
+   */
+  startCamera(): Promise<void> {
+    this.cancelIdleStop();
+    if (this.stream) return Promise.resolve();
+    if (!this.opening) {
+      const opening = this.openCamera().finally(() => {
+        if (this.opening === opening) this.opening = null;
+      });
+      this.opening = opening;
+    }
+    return this.opening;
+  }
+
+  private async openCamera(): Promise<void> {
+    const generation = this.cameraGeneration;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        facingMode: "user",
+        width: { ideal: 640 },
+        height: { ideal: 480 },
+      },
+    });
+    // Stopped while the permission prompt was up: don't leave the camera on
+    if (generation !== this.cameraGeneration) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    // The video element is never attached to the DOM; players draw
+    // `frame.image` onto their own canvas instead.
+    const video = this.video || document.createElement("video");
+    video.playsInline = true;
+    video.muted = true;
+    video.srcObject = stream;
+    this.video = video;
+    this.stream = stream;
+
+    await new Promise<void>((resolve) => {
+      if (video.readyState >= video.HAVE_METADATA) {
+        resolve();
+      } else {
+        video.onloadedmetadata = () => resolve();
+      }
+    });
+    try {
+      await video.play();
+    } catch (error) {
+      if (this.stream === stream) throw error;
+    }
+    // Stopped while warming up (stopCamera already released the stream)
+    if (this.stream !== stream) return;
+
+    this.notifyStatus();
+    this.processFrame();
+
+    // Load the model in parallel with the camera warming up; frames are
+    // skipped until it is ready.
+    this.initialize().catch((error) => {
+      console.error("Error initializing MediaPipe Hands:", error);
+    });
+  }
+
+  /**
+   * Frame loop: send the current video frame to MediaPipe
+   */
+  private processFrame = async () => {
+    const video = this.video;
+    const stream = this.stream;
+    if (!video || !stream) return;
+
+    try {
+      if (this.hands && video.readyState === video.HAVE_ENOUGH_DATA) {
+        await this.hands.send({ image: video });
+      }
+    } catch (error) {
+      // Don't let a transient error stop the loop.
+      console.warn("MediaPipe send error (ignored):", error);
+    }
+
+    // Stopped (or stopped and restarted, which starts its own loop) while sending
+    if (this.stream === stream) {
+      this.animationFrame = requestAnimationFrame(this.processFrame);
+    }
+  };
+
+  /**
+   * Stop the camera and the frame loop (the loaded model is kept)
+   */
+  stopCamera() {
+    this.cancelIdleStop();
+    this.cameraGeneration++;
+    this.opening = null;
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+    if (this.stream) {
+      this.stream.getTracks().forEach((track) => track.stop());
+      this.stream = null;
+    }
+    if (this.video) {
+      this.video.srcObject = null;
+    }
+    this.notifyStatus();
+  }
+
+  isRunning(): boolean {
+    return this.stream !== null;
+  }
+
+  /**
+   * Receive every processed frame. Returns an unsubscribe function.
+   * When the last subscriber leaves, the camera is stopped after a short delay.
+   */
+  subscribe(listener: HandTrackingListener): () => void {
+    this.listeners.add(listener);
+    this.cancelIdleStop();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.scheduleIdleStop();
+      }
+    };
+  }
+
+  /**
+   * Be notified when the camera starts or stops. Returns an unsubscribe function.
+   */
+  onStatusChange(listener: (running: boolean) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private notifyStatus() {
+    const running = this.isRunning();
+    this.statusListeners.forEach((listener) => listener(running));
+  }
+
+  private scheduleIdleStop() {
+    this.cancelIdleStop();
+    if (!this.stream) return;
+    this.idleTimer = window.setTimeout(() => {
+      this.idleTimer = null;
+      if (this.listeners.size === 0) {
+        this.stopCamera();
+      }
+    }, IDLE_STOP_MS);
+  }
+
+  private cancelIdleStop() {
+    if (this.idleTimer !== null) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
 
+  /**
+   * Stop the camera and release the MediaPipe instance
+   */
+  async dispose() {
+    this.stopCamera();
+    this.listeners.clear();
+    this.statusListeners.clear();
+    if (this.hands) {
+      try {
+        await this.hands.close();
+      } catch {
+        // ignore
+      }
+      this.hands = null;
+    }
+    this.loadingPromise = null;
+    this.video = null;
+    if (MediaPipeHands.instance === this) {
+      MediaPipeHands.instance = null;
+    }
+  }
 }
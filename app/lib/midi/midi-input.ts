@@ -0,0 +1,176 @@
+import type { Instrument } from "@/app/lib/webrtc/peer-manager";
+import type { WebMidiStatus } from "./midi-output";
+import { loadWebMidi } from "./web-midi";
+
+/**
+ * MIDI input
+ * Listens for note-ons from Web MIDI inputs (a keyboard, pads, a DAW).
+ * Notes can also be fed in directly with receiveMessage / receiveNote,
+ * which exercises the same path without hardware or a camera.
+ */
+
+// Where incoming notes go: picked by MIDI channel, or all to one instrument
+export type MidiInputRoute = "auto" | Instrument;
+
+export const ALL_INPUTS_ID = "all";
+
+export interface MidiInputSettings {
+  enabled: boolean;
+  inputId: string; // a Web MIDI input id, or ALL_INPUTS_ID
+  route: MidiInputRoute;
+  sendToPeers: boolean; // share the notes with the jam like air hits
+}
+
+export interface MidiInputSnapshot {
+  settings: MidiInputSettings;
+  inputs: ReadonlyArray<{ id: string; name: string }>;
+  webMidiStatus: WebMidiStatus;
+}
+
+/**
+ * @param velocity - Normalized 0..1
+ * @param channel - 1..16
+ */
+export type MidiNoteListener = (note: number, velocity: number, channel: number) => void;
+
+export const DEFAULT_MIDI_INPUT_SETTINGS: MidiInputSettings = {
+  enabled: false,
+  inputId: ALL_INPUTS_ID,
+  route: "auto",
+  sendToPeers: true,
+};
+
+const NOTE_ON = 0x90;
+
+export class MidiInput {
+  private static instance: MidiInput | null = null;
+
+  private settings: MidiInputSettings = { ...DEFAULT_MIDI_INPUT_SETTINGS };
+  private inputs: Array<{ id: string; name: string }> = [];
+  private webMidiStatus: WebMidiStatus = "idle";
+  private enabling: Promise<void> | null = null;
+  private noteListeners: Set<MidiNoteListener> = new Set();
+  private listeners: Set<() => void> = new Set();
+  private snapshot: MidiInputSnapshot = this.createSnapshot();
+
+  static getInstance(): MidiInput {
+    if (!MidiInput.instance) {
+      MidiInput.instance = new MidiInput();
+    }
+    return MidiInput.instance;
+  }
+
+  /**
+   * Ask the browser for MIDI access and listen to its inputs
+   */
+  enableWebMidi(): Promise<void> {
+    if (!this.enabling) {
+      this.enabling = this.connectWebMidi();
+    }
+    return this.enabling;
+  }
+
+  getSettings(): MidiInputSettings {
+    return this.settings;
+  }
+
+  updateSettings(settings: Partial<MidiInputSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    this.notify();
+  }
+
+  /**
+   * Handle a raw MIDI message. Only note-ons (with a non-zero velocity) are used.
+   * @param inputId - Where it came from, matched against the selected input
+   */
+  receiveMessage(data: ArrayLike<number>, inputId: string = ALL_INPUTS_ID) {
+    if (!this.settings.enabled) return;
+    if (this.settings.inputId !== ALL_INPUTS_ID && inputId !== this.settings.inputId) return;
+
+    const [status, note, velocity] = Array.from(data);
+    // A note-on with velocity 0 is a note-off
+    if ((status & 0xf0) !== NOTE_ON || !velocity) return;
+    this.receiveNote(note, velocity / 127, (status & 0x0f) + 1);
+  }
+
+  /**
+   * Handle a note-on
+   * @param velocity - Normalized 0..1
+   * @param channel - 1..16
+   */
+  receiveNote(note: number, velocity: number, channel: number) {
+    if (!this.settings.enabled) return;
+    this.noteListeners.forEach((listener) => {
+      try {
+        listener(note, velocity, channel);
+      } catch (error) {
+        console.error("❌ MIDI note listener failed:", error);
+      }
+    });
+  }
+
+  /**
+   * Be notified of every incoming note-on. Returns an unsubscribe function.
+   */
+  onNote(listener: MidiNoteListener): () => void {
+    this.noteListeners.add(listener);
+    return () => {
+      this.noteListeners.delete(listener);
+    };
+  }
+
+  getSnapshot = (): MidiInputSnapshot => this.snapshot;
+
+  /**
+   * Be notified when settings or inputs change. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private async connectWebMidi() {
+    try {
+      const WebMidi = await loadWebMidi();
+      // webmidi may hand out a new Input object when a device reconnects
+      const listening = new WeakSet<object>();
+
+      const syncInputs = () => {
+        WebMidi.inputs.forEach((input) => {
+          if (listening.has(input)) return;
+          listening.add(input);
+          input.addListener("midimessage", (e: { data: Uint8Array }) => {
+            this.receiveMessage(e.data, input.id);
+          });
+        });
+        this.inputs = WebMidi.inputs.map(({ id, name }) => ({ id, name }));
+        this.notify();
+      };
+      syncInputs();
+      WebMidi.addListener("connected", syncInputs);
+      WebMidi.addListener("disconnected", syncInputs);
+
+      this.webMidiStatus = "enabled";
+      console.log("🎛️ Web MIDI enabled,", WebMidi.inputs.length, "inputs");
+    } catch (error) {
+      this.webMidiStatus = "unavailable";
+      console.warn("⚠️ Web MIDI unavailable, MIDI input disabled:", error);
+    }
+    this.notify();
+  }
+
+  private createSnapshot(): MidiInputSnapshot {
+    return {
+      settings: this.settings,
+      inputs: this.inputs,
+      webMidiStatus: this.webMidiStatus,
+    };
+  }
+
+  private notify() {
+    this.snapshot = this.createSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * MIDI note numbers
+ * General MIDI percussion map (channel 10) and note-name conversion.
+ */
+
+// GM percussion key map
+export const GM_PERCUSSION = {
+  acousticBassDrum: 35,
+  bassDrum: 36,
+  sideStick: 37,
+  acousticSnare: 38,
+  handClap: 39,
+  electricSnare: 40,
+  lowFloorTom: 41,
+  closedHiHat: 42,
+  highFloorTom: 43,
+  pedalHiHat: 44,
+  lowTom: 45,
+  openHiHat: 46,
+  lowMidTom: 47,
+  hiMidTom: 48,
+  crashCymbal1: 49,
+  highTom: 50,
+  rideCymbal1: 51,
+  chineseCymbal: 52,
+  rideBell: 53,
+  tambourine: 54,
+  splashCymbal: 55,
+  cowbell: 56,
+  crashCymbal2: 57,
+  muteTriangle: 80,
+  openTriangle: 81,
+} as const;
+
+// GM reserves channel 10 for percussion
+export const GM_PERCUSSION_CHANNEL = 10;
+
+const NOTE_OFFSETS: Record<string, number> = {
+  C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11,
+};
+
+/**
+ * Convert a note name ("C4", "F#3", "Bb5") to a MIDI note number (C4 = 60)
+ * @returns The note number, or null if the name can't be parsed
+ */
+export function noteNameToMidi(name: string): number | null {
+  const match = /^([A-Ga-g])([#b]?)(-?\d+)$/.exec(name);
+  if (!match) return null;
+  const [, letter, accidental, octave] = match;
+  const semitone =
+    NOTE_OFFSETS[letter.toUpperCase()] + (accidental === "#" ? 1 : accidental === "b" ? -1 : 0);
+  const note = (Number(octave) + 1) * 12 + semitone;
+  return note >= 0 && note <= 127 ? note : null;
+}
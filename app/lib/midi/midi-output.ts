@@ -0,0 +1,293 @@
+import type { Instrument, SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { clampVelocity } from "@/app/lib/sound/dynamics";
+import { SessionRecorder } from "@/app/lib/recording/session-recorder";
+import { VirtualMidiPort } from "./virtual-midi-port";
+import { loadWebMidi } from "./web-midi";
+
+/**
+ * MIDI output
+ * Sends air-instrument hits as note-on/off messages to a Web MIDI port
+ * (a DAW, a hardware synth) or to the built-in virtual port.
+ */
+
+/**
+ * Anything MIDI bytes can be sent to: a Web MIDI output or a stand-in
+ */
+export interface MidiPort {
+  id: string;
+  name: string;
+  send(data: number[]): void;
+}
+
+// How velocity 0..1 maps onto MIDI velocity 1..127
+export type VelocityCurve = "linear" | "soft" | "hard" | "fixed";
+
+export type WebMidiStatus = "idle" | "enabled" | "unavailable";
+
+// MIDI note and default channel for a sound event (null if it has no note)
+export type MidiNoteMapper = (event: SoundEvent) => { note: number; channel: number } | null;
+
+export interface MidiOutputSettings {
+  enabled: boolean;
+  portId: string;
+  curve: VelocityCurve;
+  fixedVelocity: number; // 1..127, used by the "fixed" curve
+  noteLengthMs: number; // time between note-on and note-off
+  channels: Partial<Record<Instrument, number>>; // 1..16, overrides the instrument default
+  includeRemote: boolean; // also send hits played by peers
+}
+
+export interface MidiOutputSnapshot {
+  settings: MidiOutputSettings;
+  ports: ReadonlyArray<{ id: string; name: string }>;
+  webMidiStatus: WebMidiStatus;
+}
+
+export const VIRTUAL_PORT_ID = "virtual";
+
+export const DEFAULT_MIDI_OUTPUT_SETTINGS: MidiOutputSettings = {
+  enabled: false,
+  portId: VIRTUAL_PORT_ID,
+  curve: "linear",
+  fixedVelocity: 100,
+  noteLengthMs: 100,
+  channels: {},
+  includeRemote: false,
+};
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+const ALL_NOTES_OFF = 123;
+
+/**
+ * MIDI velocity (1..127) for a normalized velocity
+ */
+export function toMidiVelocity(
+  velocity: number | undefined,
+  curve: VelocityCurve,
+  fixedVelocity: number = DEFAULT_MIDI_OUTPUT_SETTINGS.fixedVelocity
+): number {
+  if (curve === "fixed") return clampMidi(fixedVelocity, 1);
+  const v = clampVelocity(velocity);
+  const shaped = curve === "soft" ? Math.sqrt(v) : curve === "hard" ? v * v : v;
+  return clampMidi(shaped * 127, 1);
+}
+
+function clampMidi(value: number, min: number = 0): number {
+  return Math.max(min, Math.min(127, Math.round(value)));
+}
+
+export class MidiOutput {
+  private static instance: MidiOutput | null = null;
+
+  private settings: MidiOutputSettings = { ...DEFAULT_MIDI_OUTPUT_SETTINGS };
+  private ports: Map<string, MidiPort> = new Map();
+  private webMidiStatus: WebMidiStatus = "idle";
+  private enabling: Promise<void> | null = null;
+  private pendingNoteOffs: Map<string, { timeout: ReturnType<typeof setTimeout>; send: () => void }> =
+    new Map();
+  private unsubscribeSoundEvents: (() => void) | null = null;
+  private listeners: Set<() => void> = new Set();
+  private snapshot: MidiOutputSnapshot;
+
+  static getInstance(): MidiOutput {
+    if (!MidiOutput.instance) {
+      MidiOutput.instance = new MidiOutput();
+    }
+    return MidiOutput.instance;
+  }
+
+  constructor() {
+    this.addPort(new VirtualMidiPort(VIRTUAL_PORT_ID));
+    this.snapshot = this.createSnapshot();
+  }
+
+  /**
+   * Ask the browser for MIDI access and list its outputs.
+   * Fails soft: without Web MIDI only the virtual port is offered.
+   */
+  enableWebMidi(): Promise<void> {
+    if (!this.enabling) {
+      this.enabling = this.connectWebMidi();
+    }
+    return this.enabling;
+  }
+
+  /**
+   * Register a port (Web MIDI outputs are added automatically)
+   */
+  addPort(port: MidiPort) {
+    this.ports.set(port.id, port);
+    this.notify();
+  }
+
+  removePort(id: string) {
+    if (id === VIRTUAL_PORT_ID) return;
+    if (this.settings.portId === id) this.allNotesOff();
+    this.ports.delete(id);
+    this.notify();
+  }
+
+  getSettings(): MidiOutputSettings {
+    return this.settings;
+  }
+
+  updateSettings(settings: Partial<MidiOutputSettings>) {
+    // Release held notes before the port or channels change under them
+    const stopsNotes =
+      settings.enabled === false ||
+      (settings.portId !== undefined && settings.portId !== this.settings.portId) ||
+      settings.channels !== undefined;
+    if (stopsNotes) this.allNotesOff();
+
+    this.settings = { ...this.settings, ...settings };
+    this.notify();
+  }
+
+  /**
+   * Channel (1..16) for an instrument, falling back to its default
+   */
+  getChannel(instrument: Instrument, defaultChannel: number): number {
+    return this.settings.channels[instrument] ?? defaultChannel;
+  }
+
+  /**
+   * Send a note-on now and its note-off after the configured note length.
+   * Retriggering a sounding note ends it first.
+   * @param velocity - Normalized 0..1, shaped by the velocity curve
+   * @param channel - 1..16
+   */
+  playNote(note: number, velocity: number | undefined, channel: number) {
+    const port = this.getPort();
+    if (!this.settings.enabled || !port) return;
+
+    const status = clampMidi(channel - 1, 0) & 0x0f;
+    const key = `${status}:${note}`;
+    const pending = this.pendingNoteOffs.get(key);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pendingNoteOffs.delete(key);
+      pending.send();
+    }
+
+    const { curve, fixedVelocity, noteLengthMs } = this.settings;
+    try {
+      port.send([NOTE_ON | status, clampMidi(note), toMidiVelocity(velocity, curve, fixedVelocity)]);
+    } catch (error) {
+      console.error("❌ Failed to send MIDI note:", error);
+      return;
+    }
+
+    const send = () => {
+      try {
+        port.send([NOTE_OFF | status, clampMidi(note), 0]);
+      } catch (error) {
+        console.error("❌ Failed to send MIDI note-off:", error);
+      }
+    };
+    const timeout = setTimeout(() => {
+      this.pendingNoteOffs.delete(key);
+      send();
+    }, noteLengthMs);
+    this.pendingNoteOffs.set(key, { timeout, send });
+  }
+
+  /**
+   * Send every hit the session recorder hears (its event stream carries them
+   * all) for as long as the app runs, whichever panels are on screen.
+   * Calling it again is a no-op.
+   */
+  routeSoundEvents(getNote: MidiNoteMapper) {
+    if (this.unsubscribeSoundEvents) return;
+    this.unsubscribeSoundEvents = SessionRecorder.getInstance().onSoundEvent((event, source) => {
+      // Never echo MIDI input back out (a loopback port would feed back forever)
+      if (source === "midi") return;
+      if (source !== "local" && !this.settings.includeRemote) return;
+      const mapped = getNote(event);
+      if (!mapped) return;
+      this.playNote(mapped.note, event.velocity, this.getChannel(event.type, mapped.channel));
+    });
+  }
+
+  /**
+   * End every sounding note (and tell the port to do the same on every channel)
+   */
+  allNotesOff() {
+    this.pendingNoteOffs.forEach(({ timeout, send }) => {
+      clearTimeout(timeout);
+      send();
+    });
+    this.pendingNoteOffs.clear();
+
+    const port = this.getPort();
+    if (!this.settings.enabled || !port) return;
+    try {
+      for (let channel = 0; channel < 16; channel++) {
+        port.send([CONTROL_CHANGE | channel, ALL_NOTES_OFF, 0]);
+      }
+    } catch (error) {
+      console.error("❌ Failed to send MIDI all-notes-off:", error);
+    }
+  }
+
+  getSnapshot = (): MidiOutputSnapshot => this.snapshot;
+
+  /**
+   * Be notified when settings or ports change. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private getPort(): MidiPort | undefined {
+    return this.ports.get(this.settings.portId);
+  }
+
+  private async connectWebMidi() {
+    try {
+      const WebMidi = await loadWebMidi();
+
+      const syncOutputs = () => {
+        const ids = new Set(WebMidi.outputs.map((output) => output.id));
+        [...this.ports.keys()]
+          .filter((id) => id !== VIRTUAL_PORT_ID && !ids.has(id))
+          .forEach((id) => this.removePort(id));
+        WebMidi.outputs.forEach((output) => {
+          if (this.ports.has(output.id)) return;
+          this.addPort({
+            id: output.id,
+            name: output.name,
+            send: (data) => output.send(data),
+          });
+        });
+      };
+      syncOutputs();
+      WebMidi.addListener("connected", syncOutputs);
+      WebMidi.addListener("disconnected", syncOutputs);
+
+      this.webMidiStatus = "enabled";
+      console.log("🎛️ Web MIDI enabled,", WebMidi.outputs.length, "outputs");
+    } catch (error) {
+      this.webMidiStatus = "unavailable";
+      console.warn("⚠️ Web MIDI unavailable, only the virtual port can be used:", error);
+    }
+    this.notify();
+  }
+
+  private createSnapshot(): MidiOutputSnapshot {
+    return {
+      settings: this.settings,
+      ports: [...this.ports.values()].map(({ id, name }) => ({ id, name })),
+      webMidiStatus: this.webMidiStatus,
+    };
+  }
+
+  private notify() {
+    this.snapshot = this.createSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,66 @@
+import type { MidiPort } from "./midi-output";
+
+// Messages kept for inspection
+const MAX_MESSAGES = 256;
+
+/**
+ * Virtual MIDI port
+ * Stands in for a hardware/DAW port where Web MIDI isn't available
+ * (e.g. headless Linux): keeps the messages it was sent and logs them.
+ */
+export class VirtualMidiPort implements MidiPort {
+  readonly id: string;
+  readonly name: string;
+  private messages: number[][] = [];
+  private listeners: Set<(data: number[]) => void> = new Set();
+
+  constructor(id: string = "virtual", name: string = "Virtual MIDI port (console)") {
+    this.id = id;
+    this.name = name;
+  }
+
+  send(data: number[]) {
+    this.messages.push([...data]);
+    if (this.messages.length > MAX_MESSAGES) this.messages.shift();
+    console.log("🎛️ MIDI out:", formatMidiMessage(data));
+    this.listeners.forEach((listener) => listener(data));
+  }
+
+  /**
+   * Messages received so far, oldest first
+   */
+  getMessages(): number[][] {
+    return [...this.messages];
+  }
+
+  clear() {
+    this.messages = [];
+  }
+
+  /**
+   * Be notified of every message. Returns an unsubscribe function.
+   */
+  onMessage(listener: (data: number[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Human-readable form of a channel voice message, e.g. "note-on ch10 38 vel 100"
+ */
+export function formatMidiMessage([status, data1, data2]: number[]): string {
+  const channel = (status & 0x0f) + 1;
+  switch (status & 0xf0) {
+    case 0x90:
+      return `note-on ch${channel} ${data1} vel ${data2}`;
+    case 0x80:
+      return `note-off ch${channel} ${data1}`;
+    case 0xb0:
+      return `cc ch${channel} ${data1} = ${data2}`;
+    default:
+      return [status, data1, data2].filter((byte) => byte !== undefined).join(" ");
+  }
+}
@@ -0,0 +1,23 @@
+import type { WebMidi as WebMidiInstance } from "webmidi";
+
+let loading: Promise<typeof WebMidiInstance> | null = null;
+
+/**
+ * Load webmidi and ask the browser for MIDI access (once, shared by input and output).
+ * webmidi is imported on first use so it never runs during server rendering.
+ */
+export function loadWebMidi(): Promise<typeof WebMidiInstance> {
+  if (!loading) {
+    loading = import("webmidi")
+      .then(async ({ WebMidi }) => {
+        if (!WebMidi.enabled) await WebMidi.enable();
+        return WebMidi;
+      })
+      .catch((error) => {
+        // Allow another attempt (e.g. after the user grants permission)
+        loading = null;
+        throw error;
+      });
+  }
+  return loading;
+}
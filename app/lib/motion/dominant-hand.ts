@@ -0,0 +1,81 @@
+/**
+ * Dominant Hand
+ * Which hand the player leads with. Instruments give their hand roles
+ * (the drum kit layout, the triangle holder and beater, the tambourine
+ * holder and striker) from it, mirrored for left-handed players.
+ * Remembered in localStorage.
+ */
+
+export type DominantHand = "left" | "right";
+
+export interface DominantHandSnapshot {
+  hand: DominantHand;
+}
+
+const STORAGE_KEY = "airstrument:dominant-hand";
+
+export class DominantHandPreference {
+  private static instance: DominantHandPreference | null = null;
+
+  private hand: DominantHand = "right";
+  private listeners: Set<() => void> = new Set();
+  private snapshot: DominantHandSnapshot = { hand: "right" };
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      this.hand = this.load();
+      this.snapshot = { hand: this.hand };
+    }
+  }
+
+  static getInstance(): DominantHandPreference {
+    if (!DominantHandPreference.instance) {
+      DominantHandPreference.instance = new DominantHandPreference();
+    }
+    return DominantHandPreference.instance;
+  }
+
+  getHand(): DominantHand {
+    return this.hand;
+  }
+
+  setHand(hand: DominantHand) {
+    if (hand === this.hand) return;
+    this.hand = hand;
+    try {
+      localStorage.setItem(STORAGE_KEY, hand);
+    } catch (error) {
+      console.warn("⚠️ Could not save dominant hand:", error);
+    }
+    this.snapshot = { hand };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  getSnapshot = (): DominantHandSnapshot => this.snapshot;
+
+  /**
+   * Be notified when the dominant hand changes. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private load(): DominantHand {
+    try {
+      return localStorage.getItem(STORAGE_KEY) === "left" ? "left" : "right";
+    } catch (error) {
+      console.warn("⚠️ Could not load dominant hand:", error);
+      return "right";
+    }
+  }
+}
+
+/**
+ * The supporting hand (holds the triangle or tambourine)
+ */
+export function otherHand(hand: DominantHand): DominantHand {
+  return hand === "left" ? "right" : "left";
+}
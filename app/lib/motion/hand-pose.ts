@@ -0,0 +1,91 @@
+/**
+ * Static hand poses used as controls (e.g. for the looper)
+ * Distances are measured relative to the palm so they work at any camera distance.
+ */
+
+import { HandLandmark } from "@/app/types/motion";
+import { FIST_CURL_RATIO, OPEN_PALM_RATIO, PINCH_RATIO, POSE_HOLD_MS } from "./thresholds";
+
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+const FINGERTIPS = [8, 12, 16, 20];
+
+export type HandPose = "fist" | "pinch" | "open" | "none";
+
+const distance = (a: HandLandmark, b: HandLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Classify the pose of a single hand
+ */
+export function getHandPose(landmarks: HandLandmark[]): HandPose {
+  const wrist = landmarks[WRIST];
+  const middleBase = landmarks[MIDDLE_MCP];
+  if (!wrist || !middleBase || landmarks.length < 21) return "none";
+
+  const palm = distance(wrist, middleBase);
+  if (palm === 0) return "none";
+  const palmCenter = {
+    x: (wrist.x + middleBase.x) / 2,
+    y: (wrist.y + middleBase.y) / 2,
+    z: 0,
+  };
+  const tipDistances = FINGERTIPS.map((tip) => distance(landmarks[tip], palmCenter) / palm);
+
+  if (tipDistances.every((d) => d < FIST_CURL_RATIO)) return "fist";
+
+  // Thumb and index touching while the other fingers stay open
+  const pinched = distance(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palm < PINCH_RATIO;
+  if (pinched && tipDistances.slice(1).every((d) => d >= FIST_CURL_RATIO)) return "pinch";
+
+  // Every finger stretched out
+  if (!pinched && tipDistances.every((d) => d >= OPEN_PALM_RATIO)) return "open";
+
+  return "none";
+}
+
+/**
+ * Fires once when a pose has been held long enough; the pose must be
+ * released before it can fire again.
+ */
+export class PoseHold {
+  private holdMs: number;
+  private since: number | null = null;
+  private fired = false;
+
+  constructor(holdMs: number = POSE_HOLD_MS) {
+    this.holdMs = holdMs;
+  }
+
+  /**
+   * @param active - Whether the pose is showing in this frame
+   * @param timestamp - Frame time in milliseconds
+   * @returns True on the frame the hold completes
+   */
+  update(active: boolean, timestamp: number): boolean {
+    if (!active) {
+      this.reset();
+      return false;
+    }
+    if (this.since === null) this.since = timestamp;
+    if (!this.fired && timestamp - this.since >= this.holdMs) {
+      this.fired = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 0..1 progress towards firing (for UI feedback)
+   */
+  getProgress(timestamp: number): number {
+    if (this.since === null || this.fired) return 0;
+    return Math.min(1, (timestamp - this.since) / this.holdMs);
+  }
+
+  reset() {
+    this.since = null;
+    this.fired = false;
+  }
+}
@@ -3,30 +3,53 @@
  * Detects when a hand enters a hitbox zone with sufficient velocity
  */
 
-export interface Hitbox {
-  x: number; // x position (0-1 normalized)
-  y: number; // y position (0-1 normalized)
-  width: number; // width (0-1 normalized)
-  height: number; // height (0-1 normalized)
-}
+import {
+  Handedness,
+  MotionEvent,
+  MotionZone,
+  Velocity,
+} from "@/app/types/motion";
+import { containsPoint } from "./zone-detector";
+import {
+  VelocityCalculator,
+  componentAlong,
+  getDominantDirection,
+} from "./velocity-calculator";
+import {
+  DEFAULT_HAND_COOLDOWN_MS,
+  DEFAULT_MIN_VELOCITY,
+  DEFAULT_ZONE_COOLDOWN_MS,
+} from "./thresholds";
+
+/**
+ * A hitbox is a motion zone: any shape, with its own cooldown and direction filters
+ */
+export type Hitbox = MotionZone;
 
 export interface HandPosition {
-  x: number; // normalized x (0-1)
-  y: number; // normalized y (0-1)
+  x: number; // x in detector space
+  y: number; // y in detector space
   z?: number; // normalized z (optional depth)
 }
 
-export interface Velocity {
-  x: number;
-  y: number;
-  magnitude: number;
+export interface HitboxDetectorOptions {
+  handCooldownMs?: number; // minimum time between hits from the same hand
 }
 
 export class HitboxDetector {
   private hitboxes: Hitbox[] = [];
-  private previousPositions: Map<number, HandPosition> = new Map(); // track by hand index
+  private velocityCalculator = new VelocityCalculator();
+  private velocities: Map<number, Velocity> = new Map(); // latest velocity by hand index
+  private previousSpeeds: Map<string, number> = new Map(); // trigger-axis speed by hand+hitbox, for edge detection
   private hitCooldown: Map<string, number> = new Map(); // prevent multiple hits in quick succession
-  private cooldownTime: number = 200; // milliseconds
+  private handCooldown: Map<number, number> = new Map();
+  private touching: Map<number, Set<string>> = new Map(); // hand index -> touch zones it is pressing
+  private handCooldownTime: number;
+
+  constructor(hitboxes: Hitbox[] = [], options: HitboxDetectorOptions = {}) {
+    this.hitboxes = [...hitboxes];
+    this.handCooldownTime = options.handCooldownMs ?? DEFAULT_HAND_COOLDOWN_MS;
+  }
 
   /**
    * Add a hitbox to detect
@@ -36,108 +59,195 @@ export class HitboxDetector {
   }
 
   /**
-   * Check if a hand position is inside a hitbox
+   * Replace every hitbox. Cooldowns are kept for ids that still exist.
    */
-  private isInHitbox(position: HandPosition, hitbox: Hitbox): boolean {
-    return (
-      position.x >= hitbox.x &&
-      position.x <= hitbox.x + hitbox.width &&
-      position.y >= hitbox.y &&
-      position.y <= hitbox.y + hitbox.height
-    );
+  setHitboxes(hitboxes: Hitbox[]) {
+    this.hitboxes = [...hitboxes];
+    const ids = new Set(hitboxes.map((hitbox) => hitbox.id));
+    for (const id of this.hitCooldown.keys()) {
+      if (!ids.has(id)) this.hitCooldown.delete(id);
+    }
+    for (const touched of this.touching.values()) {
+      for (const id of touched) {
+        if (!ids.has(id)) touched.delete(id);
+      }
+    }
   }
 
   /**
-   * Calculate velocity between two positions
+   * Remove a hitbox by id
    */
-  private calculateVelocity(
-    current: HandPosition,
-    previous: HandPosition,
-    deltaTime: number
-  ): Velocity {
-    if (deltaTime === 0) {
-      return { x: 0, y: 0, magnitude: 0 };
-    }
+  removeHitbox(id: string) {
+    this.hitboxes = this.hitboxes.filter((hitbox) => hitbox.id !== id);
+    this.hitCooldown.delete(id);
+    this.touching.forEach((touched) => touched.delete(id));
+  }
 
-    const dx = (current.x - previous.x) / deltaTime;
-    const dy = (current.y - previous.y) / deltaTime;
-    const magnitude = Math.sqrt(dx * dx + dy * dy);
+  /**
+   * Speed along the hitbox's trigger axis (or overall speed if it has no direction filter)
+   */
+  private getTriggerSpeed(hitbox: Hitbox, velocity: Velocity): number {
+    const axis = hitbox.directions?.[0];
+    return axis ? componentAlong(velocity, axis.direction) : velocity.magnitude;
+  }
 
-    return { x: dx, y: dy, magnitude };
+  /**
+   * Check the secondary direction filters (everything after the trigger axis)
+   */
+  private passesDirectionFilters(hitbox: Hitbox, velocity: Velocity): boolean {
+    const filters = hitbox.directions?.slice(1) ?? [];
+    return filters.every(
+      (filter) =>
+        componentAlong(velocity, filter.direction) > (filter.minVelocity ?? 0)
+    );
   }
 
   /**
-   * Check if a hit should be triggered (considering cooldown)
+   * Check if a hit should be triggered (considering cooldowns)
    */
-  private shouldTriggerHit(hitboxId: string): boolean {
-    const lastHit = this.hitCooldown.get(hitboxId);
-    if (!lastHit) return true;
+  private shouldTriggerHit(hitbox: Hitbox, handIndex: number, now: number): boolean {
+    const lastHit = this.hitCooldown.get(hitbox.id);
+    const cooldown = hitbox.cooldownMs ?? DEFAULT_ZONE_COOLDOWN_MS;
+    if (lastHit !== undefined && now - lastHit <= cooldown) return false;
 
-    const now = Date.now();
-    if (now - lastHit > this.cooldownTime) {
-      return true;
+    const lastHandHit = this.handCooldown.get(handIndex);
+    if (lastHandHit !== undefined && now - lastHandHit <= this.handCooldownTime) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Track whether a hand is pressing a touch zone (inside it and deeper than
+   * its maxDepth). Returns true only on the frame the press starts.
+   */
+  private startsTouch(hitbox: Hitbox, handIndex: number, position: HandPosition): boolean {
+    let touched = this.touching.get(handIndex);
+    if (!touched) {
+      touched = new Set();
+      this.touching.set(handIndex, touched);
+    }
+    const pressing =
+      (position.z ?? 0) < (hitbox.maxDepth ?? 0) && containsPoint(hitbox.shape, position);
+    const wasPressing = touched.has(hitbox.id);
+    if (pressing) {
+      touched.add(hitbox.id);
+    } else {
+      touched.delete(hitbox.id);
     }
-    return false;
+    return pressing && !wasPressing;
   }
 
   /**
-   * Process hand positions and detect hits
+   * Process a hand position and detect hits.
+   * A hitbox fires when the hand is inside it and its trigger-axis speed
+   * rises past the threshold (so a sustained fast motion fires once).
+   * A touch zone (maxDepth) fires when the hand presses into it instead.
    * @param handIndex - Index of the hand (0, 1, etc.)
    * @param position - Current hand position
-   * @param deltaTime - Time since last frame (in seconds)
-   * @returns Array of hitbox indices that were hit
+   * @param timestamp - Frame time in milliseconds
+   * @param handedness - Which hand MediaPipe thinks this is, for hand-locked hitboxes
+   * @returns Motion events for the hitboxes that were hit
    */
   detectHits(
     handIndex: number,
     position: HandPosition,
-    deltaTime: number
-  ): number[] {
-    const previousPosition = this.previousPositions.get(handIndex);
-    const now = Date.now();
-
-    // Update previous position
-    this.previousPositions.set(handIndex, position);
+    timestamp: number,
+    handedness?: Handedness
+  ): MotionEvent[] {
+    const sample = this.velocityCalculator.update(handIndex, position, timestamp);
 
     // If no previous position, can't calculate velocity
-    if (!previousPosition) {
+    if (!sample) {
+      this.velocities.delete(handIndex);
       return [];
     }
 
-    // Calculate velocity
-    const velocity = this.calculateVelocity(
-      position,
-      previousPosition,
-      deltaTime
-    );
+    const { velocity, displacement } = sample;
+    this.velocities.set(handIndex, velocity);
 
-    // Threshold for detecting a "hit" (hand moving fast enough)
-    // Note: MediaPipe coordinates are normalized 0-1, so velocity is in units per second
-    // A velocity of 2.0 means moving across the entire screen in 0.5 seconds
-    // Lower values = easier to trigger, higher values = need faster movement
-    const velocityThreshold = 0.8; // Adjust this value to make hits easier/harder to detect
+    const events: MotionEvent[] = [];
 
-    // Check if hand is moving fast enough
-    if (velocity.magnitude < velocityThreshold) {
-      return [];
-    }
+    this.hitboxes.forEach((hitbox, index) => {
+      const speedKey = `${handIndex}-${hitbox.id}`;
+      const speed = this.getTriggerSpeed(hitbox, velocity);
+      const previousSpeed = this.previousSpeeds.get(speedKey) ?? 0;
+      // Always record the speed so the rising edge is measured frame to frame
+      this.previousSpeeds.set(speedKey, speed);
 
-    // Check each hitbox
-    const hitHitboxes: number[] = [];
+      if (hitbox.hand && handedness && hitbox.hand !== handedness) return;
 
-    this.hitboxes.forEach((hitbox, index) => {
-      const hitboxId = `${handIndex}-${index}`;
-
-      // Check if hand is in hitbox
-      if (this.isInHitbox(position, hitbox)) {
-        // Check cooldown
-        if (this.shouldTriggerHit(hitboxId)) {
-          hitHitboxes.push(index);
-          this.hitCooldown.set(hitboxId, now);
+      if (hitbox.maxDepth !== undefined) {
+        if (!this.startsTouch(hitbox, handIndex, position)) return;
+        // Still cooling down: leave the press unstarted so it fires once allowed
+        if (!this.shouldTriggerHit(hitbox, handIndex, timestamp)) {
+          this.touching.get(handIndex)?.delete(hitbox.id);
+          return;
         }
+      } else {
+        if (!containsPoint(hitbox.shape, position)) return;
+
+        const threshold =
+          hitbox.directions?.[0]?.minVelocity ??
+          hitbox.minVelocity ??
+          DEFAULT_MIN_VELOCITY;
+        if (speed <= threshold || previousSpeed > threshold) return;
+        if (!this.passesDirectionFilters(hitbox, velocity)) return;
+
+        const moved = this.getTriggerSpeed(hitbox, {
+          ...displacement,
+          magnitude: Math.hypot(displacement.x, displacement.y),
+        });
+        if (moved < (hitbox.minDisplacement ?? 0)) return;
       }
+
+      if (!this.shouldTriggerHit(hitbox, handIndex, timestamp)) return;
+
+      this.hitCooldown.set(hitbox.id, timestamp);
+      this.handCooldown.set(handIndex, timestamp);
+      events.push({
+        type: hitbox.type ?? "hit",
+        hitboxIndex: index,
+        zoneId: hitbox.id,
+        handIndex,
+        handedness,
+        timestamp,
+        position: { x: position.x, y: position.y },
+        velocity,
+        direction: getDominantDirection(velocity),
+      });
     });
 
-    return hitHitboxes;
+    return events;
+  }
+
+  /**
+   * Ids of the touch zones some hand is pressing right now
+   */
+  getTouchedZones(): Set<string> {
+    const ids = new Set<string>();
+    this.touching.forEach((touched) => touched.forEach((id) => ids.add(id)));
+    return ids;
+  }
+
+  /**
+   * Latest velocity of a hand (undefined until it has been seen twice)
+   */
+  getVelocity(handIndex: number): Velocity | undefined {
+    return this.velocities.get(handIndex);
+  }
+
+  /**
+   * Forget a hand that left the frame
+   */
+  resetHand(handIndex: number) {
+    this.velocityCalculator.reset(handIndex);
+    this.velocities.delete(handIndex);
+    this.handCooldown.delete(handIndex);
+    this.touching.delete(handIndex);
+    for (const key of this.previousSpeeds.keys()) {
+      if (key.startsWith(`${handIndex}-`)) this.previousSpeeds.delete(key);
+    }
   }
 
   /**
@@ -152,8 +262,11 @@ export class HitboxDetector {
    */
   clearHitboxes() {
     this.hitboxes = [];
-    this.previousPositions.clear();
+    this.velocityCalculator.reset();
+    this.velocities.clear();
+    this.previousSpeeds.clear();
     this.hitCooldown.clear();
+    this.handCooldown.clear();
+    this.touching.clear();
   }
 }
-
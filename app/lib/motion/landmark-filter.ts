@@ -0,0 +1,196 @@
+/**
+ * Landmark Smoothing
+ * One-Euro filtering of hand landmarks plus short-horizon prediction
+ * (https://gery.casiez.net/1euro/)
+ */
+
+import { HandTrackingFrame } from "@/app/types/mediapipe";
+import { HandLandmark } from "@/app/types/motion";
+import {
+  DEFAULT_PREDICTION_MS,
+  MAX_FRAME_GAP_MS,
+  MAX_PREDICTION_MS,
+  SMOOTHING_BETA,
+  SMOOTHING_DERIVATIVE_CUTOFF,
+  SMOOTHING_MIN_CUTOFF,
+} from "./thresholds";
+
+export interface OneEuroOptions {
+  minCutoff: number;
+  beta: number;
+  dCutoff: number;
+}
+
+export interface LandmarkFilterOptions extends Partial<OneEuroOptions> {
+  predictionMs?: number; // default horizon for predict()
+}
+
+const smoothingFactor = (cutoff: number, deltaTime: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / deltaTime);
+};
+
+/**
+ * One-Euro filter for a single value: heavy smoothing when still,
+ * light smoothing (low lag) when moving fast
+ */
+export class OneEuroFilter {
+  private options: OneEuroOptions;
+  private value: number | null = null;
+  private derivative = 0;
+  private velocity = 0; // rate of change of the filtered output (units/s)
+  private lastTimestamp = 0;
+
+  constructor(options: OneEuroOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Filter a new sample
+   * @param timestamp - milliseconds
+   */
+  filter(raw: number, timestamp: number): number {
+    const deltaTime = (timestamp - this.lastTimestamp) / 1000;
+
+    if (
+      this.value === null ||
+      deltaTime <= 0 ||
+      deltaTime * 1000 > MAX_FRAME_GAP_MS
+    ) {
+      this.value = raw;
+      this.derivative = 0;
+      this.velocity = 0;
+      this.lastTimestamp = timestamp;
+      return raw;
+    }
+
+    const { minCutoff, beta, dCutoff } = this.options;
+
+    const rawDerivative = (raw - this.value) / deltaTime;
+    const dAlpha = smoothingFactor(dCutoff, deltaTime);
+    this.derivative = dAlpha * rawDerivative + (1 - dAlpha) * this.derivative;
+
+    const cutoff = minCutoff + beta * Math.abs(this.derivative);
+    const alpha = smoothingFactor(cutoff, deltaTime);
+    const filtered = alpha * raw + (1 - alpha) * this.value;
+
+    this.velocity = (filtered - this.value) / deltaTime;
+    this.value = filtered;
+    this.lastTimestamp = timestamp;
+    return filtered;
+  }
+
+  /**
+   * Extrapolate the filtered value `horizonMs` into the future
+   */
+  predict(horizonMs: number): number | null {
+    if (this.value === null) return null;
+    return this.value + this.velocity * (horizonMs / 1000);
+  }
+
+  reset() {
+    this.value = null;
+    this.derivative = 0;
+    this.velocity = 0;
+  }
+}
+
+/**
+ * Smooths every landmark of every hand, keyed by hand index.
+ */
+export class LandmarkFilter {
+  private options: OneEuroOptions;
+  private predictionMs: number;
+  // hand index -> landmark index -> [x, y, z] filters
+  private filters: Map<number, Map<number, OneEuroFilter[]>> = new Map();
+
+  constructor(options: LandmarkFilterOptions = {}) {
+    this.options = {
+      minCutoff: options.minCutoff ?? SMOOTHING_MIN_CUTOFF,
+      beta: options.beta ?? SMOOTHING_BETA,
+      dCutoff: options.dCutoff ?? SMOOTHING_DERIVATIVE_CUTOFF,
+    };
+    this.predictionMs = options.predictionMs ?? DEFAULT_PREDICTION_MS;
+  }
+
+  private getFilters(handIndex: number, landmarkIndex: number): OneEuroFilter[] {
+    let hand = this.filters.get(handIndex);
+    if (!hand) {
+      hand = new Map();
+      this.filters.set(handIndex, hand);
+    }
+    let axes = hand.get(landmarkIndex);
+    if (!axes) {
+      axes = [0, 1, 2].map(() => new OneEuroFilter(this.options));
+      hand.set(landmarkIndex, axes);
+    }
+    return axes;
+  }
+
+  /**
+   * Smooth a single landmark
+   */
+  filterLandmark(
+    handIndex: number,
+    landmarkIndex: number,
+    landmark: HandLandmark,
+    timestamp: number
+  ): HandLandmark {
+    const [fx, fy, fz] = this.getFilters(handIndex, landmarkIndex);
+    return {
+      x: fx.filter(landmark.x, timestamp),
+      y: fy.filter(landmark.y, timestamp),
+      z: fz.filter(landmark.z, timestamp),
+    };
+  }
+
+  /**
+   * Where a landmark is expected to be `horizonMs` from its last sample.
+   * Call after filterLandmark()/filter() for the current frame.
+   */
+  predict(
+    handIndex: number,
+    landmarkIndex: number,
+    horizonMs: number = this.predictionMs
+  ): HandLandmark | null {
+    const axes = this.filters.get(handIndex)?.get(landmarkIndex);
+    if (!axes) return null;
+    const horizon = Math.min(Math.max(horizonMs, 0), MAX_PREDICTION_MS);
+    const [x, y, z] = axes.map((axis) => axis.predict(horizon));
+    if (x === null || y === null || z === null) return null;
+    return { x, y, z };
+  }
+
+  /**
+   * Smooth every landmark in a frame. Hands missing from the frame are reset.
+   */
+  filter(frame: HandTrackingFrame): HandTrackingFrame {
+    const seen = new Set<number>();
+    const hands = frame.hands.map((hand) => {
+      seen.add(hand.handIndex);
+      return {
+        ...hand,
+        landmarks: hand.landmarks.map((landmark, landmarkIndex) =>
+          this.filterLandmark(hand.handIndex, landmarkIndex, landmark, frame.timestamp)
+        ),
+      };
+    });
+
+    for (const handIndex of this.filters.keys()) {
+      if (!seen.has(handIndex)) this.reset(handIndex);
+    }
+
+    return { ...frame, hands };
+  }
+
+  /**
+   * Forget one hand (or all hands)
+   */
+  reset(handIndex?: number) {
+    if (handIndex === undefined) {
+      this.filters.clear();
+    } else {
+      this.filters.delete(handIndex);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Motion Detection Engine
+ * Turns hand-tracking frames into MotionEvents for a declarative zone map
+ */
+
+import { HandTrackingFrame } from "@/app/types/mediapipe";
+import { HandLandmark, MotionEvent, MotionZone, Velocity } from "@/app/types/motion";
+import { HandPosition, HitboxDetector } from "./hitbox-detector";
+import { LandmarkFilter, LandmarkFilterOptions } from "./landmark-filter";
+import { DEFAULT_PREDICTION_MS, DEFAULT_TRACKED_LANDMARK } from "./thresholds";
+
+export interface MotionDetectorOptions {
+  width?: number; // detector space width (1 = normalized, or canvas pixels)
+  height?: number; // detector space height
+  mirror?: boolean; // flip x to match the mirrored camera view (default true)
+  landmark?: number; // which landmark acts as the stick tip
+  handCooldownMs?: number;
+  smoothing?: LandmarkFilterOptions | false; // One-Euro settings, or false for raw landmarks
+  predictionMs?: number; // look-ahead for zone hits (0 = use the current position)
+}
+
+export class MotionDetector {
+  private hitboxDetector: HitboxDetector;
+  private width: number;
+  private height: number;
+  private mirror: boolean;
+  private landmark: number;
+  private landmarkFilter: LandmarkFilter | null;
+  private predictionMs: number;
+  private activeHands: Set<number> = new Set();
+  private smoothed: HandTrackingFrame | null = null; // last frame returned by smooth()
+
+  constructor(zones: MotionZone[] = [], options: MotionDetectorOptions = {}) {
+    this.width = options.width ?? 1;
+    this.height = options.height ?? 1;
+    this.mirror = options.mirror ?? true;
+    this.landmark = options.landmark ?? DEFAULT_TRACKED_LANDMARK;
+    this.landmarkFilter =
+      options.smoothing === false ? null : new LandmarkFilter(options.smoothing);
+    this.predictionMs = options.predictionMs ?? DEFAULT_PREDICTION_MS;
+    this.hitboxDetector = new HitboxDetector(zones, {
+      handCooldownMs: options.handCooldownMs,
+    });
+  }
+
+  /**
+   * Replace the zone map (e.g. when thresholds or layout change)
+   */
+  setZones(zones: MotionZone[]) {
+    this.hitboxDetector.setHitboxes(zones);
+  }
+
+  getZones(): MotionZone[] {
+    return this.hitboxDetector.getHitboxes();
+  }
+
+  /**
+   * Convert a normalized landmark into detector space
+   */
+  toDetectorSpace(landmark: HandLandmark): HandPosition {
+    const x = this.mirror ? 1 - landmark.x : landmark.x;
+    return { x: x * this.width, y: landmark.y * this.height, z: landmark.z };
+  }
+
+  /**
+   * Smooth every landmark in a frame, for the poses and drawing a player
+   * works from. Pass the result to process() so it isn't filtered twice.
+   */
+  smooth(frame: HandTrackingFrame): HandTrackingFrame {
+    if (!this.landmarkFilter) return frame;
+    this.smoothed = this.landmarkFilter.filter(frame);
+    return this.smoothed;
+  }
+
+  /**
+   * Extrapolate the (smoothed) tracked landmark to the predicted moment of
+   * impact, so hits land on time rather than a frame late
+   */
+  private getTrackedLandmark(handIndex: number, landmark: HandLandmark): HandLandmark {
+    if (!this.landmarkFilter || this.predictionMs <= 0) return landmark;
+    return (
+      this.landmarkFilter.predict(handIndex, this.landmark, this.predictionMs) ??
+      landmark
+    );
+  }
+
+  /**
+   * Run one frame (raw, or as returned by smooth()) through the zone map
+   * @returns Events for every zone hit in this frame
+   */
+  process(frame: HandTrackingFrame): MotionEvent[] {
+    const events: MotionEvent[] = [];
+    const seen = new Set<number>();
+    const smoothed = frame === this.smoothed ? frame : this.smooth(frame);
+
+    for (const hand of smoothed.hands) {
+      const tracked = hand.landmarks[this.landmark];
+      if (!tracked) continue;
+      seen.add(hand.handIndex);
+      const landmark = this.getTrackedLandmark(hand.handIndex, tracked);
+      events.push(
+        ...this.hitboxDetector.detectHits(
+          hand.handIndex,
+          this.toDetectorSpace(landmark),
+          smoothed.timestamp,
+          hand.handedness
+        )
+      );
+    }
+
+    // Hands that left the frame start fresh when they come back
+    for (const handIndex of this.activeHands) {
+      if (!seen.has(handIndex)) this.resetHand(handIndex);
+    }
+    this.activeHands = seen;
+
+    return events;
+  }
+
+  /**
+   * Ids of the touch zones (maxDepth) currently pressed by a hand
+   */
+  getTouchedZones(): Set<string> {
+    return this.hitboxDetector.getTouchedZones();
+  }
+
+  /**
+   * Latest velocity of a hand in detector units per second
+   */
+  getVelocity(handIndex: number): Velocity | undefined {
+    return this.hitboxDetector.getVelocity(handIndex);
+  }
+
+  /**
+   * Forget all hand state (zones are kept)
+   */
+  reset() {
+    for (const handIndex of this.activeHands) {
+      this.resetHand(handIndex);
+    }
+    this.activeHands.clear();
+  }
+
+  private resetHand(handIndex: number) {
+    this.hitboxDetector.resetHand(handIndex);
+    this.landmarkFilter?.reset(handIndex);
+  }
+}
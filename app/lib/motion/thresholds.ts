@@ -0,0 +1,39 @@
+/**
+ * Default motion detection thresholds.
+ * Velocities are in detector-space units per second: with the default
+ * normalized space, 2.0 means crossing the whole view in 0.5 seconds.
+ */
+
+// Speed along a zone's trigger axis needed for a hit
+export const DEFAULT_MIN_VELOCITY = 0.8;
+
+// Per-zone cooldown so one strike doesn't register twice
+export const DEFAULT_ZONE_COOLDOWN_MS = 200;
+
+// Per-hand cooldown across all zones (0 = disabled)
+export const DEFAULT_HAND_COOLDOWN_MS = 0;
+
+// Landmark used as the "stick tip" (8 = index finger tip)
+export const DEFAULT_TRACKED_LANDMARK = 8;
+
+// If a hand goes missing for longer than this, start its velocity fresh
+export const MAX_FRAME_GAP_MS = 250;
+
+// One-Euro smoothing for landmarks (normalized coordinates).
+// Lower min cutoff = steadier at rest; higher beta = less lag when moving fast.
+export const SMOOTHING_MIN_CUTOFF = 1.5; // Hz
+export const SMOOTHING_BETA = 4;
+export const SMOOTHING_DERIVATIVE_CUTOFF = 1; // Hz
+
+// How far ahead to extrapolate hand positions so a strike registers at the
+// predicted moment of impact instead of a frame late (~1 frame at 30 fps)
+export const DEFAULT_PREDICTION_MS = 33;
+export const MAX_PREDICTION_MS = 100;
+
+// Hand poses, as fractions of the palm length (wrist → middle knuckle)
+export const FIST_CURL_RATIO = 0.8; // every fingertip this close to the palm center
+export const PINCH_RATIO = 0.3; // thumb tip to index tip
+export const OPEN_PALM_RATIO = 1.0; // every fingertip at least this far from the palm center
+
+// How long a control pose must be held before it fires
+export const POSE_HOLD_MS = 600;
@@ -0,0 +1,79 @@
+/**
+ * Velocity Calculation
+ * Tracks the previous position of each hand and derives per-frame velocity
+ */
+
+import { MotionDirection, Point, Velocity } from "@/app/types/motion";
+import { MAX_FRAME_GAP_MS } from "./thresholds";
+
+export interface VelocitySample {
+  velocity: Velocity;
+  displacement: Point; // movement since the previous frame
+}
+
+export class VelocityCalculator {
+  private previous: Map<number, { position: Point; timestamp: number }> =
+    new Map();
+
+  /**
+   * Record a new position and return the velocity since the last one
+   * (null on the first frame or after a long gap)
+   * @param timestamp - milliseconds
+   */
+  update(key: number, position: Point, timestamp: number): VelocitySample | null {
+    const previous = this.previous.get(key);
+    this.previous.set(key, { position, timestamp });
+
+    if (!previous) return null;
+
+    const deltaTime = (timestamp - previous.timestamp) / 1000;
+    if (deltaTime <= 0 || deltaTime * 1000 > MAX_FRAME_GAP_MS) return null;
+
+    const dx = position.x - previous.position.x;
+    const dy = position.y - previous.position.y;
+    const vx = dx / deltaTime;
+    const vy = dy / deltaTime;
+
+    return {
+      velocity: { x: vx, y: vy, magnitude: Math.sqrt(vx * vx + vy * vy) },
+      displacement: { x: dx, y: dy },
+    };
+  }
+
+  /**
+   * Forget one hand (or all hands)
+   */
+  reset(key?: number) {
+    if (key === undefined) {
+      this.previous.clear();
+    } else {
+      this.previous.delete(key);
+    }
+  }
+}
+
+/**
+ * Component of a vector along a screen direction (positive = moving that way)
+ */
+export function componentAlong(vector: Point, direction: MotionDirection): number {
+  switch (direction) {
+    case "up":
+      return -vector.y;
+    case "down":
+      return vector.y;
+    case "left":
+      return -vector.x;
+    case "right":
+      return vector.x;
+  }
+}
+
+/**
+ * The direction the hand is mostly moving in
+ */
+export function getDominantDirection(vector: Point): MotionDirection {
+  if (Math.abs(vector.x) > Math.abs(vector.y)) {
+    return vector.x < 0 ? "left" : "right";
+  }
+  return vector.y < 0 ? "up" : "down";
+}
@@ -0,0 +1,122 @@
+/**
+ * Zone Geometry
+ * Point-in-shape tests for circles, ellipses, polygons and rectangles
+ */
+
+import { Point, RectShape, ZoneShape } from "@/app/types/motion";
+
+/**
+ * Check if a point is inside a zone shape
+ */
+export function containsPoint(shape: ZoneShape, point: Point): boolean {
+  switch (shape.type) {
+    case "rect":
+      return (
+        point.x >= shape.x &&
+        point.x <= shape.x + shape.width &&
+        point.y >= shape.y &&
+        point.y <= shape.y + shape.height
+      );
+
+    case "circle": {
+      const dx = point.x - shape.cx;
+      const dy = point.y - shape.cy;
+      return dx * dx + dy * dy <= shape.radius * shape.radius;
+    }
+
+    case "ellipse": {
+      if (shape.rx <= 0 || shape.ry <= 0) return false;
+      // Rotate the point into the ellipse's own frame
+      const angle = -(shape.rotation ?? 0);
+      const dx = point.x - shape.cx;
+      const dy = point.y - shape.cy;
+      const x = dx * Math.cos(angle) - dy * Math.sin(angle);
+      const y = dx * Math.sin(angle) + dy * Math.cos(angle);
+      return (x * x) / (shape.rx * shape.rx) + (y * y) / (shape.ry * shape.ry) <= 1;
+    }
+
+    case "polygon": {
+      // Ray casting (even-odd rule)
+      const points = shape.points;
+      let inside = false;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i];
+        const b = points[j];
+        if (
+          a.y > point.y !== b.y > point.y &&
+          point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+        ) {
+          inside = !inside;
+        }
+      }
+      return inside;
+    }
+  }
+}
+
+/**
+ * Center of a shape (for labels and visual feedback)
+ */
+export function getShapeCenter(shape: ZoneShape): Point {
+  switch (shape.type) {
+    case "rect":
+      return { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 };
+    case "circle":
+    case "ellipse":
+      return { x: shape.cx, y: shape.cy };
+    case "polygon": {
+      const n = shape.points.length || 1;
+      const sum = shape.points.reduce(
+        (acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }),
+        { x: 0, y: 0 }
+      );
+      return { x: sum.x / n, y: sum.y / n };
+    }
+  }
+}
+
+/**
+ * Axis-aligned bounding box of a shape
+ */
+export function getShapeBounds(shape: ZoneShape): Omit<RectShape, "type"> {
+  switch (shape.type) {
+    case "rect":
+      return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+    case "circle":
+      return {
+        x: shape.cx - shape.radius,
+        y: shape.cy - shape.radius,
+        width: shape.radius * 2,
+        height: shape.radius * 2,
+      };
+    case "ellipse": {
+      const rotation = shape.rotation ?? 0;
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+      const halfWidth = Math.sqrt(
+        shape.rx * shape.rx * cos * cos + shape.ry * shape.ry * sin * sin
+      );
+      const halfHeight = Math.sqrt(
+        shape.rx * shape.rx * sin * sin + shape.ry * shape.ry * cos * cos
+      );
+      return {
+        x: shape.cx - halfWidth,
+        y: shape.cy - halfHeight,
+        width: halfWidth * 2,
+        height: halfHeight * 2,
+      };
+    }
+    case "polygon": {
+      const xs = shape.points.map((p) => p.x);
+      const ys = shape.points.map((p) => p.y);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      return {
+        x: minX,
+        y: minY,
+        width: Math.max(...xs) - minX,
+        height: Math.max(...ys) - minY,
+      };
+    }
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Looper
+ * Multi-layer loop recorder: the first pass sets down a fixed-length loop
+ * (bars at the current tempo), later passes overdub new layers on top.
+ * Every layer can be muted, and the last one undone.
+ */
+
+import type { Instrument, SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { SoundEventSink } from "./take-player";
+
+export type LooperState = "empty" | "recording" | "playing" | "overdubbing" | "stopped";
+
+interface LoopEvent {
+  offset: number; // ms from the loop start
+  event: SoundEvent;
+  cycle: number; // cycle it sounded live in, so it isn't echoed until the next one (-1 = none)
+}
+
+export interface LoopLayer {
+  id: number;
+  events: LoopEvent[];
+  instruments: Instrument[];
+  muted: boolean;
+}
+
+export interface LooperOptions {
+  bpm?: number;
+  beatsPerBar?: number;
+  bars?: number;
+  stepsPerBeat?: number; // quantize grid (4 = 16th notes, 0 = off)
+}
+
+/**
+ * Immutable view of the looper for the UI
+ */
+export interface LooperSnapshot {
+  state: LooperState;
+  layers: ReadonlyArray<Readonly<Omit<LoopLayer, "events">> & { eventCount: number }>;
+  bpm: number;
+  beatsPerBar: number;
+  bars: number;
+  stepsPerBeat: number;
+  loopLength: number; // ms
+}
+
+// How often the scheduler checks for due events
+const LOOP_TICK_MS = 10;
+
+export const DEFAULT_LOOPER_OPTIONS: Required<LooperOptions> = {
+  bpm: 100,
+  beatsPerBar: 4,
+  bars: 2,
+  stepsPerBeat: 4,
+};
+
+export class Looper {
+  private sink: SoundEventSink | null;
+  private options: Required<LooperOptions>;
+  private state: LooperState = "empty";
+  private layers: LoopLayer[] = [];
+  private pass: LoopEvent[] | null = null; // layer being recorded
+  private nextLayerId = 1;
+  private origin = 0; // performance.now() of the first loop start
+  private lastTickPosition = 0; // absolute ms since origin at the previous tick
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners: Set<() => void> = new Set();
+  private snapshot: LooperSnapshot;
+
+  constructor(sink: SoundEventSink | null = null, options: LooperOptions = {}) {
+    this.sink = sink;
+    this.options = { ...DEFAULT_LOOPER_OPTIONS, ...options };
+    this.snapshot = this.createSnapshot();
+  }
+
+  /**
+   * Where loop events are played (can be attached after construction)
+   */
+  setSink(sink: SoundEventSink | null) {
+    this.sink = sink;
+  }
+
+  /**
+   * Loop length in ms
+   */
+  getLoopLength(): number {
+    const { bpm, beatsPerBar, bars } = this.options;
+    return (60000 / bpm) * beatsPerBar * bars;
+  }
+
+  /**
+   * Position inside the loop in ms (0 when not running)
+   */
+  getPosition(): number {
+    if (!this.isRunning()) return 0;
+    return (performance.now() - this.origin) % this.getLoopLength();
+  }
+
+  /**
+   * Change tempo / length / quantize. Tempo and length are locked once a loop exists.
+   */
+  setOptions(options: LooperOptions) {
+    const locked = this.state !== "empty";
+    this.options = {
+      ...this.options,
+      ...(locked ? { stepsPerBeat: options.stepsPerBeat ?? this.options.stepsPerBeat } : options),
+    };
+    this.notify();
+  }
+
+  /**
+   * The main (gesture) action:
+   * empty → record, record → play, play → overdub, overdub → play, stopped → play
+   * @param origin - performance.now() time the loop starts from when starting
+   *   (e.g. the metronome's last downbeat); defaults to now
+   */
+  toggle(origin: number = performance.now()) {
+    switch (this.state) {
+      case "empty":
+        this.origin = Math.min(origin, performance.now());
+        this.lastTickPosition = performance.now() - this.origin;
+        this.pass = [];
+        this.state = "recording";
+        this.startTimer();
+        console.log("🔁 Looper: recording");
+        break;
+      case "recording":
+      case "overdubbing":
+        this.commitPass();
+        if (this.layers.length > 0) this.state = "playing";
+        console.log("🔁 Looper:", this.state);
+        break;
+      case "playing":
+        this.pass = [];
+        this.state = "overdubbing";
+        console.log("🔁 Looper: overdubbing");
+        break;
+      case "stopped":
+        // Restart from the top of the loop, where cycles count from 0 again
+        this.origin = Math.min(origin, performance.now());
+        this.layers = this.layers.map((layer) => ({
+          ...layer,
+          events: layer.events.map((loopEvent) => ({ ...loopEvent, cycle: -1 })),
+        }));
+        this.lastTickPosition = performance.now() - this.origin;
+        this.state = "playing";
+        this.startTimer();
+        break;
+    }
+    this.notify();
+  }
+
+  /**
+   * Stop playback (layers are kept)
+   */
+  stop() {
+    if (!this.isRunning()) return;
+    this.commitPass();
+    this.stopTimer();
+    this.state = this.layers.length > 0 ? "stopped" : "empty";
+    this.notify();
+  }
+
+  /**
+   * Discard the pass being recorded, or remove the most recent layer
+   */
+  undo() {
+    if (this.pass) {
+      this.pass = null;
+    } else {
+      this.layers.pop();
+    }
+
+    if (this.layers.length === 0) {
+      this.stopTimer();
+      this.state = "empty";
+    } else if (this.state === "recording" || this.state === "overdubbing") {
+      this.state = "playing";
+    }
+    console.log("🔁 Looper: undo,", this.layers.length, "layers left");
+    this.notify();
+  }
+
+  toggleMute(layerId: number) {
+    const layer = this.layers.find((candidate) => candidate.id === layerId);
+    if (!layer) return;
+    layer.muted = !layer.muted;
+    this.notify();
+  }
+
+  clear() {
+    this.stopTimer();
+    this.layers = [];
+    this.pass = null;
+    this.state = "empty";
+    this.notify();
+  }
+
+  /**
+   * Feed a sound that was just played live; kept if a pass is recording
+   */
+  handleSoundEvent(event: SoundEvent) {
+    if (!this.pass) return;
+    const length = this.getLoopLength();
+    const elapsed = performance.now() - this.origin;
+    const cycle = Math.floor(elapsed / length);
+    const offset = this.quantize(elapsed - cycle * length);
+    // Rounded up to the loop end: that's the next cycle's start, which the live hit already covers
+    const wraps = Math.round(offset) >= Math.round(length);
+    this.pass.push({
+      offset: wraps ? 0 : offset,
+      event,
+      cycle: wraps ? cycle + 1 : cycle,
+    });
+  }
+
+  getSnapshot = (): LooperSnapshot => this.snapshot;
+
+  /**
+   * Be notified when state or layers change. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  dispose() {
+    this.stopTimer();
+    this.listeners.clear();
+  }
+
+  private isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  private quantize(offset: number): number {
+    const { bpm, stepsPerBeat } = this.options;
+    if (stepsPerBeat <= 0) return offset;
+    const step = 60000 / bpm / stepsPerBeat;
+    return Math.round(offset / step) * step;
+  }
+
+  private commitPass() {
+    if (!this.pass) return;
+    if (this.pass.length > 0) {
+      this.layers.push({
+        id: this.nextLayerId++,
+        // Committed events play in every cycle after the one they sounded live in
+        events: [...this.pass].sort((a, b) => a.offset - b.offset),
+        instruments: [...new Set(this.pass.map(({ event }) => event.type))],
+        muted: false,
+      });
+    }
+    this.pass = null;
+    if (this.layers.length === 0) {
+      this.stopTimer();
+      this.state = "empty";
+    }
+  }
+
+  /**
+   * Play every event whose offset was crossed since the previous tick
+   */
+  private tick = () => {
+    const length = this.getLoopLength();
+    const now = performance.now() - this.origin;
+    const from = this.lastTickPosition;
+    this.lastTickPosition = now;
+
+    // The first pass ends by itself after one loop
+    if (this.state === "recording" && now >= length) {
+      this.commitPass();
+      if (this.layers.length > 0) this.state = "playing";
+      this.notify();
+    }
+
+    const sources: LoopEvent[][] = this.layers
+      .filter((layer) => !layer.muted)
+      .map((layer) => layer.events);
+    if (this.pass) sources.push(this.pass);
+
+    for (let cycle = Math.floor(from / length); cycle * length <= now; cycle++) {
+      for (const events of sources) {
+        for (const loopEvent of events) {
+          // Don't echo a hit in the same cycle it was played live
+          if (loopEvent.cycle >= cycle) continue;
+          const time = cycle * length + loopEvent.offset;
+          if (time <= from || time > now) continue;
+          try {
+            this.sink?.play(loopEvent.event);
+          } catch (error) {
+            console.error("❌ Looper failed to play event:", error);
+          }
+        }
+      }
+    }
+  };
+
+  private startTimer() {
+    this.stopTimer();
+    this.timer = setInterval(this.tick, LOOP_TICK_MS);
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private createSnapshot(): LooperSnapshot {
+    return {
+      state: this.state,
+      layers: this.layers.map(({ id, instruments, muted, events }) => ({
+        id,
+        instruments,
+        muted,
+        eventCount: events.length,
+      })),
+      ...this.options,
+      loopLength: this.getLoopLength(),
+    };
+  }
+
+  private notify() {
+    this.snapshot = this.createSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Session Recorder
+ * Timestamps every SoundEvent played during a session (local and remote),
+ * optionally along with the hand landmark stream, and turns it into a Take.
+ */
+
+import MediaPipeHands from "@/app/lib/MediaPipeHands";
+import type { Instrument, SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { HandTrackingFrame } from "@/app/types/mediapipe";
+import {
+  RecordedHandFrame,
+  RecordedSoundEvent,
+  RecordingSource,
+  Take,
+} from "@/app/types/recording";
+
+export interface RecordingOptions {
+  instrument?: Instrument;
+  captureHands?: boolean; // also store the landmark stream (much larger takes)
+  name?: string;
+}
+
+export type SoundEventListener = (event: SoundEvent, source: RecordingSource) => void;
+
+/**
+ * Whether an event was played on this machine (by gesture or MIDI controller)
+ */
+export function isLocalSource(source: RecordingSource): boolean {
+  return source === "local" || source === "midi";
+}
+
+interface ActiveRecording {
+  startedAt: number; // performance.now()
+  createdAt: number; // Date.now()
+  options: RecordingOptions;
+  events: RecordedSoundEvent[];
+  handFrames: RecordedHandFrame[];
+}
+
+const createTakeId = () =>
+  `take-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export class SessionRecorder {
+  private static instance: SessionRecorder | null = null;
+
+  private recording: ActiveRecording | null = null;
+  private unsubscribeHands: (() => void) | null = null;
+  private statusListeners: Set<(recording: boolean) => void> = new Set();
+  private soundListeners: Set<SoundEventListener> = new Set();
+
+  /**
+   * Shared recorder so every player and the jam session feed the same take
+   */
+  static getInstance(): SessionRecorder {
+    if (!SessionRecorder.instance) {
+      SessionRecorder.instance = new SessionRecorder();
+    }
+    return SessionRecorder.instance;
+  }
+
+  /**
+   * Start a new take (an unfinished take is discarded)
+   */
+  start(options: RecordingOptions = {}) {
+    this.stopHandCapture();
+    this.recording = {
+      startedAt: performance.now(),
+      createdAt: Date.now(),
+      options,
+      events: [],
+      handFrames: [],
+    };
+
+    if (options.captureHands) {
+      this.unsubscribeHands = MediaPipeHands.getInstance().subscribe(
+        this.handleFrame
+      );
+    }
+
+    console.log("⏺️ Recording started");
+    this.notifyStatus();
+  }
+
+  /**
+   * Report a sound that was just played. It is stored if a take is being
+   * recorded, and passed on to sound listeners (e.g. the looper) either way.
+   */
+  recordSoundEvent(event: SoundEvent, source: RecordingSource = "local") {
+    this.soundListeners.forEach((listener) => listener(event, source));
+    if (!this.recording) return;
+    this.recording.events.push({
+      time: performance.now() - this.recording.startedAt,
+      event,
+      source,
+    });
+  }
+
+  private handleFrame = (frame: HandTrackingFrame) => {
+    if (!this.recording) return;
+    this.recording.handFrames.push({
+      time: frame.timestamp - this.recording.startedAt,
+      // Drop the camera image; only the landmarks are kept
+      hands: frame.hands.map((hand) => ({ ...hand })),
+    });
+  };
+
+  /**
+   * Finish the take
+   * @returns The take, or null if nothing was being recorded
+   */
+  stop(): Take | null {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    this.stopHandCapture();
+    this.recording = null;
+    this.notifyStatus();
+
+    const { options, events, handFrames, createdAt } = recording;
+    const duration = performance.now() - recording.startedAt;
+    console.log(`⏹️ Recording stopped: ${events.length} events, ${Math.round(duration)}ms`);
+
+    return {
+      id: createTakeId(),
+      name: options.name ?? `Take ${new Date(createdAt).toLocaleString()}`,
+      instrument: options.instrument,
+      createdAt,
+      duration,
+      eventCount: events.length,
+      hasHandFrames: handFrames.length > 0,
+      events,
+      handFrames,
+    };
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Milliseconds since the current take started (0 when idle)
+   */
+  getElapsed(): number {
+    return this.recording ? performance.now() - this.recording.startedAt : 0;
+  }
+
+  /**
+   * Be notified when recording starts or stops. Returns an unsubscribe function.
+   */
+  onStatusChange(listener: (recording: boolean) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Receive every played sound, recording or not. Returns an unsubscribe function.
+   */
+  onSoundEvent(listener: SoundEventListener): () => void {
+    this.soundListeners.add(listener);
+    return () => {
+      this.soundListeners.delete(listener);
+    };
+  }
+
+  private notifyStatus() {
+    const recording = this.isRecording();
+    this.statusListeners.forEach((listener) => listener(recording));
+  }
+
+  private stopHandCapture() {
+    this.unsubscribeHands?.();
+    this.unsubscribeHands = null;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Take Player
+ * Plays a recorded take back through the instrument sound engines
+ */
+
+import type { SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { RecordedHandFrame, Take } from "@/app/types/recording";
+
+/**
+ * Anything that can play a SoundEvent (e.g. the registry's sound engines)
+ */
+export interface SoundEventSink {
+  play(event: SoundEvent): void;
+}
+
+export interface TakePlayerCallbacks {
+  onHandFrame?: (frame: RecordedHandFrame) => void;
+  onEnd?: () => void;
+}
+
+export class TakePlayer {
+  private sink: SoundEventSink;
+  private callbacks: TakePlayerCallbacks;
+  private take: Take | null = null;
+  private position = 0; // ms into the take while paused
+  private startedAt = 0; // performance.now() minus position while playing
+  private playing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextEvent = 0; // index of the next sound event to play
+  private nextFrame = 0; // index of the next hand frame to emit
+
+  constructor(sink: SoundEventSink, callbacks: TakePlayerCallbacks = {}) {
+    this.sink = sink;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Load a take and rewind to its start
+   */
+  load(take: Take) {
+    this.stop();
+    this.take = take;
+  }
+
+  getTake(): Take | null {
+    return this.take;
+  }
+
+  play() {
+    if (!this.take || this.playing) return;
+    if (this.position >= this.take.duration) this.position = 0;
+    this.playing = true;
+    this.startedAt = performance.now() - this.position;
+    this.seekIndices(this.position);
+    this.tick();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.position = this.getPosition();
+    this.playing = false;
+    this.clearTimer();
+  }
+
+  stop() {
+    this.playing = false;
+    this.position = 0;
+    this.clearTimer();
+    this.seekIndices(0);
+  }
+
+  /**
+   * Jump to a position (ms) without playing the events in between
+   */
+  seek(position: number) {
+    const duration = this.take?.duration ?? 0;
+    const clamped = Math.max(0, Math.min(position, duration));
+    if (this.playing) {
+      this.startedAt = performance.now() - clamped;
+      this.seekIndices(clamped);
+      this.clearTimer();
+      this.tick();
+    } else {
+      this.position = clamped;
+    }
+  }
+
+  /**
+   * Current playback position in ms
+   */
+  getPosition(): number {
+    if (!this.playing) return this.position;
+    return Math.min(performance.now() - this.startedAt, this.take?.duration ?? 0);
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  dispose() {
+    this.stop();
+    this.take = null;
+  }
+
+  private seekIndices(position: number) {
+    const events = this.take?.events ?? [];
+    const frames = this.take?.handFrames ?? [];
+    this.nextEvent = events.findIndex((recorded) => recorded.time >= position);
+    if (this.nextEvent === -1) this.nextEvent = events.length;
+    this.nextFrame = frames.findIndex((frame) => frame.time >= position);
+    if (this.nextFrame === -1) this.nextFrame = frames.length;
+  }
+
+  /**
+   * Play everything that is due, then sleep until the next event
+   */
+  private tick = () => {
+    this.timer = null;
+    const take = this.take;
+    if (!take || !this.playing) return;
+
+    const now = performance.now() - this.startedAt;
+
+    while (this.nextEvent < take.events.length && take.events[this.nextEvent].time <= now) {
+      try {
+        this.sink.play(take.events[this.nextEvent].event);
+      } catch (error) {
+        console.error("❌ Failed to play recorded event:", error);
+      }
+      this.nextEvent++;
+    }
+
+    // Only the latest due frame matters for display
+    let frame: RecordedHandFrame | undefined;
+    while (this.nextFrame < take.handFrames.length && take.handFrames[this.nextFrame].time <= now) {
+      frame = take.handFrames[this.nextFrame];
+      this.nextFrame++;
+    }
+    if (frame) this.callbacks.onHandFrame?.(frame);
+
+    const upcoming = Math.min(
+      take.events[this.nextEvent]?.time ?? Infinity,
+      take.handFrames[this.nextFrame]?.time ?? Infinity,
+      take.duration
+    );
+
+    if (now >= take.duration && upcoming >= take.duration) {
+      this.playing = false;
+      this.position = take.duration;
+      this.callbacks.onEnd?.();
+      return;
+    }
+
+    this.timer = setTimeout(this.tick, Math.max(0, upcoming - now));
+  };
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Take Storage
+ * Persists recorded takes in IndexedDB so they survive reloads.
+ * Summaries have their own store, so listing takes never loads their events.
+ */
+
+import { Take, TakeSummary } from "@/app/types/recording";
+
+const DB_NAME = "airstrument";
+const DB_VERSION = 2;
+const TAKE_STORE = "takes";
+const SUMMARY_STORE = "take-summaries";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TAKE_STORE)) {
+          db.createObjectStore(TAKE_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+          // Summarize takes saved before summaries had their own store
+          const transaction = request.transaction as IDBTransaction;
+          const summaries = transaction.objectStore(SUMMARY_STORE);
+          const cursorRequest = transaction.objectStore(TAKE_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            summaries.put(toSummary(cursor.value as Take));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run requests in one transaction over both stores and resolve with the
+ * result of the request `run` returns
+ */
+async function withStores<T>(
+  mode: IDBTransactionMode,
+  run: (takes: IDBObjectStore, summaries: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TAKE_STORE, SUMMARY_STORE], mode);
+    const request = run(transaction.objectStore(TAKE_STORE), transaction.objectStore(SUMMARY_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const toSummary = ({
+  id,
+  name,
+  instrument,
+  createdAt,
+  duration,
+  eventCount,
+  hasHandFrames,
+}: Take): TakeSummary => ({
+  id,
+  name,
+  instrument,
+  createdAt,
+  duration,
+  eventCount,
+  hasHandFrames,
+});
+
+export async function saveTake(take: Take): Promise<void> {
+  await withStores("readwrite", (takes, summaries) => {
+    summaries.put(toSummary(take));
+    return takes.put(take);
+  });
+}
+
+export function getTake(id: string): Promise<Take | undefined> {
+  return withStores<Take | undefined>("readonly", (takes) => takes.get(id));
+}
+
+/**
+ * Every stored take, newest first
+ */
+export async function listTakes(): Promise<TakeSummary[]> {
+  const summaries = await withStores<TakeSummary[]>("readonly", (_takes, store) => store.getAll());
+  return summaries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteTake(id: string): Promise<void> {
+  await withStores("readwrite", (takes, summaries) => {
+    summaries.delete(id);
+    return takes.delete(id);
+  });
+}
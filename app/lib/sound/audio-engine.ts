@@ -0,0 +1,274 @@
+import * as Tone from "tone";
+
+/**
+ * AudioEngine
+ * Owns the one AudioContext every instrument, the metronome and the mixer
+ * play on (Tone's, so Tone-based voices share it), plus the master bus and
+ * the send effects:
+ *
+ *   mixer strips ─┬─────────────────→ master in → volume → limiter → meter → destination
+ *                 ├→ reverb send → convolver → return ─┘
+ *                 └→ delay send → delay ⟲ feedback → return ─┘
+ *
+ * The graph is built on first use (never during server rendering).
+ * Master settings are remembered in localStorage.
+ */
+
+export type SendEffect = "reverb" | "delay";
+
+export interface MasterSettings {
+  volume: number; // linear gain into the limiter, 0..1
+  reverbReturn: number; // 0..1
+  delayReturn: number; // 0..1
+  delayTime: number; // seconds
+  delayFeedback: number; // 0..MAX_DELAY_FEEDBACK
+}
+
+export const DEFAULT_MASTER_SETTINGS: MasterSettings = {
+  volume: 0.8,
+  reverbReturn: 0.6,
+  delayReturn: 0.5,
+  delayTime: 0.3,
+  delayFeedback: 0.35,
+};
+
+export const MIN_DELAY_TIME = 0.05;
+export const MAX_DELAY_TIME = 1;
+// Above this the echoes would build up instead of dying away
+export const MAX_DELAY_FEEDBACK = 0.85;
+
+export interface AudioEngineSnapshot {
+  settings: MasterSettings;
+}
+
+const STORAGE_KEY = "airstrument:master";
+const REVERB_SECONDS = 2.2;
+
+interface MasterGraph {
+  input: GainNode;
+  volume: GainNode;
+  limiter: DynamicsCompressorNode;
+  meter: AnalyserNode;
+  meterData: Float32Array<ArrayBuffer>;
+  sends: Record<SendEffect, GainNode>;
+  returns: Record<SendEffect, GainNode>;
+  delay: DelayNode;
+  feedback: GainNode;
+}
+
+export class AudioEngine {
+  private static instance: AudioEngine | null = null;
+
+  private graph: MasterGraph | null = null;
+  private settings: MasterSettings = DEFAULT_MASTER_SETTINGS;
+  private listeners: Set<() => void> = new Set();
+  private snapshot: AudioEngineSnapshot = { settings: DEFAULT_MASTER_SETTINGS };
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      this.settings = this.load();
+      this.snapshot = { settings: this.settings };
+    }
+  }
+
+  static getInstance(): AudioEngine {
+    if (!AudioEngine.instance) {
+      AudioEngine.instance = new AudioEngine();
+    }
+    return AudioEngine.instance;
+  }
+
+  getContext(): AudioContext {
+    return Tone.context.rawContext as AudioContext;
+  }
+
+  /**
+   * Unlock audio. Browsers keep the context suspended until a user gesture,
+   * so a failure here is retried on the next one.
+   */
+  async resume() {
+    const ctx = this.getContext();
+    if (ctx.state === "running") return;
+    try {
+      await ctx.resume();
+    } catch {
+      // resumed on the next user gesture instead
+    }
+  }
+
+  /**
+   * Where mixer strips (and anything else that should be heard) connect
+   */
+  getMasterInput(): AudioNode {
+    return this.getGraph().input;
+  }
+
+  /**
+   * Input of a shared send effect. Connect through a gain to set how much is sent.
+   */
+  getSendInput(effect: SendEffect): AudioNode {
+    return this.getGraph().sends[effect];
+  }
+
+  updateSettings(settings: Partial<MasterSettings>) {
+    const next = { ...this.settings, ...settings };
+    next.volume = clamp(next.volume, 0, 1);
+    next.reverbReturn = clamp(next.reverbReturn, 0, 1);
+    next.delayReturn = clamp(next.delayReturn, 0, 1);
+    next.delayTime = clamp(next.delayTime, MIN_DELAY_TIME, MAX_DELAY_TIME);
+    next.delayFeedback = clamp(next.delayFeedback, 0, MAX_DELAY_FEEDBACK);
+    this.settings = next;
+    this.save();
+
+    if (this.graph) this.apply(this.graph);
+    this.notify();
+  }
+
+  /**
+   * Current peak level of the master output (0..1), for meters
+   */
+  getLevel(): number {
+    if (!this.graph) return 0;
+    const { meter, meterData } = this.graph;
+    meter.getFloatTimeDomainData(meterData);
+    let peak = 0;
+    for (let i = 0; i < meterData.length; i++) {
+      peak = Math.max(peak, Math.abs(meterData[i]));
+    }
+    return Math.min(1, peak);
+  }
+
+  /**
+   * How hard the limiter is pulling the master down right now, in dB (≥ 0)
+   */
+  getLimiterReduction(): number {
+    return this.graph ? Math.abs(this.graph.limiter.reduction) : 0;
+  }
+
+  getSnapshot = (): AudioEngineSnapshot => this.snapshot;
+
+  /**
+   * Be notified when master settings change. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private getGraph(): MasterGraph {
+    if (!this.graph) {
+      this.graph = this.createGraph();
+      this.apply(this.graph);
+    }
+    return this.graph;
+  }
+
+  private createGraph(): MasterGraph {
+    const ctx = this.getContext();
+
+    const input = ctx.createGain();
+    const volume = ctx.createGain();
+    // Brickwall-ish: a room full of drummers shouldn't clip the speakers
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.value = -3;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.002;
+    limiter.release.value = 0.1;
+    const meter = ctx.createAnalyser();
+    meter.fftSize = 512;
+
+    input.connect(volume);
+    volume.connect(limiter);
+    limiter.connect(meter);
+    meter.connect(ctx.destination);
+
+    // Reverb: a convolver with a generated decaying-noise impulse
+    const reverbSend = ctx.createGain();
+    const convolver = ctx.createConvolver();
+    convolver.buffer = this.createImpulse(ctx, REVERB_SECONDS);
+    const reverbReturn = ctx.createGain();
+    reverbSend.connect(convolver);
+    convolver.connect(reverbReturn);
+    reverbReturn.connect(input);
+
+    // Delay: each echo a little darker than the last
+    const delaySend = ctx.createGain();
+    const delay = ctx.createDelay(MAX_DELAY_TIME);
+    const damping = ctx.createBiquadFilter();
+    damping.type = "lowpass";
+    damping.frequency.value = 3500;
+    const feedback = ctx.createGain();
+    const delayReturn = ctx.createGain();
+    delaySend.connect(delay);
+    delay.connect(damping);
+    damping.connect(feedback);
+    feedback.connect(delay);
+    damping.connect(delayReturn);
+    delayReturn.connect(input);
+
+    return {
+      input,
+      volume,
+      limiter,
+      meter,
+      meterData: new Float32Array(meter.fftSize),
+      sends: { reverb: reverbSend, delay: delaySend },
+      returns: { reverb: reverbReturn, delay: delayReturn },
+      delay,
+      feedback,
+    };
+  }
+
+  private createImpulse(ctx: AudioContext, seconds: number): AudioBuffer {
+    const length = Math.floor(ctx.sampleRate * seconds);
+    const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+    for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+      const data = impulse.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+      }
+    }
+    return impulse;
+  }
+
+  private apply(graph: MasterGraph) {
+    const { volume, reverbReturn, delayReturn, delayTime, delayFeedback } = this.settings;
+    const now = this.getContext().currentTime;
+    // Short ramps so moving a control doesn't click
+    graph.volume.gain.setTargetAtTime(volume, now, 0.01);
+    graph.returns.reverb.gain.setTargetAtTime(reverbReturn, now, 0.01);
+    graph.returns.delay.gain.setTargetAtTime(delayReturn, now, 0.01);
+    graph.delay.delayTime.setTargetAtTime(delayTime, now, 0.05);
+    graph.feedback.gain.setTargetAtTime(delayFeedback, now, 0.01);
+  }
+
+  private load(): MasterSettings {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return { ...DEFAULT_MASTER_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (error) {
+      console.warn("⚠️ Could not load master settings:", error);
+      return DEFAULT_MASTER_SETTINGS;
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn("⚠️ Could not save master settings:", error);
+    }
+  }
+
+  private notify() {
+    this.snapshot = { settings: this.settings };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
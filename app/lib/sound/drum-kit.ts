@@ -1,17 +1,102 @@
+import { velocityToCutoff, velocityToGain } from "./dynamics";
+import { AudioEngine } from "./audio-engine";
+import { LOCAL_STRIP_ID, Mixer } from "./mixer";
+import { SampleKit, loadSampleKit } from "./sample-kit";
+import { DRUM_KIT_URL } from "@/app/lib/utils/config";
+
+export const DRUM_PIECES = [
+  "snare",
+  "rimshot",
+  "kick",
+  "hihat",
+  "hihat-open",
+  "tom-high",
+  "tom-mid",
+  "tom-floor",
+  "crash",
+  "ride",
+] as const;
+
+export type DrumPiece = (typeof DRUM_PIECES)[number];
+
+type ChokeGroup = "hihat" | "crash" | "ride";
+
+// Pieces that ring on and can be choked, by the group a choke silences
+const CHOKE_GROUPS: Partial<Record<DrumPiece, ChokeGroup>> = {
+  hihat: "hihat",
+  "hihat-open": "hihat",
+  crash: "crash",
+  ride: "ride",
+};
+
+// Hitting these chokes the rest of their group: closing the hats cuts an open hat off
+const CHOKING_PIECES: DrumPiece[] = ["hihat"];
+
+// How quickly a choked voice fades (time constant, seconds)
+const CHOKE_FADE_S = 0.02;
+// Voices older than this have stopped ringing and are no longer tracked
+const MAX_RING_S = 4;
+
+const TOMS: Record<"tom-high" | "tom-mid" | "tom-floor", { pitch: number; decay: number; pan: number }> = {
+  "tom-high": { pitch: 220, decay: 0.45, pan: -0.3 },
+  "tom-mid": { pitch: 160, decay: 0.6, pan: 0.05 },
+  "tom-floor": { pitch: 100, decay: 0.85, pan: 0.35 },
+};
+
+interface RingingVoice {
+  gain: GainNode;
+  startsAt: number; // AudioContext time
+}
+
+/**
+ * Where a hit that passed startHit() is synthesized
+ */
+interface HitContext {
+  ctx: AudioContext;
+  now: number; // AudioContext time the hit sounds
+  voice: GainNode; // choke point of this hit, feeding the bus
+}
+
 /**
  * Low-latency DrumKit using the Web Audio API.
- * Pre-generates a short noise buffer for snare hits and plays it immediately.
+ * Plays a sample kit (velocity layers + round robin, see sample-kit.ts) when
+ * one is available; any piece the kit lacks, or every piece until it has
+ * loaded, is synthesized instead from a pre-generated noise buffer and oscillators.
+ * Every hit takes a velocity (0-1) that sets its loudness and brightness,
+ * and an optional delay (seconds) to schedule it ahead on the audio clock.
+ * Cymbals and hi-hats ring in choke groups: choke() silences a group, and a
+ * closed hi-hat chokes an open one.
+ * Hits go to the given output node, or the local player's mixer strip,
+ * through a bus that dispose() detaches.
  */
 export class DrumKit {
   private audioCtx: AudioContext | null = null;
   private noiseBuffer: AudioBuffer | null = null;
   private initialized: boolean = false;
-
-  constructor() {}
+  private output: AudioNode | null;
+  private bus: GainNode | null = null;
+  private samples: SampleKit | null = null;
+  private ringing: Map<ChokeGroup, RingingVoice[]> = new Map();
+  private kitUrl: string;
+
+  /**
+   * @param output - Where hits go (defaults to the local player's mixer strip)
+   * @param kitUrl - Sample kit manifest to load ("" = synthesize every piece)
+   */
+  constructor(output?: AudioNode, kitUrl: string = DRUM_KIT_URL) {
+    this.output = output ?? null;
+    this.kitUrl = kitUrl;
+  }
 
   async initialize() {
     if (this.initialized) return;
-    this.audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const engine = AudioEngine.getInstance();
+    this.audioCtx = engine.getContext();
+    if (!this.bus) {
+      this.bus = this.audioCtx.createGain();
+      this.bus.connect(this.output ?? Mixer.getInstance().getStripInput(LOCAL_STRIP_ID));
+    }
+    await engine.resume();
 
     const sr = this.audioCtx.sampleRate;
     const duration = 0.4; // seconds
@@ -26,21 +111,155 @@ export class DrumKit {
 
     this.noiseBuffer = buffer;
     this.initialized = true;
+
+    // Synthesized hits play until the samples are decoded
+    if (this.kitUrl) {
+      loadSampleKit(this.audioCtx, this.kitUrl).then((kit) => {
+        if (this.initialized) this.samples = kit;
+      });
+    }
+  }
+
+  /**
+   * Play any piece of the kit
+   */
+  play(piece: DrumPiece, velocity: number = 1, delay: number = 0) {
+    switch (piece) {
+      case "snare":
+        this.playSnare(velocity, delay);
+        break;
+      case "rimshot":
+        this.playRimshot(velocity, delay);
+        break;
+      case "kick":
+        this.playKick(velocity, delay);
+        break;
+      case "hihat":
+        this.playHiHat(velocity, delay);
+        break;
+      case "hihat-open":
+        this.playOpenHiHat(velocity, delay);
+        break;
+      case "tom-high":
+      case "tom-mid":
+      case "tom-floor":
+        this.playTom(piece, velocity, delay);
+        break;
+      case "crash":
+        this.playCrash(velocity, delay);
+        break;
+      case "ride":
+        this.playRide(velocity, delay);
+        break;
+    }
+  }
+
+  /**
+   * Silence whatever is still ringing in a piece's choke group (grabbing a
+   * cymbal). Hits scheduled after the choke are left alone.
+   */
+  choke(piece: DrumPiece, delay: number = 0) {
+    const group = CHOKE_GROUPS[piece];
+    if (!group || !this.audioCtx) return;
+    this.chokeGroup(group, this.audioCtx.currentTime + delay);
   }
 
-  playSnare() {
-    if (!this.initialized || !this.audioCtx || !this.noiseBuffer) {
+  private chokeGroup(group: ChokeGroup, at: number) {
+    const voices = this.ringing.get(group) ?? [];
+    voices
+      .filter((voice) => voice.startsAt < at)
+      .forEach(({ gain }) => {
+        gain.gain.cancelScheduledValues(at);
+        gain.gain.setTargetAtTime(0, at, CHOKE_FADE_S);
+      });
+    this.ringing.set(
+      group,
+      voices.filter((voice) => voice.startsAt >= at)
+    );
+  }
+
+  /**
+   * Common start of every hit: initialize if needed, apply choke groups and
+   * play the kit's sample when it has one. Returns where to synthesize the
+   * hit, or null when there is nothing left to do.
+   */
+  private startHit(piece: DrumPiece, velocity: number, delay: number): HitContext | null {
+    if (!this.initialized || !this.audioCtx || !this.noiseBuffer || !this.bus) {
       // Best-effort initialize if not yet done (caller should call initialize on gesture)
       this.initialize().catch(() => {});
-      return;
+      return null;
     }
 
     const ctx = this.audioCtx;
-    const now = ctx.currentTime;
+    const now = ctx.currentTime + delay;
+    const group = CHOKE_GROUPS[piece];
+    if (group && CHOKING_PIECES.includes(piece)) this.chokeGroup(group, now);
+
+    const voice = ctx.createGain();
+    voice.connect(this.bus);
+    if (group) {
+      const voices = (this.ringing.get(group) ?? []).filter(
+        (ringing) => ringing.startsAt > ctx.currentTime - MAX_RING_S
+      );
+      voices.push({ gain: voice, startsAt: now });
+      this.ringing.set(group, voices);
+    }
+
+    if (this.playSample(piece, velocity, now, voice)) return null;
+    return { ctx, now, voice };
+  }
+
+  /**
+   * Play a piece from the sample kit. Returns false when it has to be synthesized.
+   */
+  private playSample(piece: DrumPiece, velocity: number, at: number, output: AudioNode): boolean {
+    const buffer = this.samples?.pick(piece, velocity);
+    if (!buffer || !this.audioCtx) return false;
+
+    const ctx = this.audioCtx;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    // The layer already sounds soft or hard; velocity fine-tunes the level within it
+    const level = ctx.createGain();
+    level.gain.value = velocityToGain(velocity);
+    source.connect(level);
+    level.connect(output);
+    source.start(at);
+    return true;
+  }
+
+  /**
+   * Per-hit output stage: velocity sets the level and how far a lowpass
+   * opens (soft hits are darker). Returns the node to connect the voice to.
+   */
+  private createDynamicsOutput(
+    ctx: AudioContext,
+    velocity: number,
+    minCutoff: number,
+    maxCutoff: number,
+    output: AudioNode
+  ): AudioNode {
+    const level = ctx.createGain();
+    level.gain.value = velocityToGain(velocity);
+
+    const tone = ctx.createBiquadFilter();
+    tone.type = "lowpass";
+    tone.frequency.value = velocityToCutoff(velocity, minCutoff, maxCutoff);
+    tone.Q.value = 0.5;
+
+    level.connect(tone);
+    tone.connect(output);
+    return level;
+  }
+
+  playSnare(velocity: number = 1, delay: number = 0) {
+    const hit = this.startHit("snare", velocity, delay);
+    if (!hit) return;
+    const { ctx, now, voice } = hit;
 
     // --- noise (rattle) path ---
     const noiseSrc = ctx.createBufferSource();
-    noiseSrc.buffer = this.noiseBuffer!;
+    noiseSrc.buffer = this.noiseBuffer;
     // short slice for snare
     const noiseGain = ctx.createGain();
     noiseGain.gain.setValueAtTime(0.0001, now);
@@ -105,7 +324,7 @@ export class DrumKit {
     clickGain.connect(mix);
 
     mix.connect(comp);
-    comp.connect(ctx.destination);
+    comp.connect(this.createDynamicsOutput(ctx, velocity, 3000, 16000, voice));
 
     // Start sources
     noiseSrc.start(now);
@@ -116,14 +335,10 @@ export class DrumKit {
     clickSrc.stop(now + 0.06);
   }
 
-  playHiHat() {
-    if (!this.initialized || !this.audioCtx || !this.noiseBuffer) {
-      this.initialize().catch(() => {});
-      return;
-    }
-
-    const ctx = this.audioCtx;
-    const now = ctx.currentTime;
+  playHiHat(velocity: number = 1, delay: number = 0) {
+    const hit = this.startHit("hihat", velocity, delay);
+    if (!hit) return;
+    const { ctx, now, voice } = hit;
 
     // Use the pre-created noise buffer but play a very short slice
     const src = ctx.createBufferSource();
@@ -185,10 +400,12 @@ export class DrumKit {
   shelf.frequency.value = 8000;
   shelf.gain.value = 6;
 
+  const output = this.createDynamicsOutput(ctx, velocity, 6000, 20000, voice);
+
   master.connect(shelf);
   clickG.connect(shelf);
   shelf.connect(finalGain);
-  finalGain.connect(ctx.destination);
+  finalGain.connect(output);
 
     // create a small 'splash' reverb using parallel short delays with feedback
     const reverbMix = ctx.createGain();
@@ -233,17 +450,13 @@ export class DrumKit {
     clickG.connect(finalGain);
     reverbMix.connect(finalGain);
     finalGain.connect(panner);
-    panner.connect(ctx.destination);
+    panner.connect(output);
   }
 
-  playKick() {
-    if (!this.initialized || !this.audioCtx) {
-      this.initialize().catch(() => {});
-      return;
-    }
-
-    const ctx = this.audioCtx;
-    const now = ctx.currentTime;
+  playKick(velocity: number = 1, delay: number = 0) {
+    const hit = this.startHit("kick", velocity, delay);
+    if (!hit) return;
+    const { ctx, now, voice } = hit;
 
     // transient click for attack
     const sr = ctx.sampleRate;
@@ -301,7 +514,7 @@ export class DrumKit {
     clickG.connect(mix);
 
     // final output
-    mix.connect(ctx.destination);
+    mix.connect(this.createDynamicsOutput(ctx, velocity, 2500, 12000, voice));
 
     click.start(now);
     click.stop(now + 0.06);
@@ -309,14 +522,10 @@ export class DrumKit {
     osc.stop(now + 0.6);
   }
 
-  playCrash() {
-    if (!this.initialized || !this.audioCtx || !this.noiseBuffer) {
-      this.initialize().catch(() => {});
-      return;
-    }
-
-    const ctx = this.audioCtx;
-    const now = ctx.currentTime;
+  playCrash(velocity: number = 1, delay: number = 0) {
+    const hit = this.startHit("crash", velocity, delay);
+    if (!hit) return;
+    const { ctx, now, voice } = hit;
     const sr = ctx.sampleRate;
 
     // Longer noise burst for crash
@@ -377,22 +586,227 @@ export class DrumKit {
     master.connect(finalGain);
     reverbMix.connect(finalGain);
     finalGain.connect(panner);
-    panner.connect(ctx.destination);
+    panner.connect(this.createDynamicsOutput(ctx, velocity, 4000, 20000, voice));
 
     src.start(now);
     src.stop(now + 0.22);
   }
 
+  /**
+   * Stick across the snare's rim and head at once: a short, cutting crack
+   */
+  playRimshot(velocity: number = 1, delay: number = 0) {
+    const hit = this.startHit("rimshot", velocity, delay);
+    if (!hit) return;
+    const { ctx, now, voice } = hit;
+    const sr = ctx.sampleRate;
+
+    // sharp crack from a slice of the noise buffer
+    const noiseSrc = ctx.createBufferSource();
+    noiseSrc.buffer = this.noiseBuffer;
+    const band = ctx.createBiquadFilter();
+    band.type = "bandpass";
+    band.frequency.value = 3500;
+    band.Q.value = 2;
+    const noiseGain = ctx.createGain();
+    noiseGain.gain.setValueAtTime(0.0001, now);
+    noiseGain.gain.exponentialRampToValueAtTime(1.2, now + 0.002);
+    noiseGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.09);
+    noiseSrc.connect(band);
+    band.connect(noiseGain);
+
+    // ringing rim: a higher, shorter body than the snare's
+    const rimOsc = ctx.createOscillator();
+    rimOsc.type = "triangle";
+    rimOsc.frequency.setValueAtTime(420, now);
+    rimOsc.frequency.exponentialRampToValueAtTime(300, now + 0.1);
+    const rimGain = ctx.createGain();
+    rimGain.gain.setValueAtTime(0.0001, now);
+    rimGain.gain.exponentialRampToValueAtTime(0.9, now + 0.003);
+    rimGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.14);
+    rimOsc.connect(rimGain);
+
+    // stick click
+    const clickBuf = ctx.createBuffer(1, Math.floor(sr * 0.008), sr);
+    const clickData = clickBuf.getChannelData(0);
+    for (let i = 0; i < clickData.length; i++) clickData[i] = (Math.random() * 2 - 1) * Math.exp(-i / (sr * 0.0015));
+    const click = ctx.createBufferSource();
+    click.buffer = clickBuf;
+    const clickHP = ctx.createBiquadFilter();
+    clickHP.type = "highpass";
+    clickHP.frequency.value = 3000;
+    click.connect(clickHP);
+
+    const output = this.createDynamicsOutput(ctx, velocity, 4000, 18000, voice);
+    noiseGain.connect(output);
+    rimGain.connect(output);
+    clickHP.connect(output);
+
+    noiseSrc.start(now);
+    noiseSrc.stop(now + 0.1);
+    rimOsc.start(now);
+    rimOsc.stop(now + 0.15);
+    click.start(now);
+    click.stop(now + 0.01);
+  }
+
+  /**
+   * Open hi-hat: the closed hat's metallic bands with a long sizzle.
+   * It rings until it fades, a closed hi-hat hits or it's choked.
+   */
+  playOpenHiHat(velocity: number = 1, delay: number = 0) {
+    const hit = this.startHit("hihat-open", velocity, delay);
+    if (!hit) return;
+    const { ctx, now, voice } = hit;
+    const sr = ctx.sampleRate;
+
+    const len = Math.floor(sr * 0.9);
+    const buf = ctx.createBuffer(1, len, sr);
+    const out = buf.getChannelData(0);
+    for (let i = 0; i < len; i++) out[i] = Math.random() * 2 - 1;
+    const src = ctx.createBufferSource();
+    src.buffer = buf;
+
+    const master = ctx.createGain();
+    [7000, 9000, 11000, 13000].forEach((f, i) => {
+      const bp = ctx.createBiquadFilter();
+      bp.type = "bandpass";
+      bp.frequency.value = f;
+      bp.Q.value = 6 + i * 2;
+      const g = ctx.createGain();
+      g.gain.value = 0.5 + i * 0.2;
+      src.connect(bp);
+      bp.connect(g);
+      g.connect(master);
+    });
+
+    const finalGain = ctx.createGain();
+    finalGain.gain.setValueAtTime(0.0001, now);
+    finalGain.gain.exponentialRampToValueAtTime(1.6, now + 0.003);
+    finalGain.gain.exponentialRampToValueAtTime(0.3, now + 0.15);
+    finalGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.85);
+
+    // Same spot in the stereo field as the closed hat
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = 0.25;
+
+    master.connect(finalGain);
+    finalGain.connect(panner);
+    panner.connect(this.createDynamicsOutput(ctx, velocity, 6000, 20000, voice));
+
+    src.start(now);
+    src.stop(now + 0.9);
+  }
+
+  /**
+   * Toms: a pitched membrane that drops slightly as it decays, plus a stick attack
+   */
+  playTom(piece: keyof typeof TOMS, velocity: number = 1, delay: number = 0) {
+    const hit = this.startHit(piece, velocity, delay);
+    if (!hit) return;
+    const { ctx, now, voice } = hit;
+    const { pitch, decay, pan } = TOMS[piece];
+
+    const osc = ctx.createOscillator();
+    osc.type = "sine";
+    osc.frequency.setValueAtTime(pitch * 1.5, now);
+    osc.frequency.exponentialRampToValueAtTime(pitch, now + 0.05);
+    osc.frequency.exponentialRampToValueAtTime(pitch * 0.85, now + decay);
+    const oscGain = ctx.createGain();
+    oscGain.gain.setValueAtTime(0.0001, now);
+    oscGain.gain.exponentialRampToValueAtTime(1.0, now + 0.005);
+    oscGain.gain.exponentialRampToValueAtTime(0.0001, now + decay);
+    osc.connect(oscGain);
+
+    // stick attack from the noise buffer, tuned to the drum
+    const noiseSrc = ctx.createBufferSource();
+    noiseSrc.buffer = this.noiseBuffer;
+    const band = ctx.createBiquadFilter();
+    band.type = "bandpass";
+    band.frequency.value = pitch * 6;
+    band.Q.value = 1;
+    const noiseGain = ctx.createGain();
+    noiseGain.gain.setValueAtTime(0.0001, now);
+    noiseGain.gain.exponentialRampToValueAtTime(0.5, now + 0.002);
+    noiseGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.05);
+    noiseSrc.connect(band);
+    band.connect(noiseGain);
+
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+    oscGain.connect(panner);
+    noiseGain.connect(panner);
+    panner.connect(this.createDynamicsOutput(ctx, velocity, 1500, 9000, voice));
+
+    osc.start(now);
+    osc.stop(now + decay);
+    noiseSrc.start(now);
+    noiseSrc.stop(now + 0.06);
+  }
+
+  /**
+   * Ride: a cluster of inharmonic square partials (the classic metallic
+   * recipe) with a bell ping on top and a long wash
+   */
+  playRide(velocity: number = 1, delay: number = 0) {
+    const hit = this.startHit("ride", velocity, delay);
+    if (!hit) return;
+    const { ctx, now, voice } = hit;
+
+    const partials = ctx.createGain();
+    partials.gain.value = 0.12;
+    const oscillators = [410, 609, 739, 1045, 1080, 1600].map((f) => {
+      const osc = ctx.createOscillator();
+      osc.type = "square";
+      osc.frequency.value = f;
+      osc.connect(partials);
+      return osc;
+    });
+
+    const hp = ctx.createBiquadFilter();
+    hp.type = "highpass";
+    hp.frequency.value = 5000;
+    const washGain = ctx.createGain();
+    washGain.gain.setValueAtTime(0.0001, now);
+    washGain.gain.exponentialRampToValueAtTime(1.0, now + 0.004);
+    washGain.gain.exponentialRampToValueAtTime(0.25, now + 0.2);
+    washGain.gain.exponentialRampToValueAtTime(0.0001, now + 2.2);
+    partials.connect(hp);
+    hp.connect(washGain);
+
+    const bell = ctx.createOscillator();
+    bell.type = "sine";
+    bell.frequency.value = 2600;
+    const bellGain = ctx.createGain();
+    bellGain.gain.setValueAtTime(0.0001, now);
+    bellGain.gain.exponentialRampToValueAtTime(0.35, now + 0.003);
+    bellGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.7);
+    bell.connect(bellGain);
+
+    // Opposite side from the crash
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = 0.45;
+    washGain.connect(panner);
+    bellGain.connect(panner);
+    panner.connect(this.createDynamicsOutput(ctx, velocity, 5000, 20000, voice));
+
+    oscillators.forEach((osc) => {
+      osc.start(now);
+      osc.stop(now + 2.2);
+    });
+    bell.start(now);
+    bell.stop(now + 0.7);
+  }
+
   dispose() {
-    if (this.audioCtx) {
-      try {
-        this.audioCtx.close();
-      } catch (e) {
-        // ignore
-      }
-      this.audioCtx = null;
-    }
-      this.noiseBuffer = null;
+    // The AudioContext is shared, so only our own bus is detached (this
+    // also silences hits still ringing)
+    this.bus?.disconnect();
+    this.bus = null;
+    this.audioCtx = null;
+    this.samples = null;
+    this.ringing.clear();
+    this.noiseBuffer = null;
     this.initialized = false;
   }
 }
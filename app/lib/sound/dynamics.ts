@@ -0,0 +1,65 @@
+/**
+ * Velocity → dynamics mapping shared by every instrument.
+ * A velocity is a normalized strike strength: 0 = softest, 1 = hardest.
+ */
+
+// Quietest hit that still registers (as a velocity)
+export const MIN_HIT_VELOCITY = 0.2;
+
+// Loudness range covered by velocity 0..1
+const DYNAMIC_RANGE_DB = 24;
+
+/**
+ * Clamp to 0..1 (missing/invalid values are treated as full strength,
+ * which is how sounds played before velocities existed)
+ */
+export function clampVelocity(velocity: number | undefined): number {
+  if (velocity === undefined || !Number.isFinite(velocity)) return 1;
+  return Math.max(0, Math.min(1, velocity));
+}
+
+/**
+ * Map a detected hand speed onto a velocity.
+ * `minSpeed` (the trigger threshold) gives the softest hit, `maxSpeed` the hardest.
+ */
+export function speedToVelocity(
+  speed: number,
+  minSpeed: number,
+  maxSpeed: number
+): number {
+  if (maxSpeed <= minSpeed) return 1;
+  const t = Math.max(0, Math.min(1, (speed - minSpeed) / (maxSpeed - minSpeed)));
+  return MIN_HIT_VELOCITY + t * (1 - MIN_HIT_VELOCITY);
+}
+
+/**
+ * Linear gain for a velocity (equal steps in dB feel like equal steps in loudness)
+ */
+export function velocityToGain(velocity: number): number {
+  const db = (clampVelocity(velocity) - 1) * DYNAMIC_RANGE_DB;
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Lowpass cutoff for a velocity: soft hits are darker, hard hits brighter.
+ * Interpolates exponentially because pitch perception is logarithmic.
+ */
+export function velocityToCutoff(
+  velocity: number,
+  minHz: number,
+  maxHz: number
+): number {
+  return minHz * Math.pow(maxHz / minHz, clampVelocity(velocity));
+}
+
+/**
+ * Pick a sample layer ordered softest → hardest
+ */
+export function pickVelocityLayer<T>(layers: T[], velocity: number): T | undefined {
+  if (layers.length === 0) return undefined;
+  const index = Math.min(
+    layers.length - 1,
+    Math.floor(clampVelocity(velocity) * layers.length)
+  );
+  return layers[index];
+}
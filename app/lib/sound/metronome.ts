@@ -0,0 +1,314 @@
+import { AudioEngine } from "./audio-engine";
+
+/**
+ * Metronome / tempo clock
+ * Clicks are scheduled ahead on the shared AudioContext and played through
+ * the master bus, so they land sample-accurately regardless of main-thread
+ * jitter. One instance is shared by every player and the jam session.
+ */
+
+export interface MetronomeSettings {
+  bpm: number;
+  beatsPerBar: number; // time signature numerator
+  beatUnit: number; // time signature denominator (4 = quarter note)
+  accent: boolean; // louder, higher click on the downbeat
+  countInBars: number; // bars of clicks before beat 0
+  volume: number; // 0..1
+}
+
+export interface BeatInfo {
+  beat: number; // absolute beat index; negative during the count-in
+  bar: number; // bar index (negative during the count-in)
+  beatInBar: number; // 0-based position in the bar
+  isCountIn: boolean;
+  time: number; // AudioContext time of the click
+}
+
+/**
+ * The shareable state of the clock. Times are wall-clock ms (Date.now())
+ * so peers can translate them with a clock offset.
+ */
+export interface TempoClock {
+  bpm: number;
+  beatsPerBar: number;
+  beatUnit: number;
+  running: boolean;
+  beatZeroAt: number; // wall-clock ms of beat 0
+}
+
+export interface MetronomeSnapshot {
+  settings: MetronomeSettings;
+  running: boolean;
+}
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  bpm: 100,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  accent: true,
+  countInBars: 1,
+  volume: 0.5,
+};
+
+// Scheduler: wake up every LOOKAHEAD_MS and schedule clicks within SCHEDULE_AHEAD_S
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD_S = 0.1;
+// Delay before the first click so it can be scheduled in time
+const START_DELAY_S = 0.1;
+
+const CLICK_DURATION_S = 0.03;
+const ACCENT_FREQUENCY = 1600;
+const CLICK_FREQUENCY = 1000;
+
+export class Metronome {
+  private static instance: Metronome | null = null;
+
+  private settings: MetronomeSettings = { ...DEFAULT_METRONOME_SETTINGS };
+  private running = false;
+  private beatZeroTime = 0; // AudioContext time of beat 0
+  private nextBeat = 0; // next beat index to schedule
+  private scheduledUntil = 0; // clicks before this AudioContext time are already queued
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private output: GainNode | null = null;
+  private beatTimeouts: Set<ReturnType<typeof setTimeout>> = new Set();
+  private beatListeners: Set<(beat: BeatInfo) => void> = new Set();
+  private listeners: Set<() => void> = new Set();
+  private snapshot: MetronomeSnapshot = { settings: this.settings, running: false };
+
+  static getInstance(): Metronome {
+    if (!Metronome.instance) {
+      Metronome.instance = new Metronome();
+    }
+    return Metronome.instance;
+  }
+
+  /**
+   * The shared AudioContext the clicks are scheduled on
+   */
+  getContext(): AudioContext {
+    return AudioEngine.getInstance().getContext();
+  }
+
+  /**
+   * Unlock audio (must follow a user gesture)
+   */
+  async initialize() {
+    const engine = AudioEngine.getInstance();
+    await engine.resume();
+    if (!this.output) {
+      this.output = this.getContext().createGain();
+      this.output.gain.value = this.settings.volume;
+      this.output.connect(engine.getMasterInput());
+    }
+  }
+
+  /**
+   * Start clicking after the count-in
+   */
+  async start() {
+    await this.initialize();
+    const { countInBars, beatsPerBar } = this.settings;
+    const countInBeats = Math.max(0, countInBars) * beatsPerBar;
+    const firstClick = this.getContext().currentTime + START_DELAY_S;
+    this.startAt(firstClick + countInBeats * this.getBeatDuration(), -countInBeats);
+  }
+
+  stop() {
+    if (!this.running) return;
+    this.running = false;
+    this.scheduledUntil = 0;
+    this.stopTimer();
+    this.beatTimeouts.forEach((timeout) => clearTimeout(timeout));
+    this.beatTimeouts.clear();
+    this.notify();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getSettings(): MetronomeSettings {
+    return this.settings;
+  }
+
+  /**
+   * Update settings. A tempo change while running keeps the current beat position.
+   */
+  updateSettings(settings: Partial<MetronomeSettings>) {
+    const position = this.running ? this.getBeatAt(this.getContext().currentTime) : 0;
+    this.settings = { ...this.settings, ...settings };
+    if (this.output) this.output.gain.value = this.settings.volume;
+    if (this.running) {
+      // Re-anchor so the current (fractional) beat stays where it is
+      this.beatZeroTime = this.getContext().currentTime - position * this.getBeatDuration();
+    }
+    this.notify();
+  }
+
+  /**
+   * Seconds per beat (the beat unit counts, so 6/8 clicks eighth notes)
+   */
+  getBeatDuration(): number {
+    const { bpm, beatUnit } = this.settings;
+    return (60 / bpm) * (4 / beatUnit);
+  }
+
+  /**
+   * Fractional beat index at an AudioContext time
+   */
+  getBeatAt(time: number): number {
+    return (time - this.beatZeroTime) / this.getBeatDuration();
+  }
+
+  /**
+   * Where the clock is right now (null when stopped)
+   */
+  getCurrentBeat(): BeatInfo | null {
+    if (!this.running) return null;
+    const beat = Math.floor(this.getBeatAt(this.getContext().currentTime));
+    return this.describeBeat(beat);
+  }
+
+  /**
+   * Current state for sharing with peers
+   */
+  getClock(): TempoClock {
+    const { bpm, beatsPerBar, beatUnit } = this.settings;
+    return {
+      bpm,
+      beatsPerBar,
+      beatUnit,
+      running: this.running,
+      beatZeroAt: this.audioTimeToWallClock(this.beatZeroTime),
+    };
+  }
+
+  /**
+   * Follow a clock from another peer
+   * @param clockOffsetMs - Their wall clock minus ours
+   */
+  async applyClock(clock: TempoClock, clockOffsetMs: number = 0) {
+    const { bpm, beatsPerBar, beatUnit } = clock;
+    this.settings = { ...this.settings, bpm, beatsPerBar, beatUnit };
+
+    if (!clock.running) {
+      this.stop();
+      this.notify();
+      return;
+    }
+
+    await this.initialize();
+    const beatZero = this.wallClockToAudioTime(clock.beatZeroAt - clockOffsetMs);
+    // Pick up from the next whole beat
+    const now = this.getContext().currentTime;
+    this.startAt(beatZero, Math.ceil((now - beatZero) / this.getBeatDuration()));
+  }
+
+  /**
+   * Called for every beat, at the moment it sounds. Returns an unsubscribe function.
+   */
+  onBeat(listener: (beat: BeatInfo) => void): () => void {
+    this.beatListeners.add(listener);
+    return () => {
+      this.beatListeners.delete(listener);
+    };
+  }
+
+  getSnapshot = (): MetronomeSnapshot => this.snapshot;
+
+  /**
+   * Be notified when settings or running state change. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private startAt(beatZeroTime: number, firstBeat: number) {
+    this.stopTimer();
+    this.beatZeroTime = beatZeroTime;
+    this.nextBeat = firstBeat;
+    this.running = true;
+    this.schedule();
+    this.timer = setInterval(this.schedule, LOOKAHEAD_MS);
+    this.notify();
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private describeBeat(beat: number): BeatInfo {
+    const { beatsPerBar } = this.settings;
+    return {
+      beat,
+      bar: Math.floor(beat / beatsPerBar),
+      beatInBar: ((beat % beatsPerBar) + beatsPerBar) % beatsPerBar,
+      isCountIn: beat < 0,
+      time: this.beatZeroTime + beat * this.getBeatDuration(),
+    };
+  }
+
+  /**
+   * Schedule every click that falls inside the lookahead window
+   */
+  private schedule = () => {
+    const ctx = this.getContext();
+    const horizon = ctx.currentTime + SCHEDULE_AHEAD_S;
+
+    while (this.running) {
+      const info = this.describeBeat(this.nextBeat);
+      if (info.time >= horizon) break;
+      // Re-anchoring (tempo change, peer clock) must not queue a click twice
+      if (info.time >= ctx.currentTime && info.time >= this.scheduledUntil) {
+        this.scheduleClick(info);
+        this.scheduleBeatCallback(info);
+      }
+      this.nextBeat++;
+    }
+    this.scheduledUntil = horizon;
+  };
+
+  private scheduleClick(info: BeatInfo) {
+    if (!this.output) return;
+    const ctx = this.getContext();
+    const accented = this.settings.accent && info.beatInBar === 0;
+
+    const osc = ctx.createOscillator();
+    osc.frequency.value = accented ? ACCENT_FREQUENCY : CLICK_FREQUENCY;
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(accented ? 1 : 0.6, info.time);
+    env.gain.exponentialRampToValueAtTime(0.001, info.time + CLICK_DURATION_S);
+    osc.connect(env);
+    env.connect(this.output);
+    osc.start(info.time);
+    osc.stop(info.time + CLICK_DURATION_S);
+  }
+
+  private scheduleBeatCallback(info: BeatInfo) {
+    const delayMs = (info.time - this.getContext().currentTime) * 1000;
+    const timeout = setTimeout(() => {
+      this.beatTimeouts.delete(timeout);
+      this.beatListeners.forEach((listener) => listener(info));
+    }, Math.max(0, delayMs));
+    this.beatTimeouts.add(timeout);
+  }
+
+  private audioTimeToWallClock(time: number): number {
+    return Date.now() + (time - this.getContext().currentTime) * 1000;
+  }
+
+  private wallClockToAudioTime(ms: number): number {
+    return this.getContext().currentTime + (ms - Date.now()) / 1000;
+  }
+
+  private notify() {
+    this.snapshot = { settings: this.settings, running: this.running };
+    this.listeners.forEach((listener) => listener());
+  }
+}
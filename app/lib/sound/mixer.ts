@@ -0,0 +1,303 @@
+import { AudioEngine, SendEffect } from "./audio-engine";
+
+/**
+ * Mixer
+ * One channel strip per sound source: the local player and every jam peer.
+ * Sound engines connect to their strip's input instead of the destination:
+ *
+ *   input → pan → volume → mute/solo ─┬→ meter → master bus
+ *                                      └→ reverb / delay sends
+ *
+ * The master bus and the send effects live in the AudioEngine.
+ * Strip settings are remembered per jam room in localStorage.
+ */
+
+export const LOCAL_STRIP_ID = "local";
+
+const STORAGE_PREFIX = "airstrument:mixer:";
+// Slider range of a strip's volume (1 = unity gain)
+export const MAX_STRIP_VOLUME = 1.5;
+
+export interface StripSettings {
+  volume: number; // linear gain, 0..MAX_STRIP_VOLUME
+  pan: number; // -1 (left) .. 1 (right)
+  muted: boolean;
+  solo: boolean;
+  reverb: number; // send level, 0..1
+  delay: number; // send level, 0..1
+}
+
+export const DEFAULT_STRIP_SETTINGS: StripSettings = {
+  volume: 1,
+  pan: 0,
+  muted: false,
+  solo: false,
+  reverb: 0.15,
+  delay: 0,
+};
+
+export interface MixerStrip {
+  id: string;
+  instrument?: string; // remote strips: what the peer plays
+  settings: StripSettings;
+}
+
+export interface MixerSnapshot {
+  strips: MixerStrip[];
+}
+
+interface ChannelStrip {
+  instrument?: string;
+  settings: StripSettings;
+  input: GainNode;
+  panner: StereoPannerNode;
+  volume: GainNode;
+  gate: GainNode; // closed while muted or another strip is soloed
+  sends: Record<SendEffect, GainNode>; // post-fader, so mute and solo apply
+  meter: AnalyserNode;
+  meterData: Float32Array<ArrayBuffer>;
+}
+
+/**
+ * What's saved for a room. Peer ids change whenever someone rejoins, so
+ * remote strips are also saved by instrument as a fallback.
+ */
+interface SavedMix {
+  strips: Record<string, StripSettings>;
+  instruments: Record<string, StripSettings>;
+}
+
+export class Mixer {
+  private static instance: Mixer | null = null;
+
+  private strips: Map<string, ChannelStrip> = new Map();
+  private roomId: string | null = null;
+  private saved: SavedMix = { strips: {}, instruments: {} };
+  private listeners: Set<() => void> = new Set();
+  private snapshot: MixerSnapshot = { strips: [] };
+
+  static getInstance(): Mixer {
+    if (!Mixer.instance) {
+      Mixer.instance = new Mixer();
+    }
+    return Mixer.instance;
+  }
+
+  /**
+   * Node a sound source should connect to. The strip is created on first use.
+   */
+  getStripInput(id: string): AudioNode {
+    const created = !this.strips.has(id);
+    const strip = this.getOrCreateStrip(id);
+    if (created) this.notify();
+    return strip.input;
+  }
+
+  /**
+   * Load the mix saved for a jam room (null = not in a room: back to defaults).
+   * Peers of the previous room are dropped.
+   */
+  setRoom(roomId: string | null) {
+    this.strips.forEach((strip, id) => {
+      if (id !== LOCAL_STRIP_ID) this.disconnectStrip(id, strip);
+    });
+    this.roomId = roomId;
+    this.saved = roomId ? this.load(roomId) : { strips: {}, instruments: {} };
+    this.getOrCreateStrip(LOCAL_STRIP_ID);
+    this.strips.forEach((strip, id) => {
+      strip.settings = this.getSavedSettings(id, strip.instrument);
+    });
+    this.applyAll();
+    this.notify();
+  }
+
+  /**
+   * Add (or relabel) a remote peer's strip
+   */
+  addPeer(peerId: string, instrument: string) {
+    const existing = this.strips.get(peerId);
+    if (existing) {
+      if (existing.instrument === instrument) return;
+      existing.instrument = instrument;
+      // Without a mix of its own, the strip takes the one saved for its instrument
+      if (!this.saved.strips[peerId]) {
+        existing.settings = this.getSavedSettings(peerId, instrument);
+        this.applyAll();
+      }
+      this.notify();
+      return;
+    }
+    this.getOrCreateStrip(peerId, instrument);
+    this.applyAll();
+    this.notify();
+  }
+
+  removePeer(peerId: string) {
+    const strip = this.strips.get(peerId);
+    if (!strip || peerId === LOCAL_STRIP_ID) return;
+    this.disconnectStrip(peerId, strip);
+    // A soloed peer leaving shouldn't keep everyone else silent
+    this.applyAll();
+    this.notify();
+  }
+
+  updateStrip(id: string, settings: Partial<StripSettings>) {
+    const strip = this.strips.get(id);
+    if (!strip) return;
+
+    strip.settings = { ...strip.settings, ...settings };
+    strip.settings.volume = Math.max(0, Math.min(MAX_STRIP_VOLUME, strip.settings.volume));
+    strip.settings.pan = Math.max(-1, Math.min(1, strip.settings.pan));
+    strip.settings.reverb = Math.max(0, Math.min(1, strip.settings.reverb));
+    strip.settings.delay = Math.max(0, Math.min(1, strip.settings.delay));
+
+    this.saved.strips[id] = strip.settings;
+    if (strip.instrument) this.saved.instruments[strip.instrument] = strip.settings;
+    this.save();
+
+    this.applyAll();
+    this.notify();
+  }
+
+  /**
+   * Current peak level of a strip after its fader (0..1), for meters
+   */
+  getLevel(id: string): number {
+    const strip = this.strips.get(id);
+    if (!strip) return 0;
+    strip.meter.getFloatTimeDomainData(strip.meterData);
+    let peak = 0;
+    for (let i = 0; i < strip.meterData.length; i++) {
+      peak = Math.max(peak, Math.abs(strip.meterData[i]));
+    }
+    return Math.min(1, peak);
+  }
+
+  getSnapshot = (): MixerSnapshot => this.snapshot;
+
+  /**
+   * Be notified when strips are added, removed or changed. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private getOrCreateStrip(id: string, instrument?: string): ChannelStrip {
+    const existing = this.strips.get(id);
+    if (existing) return existing;
+
+    const engine = AudioEngine.getInstance();
+    const ctx = engine.getContext();
+    const input = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    const volume = ctx.createGain();
+    const gate = ctx.createGain();
+    const meter = ctx.createAnalyser();
+    meter.fftSize = 512;
+
+    input.connect(panner);
+    panner.connect(volume);
+    volume.connect(gate);
+    gate.connect(meter);
+    meter.connect(engine.getMasterInput());
+
+    const sends = { reverb: ctx.createGain(), delay: ctx.createGain() };
+    (Object.keys(sends) as SendEffect[]).forEach((effect) => {
+      gate.connect(sends[effect]);
+      sends[effect].connect(engine.getSendInput(effect));
+    });
+
+    const strip: ChannelStrip = {
+      instrument,
+      settings: this.getSavedSettings(id, instrument),
+      input,
+      panner,
+      volume,
+      gate,
+      sends,
+      meter,
+      meterData: new Float32Array(meter.fftSize),
+    };
+    this.strips.set(id, strip);
+    this.apply(strip, this.isAnySoloed());
+    return strip;
+  }
+
+  private disconnectStrip(id: string, strip: ChannelStrip) {
+    strip.input.disconnect();
+    strip.meter.disconnect();
+    strip.sends.reverb.disconnect();
+    strip.sends.delay.disconnect();
+    this.strips.delete(id);
+  }
+
+  private getSavedSettings(id: string, instrument?: string): StripSettings {
+    // Mixes saved before a setting existed get its default
+    return {
+      ...DEFAULT_STRIP_SETTINGS,
+      ...(this.saved.strips[id] ?? (instrument ? this.saved.instruments[instrument] : undefined)),
+    };
+  }
+
+  private isAnySoloed(): boolean {
+    return [...this.strips.values()].some((strip) => strip.settings.solo);
+  }
+
+  private applyAll() {
+    const anySoloed = this.isAnySoloed();
+    this.strips.forEach((strip) => this.apply(strip, anySoloed));
+  }
+
+  private apply(strip: ChannelStrip, anySoloed: boolean) {
+    const { volume, pan, muted, solo, reverb, delay } = strip.settings;
+    const now = AudioEngine.getInstance().getContext().currentTime;
+    const open = !muted && (!anySoloed || solo);
+    // Short ramps so fader moves don't click
+    strip.volume.gain.setTargetAtTime(volume, now, 0.01);
+    strip.panner.pan.setTargetAtTime(pan, now, 0.01);
+    strip.gate.gain.setTargetAtTime(open ? 1 : 0, now, 0.01);
+    strip.sends.reverb.gain.setTargetAtTime(reverb, now, 0.01);
+    strip.sends.delay.gain.setTargetAtTime(delay, now, 0.01);
+  }
+
+  private load(roomId: string): SavedMix {
+    try {
+      const raw = localStorage.getItem(STORAGE_PREFIX + roomId);
+      const parsed = raw ? JSON.parse(raw) : null;
+      return {
+        strips: parsed?.strips ?? {},
+        instruments: parsed?.instruments ?? {},
+      };
+    } catch (error) {
+      console.warn("⚠️ Could not load saved mix:", error);
+      return { strips: {}, instruments: {} };
+    }
+  }
+
+  private save() {
+    if (!this.roomId) return;
+    try {
+      localStorage.setItem(STORAGE_PREFIX + this.roomId, JSON.stringify(this.saved));
+    } catch (error) {
+      console.warn("⚠️ Could not save mix:", error);
+    }
+  }
+
+  private createSnapshot(): MixerSnapshot {
+    return {
+      strips: [...this.strips.entries()].map(([id, strip]) => ({
+        id,
+        instrument: strip.instrument,
+        settings: strip.settings,
+      })),
+    };
+  }
+
+  private notify() {
+    this.snapshot = this.createSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
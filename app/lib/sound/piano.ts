@@ -1,11 +1,17 @@
 /* eslint-disable @typescript-eslint/ban-ts-comment */
 import * as Tone from "tone";
+import { AudioEngine } from "./audio-engine";
+import { LOCAL_STRIP_ID, Mixer } from "./mixer";
+
+// Keys of the paper keyboard, left to right (C4..E5)
+export const PIANO_NOTES = ["C4", "D4", "E4", "F4", "G4", "A4", "B4", "C5", "D5", "E5"];
 
 /**
  * Piano that prefers sampled playback via soundfont-player when available,
  * but gracefully falls back to a Tone.js layered synth if the module is not
  * installed or fails to load. This prevents build-time resolution errors in
  * environments where the dependency hasn't been installed.
+ * Notes go to the given output node, or the local player's mixer strip.
  */
 export class Piano {
   private audioCtx: AudioContext | null = null;
@@ -21,18 +27,24 @@ export class Piano {
   private synth?: Tone.PolySynth;
   private compressor?: Tone.Compressor;
   private filter?: Tone.Filter;
-  private reverb?: Tone.Reverb;
+  private roomSend?: Tone.Gain; // into the shared reverb
 
-  // C4..E5
-  private readonly notes = ["C4", "D4", "E4", "F4", "G4", "A4", "B4", "C5", "D5", "E5"];
+  private readonly notes = PIANO_NOTES;
+  private output: AudioNode | null;
 
-  constructor() {
+  constructor(output?: AudioNode) {
     // Synth will be initialized in initToneFallback when needed
+    this.output = output ?? null;
+  }
+
+  private getOutput(): AudioNode {
+    if (!this.output) this.output = Mixer.getInstance().getStripInput(LOCAL_STRIP_ID);
+    return this.output;
   }
 
   private async initToneFallback() {
     // Start Tone.js audio context
-    await Tone.start();
+    await AudioEngine.getInstance().resume();
 
     // Create a realistic piano sound using FMSynth with multiple effects
     // This configuration mimics the attack, decay, and harmonics of a real piano
@@ -78,15 +90,15 @@ export class Piano {
       Q: 0.8, // Gentle rolloff
     });
     
-    // Add reverb for realistic room sound
-    this.reverb = new Tone.Reverb(0.5); // 0.5 second decay
-    await this.reverb.generate(); // Generate reverb impulse
-    
-    // Connect: synth -> compressor -> filter -> reverb -> destination
+    // Some room sound from the shared reverb, on top of the strip's own send
+    this.roomSend = new Tone.Gain(0.3);
+    this.roomSend.connect(AudioEngine.getInstance().getSendInput("reverb"));
+
+    // Connect: synth -> compressor -> filter -> output (+ room send)
     this.synth.connect(this.compressor);
     this.compressor.connect(this.filter);
-    this.filter.connect(this.reverb);
-    this.reverb.toDestination();
+    this.filter.connect(this.getOutput());
+    this.filter.connect(this.roomSend);
 
     // Also set up the fallback synths for the layered approach
     this.fallbackStrings = new Tone.PolySynth(Tone.Synth, {
@@ -97,7 +109,7 @@ export class Piano {
         sustain: 0.3,
         release: 1.2,
       },
-    }).toDestination();
+    }).connect(this.getOutput());
 
     this.fallbackHammer = new Tone.NoiseSynth({
       noise: { type: "white" },
@@ -107,7 +119,7 @@ export class Piano {
         sustain: 0,
         release: 0.1,
       },
-    }).toDestination();
+    }).connect(this.getOutput());
 
     this.toneFallback = true;
     console.log("🎹 Piano initialized (Tone.js fallback)");
@@ -116,15 +128,9 @@ export class Piano {
   async initialize() {
     if (this.initialized) return;
 
-    // Ensure AudioContext exists (some browsers require user gesture)
-    this.audioCtx = this.audioCtx || new (window.AudioContext || (window as any).webkitAudioContext)();
-    if (this.audioCtx.state === "suspended") {
-      try {
-        await this.audioCtx.resume();
-      } catch (e) {
-        // ignore
-      }
-    }
+    // Ensure the shared AudioContext is running (some browsers require user gesture)
+    this.audioCtx = AudioEngine.getInstance().getContext();
+    await AudioEngine.getInstance().resume();
 
     // Skip soundfont-player for now - use Tone.js synth directly
     // (soundfont-player causes build-time module resolution issues in Next.js)
@@ -139,7 +145,11 @@ export class Piano {
     }
   }
 
-  playNote(noteIndex: number, velocity: number = 1) {
+  /**
+   * Play a note. Velocity (0-1) sets loudness and how bright the tone is;
+   * delay (seconds) schedules it ahead of now.
+   */
+  playNote(noteIndex: number, velocity: number = 1, delay: number = 0) {
     if (noteIndex < 0 || noteIndex >= this.notes.length) {
       console.warn(`Invalid note index: ${noteIndex}`);
       return;
@@ -148,7 +158,7 @@ export class Piano {
     const note = this.notes[noteIndex];
 
     if (!this.initialized) {
-      this.initialize().then(() => this.playNote(noteIndex, velocity)).catch((e) => console.error(e));
+      this.initialize().then(() => this.playNote(noteIndex, velocity, delay)).catch((e) => console.error(e));
       return;
     }
 
@@ -156,7 +166,7 @@ export class Piano {
     if (this.player && typeof this.player.play === "function") {
       try {
         const gain = Math.max(0.15, Math.min(1.2, velocity));
-        this.player.play(note, 0, { gain });
+        this.player.play(note, (this.audioCtx?.currentTime ?? 0) + delay, { gain });
         return;
       } catch (e) {
         console.warn("soundfont-player failed to play, falling back to synth:", e);
@@ -167,15 +177,18 @@ export class Piano {
     if (this.synth) {
       try {
         const vel = Math.max(0.15, Math.min(1, velocity));
-        this.synth.triggerAttackRelease(note, "8n", undefined, vel);
+        // Velocity also scales each FM voice's modulation envelope, so a harder
+        // note is brighter on its own voice without touching notes still ringing
+        this.synth.triggerAttackRelease(note, "8n", Tone.now() + delay, vel);
       } catch (e) {
         console.error("Failed to play synth note:", e);
       }
     } else if (this.toneFallback && this.fallbackStrings) {
       try {
         const vel = Math.max(0.15, Math.min(1, velocity));
-        this.fallbackHammer?.triggerAttackRelease("32n", undefined, vel * 0.6);
-        this.fallbackStrings.triggerAttackRelease(note, 1.6, undefined, vel);
+        const time = Tone.now() + delay;
+        this.fallbackHammer?.triggerAttackRelease("32n", time, vel * 0.6);
+        this.fallbackStrings.triggerAttackRelease(note, 1.6, time, vel);
       } catch (e) {
         console.error("Failed to play fallback synth note:", e);
       }
@@ -207,18 +220,16 @@ export class Piano {
           this.synth.dispose();
           this.compressor?.dispose();
           this.filter?.dispose();
-          this.reverb?.dispose();
+          this.roomSend?.dispose();
         } catch {}
         this.synth = undefined;
         this.compressor = undefined;
         this.filter = undefined;
-        this.reverb = undefined;
+        this.roomSend = undefined;
       }
 
-      if (this.audioCtx) {
-        try { await this.audioCtx.close(); } catch {}
-        this.audioCtx = null;
-      }
+      // The AudioContext is shared, so it's left open
+      this.audioCtx = null;
       this.initialized = false;
     } catch (e) {
       console.warn("Error disposing piano resources:", e);
@@ -0,0 +1,147 @@
+import { pickVelocityLayer } from "./dynamics";
+
+/**
+ * Sample kits
+ * A kit is a manifest plus audio files under public/sounds/kits/<kit>/:
+ *
+ *   {
+ *     "name": "Acoustic",
+ *     "pieces": {
+ *       "snare": { "layers": [["snare-soft-1.wav", "snare-soft-2.wav"], ["snare-hard-1.wav"]] }
+ *     }
+ *   }
+ *
+ * Each piece has velocity layers, softest first, and each layer has one or
+ * more round-robin variations so repeated hits don't sound identical.
+ * File paths are relative to the manifest. Files that fail to load are
+ * skipped; a piece left without samples is missing from the kit.
+ */
+
+export interface SampleKitManifest {
+  name: string;
+  pieces: Record<string, { layers: string[][] }>;
+}
+
+interface LoadedKit {
+  name: string;
+  pieces: Map<string, AudioBuffer[][]>;
+}
+
+// Decoded once per manifest, shared by every player using the kit
+const loadedKits: Map<string, Promise<LoadedKit | null>> = new Map();
+
+/**
+ * Load a kit (null when the manifest is missing or has no usable samples)
+ */
+export async function loadSampleKit(ctx: BaseAudioContext, manifestUrl: string): Promise<SampleKit | null> {
+  let loading = loadedKits.get(manifestUrl);
+  if (!loading) {
+    loading = loadKit(ctx, manifestUrl);
+    loadedKits.set(manifestUrl, loading);
+  }
+  const kit = await loading;
+  if (!kit) {
+    // Let a later player try again (the kit may have been added, or the network back)
+    if (loadedKits.get(manifestUrl) === loading) loadedKits.delete(manifestUrl);
+    return null;
+  }
+  return new SampleKit(kit.name, kit.pieces);
+}
+
+/**
+ * A player's view of a loaded kit. Round-robin positions are per player,
+ * the decoded audio is shared.
+ */
+export class SampleKit {
+  private nextVariation: Map<AudioBuffer[], number> = new Map();
+
+  constructor(
+    readonly name: string,
+    private pieces: Map<string, AudioBuffer[][]>
+  ) {}
+
+  has(piece: string): boolean {
+    return this.pieces.has(piece);
+  }
+
+  /**
+   * The sample to play for a hit: the layer matching the velocity, then
+   * the next variation within it
+   */
+  pick(piece: string, velocity: number): AudioBuffer | undefined {
+    const layers = this.pieces.get(piece);
+    const variations = layers ? pickVelocityLayer(layers, velocity) : undefined;
+    if (!variations) return undefined;
+
+    const index = this.nextVariation.get(variations) ?? 0;
+    this.nextVariation.set(variations, (index + 1) % variations.length);
+    return variations[index];
+  }
+}
+
+async function loadKit(ctx: BaseAudioContext, manifestUrl: string): Promise<LoadedKit | null> {
+  try {
+    const response = await fetch(manifestUrl);
+    if (!response.ok) {
+      console.log("🥁 No sample kit at", manifestUrl, "- using synthesized drums");
+      return null;
+    }
+    const manifest = parseManifest(await response.json());
+    if (!manifest) {
+      console.warn("⚠️ Invalid sample kit manifest:", manifestUrl);
+      return null;
+    }
+
+    const baseUrl = new URL(manifestUrl, window.location.href);
+    const pieces: Map<string, AudioBuffer[][]> = new Map();
+    await Promise.all(
+      Object.entries(manifest.pieces).map(async ([piece, { layers }]) => {
+        const loaded = await Promise.all(
+          layers.map(async (files) => {
+            const buffers = await Promise.all(
+              files.map((file) => loadSample(ctx, new URL(file, baseUrl).toString()))
+            );
+            return buffers.filter((buffer): buffer is AudioBuffer => buffer !== null);
+          })
+        );
+        const usable = loaded.filter((variations) => variations.length > 0);
+        if (usable.length > 0) pieces.set(piece, usable);
+      })
+    );
+
+    if (pieces.size === 0) return null;
+    console.log("🥁 Sample kit loaded:", manifest.name, [...pieces.keys()]);
+    return { name: manifest.name, pieces };
+  } catch (error) {
+    console.warn("⚠️ Could not load sample kit:", manifestUrl, error);
+    return null;
+  }
+}
+
+async function loadSample(ctx: BaseAudioContext, url: string): Promise<AudioBuffer | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await ctx.decodeAudioData(await response.arrayBuffer());
+  } catch (error) {
+    console.warn("⚠️ Could not load sample:", url, error);
+    return null;
+  }
+}
+
+function parseManifest(value: unknown): SampleKitManifest | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { name, pieces } = value as Record<string, unknown>;
+  if (typeof pieces !== "object" || pieces === null) return null;
+
+  const parsed: SampleKitManifest["pieces"] = {};
+  for (const [piece, entry] of Object.entries(pieces)) {
+    const layers = (entry as { layers?: unknown } | null)?.layers;
+    const valid =
+      Array.isArray(layers) &&
+      layers.every((files) => Array.isArray(files) && files.every((file) => typeof file === "string"));
+    if (!valid) return null;
+    parsed[piece] = { layers: layers as string[][] };
+  }
+  return { name: typeof name === "string" ? name : "Sample kit", pieces: parsed };
+}
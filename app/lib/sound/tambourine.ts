@@ -1,4 +1,7 @@
 import * as Tone from "tone";
+import { velocityToCutoff, velocityToGain, pickVelocityLayer } from "./dynamics";
+import { AudioEngine } from "./audio-engine";
+import { LOCAL_STRIP_ID, Mixer } from "./mixer";
 
 /**
  * Tambourine percussion instrument using Tone.js
@@ -6,11 +9,17 @@ import * as Tone from "tone";
  */
 export class Tambourine {
   private player: Tone.Player | null = null;
-  private audioBuffer: AudioBuffer | null = null;
+  private audioBuffers: AudioBuffer[] = []; // synthesized velocity layers, softest first
   private initialized: boolean = false;
+  private output: AudioNode | null;
+  private bus: GainNode | null = null; // detached on dispose
 
-  constructor() {
+  /**
+   * @param output - Where hits go (defaults to the local player's mixer strip)
+   */
+  constructor(output?: AudioNode) {
     // Audio buffer will be generated on initialization
+    this.output = output ?? null;
   }
 
   /**
@@ -19,18 +28,17 @@ export class Tambourine {
   async initialize() {
     if (!this.initialized) {
       try {
-        await Tone.start();
+        await AudioEngine.getInstance().resume();
         
-        // Try to load sample first, otherwise generate
+        // Try to load sample first, otherwise play the generated jingle
         const sampleLoaded = await this.tryLoadSample();
         
         if (!sampleLoaded) {
-          // Generate tambourine sound buffer if no sample
-          this.generateTambourineBuffer();
-          
+          // Soft and hard jingles, so every layer comes from the same synthesis
+          this.audioBuffers = [this.generateTambourineBuffer(0.4), this.generateTambourineBuffer(1)];
           // Create Tone.Player from the generated buffer
-          if (this.audioBuffer) {
-            this.player = new Tone.Player(this.audioBuffer).toDestination();
+          if (this.audioBuffers.length > 0) {
+            this.player = new Tone.Player(this.audioBuffers[this.audioBuffers.length - 1]);
             this.player.volume.value = -3;
             console.log("🪘 Tambourine initialized with generated sound");
           }
@@ -68,7 +76,7 @@ export class Tambourine {
             onerror: () => {
               // Try next URL
             },
-          }).toDestination();
+          });
           
           this.player.volume.value = 0;
           
@@ -94,10 +102,10 @@ export class Tambourine {
 
   /**
    * Generate a tambourine jingle sound buffer using Web Audio API
-   * Based on the synthesis from tambourine-player.tsx
+   * @param strength - 0-1, how hard the jingles are struck (softer = fewer high partials)
    */
-  private generateTambourineBuffer() {
-    const ctx = Tone.context.rawContext as AudioContext;
+  private generateTambourineBuffer(strength: number): AudioBuffer {
+    const ctx = AudioEngine.getInstance().getContext();
     const sampleRate = ctx.sampleRate;
     const duration = 0.14; // Short jingle duration
     const length = Math.floor(sampleRate * duration);
@@ -117,63 +125,95 @@ export class Tambourine {
       
       // High-frequency metallic tones (jingles)
       sample += Math.sin(2 * Math.PI * 7000 * t) * Math.exp(-t / 0.016) * 0.4;
-      sample += Math.sin(2 * Math.PI * 9000 * t) * Math.exp(-t / 0.014) * 0.3;
-      sample += Math.sin(2 * Math.PI * 11000 * t) * Math.exp(-t / 0.012) * 0.2;
+      sample += Math.sin(2 * Math.PI * 9000 * t) * Math.exp(-t / 0.014) * 0.3 * strength;
+      sample += Math.sin(2 * Math.PI * 11000 * t) * Math.exp(-t / 0.012) * 0.2 * strength * strength;
       
       // Add filtered noise for jingle texture
-      sample += noise * Math.exp(-t / 0.008) * 0.15;
+      sample += noise * Math.exp(-t / 0.008) * 0.15 * strength;
       
       // Apply envelope
       const envelope = Math.exp(-t / 0.02);
       data[i] = sample * envelope * 0.6;
     }
 
-    this.audioBuffer = buffer;
+    return buffer;
   }
 
   /**
    * Play the tambourine jingle sound
+   * @param velocity - strike strength 0-1 (loudness and brightness)
+   * @param delay - seconds from now to play it (0 = immediately)
    */
-  play() {
+  play(velocity: number = 1, delay: number = 0) {
     if (!this.initialized) {
       this.initialize().then(() => {
-        this.playSound();
+        this.playSound(velocity, delay);
       });
       return;
     }
     
-    this.playSound();
+    this.playSound(velocity, delay);
+  }
+
+  /**
+   * Velocity layers, softest first: the recorded sample on its own when one
+   * was found (velocity then only shapes its level and brightness), otherwise
+   * the synthesized jingles
+   */
+  private getLayers(): AudioBuffer[] {
+    if (this.audioBuffers.length > 0) return this.audioBuffers;
+    const sample = this.player?.buffer.loaded ? this.player.buffer.get() : undefined;
+    return sample ? [sample] : [];
   }
 
   /**
-   * Play tambourine sound using Tone.Player
+   * Play the tambourine layer for this velocity.
+   * Each hit gets its own source so overlapping jingles keep their own level.
    */
-  private playSound() {
+  private playSound(velocity: number, delay: number) {
     try {
       // Ensure context is running
-      if (Tone.context.state !== "running") {
-        Tone.start().then(() => {
-          this.playSound();
+      const engine = AudioEngine.getInstance();
+      if (engine.getContext().state !== "running") {
+        engine.resume().then(() => {
+          this.playSound(velocity, delay);
         });
         return;
       }
 
-      // Play the tambourine buffer
-      if (this.player) {
-        this.player.start();
-      } else if (this.audioBuffer) {
-        // Fallback: play buffer directly
-        const ctx = Tone.context.rawContext as AudioContext;
-        const source = ctx.createBufferSource();
-        source.buffer = this.audioBuffer;
-        source.connect(ctx.destination);
-        source.start(0);
-      }
+      const buffer = pickVelocityLayer(this.getLayers(), velocity);
+      if (!buffer) return;
+
+      const ctx = engine.getContext();
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+
+      // Soft hits are darker as well as quieter
+      const tone = ctx.createBiquadFilter();
+      tone.type = "lowpass";
+      tone.frequency.value = velocityToCutoff(velocity, 3500, 18000);
+
+      const level = ctx.createGain();
+      const baseDb = this.player ? this.player.volume.value : 0;
+      level.gain.value = Tone.dbToGain(baseDb) * velocityToGain(velocity);
+
+      source.connect(tone);
+      tone.connect(level);
+      level.connect(this.getOutput());
+      source.start(ctx.currentTime + delay);
     } catch (error) {
       console.error("Failed to play tambourine:", error);
     }
   }
 
+  private getOutput(): AudioNode {
+    if (!this.bus) {
+      this.bus = AudioEngine.getInstance().getContext().createGain();
+      this.bus.connect(this.output ?? Mixer.getInstance().getStripInput(LOCAL_STRIP_ID));
+    }
+    return this.bus;
+  }
+
   /**
    * Dispose of the tambourine and clean up Tone.js resources
    */
@@ -183,7 +223,9 @@ export class Tambourine {
         this.player.dispose();
         this.player = null;
       }
-      this.audioBuffer = null;
+      this.audioBuffers = [];
+      this.bus?.disconnect();
+      this.bus = null;
     } catch (error) {
       console.error("Error disposing tambourine:", error);
     }
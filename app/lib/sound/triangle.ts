@@ -1,4 +1,7 @@
 import * as Tone from "tone";
+import { velocityToCutoff, velocityToGain } from "./dynamics";
+import { AudioEngine } from "./audio-engine";
+import { LOCAL_STRIP_ID, Mixer } from "./mixer";
 
 /**
  * Triangle percussion instrument using Tone.js
@@ -8,9 +11,15 @@ export class Triangle {
   private player: Tone.Player | null = null;
   private audioBuffer: AudioBuffer | null = null;
   private initialized: boolean = false;
+  private output: AudioNode | null;
+  private bus: GainNode | null = null; // detached on dispose
 
-  constructor() {
+  /**
+   * @param output - Where hits go (defaults to the local player's mixer strip)
+   */
+  constructor(output?: AudioNode) {
     // Audio buffer will be generated on initialization
+    this.output = output ?? null;
   }
 
   /**
@@ -19,7 +28,7 @@ export class Triangle {
   async initialize() {
     if (!this.initialized) {
       try {
-        await Tone.start();
+        await AudioEngine.getInstance().resume();
         
         // Try to load sample first, otherwise generate
         const sampleLoaded = await this.tryLoadSample();
@@ -30,7 +39,7 @@ export class Triangle {
           
           // Create Tone.Player from the generated buffer
           if (this.audioBuffer) {
-            this.player = new Tone.Player(this.audioBuffer).toDestination();
+            this.player = new Tone.Player(this.audioBuffer);
             this.player.volume.value = -3;
             console.log("🔺 Triangle initialized with generated sound");
           }
@@ -62,7 +71,7 @@ export class Triangle {
           // Try WAV if MP3 fails
           this.tryLoadWavSample();
         },
-      }).toDestination();
+      });
       
       this.player.volume.value = 0;
       
@@ -90,7 +99,7 @@ export class Triangle {
       this.player = new Tone.Player({
         url: "/sounds/triangle.wav",
         autostart: false,
-      }).toDestination();
+      });
       
       this.player.volume.value = 0;
       await new Promise((resolve) => setTimeout(resolve, 100));
@@ -108,7 +117,7 @@ export class Triangle {
    * Generate a high-quality triangle sound buffer using advanced synthesis
    */
   private generateTriangleBuffer() {
-    const ctx = Tone.context.rawContext as AudioContext;
+    const ctx = AudioEngine.getInstance().getContext();
     const sampleRate = ctx.sampleRate;
     const duration = 4.0; // 4 seconds for full ring
     const length = Math.floor(sampleRate * duration);
@@ -166,47 +175,70 @@ export class Triangle {
 
   /**
    * Play the triangle sound
+   * @param velocity - strike strength 0-1 (loudness and brightness)
+   * @param delay - seconds from now to play it (0 = immediately)
    */
-  play() {
+  play(velocity: number = 1, delay: number = 0) {
     if (!this.initialized) {
       this.initialize().then(() => {
-        this.playSound();
+        this.playSound(velocity, delay);
       });
       return;
     }
     
-    this.playSound();
+    this.playSound(velocity, delay);
   }
 
   /**
-   * Play triangle sound using Tone.Player
+   * Play the loaded (or generated) triangle buffer.
+   * Each hit gets its own source so a soft hit doesn't duck a ringing loud one.
    */
-  private playSound() {
+  private playSound(velocity: number, delay: number) {
     try {
       // Ensure context is running
-      if (Tone.context.state !== "running") {
-        Tone.start().then(() => {
-          this.playSound();
+      const engine = AudioEngine.getInstance();
+      if (engine.getContext().state !== "running") {
+        engine.resume().then(() => {
+          this.playSound(velocity, delay);
         });
         return;
       }
 
-      // Play the triangle buffer
-      if (this.player) {
-        this.player.start();
-      } else if (this.audioBuffer) {
-        // Fallback: play buffer directly
-        const ctx = Tone.context.rawContext as AudioContext;
-        const source = ctx.createBufferSource();
-        source.buffer = this.audioBuffer;
-        source.connect(ctx.destination);
-        source.start(0);
-      }
+      const buffer = this.player?.buffer.loaded
+        ? this.player.buffer.get()
+        : this.audioBuffer;
+      if (!buffer) return;
+
+      const ctx = engine.getContext();
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+
+      // Soft hits are darker as well as quieter
+      const tone = ctx.createBiquadFilter();
+      tone.type = "lowpass";
+      tone.frequency.value = velocityToCutoff(velocity, 2500, 16000);
+
+      const level = ctx.createGain();
+      const baseDb = this.player ? this.player.volume.value : 0;
+      level.gain.value = Tone.dbToGain(baseDb) * velocityToGain(velocity);
+
+      source.connect(tone);
+      tone.connect(level);
+      level.connect(this.getOutput());
+      source.start(ctx.currentTime + delay);
     } catch (error) {
       console.error("Failed to play triangle:", error);
     }
   }
 
+  private getOutput(): AudioNode {
+    if (!this.bus) {
+      this.bus = AudioEngine.getInstance().getContext().createGain();
+      this.bus.connect(this.output ?? Mixer.getInstance().getStripInput(LOCAL_STRIP_ID));
+    }
+    return this.bus;
+  }
+
   /**
    * Dispose of the triangle and clean up Tone.js resources
    */
@@ -217,6 +249,8 @@ export class Triangle {
         this.player = null;
       }
       this.audioBuffer = null;
+      this.bus?.disconnect();
+      this.bus = null;
     } catch (error) {
       console.error("Error disposing triangle:", error);
     }
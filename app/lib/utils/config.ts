@@ -0,0 +1,33 @@
+/**
+ * App-wide configuration constants
+ */
+
+/**
+ * Where the MediaPipe Hands runtime (hands.js, wasm, tflite) is served from.
+ * Defaults to the copy in public/ made by scripts/copy-mediapipe-assets.mjs.
+ * Set NEXT_PUBLIC_MEDIAPIPE_HANDS_URL to point at a CDN instead, e.g.
+ * https://cdn.jsdelivr.net/npm/@mediapipe/hands
+ */
+export const MEDIAPIPE_HANDS_URL = (
+  process.env.NEXT_PUBLIC_MEDIAPIPE_HANDS_URL || "/mediapipe/hands"
+).replace(/\/+$/, "");
+
+/**
+ * Sample kit manifest the drums play (see public/sounds/README.md), e.g.
+ * /sounds/kits/acoustic/kit.json. Unset = the kit shipped in
+ * public/sounds/kits/default; empty = fully synthesized drums.
+ */
+export const DRUM_KIT_URL = process.env.NEXT_PUBLIC_DRUM_KIT_URL ?? "/sounds/kits/default/kit.json";
+
+/**
+ * Offline cache service worker (public/sw.js)
+ */
+export const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Self-hosted signaling server for jam sessions (see server/), e.g.
+ * http://192.168.1.10:9000. Unset = the public PeerJS broker: a room code
+ * maps to a well-known host peer id there, and the host checks the password
+ * (if any) and sends newcomers the roster. There is no public room list.
+ */
+export const SIGNALING_SERVER_URL = (process.env.NEXT_PUBLIC_SIGNALING_URL || "").replace(/\/+$/, "");
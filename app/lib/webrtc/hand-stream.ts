@@ -0,0 +1,59 @@
+/**
+ * Hand Stream
+ * Sends our tracked hands to every peer so they can watch us play. Frames
+ * are throttled and quantized (see peer-protocol). Unchanged frames are
+ * only repeated now and then, so peers that just joined catch up and peers
+ * can tell a still hand from a lost connection.
+ */
+
+import MediaPipeHands from '@/app/lib/MediaPipeHands';
+import type { HandTrackingFrame } from '@/app/types/mediapipe';
+import { PeerManager } from './peer-manager';
+import { RemoteHand, quantizeHand } from './peer-protocol';
+
+// At most this many frames a second go out (the camera runs at about 30)
+const HAND_STREAM_FPS = 15;
+// An unchanged frame is repeated after this long
+export const HAND_RESEND_MS = 500;
+
+export class HandStream {
+  private peerManager: PeerManager;
+  private unsubscribe: (() => void) | null = null;
+  private lastSentAt = 0;
+  private lastFrame = '';
+
+  constructor(peerManager: PeerManager) {
+    this.peerManager = peerManager;
+  }
+
+  /**
+   * Start streaming (only frames the camera produces anyway are sent;
+   * this never turns the camera on)
+   */
+  start() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = MediaPipeHands.getInstance().subscribe(this.handleFrame);
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.lastFrame = '';
+  }
+
+  private handleFrame = (frame: HandTrackingFrame) => {
+    if (frame.timestamp - this.lastSentAt < 1000 / HAND_STREAM_FPS) return;
+    if (this.peerManager.getConnectedPeers().length === 0) return;
+
+    const hands: RemoteHand[] = frame.hands.map(({ landmarks, handedness }) =>
+      quantizeHand(landmarks, handedness)
+    );
+    // Hands held still (or out of view) don't need resending every frame
+    const key = JSON.stringify(hands);
+    if (key === this.lastFrame && frame.timestamp - this.lastSentAt < HAND_RESEND_MS) return;
+
+    this.lastFrame = key;
+    this.lastSentAt = frame.timestamp;
+    this.peerManager.sendHandData(hands);
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Peer Clock
+ * Measures round-trip time and wall-clock offset to every connected peer
+ * with ping/pong, so timestamps on their messages can be read against our
+ * own clock. Estimates are published to the RemoteScheduler.
+ */
+
+import { PeerManager, PeerMessage } from './peer-manager';
+import { RemoteScheduler } from './remote-scheduler';
+
+// How often every peer is re-measured
+const PING_INTERVAL_MS = 2000;
+// Keep the best (lowest round-trip) of the last few samples
+const CLOCK_SAMPLE_COUNT = 8;
+
+export interface ClockSample {
+  offset: number; // their wall clock minus ours (ms)
+  roundTrip: number; // ms
+}
+
+/**
+ * Clock sample from one ping/pong exchange
+ * @param t0 - Our Date.now() when the ping went out
+ * @param remoteTime - Their Date.now() when they answered
+ * @param now - Our Date.now() when the answer arrived
+ */
+export function measureClockSample(t0: number, remoteTime: number, now: number = Date.now()): ClockSample {
+  const roundTrip = now - t0;
+  // Assume the reply took half the round trip
+  return { offset: remoteTime - (t0 + roundTrip / 2), roundTrip };
+}
+
+/**
+ * The most reliable sample: the one least stretched by network queues
+ */
+export function pickBestSample(samples: ClockSample[]): ClockSample | null {
+  if (samples.length === 0) return null;
+  return samples.reduce((best, sample) => (sample.roundTrip < best.roundTrip ? sample : best));
+}
+
+export class PeerClock {
+  private peerManager: PeerManager;
+  private scheduler: RemoteScheduler;
+  private samples: Map<string, ClockSample[]> = new Map();
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(peerManager: PeerManager, scheduler: RemoteScheduler = RemoteScheduler.getInstance()) {
+    this.peerManager = peerManager;
+    this.scheduler = scheduler;
+  }
+
+  handlePeerConnected(peerId: string) {
+    this.samples.set(peerId, []);
+    this.ping(peerId);
+    if (this.pingTimer === null) {
+      this.pingTimer = setInterval(() => this.pingAll(), PING_INTERVAL_MS);
+    }
+  }
+
+  handlePeerDisconnected(peerId: string) {
+    this.samples.delete(peerId);
+    this.scheduler.removePeer(peerId);
+    if (this.samples.size === 0) this.stopPinging();
+  }
+
+  /**
+   * Handle ping / pong messages
+   * @returns True if the message was consumed
+   */
+  handleMessage(peerId: string, message: PeerMessage): boolean {
+    switch (message.type) {
+      case 'ping':
+        this.peerManager.sendToPeer(peerId, { type: 'pong', t0: message.t0, time: Date.now() });
+        return true;
+
+      case 'pong':
+        this.addSample(peerId, measureClockSample(message.t0, message.time));
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Their wall clock minus ours, or null before the first measurement
+   */
+  getEstimate(peerId: string): ClockSample | null {
+    return pickBestSample(this.samples.get(peerId) ?? []);
+  }
+
+  dispose() {
+    this.stopPinging();
+    this.samples.forEach((_samples, peerId) => this.scheduler.removePeer(peerId));
+    this.samples.clear();
+  }
+
+  private pingAll() {
+    this.samples.forEach((_samples, peerId) => this.ping(peerId));
+  }
+
+  private ping(peerId: string) {
+    this.peerManager.sendToPeer(peerId, { type: 'ping', t0: Date.now() });
+  }
+
+  private addSample(peerId: string, sample: ClockSample) {
+    const samples = this.samples.get(peerId);
+    if (!samples) return;
+    this.samples.set(peerId, [...samples, sample].slice(-CLOCK_SAMPLE_COUNT));
+
+    const best = this.getEstimate(peerId);
+    if (best) this.scheduler.updateClock(peerId, best, sample.roundTrip);
+  }
+
+  private stopPinging() {
+    if (this.pingTimer !== null) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+}
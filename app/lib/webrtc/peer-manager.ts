@@ -1,24 +1,133 @@
 /**
  * WebRTC Peer-to-Peer Connection Manager
- * Handles peer connections for multiplayer jam sessions
+ * Handles peer connections for multiplayer jam sessions. Lost connections
+ * (to the signaling server or to a peer) are retried with backoff under the
+ * same peer id and instrument, and if the room's host leaves, the remaining
+ * members agree on a new one.
  */
 
-export type Instrument = 'drums' | 'piano' | 'tambourine' | 'triangle';
+import type { DataConnection, Peer, PeerError } from 'peerjs';
+import type { Instrument, SoundEvent } from '@/components/practice/instruments/registry';
+import type { DrumZoneLayout } from '@/components/practice/instruments/drum-layouts';
+import { SIGNALING_SERVER_URL } from '@/app/lib/utils/config';
+import { RoomClient, RoomInfo, RoomRequestError } from './room-client';
+import { RemoteScheduler } from './remote-scheduler';
+import {
+  PEER_CAPABILITIES,
+  PROTOCOL_VERSION,
+  PeerCapability,
+  PeerMessage,
+  RealtimeMessage,
+  RemoteHand,
+  decodePeerMessage,
+  encodePeerMessage,
+  isRealtimeMessage,
+} from './peer-protocol';
 
-// Sound event types for different instruments
-export type SoundEvent = 
-  | { type: 'drums'; sound: 'snare' | 'kick' | 'hihat' | 'crash' }
-  | { type: 'piano'; noteIndex: number; velocity?: number }
-  | { type: 'tambourine'; }
-  | { type: 'triangle'; };
+// Instruments and their sound event schemas are declared in the instrument registry.
+// `velocity` is the normalized strike strength (0-1); peers that omit it play at full strength.
+export type { Instrument, SoundEvent };
 
-export type PeerMessage = 
-  | { type: 'sound-event'; event: SoundEvent; instrument: Instrument }
-  | { type: 'hand-data'; data: any; instrument: Instrument }
-  | { type: 'instrument-change'; instrument: Instrument }
-  | { type: 'join'; instrument: Instrument }
-  | { type: 'leave' }
-  | { type: 'ping' };
+// Messages between peers and their wire format live in peer-protocol
+export type { PeerMessage };
+
+export interface PeerManagerOptions {
+  // Base URL of a self-hosted signaling server (server/); empty = public PeerJS broker
+  signalingUrl?: string;
+  // Judges whether a sound event arrived too late to play
+  scheduler?: RemoteScheduler;
+}
+
+// Create a new room or join an existing one (only matters with a signaling server)
+export type RoomJoinMode = 'create' | 'join';
+
+// Full mesh: every member connects to every other member, up to this many peers
+// (rooms of 8, the signaling server's default)
+export const MAX_MESH_PEERS = 7;
+
+// How long joining waits for the room to answer
+const ROOM_JOIN_TIMEOUT_MS = 10000;
+
+// How long a peer that dialed us may wait for the room server to list it as a member
+const UNLISTED_PEER_WAIT_MS = 5000;
+
+// Lets a last message (auth-failed, a lobby's roster) reach the peer before its connection is closed
+const CLOSE_AFTER_REPLY_DELAY_MS = 500;
+
+// Reconnection backoff: doubles from the base delay up to the max, with some jitter
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+// Tries at getting back to the signaling server before giving up
+const MAX_RECONNECT_ATTEMPTS = 8;
+// Tries at getting a dropped peer back (about half a minute) before they count as gone
+const MAX_PEER_RECONNECT_ATTEMPTS = 5;
+// How long one attempt waits for the signaling server to answer
+const RECONNECT_TIMEOUT_MS = 10000;
+
+// Metadata of the second, unordered connection that carries realtime messages
+// (the reliable one that's opened first handles everything else)
+const REALTIME_CHANNEL = 'realtime';
+
+/**
+ * Peer id of a room's host on the public broker (namespaced, since room
+ * codes are short and the broker is shared with other apps)
+ */
+function hostPeerId(roomId: string): string {
+  return `airstrument-${roomId}`;
+}
+
+function createMemberId(roomId: string): string {
+  return `${roomId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Delay before a reconnection attempt (1-based)
+ */
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return delay * (0.8 + Math.random() * 0.4);
+}
+
+function isPeerError(error: unknown, type: string): boolean {
+  return typeof error === 'object' && error !== null && (error as { type?: unknown }).type === type;
+}
+
+/**
+ * Resolve once a peer is (back) on the signaling server
+ */
+function waitForOpen(peer: Peer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const finish = (error?: unknown) => {
+      clearTimeout(timeout);
+      peer.off('open', handleOpen);
+      peer.off('error', handleError);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const handleOpen = () => finish();
+    const handleError = (error: unknown) => finish(error);
+    const timeout = setTimeout(() => finish(new Error('Signaling server did not answer')), RECONNECT_TIMEOUT_MS);
+    peer.on('open', handleOpen);
+    peer.on('error', handleError);
+  });
+}
+
+export type ConnectionStatus =
+  | 'offline' // not in a room
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting' // lost the signaling server, trying again
+  | 'local-only' // never reached the signaling server; playing alone while retrying
+  | 'failed'; // gave up reconnecting (retryConnection starts over)
+
+export interface ConnectionHealth {
+  status: ConnectionStatus;
+  attempt: number; // current reconnection attempt (0 if not reconnecting)
+  reconnectingPeers: string[]; // peers that dropped and are being waited for
+}
 
 export interface PeerInfo {
   id: string;
@@ -27,115 +136,409 @@ export interface PeerInfo {
 }
 
 export class PeerManager {
-  private peer: any = null;
-  private connections: Map<string, any> = new Map();
+  private peer: Peer | null = null;
+  private connections: Map<string, DataConnection> = new Map();
+  private realtimeConnections: Map<string, DataConnection> = new Map(); // unordered, next to each admitted connection
   private onMessageCallback?: (peerId: string, message: PeerMessage) => void;
-  private onPeerConnectedCallback?: (peerId: string, instrument: Instrument) => void;
+  private onPeerConnectedCallback?: (peerId: string, instrument: Instrument | null) => void;
   private onPeerDisconnectedCallback?: (peerId: string) => void;
+  private onPeerIncompatibleCallback?: (peerId: string, reason: string) => void;
+  private peerCapabilities: Map<string, PeerCapability[]> = new Map(); // announced in each peer's join
+  private peerInstruments: Map<string, Instrument> = new Map(); // announced in join, updated on instrument-change
   private myInstrument: Instrument = 'drums';
+  private myDrumZones: DrumZoneLayout[] | null = null; // shared with every peer on admit
   private myId: string | null = null;
   private roomId: string | null = null;
+  private signalingUrl: string;
+  private roomClient: RoomClient | null = null;
+  private pendingConnections: Set<string> = new Set();
+  private isRoomHost = false; // without a signaling server, the room host's peer id is derived from the room id
+  private roomPassword: string | null = null;
+  private awaitingAuth: Set<string> = new Set(); // newcomers the host hasn't checked the password of yet
+  // Peers that dialed us before the room server listed them (their messages wait with them)
+  private unlistedPeers: Map<
+    string,
+    { conn: DataConnection; queued: unknown[]; admit: () => void; timer: ReturnType<typeof setTimeout> }
+  > = new Map();
+  private hostJoin: { hostId: string; resolve: () => void; reject: (error: Error) => void } | null = null;
+  private onRoomChangeCallback?: (room: RoomInfo | null) => void;
+  private onHostChangeCallback?: (hostId: string) => void;
+  private onHealthChangeCallback?: (health: ConnectionHealth) => void;
+  private joinMode: RoomJoinMode = 'join';
+  private inRoom = false; // entered the room at least once (reconnecting rejoins it)
+  private leaving = false; // disconnect() was called: connections closing now are expected
+  private hostId: string | null = null; // member hosting the room (tempo, and the lobby on the public broker)
+  private lobby: Peer | null = null; // a migrated host's second peer on the room's well-known host id
+  private lobbyAttempt = 0;
+  private health: ConnectionHealth = { status: 'offline', attempt: 0, reconnectingPeers: [] };
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectInFlight = false;
+  private droppedPeers: Map<string, { attempt: number; timer: ReturnType<typeof setTimeout> | null }> = new Map();
+  private leftPeers: Set<string> = new Set(); // said goodbye: their connection closing is final
+  private scheduler: RemoteScheduler;
 
-  constructor() {
+  constructor(options: PeerManagerOptions = {}) {
     // PeerJS will be loaded dynamically
+    this.signalingUrl = options.signalingUrl ?? SIGNALING_SERVER_URL;
+    this.scheduler = options.scheduler ?? RemoteScheduler.getInstance();
+  }
+
+  /**
+   * Whether rooms are backed by a signaling server (members are discoverable)
+   */
+  hasSignalingServer(): boolean {
+    return this.signalingUrl !== '';
   }
 
   /**
    * Initialize PeerJS and create peer connection
    */
-  async initialize(instrument: Instrument, roomId: string): Promise<string> {
+  async initialize(
+    instrument: Instrument,
+    roomId: string,
+    mode: RoomJoinMode = 'join',
+    password?: string
+  ): Promise<string> {
     this.myInstrument = instrument;
     this.roomId = roomId;
+    this.roomPassword = password || null;
+    this.joinMode = mode;
+    this.inRoom = false;
+    this.leaving = false;
+    this.reconnectAttempt = 0;
+    this.updateHealth('connecting');
 
     try {
-      // Dynamically import PeerJS (for Next.js SSR compatibility)
-      let Peer: any;
-      if (typeof window !== 'undefined') {
-        const PeerModule = await import('peerjs');
-        Peer = PeerModule.default || PeerModule;
-      } else {
-        throw new Error('PeerJS can only be initialized in browser');
+      // Create peer with room ID as part of the ID. Without a signaling server the
+      // creator takes an ID derived from the room ID, so joiners can find it on the public broker.
+      const hostsRoom = mode === 'create' && !this.hasSignalingServer();
+      const peerId = hostsRoom ? hostPeerId(roomId) : createMemberId(roomId);
+      this.isRoomHost = hostsRoom;
+
+      let id: string;
+      try {
+        id = await this.openPeer(peerId);
+      } catch (error) {
+        if (isPeerError(error, 'unavailable-id') && hostsRoom) {
+          throw new RoomRequestError('room-exists', `Room ${roomId} already exists`);
+        }
+        // If the cloud server fails, play locally and keep trying to get online
+        if (!isPeerError(error, 'server-error') || this.hasSignalingServer()) throw error;
+        return this.initializeFallback(peerId);
       }
-      
-      // Create peer with room ID as part of the ID
-      const peerId = `${roomId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      this.peer = new Peer(peerId, {
+
+      await this.enterSession(mode);
+      this.updateHealth('connected');
+      return id;
+    } catch (error) {
+      console.error('❌ Failed to initialize PeerJS:', error);
+      this.isRoomHost = false;
+      this.updateHealth('offline');
+      throw error;
+    }
+  }
+
+  /**
+   * Load PeerJS (for Next.js SSR compatibility) and create a peer with the given id
+   */
+  private async createPeer(peerId: string): Promise<Peer> {
+    if (typeof window === 'undefined') {
+      throw new Error('PeerJS can only be initialized in browser');
+    }
+    const { Peer } = await import('peerjs');
+    return new Peer(peerId, {
+      ...this.getServerOptions(),
+      debug: 2,
+    });
+  }
+
+  /**
+   * Create our peer and wait until the signaling server has registered it
+   */
+  private async openPeer(peerId: string): Promise<string> {
+    const peer = await this.createPeer(peerId);
+    this.peer = peer;
+    try {
+      await waitForOpen(peer);
+    } catch (error) {
+      console.error('❌ Peer error:', error);
+      peer.destroy();
+      throw error;
+    }
+    console.log('🎵 Peer connected with ID:', peer.id);
+    this.myId = peer.id;
+    this.setupPeerHandlers(peer);
+    return peer.id;
+  }
+
+  /**
+   * Get into the room: through the signaling server, as the host on the
+   * public broker, or by asking the host for the roster
+   */
+  private async enterSession(mode: RoomJoinMode) {
+    const myId = this.myId as string;
+    const roomId = this.roomId as string;
+    if (this.hasSignalingServer()) {
+      const room = await this.enterRoom(myId, roomId, mode);
+      this.setHostId(room.hostId);
+      // Newcomers connect to everyone already there
+      this.connectToPeers(room.members.map((member) => member.peerId));
+    } else if (this.isRoomHost) {
+      this.setHostId(myId);
+    } else {
+      await this.joinHostedRoom(roomId);
+    }
+    this.inRoom = true;
+  }
+
+  /**
+   * PeerJS server options: the self-hosted signaling server if configured,
+   * otherwise the public broker
+   */
+  private getServerOptions() {
+    if (!this.hasSignalingServer()) {
+      return {
         host: '0.peerjs.com', // Free PeerJS cloud server
         port: 443,
         path: '/',
         secure: true,
-        debug: 2,
-      });
+      };
+    }
+    const url = new URL(this.signalingUrl);
+    const secure = url.protocol === 'https:' || url.protocol === 'wss:';
+    return {
+      host: url.hostname,
+      port: url.port ? Number(url.port) : secure ? 443 : 80,
+      path: url.pathname.replace(/\/*$/, '/'),
+      secure,
+      key: 'peerjs',
+    };
+  }
 
-      return new Promise((resolve, reject) => {
-        if (!this.peer) {
-          reject(new Error('Failed to create peer'));
-          return;
+  /**
+   * Create or join the room on the signaling server
+   */
+  private async enterRoom(peerId: string, roomId: string, mode: RoomJoinMode) {
+    this.roomClient?.close();
+    const roomClient = new RoomClient(this.signalingUrl);
+    this.roomClient = roomClient;
+    roomClient.onRoomChange((room) => {
+      // The server picks a new host when the host leaves
+      if (room) this.setHostId(room.hostId);
+      if (room) this.admitListedPeers(room);
+      if (this.onRoomChangeCallback) {
+        this.onRoomChangeCallback(room);
+      }
+    });
+    roomClient.onDisconnect(() => {
+      if (this.roomClient !== roomClient || this.leaving) return;
+      console.log('⚠️ Lost the room server, reconnecting...');
+      this.scheduleReconnect();
+    });
+    await roomClient.connect();
+    const password = this.roomPassword ?? undefined;
+    const room = mode === 'create'
+      ? await roomClient.createRoom(roomId, peerId, this.myInstrument, password)
+      : await roomClient.joinRoom(roomId, peerId, this.myInstrument, password);
+    console.log('🏠 In room', room.id, 'with', room.members.length, 'members');
+    return room;
+  }
+
+  /**
+   * Join a room hosted on the public broker: connect to the host (or the
+   * lobby of a host that took over), which checks the password (if any) and
+   * answers with the roster of everyone else
+   */
+  private joinHostedRoom(roomId: string): Promise<void> {
+    const hostId = hostPeerId(roomId);
+    return new Promise((resolve, reject) => {
+      const peer = this.peer;
+      const finish = (error?: Error) => {
+        clearTimeout(timeout);
+        peer?.off('error', handleError);
+        this.hostJoin = null;
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
         }
+      };
+      const handleError = (error: PeerError<string>) => {
+        if (error.type !== 'peer-unavailable') return;
+        finish(new RoomRequestError('room-not-found', `Room ${roomId} does not exist`));
+      };
+      const timeout = setTimeout(() => {
+        finish(new RoomRequestError('room-not-found', `Room ${roomId} did not answer`));
+      }, ROOM_JOIN_TIMEOUT_MS);
 
-        this.peer.on('open', (id: string) => {
-          console.log('🎵 Peer connected with ID:', id);
-          this.myId = id;
-          this.setupPeerHandlers();
-          resolve(id);
-        });
-
-        this.peer.on('error', (error: any) => {
-          console.error('❌ Peer error:', error);
-          // If cloud server fails, try to use localhost (for development)
-          if (error.type === 'server-error') {
-            console.log('⚠️ Trying alternative connection method...');
-            this.initializeFallback(instrument, roomId).then(resolve).catch(reject);
-          } else {
-            reject(error);
-          }
-        });
-      });
-    } catch (error) {
-      console.error('❌ Failed to initialize PeerJS:', error);
-      throw error;
+      this.hostJoin = { hostId, resolve: () => finish(), reject: finish };
+      peer?.on('error', handleError);
+      if (!this.openConnection(hostId)) {
+        finish(new Error('Peer not initialized'));
+      }
+    });
+  }
+
+  /**
+   * Connect to every listed peer we aren't connected to yet (up to the mesh limit)
+   */
+  private connectToPeers(peerIds: string[]) {
+    for (const peerId of peerIds) {
+      if (peerId === this.myId || this.connections.has(peerId)) continue;
+      if (this.connections.size + this.pendingConnections.size >= MAX_MESH_PEERS) {
+        console.warn('⚠️ Mesh is full, not connecting to', peerId);
+        return;
+      }
+      this.openConnection(peerId);
     }
   }
 
   /**
-   * Fallback initialization (for development without PeerJS server)
+   * The signaling server can't be reached: play locally (local-only) while
+   * reconnecting in the background under the same peer id
    */
-  private async initializeFallback(instrument: Instrument, roomId: string): Promise<string> {
-    // Generate a local ID
-    const peerId = `local-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private initializeFallback(peerId: string): string {
     this.myId = peerId;
-    this.myInstrument = instrument;
-    this.roomId = roomId;
-    
-    console.log('🔧 Using fallback mode (local connections only)');
-    console.log('💡 For full P2P, set up a PeerJS server or use the cloud service');
-    
+    this.peer = null;
+
+    console.log('🔧 Signaling server unreachable, playing locally until it is back');
+    this.updateHealth('local-only');
+    this.scheduleReconnect();
+
     return peerId;
   }
 
   /**
-   * Setup peer event handlers
+   * Try again after a backoff delay to get back to the signaling server and the room
+   */
+  private scheduleReconnect() {
+    if (this.leaving || this.reconnectTimer !== null || this.reconnectInFlight) return;
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      console.warn('❌ Giving up reconnecting after', this.reconnectAttempt, 'attempts');
+      this.updateHealth('failed');
+      return;
+    }
+
+    this.reconnectAttempt++;
+    const delay = getBackoffDelay(this.reconnectAttempt);
+    console.log(`🔄 Reconnecting in ${Math.round(delay / 1000)}s (attempt ${this.reconnectAttempt})`);
+    this.updateHealth(this.health.status === 'local-only' ? 'local-only' : 'reconnecting');
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      this.reconnectInFlight = true;
+      try {
+        await this.reconnectSession();
+        if (this.leaving) return;
+        console.log('✅ Reconnected');
+        this.reconnectAttempt = 0;
+        this.updateHealth('connected');
+      } catch (error) {
+        console.warn('⚠️ Reconnection attempt failed:', error);
+      } finally {
+        this.reconnectInFlight = false;
+      }
+      if (this.health.status !== 'connected') this.scheduleReconnect();
+    }, delay);
+  }
+
+  /**
+   * Get our peer back on the signaling server (same id, same instrument) and rejoin the room
+   */
+  private async reconnectSession() {
+    const peer = this.peer;
+    if (peer && !peer.destroyed && peer.disconnected) {
+      // Open connections to other peers survive losing the server
+      peer.reconnect();
+      await waitForOpen(peer);
+    } else if (!peer || peer.destroyed) {
+      try {
+        await this.openPeer(this.myId as string);
+      } catch (error) {
+        if (!this.isRoomHost || !this.inRoom || !isPeerError(error, 'unavailable-id')) throw error;
+        // A member took over as host while we were away: come back as a member
+        console.log('👑 Our room has a new host, rejoining as a member');
+        this.isRoomHost = false;
+        await this.openPeer(createMemberId(this.roomId as string));
+      }
+    }
+    if (this.leaving) return;
+
+    if (!this.inRoom) {
+      // Never got in (local-only): do what initialize would have
+      await this.enterSession(this.joinMode);
+    } else if (this.hasSignalingServer() && !this.roomClient?.getRoom()) {
+      // The room server forgot us with our socket; the room is gone too if we were the last one in it
+      const room = await this.enterRoom(this.myId as string, this.roomId as string, 'join').catch((error) => {
+        if (!(error instanceof RoomRequestError) || error.code !== 'room-not-found') throw error;
+        return this.enterRoom(this.myId as string, this.roomId as string, 'create');
+      });
+      this.setHostId(room.hostId);
+      this.connectToPeers(room.members.map((member) => member.peerId));
+    } else if (!this.hasSignalingServer() && !this.isRoomHost && this.connections.size === 0) {
+      // Everyone was lost with our peer: ask the host (or its successor's lobby) who's here
+      await this.joinHostedRoom(this.roomId as string);
+    }
+  }
+
+  /**
+   * Start reconnecting again after giving up
    */
-  private setupPeerHandlers() {
-    if (!this.peer) return;
+  retryConnection() {
+    if (this.health.status !== 'failed') return;
+    this.reconnectAttempt = 0;
+    this.scheduleReconnect();
+  }
 
+  /**
+   * Setup peer event handlers
+   */
+  private setupPeerHandlers(peer: Peer) {
     // Handle incoming connections
-    this.peer.on('connection', (conn: any) => {
+    peer.on('connection', (conn) => {
+      if (conn.metadata?.channel === REALTIME_CHANNEL) {
+        this.setupRealtimeConnection(conn);
+        return;
+      }
+      if (this.connections.size >= MAX_MESH_PEERS) {
+        console.warn('⚠️ Mesh is full, refusing connection from', conn.peer);
+        conn.on('open', () => conn.close());
+        return;
+      }
       console.log('🔗 New peer connected:', conn.peer);
-      this.setupConnection(conn);
+      // A password-protected room's host admits newcomers once their join message checks out
+      if (this.isRoomHost && this.roomPassword) {
+        this.awaitingAuth.add(conn.peer);
+      }
+      // Anyone can dial a peer id: with a room server, only members it lists get in
+      this.setupConnection(conn, this.hasSignalingServer() && !this.isListedMember(conn.peer));
+    });
+
+    peer.on('error', (error: PeerError<string>) => {
+      // A peer we tried to reach is gone: stop waiting for it
+      if (error.type === 'peer-unavailable') {
+        const match = /peer (\S+)$/.exec(String(error.message));
+        if (match) this.pendingConnections.delete(match[1]);
+        return;
+      }
+      // Losing the server shows up as an error (and, at first, a disconnect)
+      if (peer === this.peer && ['network', 'server-error', 'socket-error', 'socket-closed'].includes(error.type ?? '')) {
+        this.scheduleReconnect();
+      }
     });
 
     // Handle disconnection
-    this.peer.on('disconnected', () => {
+    peer.on('disconnected', () => {
+      if (peer !== this.peer || this.leaving) return;
       console.log('⚠️ Disconnected from PeerJS server, reconnecting...');
-      if (!this.peer.destroyed) {
-        this.peer.reconnect();
-      }
+      this.scheduleReconnect();
     });
 
-    // Handle close
-    this.peer.on('close', () => {
+    // Handle close (the peer was destroyed: every connection went with it)
+    peer.on('close', () => {
       console.log('🔌 Peer connection closed');
+      if (peer === this.peer && !this.leaving) this.scheduleReconnect();
     });
   }
 
@@ -157,63 +560,450 @@ export class PeerManager {
       return;
     }
 
+    this.openConnection(peerId);
+  }
+
+  /**
+   * Start a connection (unless one is already open or on its way)
+   */
+  private openConnection(peerId: string) {
+    if (!this.peer || this.peer.destroyed) return null;
+    if (this.connections.has(peerId) || this.pendingConnections.has(peerId)) {
+      return this.connections.get(peerId) ?? null;
+    }
+
     try {
       const conn = this.peer.connect(peerId, {
         reliable: true,
       });
 
+      this.pendingConnections.add(peerId);
       this.setupConnection(conn);
+      return conn;
     } catch (error) {
       console.error('❌ Failed to connect to peer:', error);
+      return null;
     }
   }
 
   /**
    * Setup connection handlers
+   * @param untilListed - Hold the connection until the room server lists the peer as a member
    */
-  private setupConnection(conn: any) {
-    conn.on('open', () => {
-      console.log('✅ Connection opened with:', conn.peer);
-      this.connections.set(conn.peer, conn);
-      
-      // Send join message with instrument
-      this.sendToPeer(conn.peer, {
-        type: 'join',
-        instrument: this.myInstrument,
-      });
+  private setupConnection(conn: DataConnection, untilListed = false) {
+    const isHeld = () => this.unlistedPeers.get(conn.peer)?.conn === conn;
 
-      if (this.onPeerConnectedCallback) {
-        this.onPeerConnectedCallback(conn.peer, this.myInstrument);
+    conn.on('open', () => {
+      this.pendingConnections.delete(conn.peer);
+      if (this.awaitingAuth.has(conn.peer) || isHeld()) return;
+      // The room's host id may answer from a lobby rather than as a member: admit it on its join
+      if (this.hostJoin?.hostId === conn.peer) {
+        this.sendJoin(conn);
+        return;
       }
+      this.acceptConnection(conn);
     });
 
-    conn.on('data', (data: PeerMessage) => {
-      if (this.onMessageCallback) {
-        this.onMessageCallback(conn.peer, data);
+    const handleData = (raw: unknown) => {
+      const decoded = decodePeerMessage(raw);
+      if (!decoded.ok) {
+        if (decoded.error === 'unsupported-version') {
+          this.rejectIncompatiblePeer(conn, decoded.detail);
+        } else {
+          console.warn('⚠️ Dropping invalid message from', conn.peer, `(${decoded.error}: ${decoded.detail})`);
+        }
+        return;
+      }
+      const data = decoded.message;
+      if (data.type === 'join') {
+        this.peerCapabilities.set(conn.peer, data.capabilities);
+      }
+      if (data.type === 'join' || data.type === 'instrument-change') {
+        this.peerInstruments.set(conn.peer, data.instrument);
+      }
+
+      if (this.awaitingAuth.has(conn.peer)) {
+        this.awaitingAuth.delete(conn.peer);
+        if (data.type !== 'join' || data.password !== this.roomPassword) {
+          console.warn('🔒 Wrong room password from:', conn.peer);
+          this.send(conn, { type: 'auth-failed' });
+          setTimeout(() => conn.close(), CLOSE_AFTER_REPLY_DELAY_MS);
+          return;
+        }
+        this.acceptConnection(conn);
+      }
+      if (data.type === 'join' && this.hostJoin?.hostId === conn.peer && !this.connections.has(conn.peer)) {
+        this.admitConnection(conn);
+      }
+      if (data.type === 'leave') {
+        this.leftPeers.add(conn.peer);
+        return;
+      }
+      if (data.type === 'roster') {
+        this.connectToPeers(data.peers);
+        if (data.host) this.setHostId(data.host);
+        if (this.hostJoin?.hostId === conn.peer) {
+          if (!data.host) this.setHostId(conn.peer);
+          // A lobby only hands out the roster
+          if (!this.connections.has(conn.peer)) conn.close();
+          this.hostJoin?.resolve();
+        }
+        return;
+      }
+      if (data.type === 'auth-failed') {
+        this.hostJoin?.reject(new RoomRequestError('wrong-password', 'Wrong room password'));
+        return;
+      }
+      // Both sides are admitted once the join arrives; the lower id opens the realtime channel
+      if (
+        data.type === 'join' &&
+        data.capabilities.includes('realtime') &&
+        this.connections.get(conn.peer) === conn &&
+        this.myId !== null &&
+        this.myId < conn.peer
+      ) {
+        this.openRealtimeConnection(conn.peer);
+      }
+      this.deliver(conn.peer, data);
+    };
+
+    if (untilListed) {
+      const queued: unknown[] = [];
+      this.unlistedPeers.get(conn.peer)?.conn.close();
+      this.unlistedPeers.set(conn.peer, {
+        conn,
+        queued,
+        admit: () => {
+          if (!isHeld()) return;
+          clearTimeout(this.unlistedPeers.get(conn.peer)?.timer);
+          this.unlistedPeers.delete(conn.peer);
+          if (conn.open) this.acceptConnection(conn);
+          queued.forEach(handleData);
+        },
+        timer: setTimeout(() => {
+          if (!isHeld()) return;
+          console.warn('🔒 Refusing connection from a peer outside the room:', conn.peer);
+          this.unlistedPeers.delete(conn.peer);
+          conn.close();
+        }, UNLISTED_PEER_WAIT_MS),
+      });
+    }
+
+    conn.on('data', (raw: unknown) => {
+      if (isHeld()) {
+        this.unlistedPeers.get(conn.peer)?.queued.push(raw);
+        return;
       }
+      handleData(raw);
     });
 
     conn.on('close', () => {
       console.log('🔌 Connection closed with:', conn.peer);
+      this.pendingConnections.delete(conn.peer);
+      if (isHeld()) {
+        clearTimeout(this.unlistedPeers.get(conn.peer)?.timer);
+        this.unlistedPeers.delete(conn.peer);
+      }
+      this.awaitingAuth.delete(conn.peer);
+      this.peerCapabilities.delete(conn.peer);
+      this.peerInstruments.delete(conn.peer);
+      // Only peers that were admitted count as leaving
+      if (this.connections.get(conn.peer) !== conn) return;
       this.connections.delete(conn.peer);
-      
-      if (this.onPeerDisconnectedCallback) {
-        this.onPeerDisconnectedCallback(conn.peer);
+      this.realtimeConnections.get(conn.peer)?.close();
+      this.realtimeConnections.delete(conn.peer);
+      if (this.leaving) return;
+
+      // Peers that said goodbye are gone; anyone else may just have dropped
+      if (this.leftPeers.delete(conn.peer)) {
+        this.handlePeerGone(conn.peer);
+      } else {
+        console.log('⚠️ Lost connection to', conn.peer, '- waiting for them to come back');
+        this.droppedPeers.set(conn.peer, { attempt: 0, timer: null });
+        this.updateHealth();
+        this.retryDroppedPeer(conn.peer);
       }
     });
 
-    conn.on('error', (error: any) => {
+    conn.on('error', (error: PeerError<string>) => {
       console.error('❌ Connection error:', error);
+      this.pendingConnections.delete(conn.peer);
+    });
+  }
+
+  private isListedMember(peerId: string): boolean {
+    return this.roomClient?.getRoom()?.members.some((member) => member.peerId === peerId) ?? false;
+  }
+
+  /**
+   * Let in held connections from peers the room server now lists
+   */
+  private admitListedPeers(room: RoomInfo) {
+    for (const { peerId } of room.members) {
+      this.unlistedPeers.get(peerId)?.admit();
+    }
+  }
+
+  /**
+   * Open the unordered channel for realtime messages to an admitted peer.
+   * Without retransmission waits a lost packet doesn't hold up later hits.
+   */
+  private openRealtimeConnection(peerId: string) {
+    if (!this.peer || this.peer.destroyed || this.realtimeConnections.has(peerId)) return;
+    try {
+      const conn = this.peer.connect(peerId, {
+        reliable: false,
+        metadata: { channel: REALTIME_CHANNEL },
+      });
+      this.setupRealtimeConnection(conn);
+    } catch (error) {
+      console.warn('⚠️ Failed to open realtime channel, staying on the reliable one:', error);
+    }
+  }
+
+  /**
+   * Realtime channel handlers: only realtime messages are accepted on it,
+   * and only from peers admitted on their reliable connection
+   */
+  private setupRealtimeConnection(conn: DataConnection) {
+    conn.on('open', () => {
+      if (!this.connections.has(conn.peer)) {
+        conn.close();
+        return;
+      }
+      console.log('⚡ Realtime channel open with:', conn.peer);
+      this.realtimeConnections.set(conn.peer, conn);
+    });
+
+    conn.on('data', (raw: unknown) => {
+      if (this.realtimeConnections.get(conn.peer) !== conn) return;
+      const decoded = decodePeerMessage(raw);
+      if (!decoded.ok || !isRealtimeMessage(decoded.message)) {
+        console.warn('⚠️ Dropping unexpected message on realtime channel from', conn.peer);
+        return;
+      }
+      this.deliver(conn.peer, decoded.message);
+    });
+
+    conn.on('close', () => {
+      if (this.realtimeConnections.get(conn.peer) === conn) {
+        console.log('⚡ Realtime channel closed with:', conn.peer);
+        this.realtimeConnections.delete(conn.peer);
+      }
+    });
+
+    conn.on('error', (error: unknown) => {
+      console.error('❌ Realtime channel error:', error);
+    });
+  }
+
+  /**
+   * Hand a message to the app (sound events too late to be musical are dropped)
+   */
+  private deliver(peerId: string, message: PeerMessage) {
+    if (message.type === 'sound-event' && this.scheduler.isTooLate(peerId, message.sentAt)) {
+      console.warn('⏱️ Dropping late sound event from', peerId);
+      return;
+    }
+    if (this.onMessageCallback) {
+      this.onMessageCallback(peerId, message);
+    }
+  }
+
+  /**
+   * Start talking to a peer whose connection is open (and admitted)
+   */
+  private acceptConnection(conn: DataConnection) {
+    this.sendJoin(conn);
+    this.admitConnection(conn);
+  }
+
+  /**
+   * Introduce ourselves: instrument, protocol, and the password to whoever
+   * holds the room's host id
+   */
+  private sendJoin(conn: DataConnection) {
+    const toHost = this.roomId !== null && conn.peer === hostPeerId(this.roomId);
+    this.send(conn, {
+      type: 'join',
+      instrument: this.myInstrument,
+      protocol: PROTOCOL_VERSION,
+      capabilities: PEER_CAPABILITIES,
+      ...(toHost && this.roomPassword ? { password: this.roomPassword } : {}),
+    });
+  }
+
+  /**
+   * Count a peer as a member of the room
+   */
+  private admitConnection(conn: DataConnection) {
+    console.log('✅ Connection opened with:', conn.peer);
+    this.connections.set(conn.peer, conn);
+
+    const dropped = this.droppedPeers.get(conn.peer);
+    if (dropped) {
+      console.log('🔁 Reconnected to', conn.peer);
+      if (dropped.timer !== null) clearTimeout(dropped.timer);
+      this.droppedPeers.delete(conn.peer);
+      this.updateHealth();
+    }
+
+    // The room host introduces newcomers to everyone else
+    if (this.isRoomHost) {
+      this.send(conn, {
+        type: 'roster',
+        peers: this.getConnectedPeers().filter((peerId) => peerId !== conn.peer),
+        host: this.myId ?? undefined,
+      });
+    }
+
+    if (this.myDrumZones) {
+      this.send(conn, { type: 'drum-layout', zones: this.myDrumZones });
+    }
+
+    if (this.onPeerConnectedCallback) {
+      this.onPeerConnectedCallback(conn.peer, this.peerInstruments.get(conn.peer) ?? null);
+    }
+  }
+
+  /**
+   * Wait (with backoff) for a dropped peer to come back. Like the realtime
+   * channel, only the lower id dials; the other side waits to be called.
+   */
+  private retryDroppedPeer(peerId: string) {
+    const dropped = this.droppedPeers.get(peerId);
+    if (!dropped) return;
+    if (dropped.attempt >= MAX_PEER_RECONNECT_ATTEMPTS) {
+      console.log('👋 Giving up on', peerId);
+      this.droppedPeers.delete(peerId);
+      this.updateHealth();
+      this.handlePeerGone(peerId);
+      return;
+    }
+
+    dropped.attempt++;
+    dropped.timer = setTimeout(() => {
+      dropped.timer = null;
+      if (!this.droppedPeers.has(peerId)) return;
+      if (this.myId !== null && this.myId < peerId && this.peer?.open) {
+        this.openConnection(peerId);
+      }
+      this.retryDroppedPeer(peerId);
+    }, getBackoffDelay(dropped.attempt));
+  }
+
+  /**
+   * A peer left for good (said goodbye, or never came back)
+   */
+  private handlePeerGone(peerId: string) {
+    if (this.onPeerDisconnectedCallback) {
+      this.onPeerDisconnectedCallback(peerId);
+    }
+    // With a signaling server, the server picks the next host
+    if (peerId === this.hostId && !this.hasSignalingServer()) {
+      this.electHost();
+    }
+  }
+
+  /**
+   * The host is gone: every member picks the lowest remaining id, so they all
+   * agree without talking it over. The new host takes over the room's
+   * well-known id with a lobby so newcomers can still find the room.
+   */
+  private electHost() {
+    const members = [this.myId, ...this.connections.keys()].filter((id): id is string => id !== null);
+    const newHost = members.sort()[0];
+    if (!newHost) return;
+    this.setHostId(newHost);
+    if (newHost === this.myId && !this.isRoomHost) {
+      this.lobbyAttempt = 0;
+      void this.openLobby();
+    }
+  }
+
+  private setHostId(hostId: string) {
+    if (this.hostId === hostId) return;
+    this.hostId = hostId;
+    console.log('👑 Room host is now', hostId === this.myId ? 'us' : hostId);
+    this.onHostChangeCallback?.(hostId);
+  }
+
+  /**
+   * Claim the room's host id on the public broker (retrying with backoff while
+   * the old host's registration expires)
+   */
+  private async openLobby() {
+    if (this.lobby || this.leaving || this.roomId === null) return;
+    try {
+      const lobby = await this.createPeer(hostPeerId(this.roomId));
+      this.lobby = lobby;
+      await waitForOpen(lobby);
+      console.log('🚪 Lobby open for newcomers on', lobby.id);
+      lobby.on('connection', (conn) => this.setupLobbyConnection(conn));
+    } catch (error) {
+      console.warn('⚠️ Could not open the lobby:', error);
+      this.lobby?.destroy();
+      this.lobby = null;
+      if (this.leaving || ++this.lobbyAttempt >= MAX_RECONNECT_ATTEMPTS) return;
+      setTimeout(() => void this.openLobby(), getBackoffDelay(this.lobbyAttempt));
+    }
+  }
+
+  /**
+   * A newcomer reached the lobby: check the password and hand them the
+   * roster (they then connect to every member directly)
+   */
+  private setupLobbyConnection(conn: DataConnection) {
+    conn.on('data', (raw: unknown) => {
+      const decoded = decodePeerMessage(raw);
+      if (!decoded.ok || decoded.message.type !== 'join') return;
+      if (this.roomPassword && decoded.message.password !== this.roomPassword) {
+        console.warn('🔒 Wrong room password from:', conn.peer);
+        conn.send(encodePeerMessage({ type: 'auth-failed' }, false));
+      } else {
+        conn.send(encodePeerMessage({
+          type: 'roster',
+          peers: [this.myId as string, ...this.getConnectedPeers()],
+          host: this.myId as string,
+        }, false));
+      }
+      setTimeout(() => conn.close(), CLOSE_AFTER_REPLY_DELAY_MS);
     });
   }
 
+  private updateHealth(status: ConnectionStatus = this.health.status) {
+    this.health = {
+      status,
+      attempt: status === 'reconnecting' || status === 'local-only' ? this.reconnectAttempt : 0,
+      reconnectingPeers: [...this.droppedPeers.keys()],
+    };
+    this.onHealthChangeCallback?.(this.health);
+  }
+
+  /**
+   * Encode a message the way this peer understands it and send it
+   */
+  private send(conn: DataConnection, message: PeerMessage) {
+    const binary = this.peerCapabilities.get(conn.peer)?.includes('binary') ?? false;
+    conn.send(encodePeerMessage(message, binary));
+  }
+
+  /**
+   * Drop a peer running an app version too old to understand
+   */
+  private rejectIncompatiblePeer(conn: DataConnection, reason: string) {
+    console.warn('⚠️ Incompatible peer, closing connection:', conn.peer, `(${reason})`);
+    this.onPeerIncompatibleCallback?.(conn.peer, reason);
+    conn.close();
+  }
+
   /**
    * Send message to a specific peer
    */
   sendToPeer(peerId: string, message: PeerMessage): void {
     const conn = this.connections.get(peerId);
     if (conn && conn.open) {
-      conn.send(message);
+      this.send(conn, message);
     } else {
       console.warn('⚠️ Cannot send to peer (not connected):', peerId);
     }
@@ -232,7 +1022,7 @@ export class PeerManager {
     this.connections.forEach((conn, peerId) => {
       if (conn.open) {
         try {
-          conn.send(message);
+          this.send(conn, message);
           sentCount++;
           console.log('✅ Sent message to peer:', peerId.substring(0, 8) + '...');
         } catch (error) {
@@ -252,7 +1042,8 @@ export class PeerManager {
     this.onMessageCallback = callback;
   }
 
-  onPeerConnected(callback: (peerId: string, instrument: Instrument) => void) {
+  // instrument is null when we opened the connection and the peer's join hasn't arrived yet
+  onPeerConnected(callback: (peerId: string, instrument: Instrument | null) => void) {
     this.onPeerConnectedCallback = callback;
   }
 
@@ -260,11 +1051,55 @@ export class PeerManager {
     this.onPeerDisconnectedCallback = callback;
   }
 
+  /**
+   * A peer runs an app version we can't talk to (its connection is closed)
+   */
+  onPeerIncompatible(callback: (peerId: string, reason: string) => void) {
+    this.onPeerIncompatibleCallback = callback;
+  }
+
+  /**
+   * The room's host changed (on join, and when the host leaves)
+   */
+  onHostChange(callback: (hostId: string) => void) {
+    this.onHostChangeCallback = callback;
+  }
+
+  /**
+   * Our connection to the room got better or worse
+   */
+  onHealthChange(callback: (health: ConnectionHealth) => void) {
+    this.onHealthChangeCallback = callback;
+  }
+
+  getHealth(): ConnectionHealth {
+    return this.health;
+  }
+
+  getHostId(): string | null {
+    return this.hostId;
+  }
+
+  /**
+   * Room membership changes (only with a signaling server)
+   */
+  onRoomChange(callback: (room: RoomInfo | null) => void) {
+    this.onRoomChangeCallback = callback;
+  }
+
+  /**
+   * The room as the signaling server sees it (null without one)
+   */
+  getRoom(): RoomInfo | null {
+    return this.roomClient?.getRoom() ?? null;
+  }
+
   /**
    * Change instrument and notify peers
    */
   changeInstrument(instrument: Instrument) {
     this.myInstrument = instrument;
+    this.roomClient?.updateMember(instrument);
     this.broadcast({
       type: 'instrument-change',
       instrument,
@@ -272,14 +1107,43 @@ export class PeerManager {
   }
 
   /**
-   * Send hand tracking data to peers
+   * Share where our drums sit, so peers' stage views draw them there
+   * (sent to everyone now and to whoever joins later)
    */
-  sendHandData(handData: any) {
-    this.broadcast({
-      type: 'hand-data',
-      data: handData,
-      instrument: this.myInstrument,
+  setDrumLayout(zones: DrumZoneLayout[]) {
+    if (zones === this.myDrumZones) return;
+    this.myDrumZones = zones;
+    if (this.connections.size > 0) {
+      this.broadcast({ type: 'drum-layout', zones });
+    }
+  }
+
+  /**
+   * Send a realtime message to every peer, over the realtime channel where it's open
+   * (quietly: this runs many times a second)
+   * @returns How many peers it went to
+   */
+  private sendRealtime(message: RealtimeMessage): number {
+    let sentCount = 0;
+    this.connections.forEach((conn, peerId) => {
+      const realtime = this.realtimeConnections.get(peerId);
+      const target = realtime?.open ? realtime : conn;
+      if (!target.open) return;
+      try {
+        this.send(target, message);
+        sentCount++;
+      } catch (error) {
+        console.error('❌ Failed to send', message.type, 'to peer', peerId, ':', error);
+      }
     });
+    return sentCount;
+  }
+
+  /**
+   * Send hand tracking data to peers
+   */
+  sendHandData(hands: RemoteHand[]) {
+    this.sendRealtime({ type: 'hand-data', hands, instrument: this.myInstrument });
   }
 
   /**
@@ -290,9 +1154,10 @@ export class PeerManager {
       type: 'sound-event' as const,
       event,
       instrument: this.myInstrument,
+      sentAt: Date.now(), // lets receivers line events up on their own clock
     };
-    console.log('📡 Broadcasting sound event to', this.connections.size, 'peers:', message);
-    this.broadcast(message);
+    const sentCount = this.sendRealtime(message);
+    console.log(`📡 Sent sound event to ${sentCount}/${this.connections.size} peers:`, message);
   }
 
   /**
@@ -313,17 +1178,60 @@ export class PeerManager {
    * Check if connected to a peer
    */
   isConnected(peerId: string): boolean {
-    return this.connections.has(peerId) && this.connections.get(peerId).open;
+    return this.connections.get(peerId)?.open === true;
   }
 
   /**
    * Disconnect from all peers and cleanup
    */
   disconnect() {
+    this.leaving = true;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.droppedPeers.forEach(({ timer }) => {
+      if (timer !== null) clearTimeout(timer);
+    });
+    this.droppedPeers.clear();
+    this.leftPeers.clear();
+
+    // Say goodbye, so peers don't wait for us to come back
     this.connections.forEach((conn) => {
-      conn.close();
+      try {
+        this.send(conn, { type: 'leave' });
+      } catch {
+        // closing anyway
+      }
+      conn.close({ flush: true });
     });
     this.connections.clear();
+    this.realtimeConnections.forEach((conn) => {
+      conn.close();
+    });
+    this.realtimeConnections.clear();
+    this.peerCapabilities.clear();
+    this.peerInstruments.clear();
+    this.pendingConnections.clear();
+    this.awaitingAuth.clear();
+    this.unlistedPeers.forEach(({ conn, timer }) => {
+      clearTimeout(timer);
+      conn.close();
+    });
+    this.unlistedPeers.clear();
+    this.isRoomHost = false;
+    this.roomPassword = null;
+    this.hostJoin = null;
+    this.hostId = null;
+    this.inRoom = false;
+    this.lobby?.destroy();
+    this.lobby = null;
+
+    if (this.roomClient) {
+      this.roomClient.leaveRoom();
+      this.roomClient.close();
+      this.roomClient = null;
+    }
 
     if (this.peer && !this.peer.destroyed) {
       this.peer.destroy();
@@ -331,6 +1239,7 @@ export class PeerManager {
 
     this.peer = null;
     this.myId = null;
+    this.updateHealth('offline');
   }
 }
 
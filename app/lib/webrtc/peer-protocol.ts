@@ -0,0 +1,388 @@
+/**
+ * Peer Protocol
+ * The wire format of messages between jam peers. Every message carries the
+ * protocol version and is validated on arrival; anything malformed or of
+ * an unknown type is rejected instead of reaching the app. High-rate
+ * messages (sound events, hand positions) go as compact binary to peers
+ * that announced the 'binary' capability in their join message, and over
+ * a separate unordered channel to peers that announced 'realtime'.
+ */
+
+import type { TempoClock } from '@/app/lib/sound/metronome';
+import type { Handedness, Point } from '@/app/types/motion';
+import { isZoneLayout, type DrumZoneLayout } from '@/components/practice/instruments/drum-layouts';
+import {
+  INSTRUMENT_IDS,
+  Instrument,
+  SoundEvent,
+  getInstrument,
+  getMidiNote,
+  isInstrument,
+  parseSoundEvent,
+} from '@/components/practice/instruments/registry';
+
+// Bump when a message changes shape; peers older than MIN_PROTOCOL_VERSION are turned away
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 2;
+
+// Optional features a peer can announce on join
+// (binary: compact frames; realtime: a second, unordered channel for REALTIME_MESSAGE_TYPES)
+export type PeerCapability = 'binary' | 'realtime';
+export const PEER_CAPABILITIES: PeerCapability[] = ['binary', 'realtime'];
+
+// MediaPipe tracks 21 landmarks per hand
+export const HAND_LANDMARK_COUNT = 21;
+// Landmark coordinates (normalized 0-1) are sent on a grid this fine
+const HAND_COORD_STEPS = 4096;
+
+/**
+ * One tracked hand as streamed to peers: normalized camera coordinates
+ * (un-mirrored), quantized with quantizeHand
+ */
+export interface RemoteHand {
+  handedness?: Handedness;
+  landmarks: Point[];
+}
+
+export type PeerMessage =
+  | { type: 'sound-event'; event: SoundEvent; instrument: Instrument; sentAt?: number }
+  | { type: 'hand-data'; hands: RemoteHand[]; instrument: Instrument }
+  | { type: 'instrument-change'; instrument: Instrument }
+  | { type: 'drum-layout'; zones: DrumZoneLayout[] } // where the sender's drums sit, for the stage
+  | {
+      type: 'join';
+      instrument: Instrument;
+      protocol: number;
+      capabilities: PeerCapability[];
+      password?: string;
+    }
+  | { type: 'leave' }
+  | { type: 'ping'; t0: number }
+  | { type: 'pong'; t0: number; time: number }
+  | { type: 'tempo'; clock: TempoClock }
+  | { type: 'clock-ping'; t0: number }
+  | { type: 'clock-pong'; t0: number; hostTime: number }
+  | { type: 'roster'; peers: string[]; host?: string } // host: the member currently hosting
+  | { type: 'auth-failed' };
+
+// Messages where a late copy is worse than none: they may take the unordered
+// realtime channel, and everything else always goes over the reliable one
+export const REALTIME_MESSAGE_TYPES = ['sound-event', 'hand-data'] as const;
+
+export type RealtimeMessage = Extract<PeerMessage, { type: (typeof REALTIME_MESSAGE_TYPES)[number] }>;
+
+export function isRealtimeMessage(message: PeerMessage): message is RealtimeMessage {
+  return (REALTIME_MESSAGE_TYPES as readonly string[]).includes(message.type);
+}
+
+// What goes over the data channel: a versioned object or a binary frame
+export type WireMessage = (PeerMessage & { v: number }) | ArrayBuffer;
+
+export type PeerProtocolError = 'unsupported-version' | 'malformed' | 'unknown-type';
+
+export type DecodeResult =
+  | { ok: true; message: PeerMessage }
+  | { ok: false; error: PeerProtocolError; detail: string };
+
+/**
+ * Encode a message for a peer
+ * @param binary - The peer understands binary frames
+ */
+export function encodePeerMessage(message: PeerMessage, binary: boolean): WireMessage {
+  if (binary) {
+    const frame = encodeBinary(message);
+    if (frame) return frame;
+  }
+  return { ...message, v: PROTOCOL_VERSION };
+}
+
+/**
+ * Validate whatever arrived on the data channel
+ */
+export function decodePeerMessage(data: unknown): DecodeResult {
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return decodeBinary(data);
+  }
+  if (typeof data !== 'object' || data === null) {
+    return reject('malformed', 'not an object');
+  }
+
+  const { v } = data as { v?: unknown };
+  if (typeof v !== 'number' || v < MIN_PROTOCOL_VERSION) {
+    return reject('unsupported-version', `protocol version ${String(v ?? 1)}`);
+  }
+
+  const message = parseMessage(data as Record<string, unknown>);
+  if (!message) {
+    const { type } = data as { type?: unknown };
+    return typeof type === 'string' && !MESSAGE_TYPES.includes(type)
+      ? reject('unknown-type', type)
+      : reject('malformed', String(type));
+  }
+  return { ok: true, message };
+}
+
+const MESSAGE_TYPES: string[] = [
+  'sound-event',
+  'hand-data',
+  'instrument-change',
+  'drum-layout',
+  'join',
+  'leave',
+  'ping',
+  'pong',
+  'tempo',
+  'clock-ping',
+  'clock-pong',
+  'roster',
+  'auth-failed',
+];
+
+/**
+ * Snap a hand's landmarks onto the wire grid (and into the frame)
+ */
+export function quantizeHand(landmarks: Point[], handedness?: Handedness): RemoteHand {
+  return {
+    handedness,
+    landmarks: landmarks.map(({ x, y }) => ({ x: quantizeCoord(x), y: quantizeCoord(y) })),
+  };
+}
+
+function quantizeCoord(value: number): number {
+  return Math.round(Math.max(0, Math.min(1, value)) * HAND_COORD_STEPS) / HAND_COORD_STEPS;
+}
+
+function reject(error: PeerProtocolError, detail: string): DecodeResult {
+  return { ok: false, error, detail };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function parsePoint(value: unknown): Point | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { x, y } = value as { x?: unknown; y?: unknown };
+  return isFiniteNumber(x) && isFiniteNumber(y) ? { x, y } : null;
+}
+
+function parseRemoteHand(value: unknown): RemoteHand | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { handedness, landmarks } = value as { handedness?: unknown; landmarks?: unknown };
+  if (handedness !== undefined && handedness !== 'Left' && handedness !== 'Right') return null;
+  if (!Array.isArray(landmarks) || landmarks.length !== HAND_LANDMARK_COUNT) return null;
+  const points = landmarks.map(parsePoint);
+  if (points.some((point) => point === null)) return null;
+  return { handedness, landmarks: points as Point[] };
+}
+
+function parseRemoteHands(value: unknown): RemoteHand[] | null {
+  if (!Array.isArray(value)) return null;
+  const hands = value.map(parseRemoteHand);
+  return hands.some((hand) => hand === null) ? null : (hands as RemoteHand[]);
+}
+
+function parseTempoClock(value: unknown): TempoClock | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { bpm, beatsPerBar, beatUnit, running, beatZeroAt } = value as Record<string, unknown>;
+  if (
+    !isFiniteNumber(bpm) || bpm <= 0 ||
+    !isFiniteNumber(beatsPerBar) || beatsPerBar <= 0 ||
+    !isFiniteNumber(beatUnit) || beatUnit <= 0 ||
+    typeof running !== 'boolean' ||
+    !isFiniteNumber(beatZeroAt)
+  ) {
+    return null;
+  }
+  return { bpm, beatsPerBar, beatUnit, running, beatZeroAt };
+}
+
+/**
+ * Schema check for every message type (fields we don't know are dropped)
+ */
+function parseMessage(value: Record<string, unknown>): PeerMessage | null {
+  switch (value.type) {
+    case 'sound-event': {
+      const event = parseSoundEvent(value.event);
+      if (!event || !isInstrument(value.instrument)) return null;
+      if (value.sentAt !== undefined && !isFiniteNumber(value.sentAt)) return null;
+      return { type: 'sound-event', event, instrument: value.instrument, sentAt: value.sentAt };
+    }
+    case 'hand-data': {
+      const hands = parseRemoteHands(value.hands);
+      if (!hands || !isInstrument(value.instrument)) return null;
+      return { type: 'hand-data', hands, instrument: value.instrument };
+    }
+    case 'instrument-change':
+      return isInstrument(value.instrument) ? { type: 'instrument-change', instrument: value.instrument } : null;
+    case 'drum-layout':
+      return Array.isArray(value.zones) && value.zones.every(isZoneLayout)
+        ? { type: 'drum-layout', zones: value.zones }
+        : null;
+    case 'join': {
+      const { instrument, protocol, capabilities, password } = value;
+      if (!isInstrument(instrument) || !isFiniteNumber(protocol) || !isStringArray(capabilities)) return null;
+      if (password !== undefined && typeof password !== 'string') return null;
+      return {
+        type: 'join',
+        instrument,
+        protocol,
+        // Capabilities from newer versions that we don't know are ignored
+        capabilities: PEER_CAPABILITIES.filter((capability) => capabilities.includes(capability)),
+        password,
+      };
+    }
+    case 'leave':
+      return { type: 'leave' };
+    case 'ping':
+      return isFiniteNumber(value.t0) ? { type: 'ping', t0: value.t0 } : null;
+    case 'pong':
+      return isFiniteNumber(value.t0) && isFiniteNumber(value.time)
+        ? { type: 'pong', t0: value.t0, time: value.time }
+        : null;
+    case 'tempo': {
+      const clock = parseTempoClock(value.clock);
+      return clock ? { type: 'tempo', clock } : null;
+    }
+    case 'clock-ping':
+      return isFiniteNumber(value.t0) ? { type: 'clock-ping', t0: value.t0 } : null;
+    case 'clock-pong':
+      return isFiniteNumber(value.t0) && isFiniteNumber(value.hostTime)
+        ? { type: 'clock-pong', t0: value.t0, hostTime: value.hostTime }
+        : null;
+    case 'roster': {
+      const { peers, host } = value;
+      if (!isStringArray(peers) || (host !== undefined && typeof host !== 'string')) return null;
+      return host === undefined ? { type: 'roster', peers } : { type: 'roster', peers, host };
+    }
+    case 'auth-failed':
+      return { type: 'auth-failed' };
+    default:
+      return null;
+  }
+}
+
+/*
+ * Binary frames: [version u8][kind u8][payload]
+ *   sound-event: [sender's instrument u8][event's instrument u8][MIDI note u8][velocity u8][sentAt f64]  (14 bytes)
+ *     Sound events travel as their instrument's MIDI note, which maps back
+ *     to the same event; events without a note are sent as objects.
+ *   hand-data:   [instrument u8][hand count u8], then per hand
+ *                [handedness u8: 0 = unknown, 1 = left, 2 = right][21 × landmark x,y u16 on the wire grid]
+ */
+const FRAME_SOUND_EVENT = 1;
+const FRAME_HAND_DATA = 2;
+const SOUND_EVENT_FRAME_BYTES = 14;
+const HAND_DATA_HEADER_BYTES = 4;
+const HAND_BYTES = 1 + HAND_LANDMARK_COUNT * 4;
+const HANDEDNESS_CODES: (Handedness | undefined)[] = [undefined, 'Left', 'Right'];
+const NO_SENT_AT = -1;
+
+function encodeBinary(message: PeerMessage): ArrayBuffer | null {
+  switch (message.type) {
+    case 'sound-event': {
+      const midi = getMidiNote(message.event);
+      if (!midi) return null;
+      const view = new DataView(new ArrayBuffer(SOUND_EVENT_FRAME_BYTES));
+      view.setUint8(0, PROTOCOL_VERSION);
+      view.setUint8(1, FRAME_SOUND_EVENT);
+      view.setUint8(2, INSTRUMENT_IDS.indexOf(message.instrument));
+      view.setUint8(3, INSTRUMENT_IDS.indexOf(message.event.type));
+      view.setUint8(4, midi.note);
+      view.setUint8(5, Math.round(Math.max(0, Math.min(1, message.event.velocity ?? 1)) * 255));
+      view.setFloat64(6, message.sentAt ?? NO_SENT_AT);
+      return view.buffer;
+    }
+    case 'hand-data': {
+      const { hands } = message;
+      if (hands.some((hand) => hand.landmarks.length !== HAND_LANDMARK_COUNT)) return null;
+      const view = new DataView(new ArrayBuffer(HAND_DATA_HEADER_BYTES + hands.length * HAND_BYTES));
+      view.setUint8(0, PROTOCOL_VERSION);
+      view.setUint8(1, FRAME_HAND_DATA);
+      view.setUint8(2, INSTRUMENT_IDS.indexOf(message.instrument));
+      view.setUint8(3, hands.length);
+      hands.forEach((hand, handIndex) => {
+        let offset = HAND_DATA_HEADER_BYTES + handIndex * HAND_BYTES;
+        view.setUint8(offset, HANDEDNESS_CODES.indexOf(hand.handedness));
+        offset += 1;
+        hand.landmarks.forEach(({ x, y }) => {
+          view.setUint16(offset, Math.round(Math.max(0, Math.min(1, x)) * HAND_COORD_STEPS));
+          view.setUint16(offset + 2, Math.round(Math.max(0, Math.min(1, y)) * HAND_COORD_STEPS));
+          offset += 4;
+        });
+      });
+      return view.buffer;
+    }
+    default:
+      return null;
+  }
+}
+
+function decodeBinary(data: ArrayBuffer | ArrayBufferView): DecodeResult {
+  const view = data instanceof ArrayBuffer
+    ? new DataView(data)
+    : new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.byteLength < 2) return reject('malformed', 'short frame');
+
+  const version = view.getUint8(0);
+  if (version < MIN_PROTOCOL_VERSION) {
+    return reject('unsupported-version', `protocol version ${version}`);
+  }
+
+  const kind = view.getUint8(1);
+  switch (kind) {
+    case FRAME_SOUND_EVENT: {
+      if (view.byteLength < SOUND_EVENT_FRAME_BYTES) return reject('malformed', 'short sound-event frame');
+      const instrument = INSTRUMENT_IDS[view.getUint8(2)];
+      const eventInstrument = INSTRUMENT_IDS[view.getUint8(3)];
+      if (!instrument || !eventInstrument) return reject('malformed', 'unknown instrument');
+      // Each instrument only ever gets notes of its own, so its event type is widened here
+      const parseNote = getInstrument(eventInstrument).midi.parseNote as (
+        note: number,
+        velocity: number
+      ) => SoundEvent | null;
+      const event = parseNote(view.getUint8(4), view.getUint8(5) / 255);
+      if (!event) return reject('malformed', 'note not played by the instrument');
+      const sentAt = view.getFloat64(6);
+      return {
+        ok: true,
+        message: {
+          type: 'sound-event',
+          event,
+          instrument,
+          sentAt: sentAt === NO_SENT_AT ? undefined : sentAt,
+        },
+      };
+    }
+    case FRAME_HAND_DATA: {
+      if (view.byteLength < HAND_DATA_HEADER_BYTES) return reject('malformed', 'short hand-data frame');
+      const instrument = INSTRUMENT_IDS[view.getUint8(2)];
+      if (!instrument) return reject('malformed', 'unknown instrument');
+      const count = view.getUint8(3);
+      if (view.byteLength < HAND_DATA_HEADER_BYTES + count * HAND_BYTES) {
+        return reject('malformed', 'short hand-data frame');
+      }
+      const hands: RemoteHand[] = [];
+      for (let handIndex = 0; handIndex < count; handIndex++) {
+        let offset = HAND_DATA_HEADER_BYTES + handIndex * HAND_BYTES;
+        const handedness = HANDEDNESS_CODES[view.getUint8(offset)];
+        offset += 1;
+        const landmarks: Point[] = [];
+        for (let i = 0; i < HAND_LANDMARK_COUNT; i++, offset += 4) {
+          landmarks.push({
+            x: view.getUint16(offset) / HAND_COORD_STEPS,
+            y: view.getUint16(offset + 2) / HAND_COORD_STEPS,
+          });
+        }
+        hands.push({ handedness, landmarks });
+      }
+      return { ok: true, message: { type: 'hand-data', hands, instrument } };
+    }
+    default:
+      return reject('unknown-type', `binary frame ${kind}`);
+  }
+}
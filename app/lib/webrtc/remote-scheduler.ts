@@ -0,0 +1,179 @@
+/**
+ * Remote Scheduler
+ * Decides when a peer's sound event should sound here. Each event carries
+ * the sender's wall-clock time; with that peer's clock offset and network
+ * latency (from PeerClock) every event is played a fixed delay after it
+ * was sent, so network jitter doesn't smear the groove. The jitter buffer
+ * is the slack added on top of the measured latency.
+ */
+
+import type { ClockSample } from './peer-clock';
+
+export interface RemoteSchedulerSettings {
+  enabled: boolean;
+  jitterBufferMs: number;
+}
+
+export const DEFAULT_REMOTE_SCHEDULER_SETTINGS: RemoteSchedulerSettings = {
+  enabled: true,
+  jitterBufferMs: 30,
+};
+
+export const MAX_JITTER_BUFFER_MS = 200;
+
+// Never hold an event longer than this, whatever the clocks say
+const MAX_SCHEDULE_AHEAD_MS = 500;
+
+// Events arriving later than this after their playout time are dropped:
+// a hit that far behind the beat sounds like a mistake
+export const MAX_EVENT_LATENESS_MS = 80;
+
+/**
+ * Live latency readout for one peer
+ */
+export interface PeerLatency {
+  peerId: string;
+  roundTrip: number; // latest measured round trip (ms)
+  offset: number; // their wall clock minus ours (ms)
+  playoutDelay: number; // how long after sending their events play here (ms)
+  lateEvents: number; // events that arrived after their playout time
+  droppedEvents: number; // events too late to play at all
+}
+
+export interface RemoteSchedulerSnapshot {
+  settings: RemoteSchedulerSettings;
+  peers: PeerLatency[];
+}
+
+interface PeerTiming {
+  estimate: ClockSample; // best clock sample: its round trip is the base network latency
+  roundTrip: number;
+  lateEvents: number;
+  droppedEvents: number;
+}
+
+export class RemoteScheduler {
+  private static instance: RemoteScheduler | null = null;
+
+  private settings: RemoteSchedulerSettings = { ...DEFAULT_REMOTE_SCHEDULER_SETTINGS };
+  private peers: Map<string, PeerTiming> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private snapshot: RemoteSchedulerSnapshot;
+
+  static getInstance(): RemoteScheduler {
+    if (!RemoteScheduler.instance) {
+      RemoteScheduler.instance = new RemoteScheduler();
+    }
+    return RemoteScheduler.instance;
+  }
+
+  constructor() {
+    this.snapshot = this.createSnapshot();
+  }
+
+  getSettings(): RemoteSchedulerSettings {
+    return this.settings;
+  }
+
+  updateSettings(settings: Partial<RemoteSchedulerSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    if (settings.jitterBufferMs !== undefined) {
+      this.settings.jitterBufferMs = Math.max(0, Math.min(MAX_JITTER_BUFFER_MS, settings.jitterBufferMs));
+    }
+    this.notify();
+  }
+
+  /**
+   * New clock measurement for a peer (from PeerClock)
+   * @param estimate - The most reliable sample so far
+   * @param roundTrip - The latest round trip, for the readout
+   */
+  updateClock(peerId: string, estimate: ClockSample, roundTrip: number) {
+    const peer = this.peers.get(peerId);
+    this.peers.set(peerId, {
+      estimate,
+      roundTrip,
+      lateEvents: peer?.lateEvents ?? 0,
+      droppedEvents: peer?.droppedEvents ?? 0,
+    });
+    this.notify();
+  }
+
+  removePeer(peerId: string) {
+    if (this.peers.delete(peerId)) this.notify();
+  }
+
+  /**
+   * How long to wait before playing a peer's event
+   * @param sentAt - The sender's Date.now() when it sent the event
+   * @returns Seconds from now (0 = play immediately)
+   */
+  getPlaybackDelay(peerId: string, sentAt: number | undefined): number {
+    const peer = this.peers.get(peerId);
+    // Until the peer's clock has been measured there's nothing to line up against
+    if (!this.settings.enabled || sentAt === undefined || !peer) return 0;
+
+    const sentHere = sentAt - peer.estimate.offset;
+    const playAt = sentHere + this.getPlayoutDelay(peer);
+    const delayMs = playAt - Date.now();
+    if (delayMs < 0) {
+      peer.lateEvents++;
+      this.notify();
+      return 0;
+    }
+    return Math.min(delayMs, MAX_SCHEDULE_AHEAD_MS) / 1000;
+  }
+
+  /**
+   * Whether a peer's event arrived too late to be worth playing (counted as dropped)
+   * @param sentAt - The sender's Date.now() when it sent the event
+   */
+  isTooLate(peerId: string, sentAt: number | undefined): boolean {
+    const peer = this.peers.get(peerId);
+    if (sentAt === undefined || !peer) return false;
+
+    const playAt = sentAt - peer.estimate.offset + this.getPlayoutDelay(peer);
+    if (Date.now() - playAt <= MAX_EVENT_LATENESS_MS) return false;
+    peer.droppedEvents++;
+    this.notify();
+    return true;
+  }
+
+  getSnapshot = (): RemoteSchedulerSnapshot => this.snapshot;
+
+  /**
+   * Be notified when settings or latency figures change. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * One-way network latency plus the jitter buffer (ms)
+   */
+  private getPlayoutDelay(peer: PeerTiming): number {
+    return peer.estimate.roundTrip / 2 + this.settings.jitterBufferMs;
+  }
+
+  private createSnapshot(): RemoteSchedulerSnapshot {
+    return {
+      settings: this.settings,
+      peers: [...this.peers.entries()].map(([peerId, peer]) => ({
+        peerId,
+        roundTrip: peer.roundTrip,
+        offset: peer.estimate.offset,
+        playoutDelay: this.getPlayoutDelay(peer),
+        lateEvents: peer.lateEvents,
+        droppedEvents: peer.droppedEvents,
+      })),
+    };
+  }
+
+  private notify() {
+    this.snapshot = this.createSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
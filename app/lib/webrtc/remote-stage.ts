@@ -0,0 +1,75 @@
+/**
+ * Remote Stage
+ * What we know about how each bandmate is moving: their latest hands and
+ * which of their instrument's zones just got hit. The jam stage view reads
+ * it every animation frame, so updates don't go through React.
+ */
+
+import { Instrument, SoundEvent, getStageHitZoneIds } from '@/components/practice/instruments/registry';
+import type { SharedLayouts } from '@/components/practice/instruments/instrument-types';
+import type { DrumZoneLayout } from '@/components/practice/instruments/drum-layouts';
+import type { RemoteHand } from './peer-protocol';
+
+export interface RemotePlayerState {
+  instrument: Instrument | null; // from their hand stream; null until it arrives
+  hands: RemoteHand[];
+  handsAt: number; // performance.now() of the last hand frame
+  hits: Map<string, number>; // zone id → performance.now() it lights up
+  layouts: SharedLayouts; // replaced (not mutated) on every change
+}
+
+export class RemoteStage {
+  private static instance: RemoteStage | null = null;
+
+  private players: Map<string, RemotePlayerState> = new Map();
+
+  static getInstance(): RemoteStage {
+    if (!RemoteStage.instance) {
+      RemoteStage.instance = new RemoteStage();
+    }
+    return RemoteStage.instance;
+  }
+
+  updateHands(peerId: string, instrument: Instrument, hands: RemoteHand[]) {
+    const player = this.getOrCreate(peerId);
+    player.instrument = instrument;
+    player.hands = hands;
+    player.handsAt = performance.now();
+  }
+
+  updateDrumLayout(peerId: string, zones: DrumZoneLayout[]) {
+    const player = this.getOrCreate(peerId);
+    player.layouts = { ...player.layouts, drums: zones };
+  }
+
+  /**
+   * Light up the zones a peer's sound event belongs to
+   * @param delay - Seconds until the sound plays here, so the flash lands with it
+   */
+  showHit(peerId: string, event: SoundEvent, delay: number = 0) {
+    const player = this.getOrCreate(peerId);
+    const at = performance.now() + delay * 1000;
+    getStageHitZoneIds(event).forEach((zoneId) => player.hits.set(zoneId, at));
+  }
+
+  getPlayer(peerId: string): RemotePlayerState | undefined {
+    return this.players.get(peerId);
+  }
+
+  removePeer(peerId: string) {
+    this.players.delete(peerId);
+  }
+
+  clear() {
+    this.players.clear();
+  }
+
+  private getOrCreate(peerId: string): RemotePlayerState {
+    let player = this.players.get(peerId);
+    if (!player) {
+      player = { instrument: null, hands: [], handsAt: 0, hits: new Map(), layouts: {} };
+      this.players.set(peerId, player);
+    }
+    return player;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Room client
+ * Talks to the /rooms socket of the signaling server (server/): creates and
+ * joins rooms and keeps the member list up to date.
+ */
+
+import type {
+  RoomClientMessage,
+  RoomErrorCode,
+  RoomInfo,
+  RoomServerMessage,
+  RoomSummary,
+} from '@/server/types/signaling';
+
+export type { RoomInfo, RoomMember, RoomSummary } from '@/server/types/signaling';
+
+export class RoomRequestError extends Error {
+  constructor(
+    public readonly code: RoomErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RoomRequestError';
+  }
+}
+
+// How long to wait for the server to answer a request
+const REQUEST_TIMEOUT_MS = 10000;
+
+interface PendingRequest {
+  expects: 'room-joined' | 'rooms';
+  resolve: (message: RoomServerMessage) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+export class RoomClient {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private room: RoomInfo | null = null;
+  private pending: PendingRequest[] = [];
+  private onRoomChangeCallback?: (room: RoomInfo | null) => void;
+  private onServerMessageCallback?: (message: RoomServerMessage) => void;
+  private onDisconnectCallback?: () => void;
+
+  /**
+   * @param serverUrl - Base URL of the signaling server (http(s) or ws(s))
+   */
+  constructor(serverUrl: string) {
+    this.url = `${serverUrl.replace(/^http/, 'ws').replace(/\/+$/, '')}/rooms`;
+  }
+
+  /**
+   * Open the socket (resolves once connected)
+   */
+  connect(): Promise<void> {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        console.log('🏠 Connected to room server');
+        resolve();
+      };
+      socket.onerror = () => {
+        reject(new Error(`Could not reach the room server at ${this.url}`));
+      };
+      socket.onmessage = (event) => {
+        try {
+          this.handleMessage(JSON.parse(event.data) as RoomServerMessage);
+        } catch (error) {
+          console.error('❌ Bad message from room server:', error);
+        }
+      };
+      socket.onclose = () => {
+        if (this.socket !== socket) return;
+        console.log('🔌 Room server connection closed');
+        this.socket = null;
+        this.failPending(new Error('Room server connection closed'));
+        this.setRoom(null);
+        this.onDisconnectCallback?.();
+      };
+    });
+  }
+
+  async createRoom(roomId: string, peerId: string, instrument: string, password?: string): Promise<RoomInfo> {
+    const message = await this.request(
+      { type: 'create-room', roomId, peerId, instrument, password },
+      'room-joined'
+    );
+    return (message as Extract<RoomServerMessage, { type: 'room-joined' }>).room;
+  }
+
+  async joinRoom(roomId: string, peerId: string, instrument: string, password?: string): Promise<RoomInfo> {
+    const message = await this.request(
+      { type: 'join-room', roomId, peerId, instrument, password },
+      'room-joined'
+    );
+    return (message as Extract<RoomServerMessage, { type: 'room-joined' }>).room;
+  }
+
+  async listRooms(): Promise<RoomSummary[]> {
+    const message = await this.request({ type: 'list-rooms' }, 'rooms');
+    return (message as Extract<RoomServerMessage, { type: 'rooms' }>).rooms;
+  }
+
+  leaveRoom() {
+    this.send({ type: 'leave-room' });
+    this.setRoom(null);
+  }
+
+  updateMember(instrument: string) {
+    if (!this.room) return;
+    this.send({ type: 'update-member', instrument });
+  }
+
+  /**
+   * The current room, kept in sync with join / leave / update events
+   */
+  getRoom(): RoomInfo | null {
+    return this.room;
+  }
+
+  onRoomChange(callback: (room: RoomInfo | null) => void) {
+    this.onRoomChangeCallback = callback;
+  }
+
+  /**
+   * Every message from the server (after the room has been updated)
+   */
+  onServerMessage(callback: (message: RoomServerMessage) => void) {
+    this.onServerMessageCallback = callback;
+  }
+
+  /**
+   * The socket dropped (not called after close())
+   */
+  onDisconnect(callback: () => void) {
+    this.onDisconnectCallback = callback;
+  }
+
+  close() {
+    const socket = this.socket;
+    this.socket = null;
+    this.failPending(new Error('Room client closed'));
+    this.room = null;
+    socket?.close();
+  }
+
+  private request(message: RoomClientMessage, expects: PendingRequest['expects']): Promise<RoomServerMessage> {
+    return new Promise((resolve, reject) => {
+      if (!this.send(message)) {
+        reject(new Error('Not connected to the room server'));
+        return;
+      }
+      const request: PendingRequest = {
+        expects,
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.pending = this.pending.filter((candidate) => candidate !== request);
+          reject(new Error('Room server did not answer'));
+        }, REQUEST_TIMEOUT_MS),
+      };
+      this.pending.push(request);
+    });
+  }
+
+  private send(message: RoomClientMessage): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private handleMessage(message: RoomServerMessage) {
+    switch (message.type) {
+      case 'room-joined':
+        this.setRoom(message.room);
+        break;
+      case 'member-joined':
+        if (this.room?.id === message.roomId) {
+          this.setRoom({ ...this.room, members: [...this.room.members, message.member] });
+        }
+        break;
+      case 'member-left':
+        if (this.room?.id === message.roomId) {
+          this.setRoom({
+            ...this.room,
+            hostId: message.hostId,
+            members: this.room.members.filter((member) => member.peerId !== message.peerId),
+          });
+        }
+        break;
+      case 'member-updated':
+        if (this.room?.id === message.roomId) {
+          this.setRoom({
+            ...this.room,
+            members: this.room.members.map((member) =>
+              member.peerId === message.member.peerId ? message.member : member
+            ),
+          });
+        }
+        break;
+    }
+
+    // Answer the oldest request waiting for this kind of reply (errors answer the oldest one)
+    const index =
+      message.type === 'error'
+        ? 0
+        : this.pending.findIndex((request) => request.expects === message.type);
+    const request = index >= 0 ? this.pending[index] : undefined;
+    if (request) {
+      this.pending.splice(index, 1);
+      clearTimeout(request.timeout);
+      if (message.type === 'error') {
+        request.reject(new RoomRequestError(message.code, message.message));
+      } else {
+        request.resolve(message);
+      }
+    } else if (message.type === 'error') {
+      console.warn('⚠️ Room server error:', message.message);
+    }
+
+    this.onServerMessageCallback?.(message);
+  }
+
+  private setRoom(room: RoomInfo | null) {
+    this.room = room;
+    this.onRoomChangeCallback?.(room);
+  }
+
+  private failPending(error: Error) {
+    this.pending.forEach((request) => {
+      clearTimeout(request.timeout);
+      request.reject(error);
+    });
+    this.pending = [];
+  }
+}
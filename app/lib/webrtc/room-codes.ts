@@ -0,0 +1,45 @@
+/**
+ * Room codes
+ * Short codes people can read out loud and type, e.g. "K7QX2M".
+ * No 0/O or 1/I/L, so codes survive being read off a screen.
+ */
+
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 6;
+
+// Path of the jam page, used for invite links
+const JAM_PATH = '/jam';
+
+export function generateRoomCode(): string {
+  const bytes = new Uint32Array(ROOM_CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (value) => ROOM_CODE_ALPHABET[value % ROOM_CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Turn what someone typed or pasted (a code in any case, with spaces or
+ * dashes, or a whole invite link) into a room code
+ */
+export function normalizeRoomCode(input: string): string {
+  const trimmed = input.trim();
+  let code = trimmed;
+  if (trimmed.includes('room=')) {
+    try {
+      code = new URL(trimmed, 'http://localhost').searchParams.get('room') ?? trimmed;
+    } catch {
+      // Not a URL after all
+    }
+  }
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function isRoomCode(code: string): boolean {
+  return code.length === ROOM_CODE_LENGTH && [...code].every((char) => ROOM_CODE_ALPHABET.includes(char));
+}
+
+/**
+ * Link that opens the jam page and joins the room
+ */
+export function getInviteLink(code: string, origin: string = window.location.origin): string {
+  return `${origin}${JAM_PATH}?room=${encodeURIComponent(code)}`;
+}
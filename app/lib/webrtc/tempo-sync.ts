@@ -0,0 +1,154 @@
+/**
+ * Tempo Sync
+ * Keeps every peer's metronome on the host's beat. The host broadcasts its
+ * TempoClock; followers estimate the host's wall-clock offset with
+ * ping/pong round trips and schedule their clicks against it.
+ */
+
+import { Metronome, TempoClock } from '@/app/lib/sound/metronome';
+import { PeerManager, PeerMessage } from './peer-manager';
+import { ClockSample, measureClockSample, pickBestSample } from './peer-clock';
+
+// How often followers re-measure the clock offset
+const CLOCK_PING_INTERVAL_MS = 5000;
+// Keep the best (lowest round-trip) of the last few samples
+const CLOCK_SAMPLE_COUNT = 8;
+
+export class TempoSync {
+  private peerManager: PeerManager;
+  private metronome: Metronome;
+  private isHost = false;
+  private hostId: string | null = null;
+  private samples: ClockSample[] = [];
+  private lastClock: TempoClock | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeMetronome: (() => void) | null = null;
+
+  constructor(peerManager: PeerManager, metronome: Metronome = Metronome.getInstance()) {
+    this.peerManager = peerManager;
+    this.metronome = metronome;
+  }
+
+  /**
+   * Host drives the clock; everyone else follows the host
+   */
+  setHost(isHost: boolean) {
+    this.isHost = isHost;
+    this.unsubscribeMetronome?.();
+    this.unsubscribeMetronome = null;
+    this.stopPinging();
+
+    if (isHost) {
+      this.hostId = null;
+      // Any local tempo change or start/stop goes out to every peer
+      this.unsubscribeMetronome = this.metronome.subscribe(() => this.broadcastClock());
+      // Taking over from a host that left: followers switch to our clock
+      this.broadcastClock();
+    }
+  }
+
+  isFollowing(): boolean {
+    return !this.isHost && this.hostId !== null;
+  }
+
+  /**
+   * Bring a newly connected peer up to date
+   */
+  handlePeerConnected(peerId: string) {
+    if (this.isHost) {
+      this.peerManager.sendToPeer(peerId, { type: 'tempo', clock: this.metronome.getClock() });
+    }
+  }
+
+  handlePeerDisconnected(peerId: string) {
+    if (peerId === this.hostId) {
+      this.hostId = null;
+      this.samples = [];
+      this.stopPinging();
+    }
+  }
+
+  /**
+   * Handle tempo / clock messages
+   * @returns True if the message was consumed
+   */
+  handleMessage(peerId: string, message: PeerMessage): boolean {
+    switch (message.type) {
+      case 'tempo':
+        if (this.isHost) return true;
+        this.followHost(peerId);
+        this.lastClock = message.clock;
+        this.metronome.applyClock(message.clock, this.getClockOffset()).catch((error) => {
+          console.error('❌ Failed to apply host tempo:', error);
+        });
+        return true;
+
+      case 'clock-ping':
+        this.peerManager.sendToPeer(peerId, {
+          type: 'clock-pong',
+          t0: message.t0,
+          hostTime: Date.now(),
+        });
+        return true;
+
+      case 'clock-pong':
+        this.addSample(message.t0, message.hostTime);
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Host wall clock minus ours, from the most reliable sample
+   */
+  getClockOffset(): number {
+    return pickBestSample(this.samples)?.offset ?? 0;
+  }
+
+  dispose() {
+    this.unsubscribeMetronome?.();
+    this.unsubscribeMetronome = null;
+    this.stopPinging();
+  }
+
+  private broadcastClock() {
+    if (this.peerManager.getConnectedPeers().length === 0) return;
+    this.peerManager.broadcast({ type: 'tempo', clock: this.metronome.getClock() });
+  }
+
+  private followHost(peerId: string) {
+    if (this.hostId === peerId) return;
+    this.hostId = peerId;
+    this.samples = [];
+    this.stopPinging();
+    this.ping();
+    this.pingTimer = setInterval(() => this.ping(), CLOCK_PING_INTERVAL_MS);
+  }
+
+  private ping() {
+    if (!this.hostId) return;
+    this.peerManager.sendToPeer(this.hostId, { type: 'clock-ping', t0: Date.now() });
+  }
+
+  private addSample(t0: number, hostTime: number) {
+    const previousOffset = this.getClockOffset();
+    this.samples = [...this.samples, measureClockSample(t0, hostTime)].slice(-CLOCK_SAMPLE_COUNT);
+
+    // Re-align if the estimate moved noticeably since the clock was applied
+    const newOffset = this.getClockOffset();
+    if (this.lastClock && Math.abs(newOffset - previousOffset) > 5) {
+      this.metronome.applyClock(this.lastClock, newOffset).catch((error) => {
+        console.error('❌ Failed to re-align tempo:', error);
+      });
+    }
+  }
+
+  private stopPinging() {
+    if (this.pingTimer !== null) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+}
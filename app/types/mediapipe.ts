@@ -0,0 +1,26 @@
+/**
+ * MediaPipe Hands types
+ */
+
+import { HandLandmarks } from "./motion";
+
+/**
+ * Options forwarded to MediaPipe Hands `setOptions`
+ */
+export interface HandTrackingOptions {
+  maxNumHands: number;
+  modelComplexity: 0 | 1;
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+}
+
+/**
+ * One processed camera frame, as delivered to hand tracking subscribers
+ */
+export interface HandTrackingFrame {
+  image: CanvasImageSource; // raw (un-mirrored) camera frame
+  hands: HandLandmarks[];
+  timestamp: number; // performance.now() when the results arrived
+}
+
+export type HandTrackingListener = (frame: HandTrackingFrame) => void;
@@ -8,15 +8,103 @@ export interface HandLandmark {
   z: number;
 }
 
+/**
+ * Which hand MediaPipe believes it is looking at ("Left" / "Right")
+ */
+export type Handedness = "Left" | "Right";
+
 export interface HandLandmarks {
   landmarks: HandLandmark[];
   handIndex: number;
+  handedness?: Handedness;
+  handednessScore?: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Screen directions in the (mirrored) view the player sees; "down" is +y
+ */
+export type MotionDirection = "up" | "down" | "left" | "right";
+
+export interface Velocity {
+  x: number;
+  y: number;
+  magnitude: number;
+}
+
+/**
+ * Zone geometry. Coordinates are in the motion detector's space
+ * (normalized 0-1 by default, or pixels if the detector is given a size).
+ */
+export interface RectShape {
+  type: "rect";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CircleShape {
+  type: "circle";
+  cx: number;
+  cy: number;
+  radius: number;
+}
+
+export interface EllipseShape {
+  type: "ellipse";
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+  rotation?: number; // radians, clockwise
+}
+
+export interface PolygonShape {
+  type: "polygon";
+  points: Point[];
+}
+
+export type ZoneShape = RectShape | CircleShape | EllipseShape | PolygonShape;
+
+export type MotionEventType = "hit" | "strum" | "tap";
+
+/**
+ * Require movement in a direction. The first filter of a zone is its trigger
+ * axis; any others only need to be satisfied at the same moment.
+ */
+export interface DirectionFilter {
+  direction: MotionDirection;
+  minVelocity?: number;
+}
+
+/**
+ * A declarative trigger zone. Instruments describe themselves as a list of these.
+ */
+export interface MotionZone {
+  id: string;
+  shape: ZoneShape;
+  type?: MotionEventType; // defaults to "hit"
+  directions?: DirectionFilter[]; // omitted = any direction (speed magnitude)
+  minVelocity?: number; // speed needed along the trigger axis
+  minDisplacement?: number; // ignore jitter smaller than this per frame
+  maxDepth?: number; // touch zone: fires when the landmark's z drops below this inside it, instead of on speed
+  cooldownMs?: number; // per zone, shared by both hands
+  hand?: Handedness; // only this hand may trigger the zone
 }
 
 export interface MotionEvent {
-  type: "hit" | "strum" | "tap";
+  type: MotionEventType;
   hitboxIndex: number;
   handIndex: number;
   timestamp: number;
+  zoneId: string;
+  handedness?: Handedness;
+  position: Point;
+  velocity: Velocity;
+  direction: MotionDirection; // dominant direction of travel
 }
-
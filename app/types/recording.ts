@@ -0,0 +1,41 @@
+/**
+ * Session recording types
+ */
+
+import type { Instrument, SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { HandLandmarks } from "./motion";
+
+/**
+ * Who produced a recorded event: "local" (air gestures), "midi" (a MIDI
+ * controller on this machine) or a remote peer id
+ */
+export type RecordingSource = "local" | "midi" | (string & {});
+
+export interface RecordedSoundEvent {
+  time: number; // ms since the take started
+  event: SoundEvent;
+  source: RecordingSource;
+}
+
+export interface RecordedHandFrame {
+  time: number; // ms since the take started
+  hands: HandLandmarks[];
+}
+
+/**
+ * Everything shown in a take list (the events are loaded on demand)
+ */
+export interface TakeSummary {
+  id: string;
+  name: string;
+  instrument?: Instrument;
+  createdAt: number; // epoch ms
+  duration: number; // ms
+  eventCount: number;
+  hasHandFrames: boolean;
+}
+
+export interface Take extends TakeSummary {
+  events: RecordedSoundEvent[];
+  handFrames: RecordedHandFrame[];
+}
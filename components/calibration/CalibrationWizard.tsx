@@ -1,7 +1,8 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useRef, useState, useSyncExternalStore } from "react";
 import { Instrument } from "@/components/practice/instruments/instrument-types";
+import { DominantHandPreference, otherHand } from "@/app/lib/motion/dominant-hand";
 import { Video, VideoOff } from "lucide-react";
 
 export default function CalibrationWizard({
@@ -19,6 +20,8 @@ export default function CalibrationWizard({
   // Quadrant logic (normalized coords where (0,0) = top-left, (1,1) = bottom-right)
   // Drums requirement: left wrist in bottom-left (Q3): x < 0.5, y > 0.5
   //                    right wrist in bottom-right (Q4): x > 0.5, y > 0.5
+  // Each hand stays on its own side, so the check already holds for a
+  // mirrored (left-handed) kit; only the guidance order follows the lead hand.
   const left = handPositions.left;
   const right = handPositions.right;
 
@@ -47,6 +50,13 @@ export default function CalibrationWizard({
 
   const isCalibrated = leftInQ3 && rightInQ4;
 
+  const preference = DominantHandPreference.getInstance();
+  const { hand: leadHand } = useSyncExternalStore(
+    preference.subscribe,
+    preference.getSnapshot,
+    preference.getSnapshot
+  );
+
   // sequenceStarted: set when the user has held correct pose for 3s
   const [sequenceStarted, setSequenceStarted] = useState(false);
   // locked: set when countdown is finished -> overlay no longer shown
@@ -179,10 +189,13 @@ export default function CalibrationWizard({
           <div className="absolute inset-0 flex items-center justify-center">
             <div className="relative z-10 max-w-md rounded-md bg-transparent px-6 py-4 text-center text-white pointer-events-none">
               <div className="mb-2 font-semibold">Calibration guidance</div>
-              <div className="text-sm">Left: {guidanceFor("left", left)}</div>
-              <div className="text-sm mt-1">
-                Right: {guidanceFor("right", right)}
-              </div>
+              {[leadHand, otherHand(leadHand)].map((hand, i) => (
+                <div key={hand} className={`text-sm${i > 0 ? " mt-1" : ""}`}>
+                  {hand === "left" ? "Left" : "Right"}
+                  {hand === leadHand && " (lead)"}:{" "}
+                  {guidanceFor(hand, handPositions[hand])}
+                </div>
+              ))}
             </div>
           </div>
         </>
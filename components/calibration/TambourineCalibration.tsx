@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from "react";
+import { DominantHandPreference, otherHand } from "@/app/lib/motion/dominant-hand";
 
 export default function TambourineCalibration({
   handPositions,
@@ -21,13 +22,13 @@ export default function TambourineCalibration({
   const left = handPositions.left;
   const right = handPositions.right;
 
-  // role selections
+  // role selections, suggested by the dominant hand (it strikes, the other holds)
   const [selectedHolder, setSelectedHolder] = useState<"left" | "right" | null>(
-    null
+    () => otherHand(DominantHandPreference.getInstance().getHand())
   );
   const [selectedStriker, setSelectedStriker] = useState<
     "left" | "right" | null
-  >(null);
+  >(() => DominantHandPreference.getInstance().getHand());
 
   // helper to get pos by role
   const posFor = (role: "left" | "right" | null) =>
@@ -0,0 +1,51 @@
+"use client";
+
+import type { ConnectionHealth, ConnectionStatus } from "@/app/lib/webrtc/peer-manager";
+
+interface ConnectionHealthIndicatorProps {
+  health: ConnectionHealth;
+  onRetry: () => void;
+}
+
+const STATUS_STYLES: Record<ConnectionStatus, { dot: string; label: string }> = {
+  offline: { dot: "bg-zinc-400", label: "Offline" },
+  connecting: { dot: "bg-sky-500 animate-pulse", label: "Connecting..." },
+  connected: { dot: "bg-green-500", label: "Connected" },
+  reconnecting: { dot: "bg-amber-500 animate-pulse", label: "Reconnecting" },
+  "local-only": { dot: "bg-amber-500", label: "Local only" },
+  failed: { dot: "bg-red-500", label: "Connection lost" },
+};
+
+/**
+ * How our link to the room is doing: reconnect attempts, peers that dropped,
+ * and a retry once reconnecting has given up
+ */
+export default function ConnectionHealthIndicator({ health, onRetry }: ConnectionHealthIndicatorProps) {
+  const { dot, label } = STATUS_STYLES[health.status];
+  const dropped = health.reconnectingPeers.length;
+
+  return (
+    <div className="flex flex-col items-end gap-1 text-sm">
+      <span className="flex items-center gap-2 font-semibold">
+        <span className={`inline-block w-2.5 h-2.5 rounded-full ${dot}`} />
+        {label}
+        {health.attempt > 0 && (
+          <span className="font-normal text-muted-foreground">(attempt {health.attempt})</span>
+        )}
+      </span>
+      {health.status === "local-only" && (
+        <span className="text-xs text-muted-foreground">Signaling server unreachable; others cannot hear you yet</span>
+      )}
+      {dropped > 0 && (
+        <span className="text-xs text-amber-600">
+          Waiting for {dropped} {dropped === 1 ? "player" : "players"} to reconnect
+        </span>
+      )}
+      {health.status === "failed" && (
+        <button onClick={onRetry} className="text-xs font-medium text-primary underline">
+          Try again
+        </button>
+      )}
+    </div>
+  );
+}
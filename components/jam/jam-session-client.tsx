@@ -1,14 +1,42 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import { PeerManager, Instrument, PeerMessage } from "@/app/lib/webrtc/peer-manager";
-import { Instrument as InstrumentType } from "@/components/practice/instruments/instrument-types";
+import { useCallback, useEffect, useEffectEvent, useRef, useState } from "react";
+import {
+  PeerManager,
+  Instrument,
+  PeerMessage,
+  RoomJoinMode,
+  MAX_MESH_PEERS,
+  ConnectionHealth,
+} from "@/app/lib/webrtc/peer-manager";
+import { RoomRequestError } from "@/app/lib/webrtc/room-client";
+import { generateRoomCode, getInviteLink, normalizeRoomCode } from "@/app/lib/webrtc/room-codes";
 import InstrumentSelector from "@/components/practice/instrument-selector";
-import AirDrumsPlayer from "@/components/practice/instruments/air-drums-player";
-import PianoPlayer from "@/components/practice/instruments/piano-player";
-import TambourinePlayer from "@/components/practice/instruments/tambourine-player";
-import TrianglePlayer from "@/components/practice/instruments/triangle-player";
+import DominantHandToggle from "@/components/practice/dominant-hand-toggle";
+import {
+  DEFAULT_INSTRUMENT,
+  getInstrument,
+  getMidiNote,
+  isInstrument,
+} from "@/components/practice/instruments/registry";
+import { MidiOutput } from "@/app/lib/midi/midi-output";
 import RemoteSoundPlayer, { RemoteSoundPlayerHandle } from "./remote-sound-player";
+import RecordingTransport from "@/components/recording/recording-transport";
+import { SessionRecorder } from "@/app/lib/recording/session-recorder";
+import { TempoSync } from "@/app/lib/webrtc/tempo-sync";
+import { PeerClock } from "@/app/lib/webrtc/peer-clock";
+import { RemoteScheduler } from "@/app/lib/webrtc/remote-scheduler";
+import { HandStream } from "@/app/lib/webrtc/hand-stream";
+import { RemoteStage } from "@/app/lib/webrtc/remote-stage";
+import { DrumLayouts } from "@/components/practice/instruments/drum-layouts";
+import { Mixer } from "@/app/lib/sound/mixer";
+import MetronomePanel from "@/components/metronome/metronome-panel";
+import MidiPanel from "@/components/midi/midi-panel";
+import MidiInputPanel from "@/components/midi/midi-input-panel";
+import LatencyPanel from "./latency-panel";
+import MixerPanel from "./mixer-panel";
+import JamStage from "./jam-stage";
+import ConnectionHealthIndicator from "./connection-health";
 
 interface PeerInfo {
   id: string;
@@ -16,31 +44,89 @@ interface PeerInfo {
   connected: boolean;
 }
 
-export default function JamSessionClient() {
+interface RosterEvent {
+  id: number;
+  text: string;
+}
+
+// Join / leave lines shown under the peer list
+const MAX_ROSTER_EVENTS = 5;
+let nextRosterEventId = 0;
+
+const appendRosterEvent = (events: RosterEvent[], text: string): RosterEvent[] => [
+  ...events.slice(-(MAX_ROSTER_EVENTS - 1)),
+  { id: nextRosterEventId++, text },
+];
+
+// How many fresh codes to try when a generated room code is already taken
+const MAX_ROOM_CODE_ATTEMPTS = 5;
+
+interface JamSessionClientProps {
+  initialRoom?: string; // room code from an invite link, joined on load
+}
+
+export default function JamSessionClient({ initialRoom }: JamSessionClientProps) {
   const [roomId, setRoomId] = useState<string>("");
+  const [hasPassword, setHasPassword] = useState<boolean>(false);
+  const [joinError, setJoinError] = useState<string>("");
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
   const [isHost, setIsHost] = useState<boolean>(false);
   const [isConnected, setIsConnected] = useState<boolean>(false);
-  const [myInstrument, setMyInstrument] = useState<InstrumentType>('drums');
+  const [myInstrument, setMyInstrument] = useState<Instrument>(DEFAULT_INSTRUMENT);
   const [peers, setPeers] = useState<Map<string, PeerInfo>>(new Map());
   const [connectionStatus, setConnectionStatus] = useState<string>("Disconnected");
+  const [rosterEvents, setRosterEvents] = useState<RosterEvent[]>([]);
+  const [health, setHealth] = useState<ConnectionHealth>({ status: "offline", attempt: 0, reconnectingPeers: [] });
   
   const peerManagerRef = useRef<PeerManager | null>(null);
+  // For children that only need the manager when something happens (not while rendering)
+  const getPeerManager = useCallback(() => peerManagerRef.current, []);
   const inputRef = useRef<HTMLInputElement>(null);
+  const passwordRef = useRef<HTMLInputElement>(null);
   const remoteSoundPlayerRef = useRef<RemoteSoundPlayerHandle>(null);
+  const tempoSyncRef = useRef<TempoSync | null>(null);
+  const peerClockRef = useRef<PeerClock | null>(null);
+  const handStreamRef = useRef<HandStream | null>(null);
+
+  // MIDI out follows every hit, whether or not its panel is showing
+  useEffect(() => {
+    MidiOutput.getInstance().routeSoundEvents(getMidiNote);
+  }, []);
 
   // Initialize peer manager
   useEffect(() => {
     peerManagerRef.current = new PeerManager();
+    tempoSyncRef.current = new TempoSync(peerManagerRef.current);
+    peerClockRef.current = new PeerClock(peerManagerRef.current);
+    // Our hands go to every peer while the camera is running
+    handStreamRef.current = new HandStream(peerManagerRef.current);
+    handStreamRef.current.start();
+    // Peers' stage views draw our drums where we've put them
+    const drumLayouts = DrumLayouts.getInstance();
+    const shareDrumLayout = () => peerManagerRef.current?.setDrumLayout(drumLayouts.getSnapshot().current.zones);
+    shareDrumLayout();
+    const unsubscribeDrumLayouts = drumLayouts.subscribe(shareDrumLayout);
     
     // Setup message handler - this handles all messages
     peerManagerRef.current.onMessage((peerId, message) => {
+      // Tempo and clock sync messages
+      if (tempoSyncRef.current?.handleMessage(peerId, message)) return;
+      // Latency measurement
+      if (peerClockRef.current?.handleMessage(peerId, message)) return;
+
       // Handle sound events by playing them remotely
       if (message.type === 'sound-event') {
         console.log('🎵 Received sound event from peer:', peerId, message.event);
+        // Already checked against the instrument's schema by the peer protocol
+        const { event } = message;
         if (remoteSoundPlayerRef.current) {
+          SessionRecorder.getInstance().recordSoundEvent(event, peerId);
           try {
-            remoteSoundPlayerRef.current.playRemoteSound(message.event);
-            console.log('✅ Played remote sound:', message.event.type);
+            // Played a steady delay after it was sent, absorbing network jitter
+            const delay = RemoteScheduler.getInstance().getPlaybackDelay(peerId, message.sentAt);
+            remoteSoundPlayerRef.current.playRemoteSound(peerId, event, delay);
+            RemoteStage.getInstance().showHit(peerId, event, delay);
+            console.log('✅ Played remote sound:', event.type);
           } catch (error) {
             console.error('❌ Error playing remote sound:', error);
           }
@@ -55,20 +141,57 @@ export default function JamSessionClient() {
 
     // Setup peer connected handler
     peerManagerRef.current.onPeerConnected((peerId, instrument) => {
-      setPeers((prev) => {
-        const newPeers = new Map(prev);
-        newPeers.set(peerId, {
-          id: peerId,
-          instrument: instrument as Instrument,
-          connected: true,
+      // A peer we called is listed once its join arrives
+      if (instrument) {
+        setPeers((prev) => {
+          const newPeers = new Map(prev);
+          newPeers.set(peerId, {
+            id: peerId,
+            instrument,
+            connected: true,
+          });
+          return newPeers;
         });
-        return newPeers;
-      });
+        Mixer.getInstance().addPeer(peerId, instrument);
+      }
       setConnectionStatus(`Connected to ${peerId.substring(0, 8)}...`);
+      setRosterEvents((prev) => appendRosterEvent(prev, `🎵 ${peerId.substring(0, 16)}... joined`));
+      tempoSyncRef.current?.handlePeerConnected(peerId);
+      peerClockRef.current?.handlePeerConnected(peerId);
+      remoteSoundPlayerRef.current?.preparePeer(peerId);
+    });
+
+    peerManagerRef.current.onHealthChange(setHealth);
+
+    // Whoever hosts drives the shared tempo; a new host is picked when the host leaves
+    peerManagerRef.current.onHostChange((hostId) => {
+      const hosting = hostId === peerManagerRef.current?.getMyId();
+      setIsHost(hosting);
+      tempoSyncRef.current?.setHost(hosting);
+      setRosterEvents((prev) =>
+        appendRosterEvent(prev, hosting ? "👑 You are the host" : `👑 ${hostId.substring(0, 16)}... is the host`)
+      );
+    });
+
+    // Closing the tab: tell peers we left rather than let them wait for us
+    const handlePageHide = () => peerManagerRef.current?.disconnect();
+    window.addEventListener("pagehide", handlePageHide);
+
+    // Peers on an app version we can't talk to are dropped
+    peerManagerRef.current.onPeerIncompatible((peerId) => {
+      setRosterEvents((prev) =>
+        appendRosterEvent(prev, `⚠️ ${peerId.substring(0, 16)}... runs an incompatible app version`)
+      );
     });
 
     // Setup peer disconnected handler
     peerManagerRef.current.onPeerDisconnected((peerId) => {
+      tempoSyncRef.current?.handlePeerDisconnected(peerId);
+      peerClockRef.current?.handlePeerDisconnected(peerId);
+      RemoteStage.getInstance().removePeer(peerId);
+      remoteSoundPlayerRef.current?.releasePeer(peerId);
+      Mixer.getInstance().removePeer(peerId);
+      setRosterEvents((prev) => appendRosterEvent(prev, `👋 ${peerId.substring(0, 16)}... left`));
       setPeers((prev) => {
         const newPeers = new Map(prev);
         newPeers.delete(peerId);
@@ -77,6 +200,16 @@ export default function JamSessionClient() {
     });
 
     return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      unsubscribeDrumLayouts();
+      tempoSyncRef.current?.dispose();
+      tempoSyncRef.current = null;
+      peerClockRef.current?.dispose();
+      peerClockRef.current = null;
+      handStreamRef.current?.stop();
+      handStreamRef.current = null;
+      RemoteStage.getInstance().clear();
+      Mixer.getInstance().setRoom(null);
       if (peerManagerRef.current) {
         peerManagerRef.current.disconnect();
       }
@@ -90,6 +223,7 @@ export default function JamSessionClient() {
     switch (message.type) {
       case 'join':
         console.log('🎵 Peer joined:', peerId, 'with instrument:', message.instrument);
+        Mixer.getInstance().addPeer(peerId, message.instrument);
         setPeers((prev) => {
           const newPeers = new Map(prev);
           newPeers.set(peerId, {
@@ -102,6 +236,7 @@ export default function JamSessionClient() {
         break;
       case 'instrument-change':
         console.log('🎵 Peer changed instrument:', peerId, 'to', message.instrument);
+        Mixer.getInstance().addPeer(peerId, message.instrument);
         setPeers((prev) => {
           const newPeers = new Map(prev);
           const peer = newPeers.get(peerId);
@@ -113,8 +248,11 @@ export default function JamSessionClient() {
         });
         break;
       case 'hand-data':
-        // Hand data is handled by RemoteSoundPlayer for sound playback
-        // Could also be used for visualization in the future
+        // Drawn by the stage view
+        RemoteStage.getInstance().updateHands(peerId, message.instrument, message.hands);
+        break;
+      case 'drum-layout':
+        RemoteStage.getInstance().updateDrumLayout(peerId, message.zones);
         break;
       
       case 'sound-event':
@@ -125,64 +263,135 @@ export default function JamSessionClient() {
   };
 
   /**
-   * Create a new room (host)
+   * Create a new room (host) under a fresh short code
    */
   const createRoom = async () => {
-    const newRoomId = `room-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    setRoomId(newRoomId);
+    const password = passwordRef.current?.value || undefined;
     setIsHost(true);
-    await connectToRoom(newRoomId);
+    tempoSyncRef.current?.setHost(true);
+
+    for (let attempt = 1; attempt <= MAX_ROOM_CODE_ATTEMPTS; attempt++) {
+      const newRoomId = generateRoomCode();
+      setRoomId(newRoomId);
+      try {
+        await connectToRoom(newRoomId, 'create', password);
+        return;
+      } catch (error) {
+        // Someone already has this code: roll another one
+        if (error instanceof RoomRequestError && error.code === 'room-exists' && attempt < MAX_ROOM_CODE_ATTEMPTS) {
+          continue;
+        }
+        handleConnectError(error);
+        return;
+      }
+    }
   };
 
   /**
-   * Join an existing room
+   * Join an existing room by code (or pasted invite link)
    */
   const joinRoom = async () => {
-    const room = inputRef.current?.value.trim();
+    const room = normalizeRoomCode(inputRef.current?.value ?? "");
     if (!room) {
-      alert('Please enter a room ID');
+      alert('Please enter a room code');
       return;
     }
     setRoomId(room);
     setIsHost(false);
-    await connectToRoom(room);
+    tempoSyncRef.current?.setHost(false);
+    try {
+      await connectToRoom(room, 'join', passwordRef.current?.value || undefined);
+    } catch (error) {
+      handleConnectError(error);
+    }
   };
 
   /**
-   * Connect to a room
+   * Connect to a room; throws if the room can't be created or joined
    */
-  const connectToRoom = async (room: string) => {
+  const connectToRoom = async (room: string, mode: RoomJoinMode, password?: string) => {
     if (!peerManagerRef.current) return;
 
     try {
       setConnectionStatus('Connecting...');
-      const myId = await peerManagerRef.current.initialize(myInstrument as Instrument, room);
+      setJoinError("");
+      // Bring back the mix last used in this room (before any peer connects)
+      Mixer.getInstance().setRoom(room);
+      const myId = await peerManagerRef.current.initialize(myInstrument, room, mode, password);
       setIsConnected(true);
+      setHasPassword(Boolean(password));
       setConnectionStatus(`Connected as ${myId?.substring(0, 8) || 'unknown'}...`);
       
-      // If not host, try to connect to host (room ID format: room-{timestamp}-{random})
-      // In a real implementation, you'd use a signaling server to discover peers
-      // For this demo, we'll use a simple approach where peers connect to each other
-      console.log('💡 For full P2P, peers need to share their IDs');
+      // Everyone already in the room is being connected to (see PeerManager)
       console.log('💡 Your ID:', myId);
-      console.log('💡 Share this ID with others to connect');
-      
+
     } catch (error) {
       console.error('❌ Failed to connect:', error);
+      peerManagerRef.current?.disconnect();
+      remoteSoundPlayerRef.current?.releaseAll();
+      Mixer.getInstance().setRoom(null);
       setConnectionStatus('Connection failed');
+      throw error;
+    }
+  };
+
+  /**
+   * Tell the user why creating or joining a room failed
+   */
+  const handleConnectError = (error: unknown) => {
+    if (error instanceof RoomRequestError && error.code === 'wrong-password') {
+      setJoinError(
+        passwordRef.current?.value
+          ? 'Wrong password for this room. Check it and try again.'
+          : 'This room is password protected. Enter the password and click Join Room.'
+      );
+      passwordRef.current?.focus();
+    } else if (error instanceof RoomRequestError) {
+      alert(`Failed to connect: ${error.message}`);
+    } else {
       alert('Failed to connect. Please try again. Make sure you are using a secure connection (HTTPS) or localhost.');
     }
   };
 
+  // Join the room from an invite link once the peer manager is ready
+  const joinInitialRoom = useEffectEvent(() => {
+    const room = normalizeRoomCode(initialRoom ?? "");
+    if (!room || !inputRef.current) return;
+    inputRef.current.value = room;
+    void joinRoom();
+  });
+
+  useEffect(() => {
+    // Deferred so a StrictMode remount doesn't join twice
+    const timer = setTimeout(joinInitialRoom, 0);
+    return () => clearTimeout(timer);
+  }, []);
+
+  /**
+   * Copy the invite link for the current room
+   */
+  const copyInviteLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(roomId));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('❌ Failed to copy invite link:', error);
+      prompt('Copy this invite link:', getInviteLink(roomId));
+    }
+  };
+
   // Removed connectToPeer function - now handled inline in the button
 
+  const { Player: MyInstrumentPlayer, Calibration } = getInstrument(myInstrument);
+
   /**
    * Handle instrument change
    */
-  const handleInstrumentChange = (instrument: InstrumentType) => {
+  const handleInstrumentChange = (instrument: Instrument) => {
     setMyInstrument(instrument);
     if (peerManagerRef.current) {
-      peerManagerRef.current.changeInstrument(instrument as Instrument);
+      peerManagerRef.current.changeInstrument(instrument);
     }
   };
 
@@ -193,10 +402,16 @@ export default function JamSessionClient() {
     if (peerManagerRef.current) {
       peerManagerRef.current.disconnect();
     }
+    peerClockRef.current?.dispose();
+    RemoteStage.getInstance().clear();
+    remoteSoundPlayerRef.current?.releaseAll();
+    Mixer.getInstance().setRoom(null);
     setIsConnected(false);
     setRoomId("");
     setIsHost(false);
+    setHasPassword(false);
     setPeers(new Map());
+    setRosterEvents([]);
     setConnectionStatus("Disconnected");
   };
 
@@ -228,93 +443,61 @@ export default function JamSessionClient() {
                 <input
                   ref={inputRef}
                   type="text"
-                  placeholder="Enter room ID to join..."
+                  placeholder="Enter room code or invite link..."
                   className="flex-1 h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
                 />
+                <input
+                  ref={passwordRef}
+                  type="password"
+                  placeholder="Password (optional)"
+                  className="w-44 h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                />
               </div>
+
+              {joinError && (
+                <p className="text-sm text-destructive">🔒 {joinError}</p>
+              )}
             </div>
           ) : (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-muted-foreground">Room ID:</p>
-                  <p className="font-mono text-lg font-bold">{roomId}</p>
+                  <p className="text-sm text-muted-foreground">Room Code:</p>
+                  <p className="font-mono text-lg font-bold tracking-widest">{roomId}</p>
+                  {hasPassword && (
+                    <p className="text-xs text-muted-foreground">🔒 Password protected</p>
+                  )}
                 </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Status:</p>
-                  <p className="text-sm font-semibold text-green-600">{connectionStatus}</p>
-                </div>
-              </div>
-              
-              <div className="space-y-2">
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    id="peer-id-input"
-                    placeholder="Enter peer's Peer ID to connect..."
-                    className="flex-1 h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                <div className="text-right">
+                  <p className="text-sm text-muted-foreground">{connectionStatus}</p>
+                  <ConnectionHealthIndicator
+                    health={health}
+                    onRetry={() => peerManagerRef.current?.retryConnection()}
                   />
-                  <button
-                    onClick={async () => {
-                      const input = document.getElementById('peer-id-input') as HTMLInputElement;
-                      const peerId = input?.value.trim();
-                      if (peerId && peerManagerRef.current) {
-                        console.log('🔗 Connecting to peer:', peerId);
-                        try {
-                          await peerManagerRef.current.connectToPeer(peerId);
-                          input.value = '';
-                          alert('Connection request sent! Waiting for peer to accept...');
-                        } catch (error) {
-                          console.error('❌ Failed to connect:', error);
-                          alert('Failed to connect. Make sure the Peer ID is correct and the peer is online.');
-                        }
-                      } else {
-                        alert('Please enter a Peer ID');
-                      }
-                    }}
-                    className="h-10 items-center justify-center rounded-md bg-primary px-4 text-primary-foreground transition-colors hover:bg-primary/90 text-sm font-medium"
-                  >
-                    Connect to Peer
-                  </button>
                 </div>
-                <button
-                  onClick={disconnect}
-                  className="w-full h-10 items-center justify-center rounded-md bg-destructive px-4 text-destructive-foreground transition-colors hover:bg-destructive/90 text-sm font-medium"
-                >
-                  Disconnect
-                </button>
               </div>
+              
+              <button
+                onClick={copyInviteLink}
+                className="w-full h-10 items-center justify-center rounded-md bg-secondary px-4 text-secondary-foreground transition-colors hover:bg-secondary/90 text-sm font-medium"
+              >
+                {linkCopied ? '✅ Invite link copied' : '🔗 Copy invite link'}
+              </button>
 
-              {/* My Peer ID */}
-              {peerManagerRef.current && peerManagerRef.current.getMyId() && (
-                <div className="p-4 bg-muted rounded-md">
-                  <p className="text-sm text-muted-foreground mb-2">Your Peer ID (share with others):</p>
-                  <p className="font-mono text-sm break-all">{peerManagerRef.current.getMyId()}</p>
-                  <button
-                    onClick={() => {
-                      const id = peerManagerRef.current?.getMyId();
-                      if (id) {
-                        navigator.clipboard.writeText(id);
-                        alert('Peer ID copied to clipboard!');
-                      }
-                    }}
-                    className="mt-2 text-xs text-primary hover:underline"
-                  >
-                    Copy to Clipboard
-                  </button>
-                </div>
-              )}
+              <button
+                onClick={disconnect}
+                className="w-full h-10 items-center justify-center rounded-md bg-destructive px-4 text-destructive-foreground transition-colors hover:bg-destructive/90 text-sm font-medium"
+              >
+                Disconnect
+              </button>
 
               {/* Connected Peers */}
               <div className="space-y-2">
-                <p className="text-sm font-semibold">Connected Peers ({peers.size}):</p>
+                <p className="text-sm font-semibold">Connected Peers ({peers.size}/{MAX_MESH_PEERS}):</p>
                 {peers.size === 0 ? (
                   <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-md border border-yellow-200 dark:border-yellow-800">
                     <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                      ⚠️ No peers connected yet. Share your Peer ID above and have others connect to you, or connect to their Peer ID.
-                    </p>
-                    <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
-                      💡 <strong>Important:</strong> For sounds to work, you need to connect to each other. Both people should connect using each other's Peer IDs.
+                      ⏳ Waiting for others to join. Share the room code or invite link; everyone who joins it is connected automatically.
                     </p>
                   </div>
                 ) : (
@@ -322,7 +505,7 @@ export default function JamSessionClient() {
                     <div key={peer.id} className="flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/20 rounded-md border border-green-200 dark:border-green-800">
                       <div>
                         <p className="font-mono text-sm font-bold text-green-800 dark:text-green-200">{peer.id.substring(0, 16)}...</p>
-                        <p className="text-xs text-green-600 dark:text-green-400">Playing: {peer.instrument}</p>
+                        <p className="text-xs text-green-600 dark:text-green-400">Playing: {isInstrument(peer.instrument) ? getInstrument(peer.instrument).label : peer.instrument}</p>
                       </div>
                       <div className="flex items-center gap-2">
                         <div className="h-3 w-3 bg-green-500 rounded-full animate-pulse"></div>
@@ -332,6 +515,15 @@ export default function JamSessionClient() {
                   ))
                 )}
               </div>
+
+              {/* Who joined and left */}
+              {rosterEvents.length > 0 && (
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {rosterEvents.map((event) => (
+                    <li key={event.id}>{event.text}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
         </div>
@@ -344,6 +536,16 @@ export default function JamSessionClient() {
               selectedInstrument={myInstrument}
               onInstrumentChange={handleInstrumentChange}
             />
+            <div className="mt-4 flex justify-center">
+              <DominantHandToggle />
+            </div>
+          </div>
+        )}
+
+        {/* Shared metronome: the host sets the tempo, everyone else follows */}
+        {isConnected && (
+          <div className="flex justify-center">
+            <MetronomePanel following={!isHost} />
           </div>
         )}
 
@@ -351,13 +553,56 @@ export default function JamSessionClient() {
         {/* Always render when connected so ref is available */}
         {isConnected && <RemoteSoundPlayer ref={remoteSoundPlayerRef} />}
 
+        {/* Bandmates' hands and instrument zones */}
+        {isConnected && (
+          <div className="flex justify-center">
+            <JamStage peers={Array.from(peers.values())} />
+          </div>
+        )}
+
+        {/* Volume, pan, mute and solo for you and every peer */}
+        {isConnected && (
+          <div className="flex justify-center">
+            <MixerPanel />
+          </div>
+        )}
+
+        {/* Network latency per peer and the jitter buffer for remote sounds */}
+        {isConnected && (
+          <div className="flex justify-center">
+            <LatencyPanel />
+          </div>
+        )}
+
         {/* Instrument Player */}
         {isConnected && (
           <div className="rounded-xl border border-border bg-card p-6 shadow-sm">
-            {myInstrument === 'drums' && <AirDrumsPlayer peerManager={peerManagerRef.current} />}
-            {myInstrument === 'piano' && <PianoPlayer peerManager={peerManagerRef.current} />}
-            {myInstrument === 'tambourine' && <TambourinePlayer peerManager={peerManagerRef.current} />}
-            {myInstrument === 'triangle' && <TrianglePlayer peerManager={peerManagerRef.current} />}
+            <MyInstrumentPlayer
+              key={myInstrument}
+              peerManager={peerManagerRef.current}
+              Calibration={Calibration}
+            />
+          </div>
+        )}
+
+        {/* Session recording (your hits and every peer's) */}
+        {isConnected && (
+          <div className="flex justify-center">
+            <RecordingTransport instrument={myInstrument} />
+          </div>
+        )}
+
+        {/* MIDI in: play along from a keyboard or pads */}
+        {isConnected && (
+          <div className="flex justify-center">
+            <MidiInputPanel getPeerManager={getPeerManager} />
+          </div>
+        )}
+
+        {/* MIDI out (your hits, optionally every peer's) */}
+        {isConnected && (
+          <div className="flex justify-center">
+            <MidiPanel />
           </div>
         )}
 
@@ -369,31 +614,20 @@ export default function JamSessionClient() {
             <ul className="list-disc list-inside ml-2 space-y-1">
               <li>✅ <strong>Your own sounds</strong> - Play locally on your computer</li>
               <li>✅ <strong>Other players' sounds</strong> - When connected, you'll hear their instrument sounds on your computer</li>
-              <li>❌ <strong>Video/Cameras</strong> - Not currently streamed (you only see your own camera)</li>
+              <li>✅ <strong>Hands of other players</strong> - Shown on the stage over their instrument, with every hit lighting up</li>
+              <li>❌ <strong>Video/Cameras</strong> - Not streamed (only hand positions are shared)</li>
             </ul>
             <p className="mt-3"><strong>How to Connect:</strong></p>
             <ol className="list-decimal list-inside ml-2 space-y-1">
-              <li>One person clicks "Create Room"</li>
-              <li>Share your Peer ID with others (copy button)</li>
-              <li>Others click "Join Room" and enter the room ID</li>
-              <li>Others click "Connect to Peer" and enter your Peer ID</li>
+              <li>One person clicks "Create Room" (add a password first to keep the room private)</li>
+              <li>Share the room code, or copy the invite link and send it</li>
+              <li>Others open the link, or enter the code and click "Join Room" - everyone in the room connects automatically</li>
               <li>Select your instruments and start playing!</li>
             </ol>
             <p className="mt-3 text-xs text-blue-600 dark:text-blue-400">
               💡 <strong>Note:</strong> Each player hears all sounds. When someone plays drums, everyone hears the drums. 
               This creates a shared musical experience where everyone plays together!
             </p>
-            <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-md border border-red-200 dark:border-red-800">
-              <p className="text-xs font-bold text-red-800 dark:text-red-200 mb-1">⚠️ IMPORTANT: Connection Steps</p>
-              <ol className="text-xs text-red-700 dark:text-red-300 list-decimal list-inside space-y-1">
-                <li>Person A: Create room and copy your Peer ID</li>
-                <li>Person B: Join room with the room ID</li>
-                <li>Person B: Paste Person A's Peer ID and click "Connect to Peer"</li>
-                <li>Person A: Copy Person B's Peer ID and connect to them too</li>
-                <li>Both: You should see each other in "Connected Peers" (green box)</li>
-                <li>Now play! Sounds will be heard by everyone connected.</li>
-              </ol>
-            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Instrument, getInstrument } from "@/components/practice/instruments/registry";
+import { RemoteStage } from "@/app/lib/webrtc/remote-stage";
+import { HAND_RESEND_MS } from "@/app/lib/webrtc/hand-stream";
+import type { ZoneShape } from "@/app/types/motion";
+import type { RemoteHand } from "@/app/lib/webrtc/peer-protocol";
+import type { SharedLayouts, StageZone } from "@/components/practice/instruments/instrument-types";
+
+const STAGE_WIDTH = 320;
+const STAGE_HEIGHT = 240;
+// How long a zone stays lit after a hit
+const HIT_FLASH_MS = 180;
+// Hands not refreshed for this long are treated as gone (they're resent every HAND_RESEND_MS)
+const STALE_HANDS_MS = HAND_RESEND_MS * 3;
+
+const HAND_CONNECTIONS = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [5, 9], [9, 10], [10, 11], [11, 12],
+  [9, 13], [13, 14], [14, 15], [15, 16],
+  [13, 17], [17, 18], [18, 19], [19, 20],
+  [0, 17],
+];
+
+interface StagePeer {
+  id: string;
+  instrument: Instrument;
+}
+
+interface JamStageProps {
+  peers: StagePeer[];
+}
+
+/**
+ * Every remote player's hands and instrument zones, with hit flashes
+ */
+export default function JamStage({ peers }: JamStageProps) {
+  if (peers.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-3">
+      <h3 className="font-semibold">👀 Stage</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {peers.map((peer) => (
+          <RemotePlayerView key={peer.id} peerId={peer.id} instrument={peer.instrument} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RemotePlayerView({ peerId, instrument }: { peerId: string; instrument: Instrument }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    let frame = 0;
+    let zonesOf: Instrument | null = null;
+    let zonesFrom: SharedLayouts | undefined;
+    let zones: StageZone[] = [];
+    const draw = () => {
+      const player = RemoteStage.getInstance().getPlayer(peerId);
+      // Their hand stream knows their instrument first; the peer list catches up
+      const shown = player?.instrument ?? instrument;
+      const now = performance.now();
+
+      ctx.fillStyle = "#18181b";
+      ctx.fillRect(0, 0, STAGE_WIDTH, STAGE_HEIGHT);
+
+      if (zonesOf !== shown || zonesFrom !== player?.layouts) {
+        zonesOf = shown;
+        zonesFrom = player?.layouts;
+        zones = getInstrument(shown).stage.getZones(STAGE_WIDTH, STAGE_HEIGHT, zonesFrom);
+      }
+      zones.forEach((zone) => {
+        const hitAt = player?.hits.get(zone.id);
+        const lit = hitAt !== undefined && now >= hitAt && now - hitAt < HIT_FLASH_MS;
+        traceShape(ctx, zone.shape);
+        ctx.globalAlpha = lit ? 0.9 : 0.25;
+        ctx.fillStyle = zone.color;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = lit ? "#ffffff" : zone.color;
+        ctx.lineWidth = lit ? 3 : 1;
+        ctx.stroke();
+      });
+
+      if (player && now - player.handsAt < STALE_HANDS_MS) {
+        player.hands.forEach((hand) => drawHand(ctx, hand));
+      }
+
+      ctx.fillStyle = "#e4e4e7";
+      ctx.font = "12px sans-serif";
+      ctx.fillText(`${peerId.substring(0, 12)}... · ${getInstrument(shown).label}`, 8, 16);
+
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(frame);
+  }, [peerId, instrument]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={STAGE_WIDTH}
+      height={STAGE_HEIGHT}
+      className="w-full rounded-md bg-zinc-900"
+    />
+  );
+}
+
+/**
+ * Skeleton of one hand, mirrored like the player's own view
+ */
+function drawHand(ctx: CanvasRenderingContext2D, hand: RemoteHand) {
+  const points = hand.landmarks.map(({ x, y }) => ({
+    x: (1 - x) * STAGE_WIDTH,
+    y: y * STAGE_HEIGHT,
+  }));
+
+  ctx.strokeStyle = hand.handedness === "Left" ? "#4ECDC4" : "#FF6B6B";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  HAND_CONNECTIONS.forEach(([from, to]) => {
+    if (!points[from] || !points[to]) return;
+    ctx.moveTo(points[from].x, points[from].y);
+    ctx.lineTo(points[to].x, points[to].y);
+  });
+  ctx.stroke();
+
+  ctx.fillStyle = "#ffffff";
+  points.forEach(({ x, y }) => {
+    ctx.beginPath();
+    ctx.arc(x, y, 2, 0, Math.PI * 2);
+    ctx.fill();
+  });
+}
+
+function traceShape(ctx: CanvasRenderingContext2D, shape: ZoneShape) {
+  ctx.beginPath();
+  switch (shape.type) {
+    case "rect":
+      ctx.rect(shape.x, shape.y, shape.width, shape.height);
+      break;
+    case "circle":
+      ctx.arc(shape.cx, shape.cy, shape.radius, 0, Math.PI * 2);
+      break;
+    case "ellipse":
+      ctx.ellipse(shape.cx, shape.cy, shape.rx, shape.ry, shape.rotation ?? 0, 0, Math.PI * 2);
+      break;
+    case "polygon":
+      shape.points.forEach((point, index) => {
+        if (index === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      ctx.closePath();
+      break;
+  }
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { Gauge } from "lucide-react";
+import { MAX_EVENT_LATENESS_MS, MAX_JITTER_BUFFER_MS, RemoteScheduler } from "@/app/lib/webrtc/remote-scheduler";
+
+/**
+ * Per-peer latency readout and jitter buffer controls for remote sounds
+ */
+export default function LatencyPanel() {
+  const scheduler = RemoteScheduler.getInstance();
+  const { settings, peers } = useSyncExternalStore(
+    scheduler.subscribe,
+    scheduler.getSnapshot,
+    scheduler.getSnapshot
+  );
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Gauge className="w-4 h-4" /> Latency
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => scheduler.updateSettings({ enabled: e.target.checked })}
+          />
+          Keep remote timing steady
+        </label>
+      </div>
+
+      <label className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+        Jitter buffer
+        <input
+          type="range"
+          min={0}
+          max={MAX_JITTER_BUFFER_MS}
+          step={5}
+          value={settings.jitterBufferMs}
+          disabled={!settings.enabled}
+          onChange={(e) => scheduler.updateSettings({ jitterBufferMs: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-14 text-right font-mono">{settings.jitterBufferMs} ms</span>
+      </label>
+
+      {peers.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Measuring latency once peers connect...</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-left text-gray-500 dark:text-gray-400">
+            <tr>
+              <th className="font-medium">Peer</th>
+              <th className="font-medium text-right">Round trip</th>
+              <th className="font-medium text-right">Plays after</th>
+              <th className="font-medium text-right">Late</th>
+              <th className="font-medium text-right">Dropped</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {peers.map((peer) => (
+              <tr key={peer.peerId}>
+                <td className="truncate max-w-[10rem]">{peer.peerId.substring(0, 16)}...</td>
+                <td className="text-right">{Math.round(peer.roundTrip)} ms</td>
+                <td className="text-right">{settings.enabled ? `${Math.round(peer.playoutDelay)} ms` : "—"}</td>
+                <td className={`text-right ${peer.lateEvents > 0 ? "text-amber-600" : ""}`}>{peer.lateEvents}</td>
+                <td className={`text-right ${peer.droppedEvents > 0 ? "text-red-600" : ""}`}>{peer.droppedEvents}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Remote hits are played a fixed time after they were sent. Raise the buffer if you see late hits; lower it for a tighter feel. Hits more than {MAX_EVENT_LATENESS_MS} ms late are dropped.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { LOCAL_STRIP_ID, MAX_STRIP_VOLUME, Mixer, MixerStrip } from "@/app/lib/sound/mixer";
+import {
+  AudioEngine,
+  MAX_DELAY_FEEDBACK,
+  MAX_DELAY_TIME,
+  MIN_DELAY_TIME,
+  MasterSettings,
+} from "@/app/lib/sound/audio-engine";
+import { getInstrument, isInstrument } from "@/components/practice/instruments/registry";
+
+/**
+ * A channel strip for you and for every peer: volume, pan, effect sends,
+ * mute, solo and a level meter. Below them, the master bus and the shared effects.
+ */
+export default function MixerPanel() {
+  const mixer = Mixer.getInstance();
+  const { strips } = useSyncExternalStore(mixer.subscribe, mixer.getSnapshot, mixer.getSnapshot);
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4" /> Mixer
+      </h3>
+
+      <div className="flex flex-col gap-2">
+        {strips.map((strip) => (
+          <ChannelStripRow key={strip.id} strip={strip} />
+        ))}
+      </div>
+
+      <MasterSection />
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Your mix is saved for this room and comes back when you rejoin it.
+      </p>
+    </div>
+  );
+}
+
+function ChannelStripRow({ strip }: { strip: MixerStrip }) {
+  const mixer = Mixer.getInstance();
+  const meterRef = useRef<HTMLDivElement>(null);
+  const { id, settings } = strip;
+
+  // The meter follows the audio every frame, outside of React
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      if (meterRef.current) {
+        meterRef.current.style.width = `${Math.round(mixer.getLevel(id) * 100)}%`;
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [mixer, id]);
+
+  const name = id === LOCAL_STRIP_ID ? "You" : `${id.substring(0, 12)}...`;
+  const instrument = isInstrument(strip.instrument) ? getInstrument(strip.instrument).label : null;
+
+  return (
+    <div className="grid grid-cols-[8rem_1fr_5rem_5rem_auto] items-center gap-3 text-sm">
+      <div className="truncate">
+        <span className="font-medium">{name}</span>
+        {instrument && <span className="block text-xs text-gray-500 dark:text-gray-400">{instrument}</span>}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <input
+          type="range"
+          min={0}
+          max={MAX_STRIP_VOLUME}
+          step={0.01}
+          value={settings.volume}
+          onChange={(e) => mixer.updateStrip(id, { volume: Number(e.target.value) })}
+          aria-label={`${name} volume`}
+        />
+        <div className="h-1.5 rounded bg-zinc-200 dark:bg-zinc-700 overflow-hidden">
+          <div ref={meterRef} className="h-full w-0 bg-emerald-500" />
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={-1}
+        max={1}
+        step={0.05}
+        value={settings.pan}
+        onChange={(e) => mixer.updateStrip(id, { pan: Number(e.target.value) })}
+        onDoubleClick={() => mixer.updateStrip(id, { pan: 0 })}
+        title="Pan (double-click to center)"
+        aria-label={`${name} pan`}
+      />
+
+      <div className="flex flex-col gap-1">
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={settings.reverb}
+          onChange={(e) => mixer.updateStrip(id, { reverb: Number(e.target.value) })}
+          title="Reverb send"
+          aria-label={`${name} reverb send`}
+        />
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={settings.delay}
+          onChange={(e) => mixer.updateStrip(id, { delay: Number(e.target.value) })}
+          title="Delay send"
+          aria-label={`${name} delay send`}
+        />
+      </div>
+
+      <div className="flex gap-1">
+        <button
+          onClick={() => mixer.updateStrip(id, { muted: !settings.muted })}
+          className={`w-7 h-7 rounded text-xs font-bold ${
+            settings.muted ? "bg-red-500 text-white" : "bg-zinc-200 dark:bg-zinc-700"
+          }`}
+          title="Mute"
+        >
+          M
+        </button>
+        <button
+          onClick={() => mixer.updateStrip(id, { solo: !settings.solo })}
+          className={`w-7 h-7 rounded text-xs font-bold ${
+            settings.solo ? "bg-amber-400 text-black" : "bg-zinc-200 dark:bg-zinc-700"
+          }`}
+          title="Solo"
+        >
+          S
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function MasterSection() {
+  const engine = AudioEngine.getInstance();
+  const { settings } = useSyncExternalStore(engine.subscribe, engine.getSnapshot, engine.getSnapshot);
+  const meterRef = useRef<HTMLDivElement>(null);
+
+  // Meter turns red while the limiter is working
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      if (meterRef.current) {
+        meterRef.current.style.width = `${Math.round(engine.getLevel() * 100)}%`;
+        meterRef.current.classList.toggle("bg-red-500", engine.getLimiterReduction() > 1);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [engine]);
+
+  const control = (label: string, key: keyof MasterSettings, min: number, max: number) => (
+    <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+      {label}
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={0.01}
+        value={settings[key]}
+        onChange={(e) => engine.updateSettings({ [key]: Number(e.target.value) })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="border-t border-zinc-200 dark:border-zinc-700 pt-3 flex flex-col gap-2 text-sm">
+      <div className="grid grid-cols-[8rem_1fr] items-center gap-3">
+        <span className="font-medium">Master</span>
+        <div className="flex flex-col gap-1">
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={settings.volume}
+            onChange={(e) => engine.updateSettings({ volume: Number(e.target.value) })}
+            aria-label="Master volume"
+          />
+          <div className="h-1.5 rounded bg-zinc-200 dark:bg-zinc-700 overflow-hidden">
+            <div ref={meterRef} className="h-full w-0 bg-emerald-500" />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        {control("Reverb return", "reverbReturn", 0, 1)}
+        {control("Delay return", "delayReturn", 0, 1)}
+        {control("Delay time", "delayTime", MIN_DELAY_TIME, MAX_DELAY_TIME)}
+        {control("Delay feedback", "delayFeedback", 0, MAX_DELAY_FEEDBACK)}
+      </div>
+    </div>
+  );
+}
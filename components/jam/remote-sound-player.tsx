@@ -1,184 +1,93 @@
 "use client";
 
 import { useEffect, useRef, useImperativeHandle, forwardRef, useCallback } from "react";
-import { DrumKit } from "@/app/lib/sound/drum-kit";
-import { Piano } from "@/app/lib/sound/piano";
-import { Triangle } from "@/app/lib/sound/triangle";
-import { Tambourine } from "@/app/lib/sound/tambourine";
 import { SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { Mixer } from "@/app/lib/sound/mixer";
+import { InstrumentSoundEngine } from "@/components/practice/instruments/instrument-types";
+import { createSoundEngines } from "@/components/practice/instruments/registry";
 
 interface RemoteSoundPlayerProps {
   // No props needed - will be controlled via ref
 }
 
 export interface RemoteSoundPlayerHandle {
-  playRemoteSound: (event: SoundEvent) => void;
+  // delay: seconds from now to play it (0 = immediately)
+  playRemoteSound: (peerId: string, event: SoundEvent, delay?: number) => void;
+  // Get a peer's sounds ready before their first hit arrives
+  preparePeer: (peerId: string) => void;
+  releasePeer: (peerId: string) => void;
+  // Leaving the room: every peer's engines go with their mixer strips
+  releaseAll: () => void;
+}
+
+interface PeerEngines {
+  engines: InstrumentSoundEngine<SoundEvent>;
+  ready: Promise<void>;
 }
 
 /**
  * Component that plays sounds from remote peers
- * This allows you to hear other players' sounds in your jam session
- * 
+ * This allows you to hear other players' sounds in your jam session.
+ * Each peer gets their own sound engines, playing into their mixer strip.
+ *
  * Usage: Use the ref to call playRemoteSound when a sound event is received
  */
 const RemoteSoundPlayer = forwardRef<RemoteSoundPlayerHandle, RemoteSoundPlayerProps>(
   function RemoteSoundPlayer(_props, ref) {
-    const drumKitRef = useRef<DrumKit | null>(null);
-    const pianoRef = useRef<Piano | null>(null);
-    const triangleRef = useRef<Triangle | null>(null);
-    const tambourineRef = useRef<Tambourine | null>(null);
-    const initializedRef = useRef<boolean>(false);
-
-    // Initialize sound instruments
-    useEffect(() => {
-      const initSounds = async () => {
-        if (initializedRef.current) return;
-        
-        try {
-          // Initialize all instruments (they'll be used when remote sounds come in)
-          drumKitRef.current = new DrumKit();
-          await drumKitRef.current.initialize();
-          
-          pianoRef.current = new Piano();
-          await pianoRef.current.initialize();
-          
-          triangleRef.current = new Triangle();
-          await triangleRef.current.initialize();
-          
-          tambourineRef.current = new Tambourine();
-          await tambourineRef.current.initialize();
-          
-          initializedRef.current = true;
-          console.log("🎵 Remote sound player initialized");
-        } catch (error) {
-          console.error("❌ Failed to initialize remote sound player:", error);
-        }
-      };
+    const peersRef = useRef<Map<string, PeerEngines>>(new Map());
 
-      initSounds();
-    }, []);
+    // Create and initialize a peer's engines (once)
+    const getPeerEngines = useCallback((peerId: string): PeerEngines => {
+      const existing = peersRef.current.get(peerId);
+      if (existing) return existing;
 
-    // Helper function to actually play the sound (defined before useImperativeHandle)
-    const playSound = useCallback((event: SoundEvent) => {
-      try {
-        switch (event.type) {
-          case 'drums':
-            if (drumKitRef.current) {
-              console.log('🔊 Playing remote drum sound:', event.sound);
-              switch (event.sound) {
-                case 'snare':
-                  drumKitRef.current.playSnare();
-                  break;
-                case 'kick':
-                  drumKitRef.current.playKick();
-                  break;
-                case 'hihat':
-                  drumKitRef.current.playHiHat();
-                  break;
-                case 'crash':
-                  drumKitRef.current.playCrash();
-                  break;
-              }
-            } else {
-              console.error('❌ DrumKit ref is null');
-            }
-            break;
-          
-          case 'piano':
-            if (pianoRef.current && event.noteIndex !== undefined) {
-              console.log('🎹 Playing remote piano note:', event.noteIndex);
-              pianoRef.current.playNote(event.noteIndex, event.velocity || 1);
-            } else {
-              console.error('❌ Piano ref is null or noteIndex undefined');
-            }
-            break;
-          
-          case 'triangle':
-            if (triangleRef.current) {
-              console.log('🔺 Playing remote triangle');
-              triangleRef.current.play();
-            } else {
-              console.error('❌ Triangle ref is null');
-            }
-            break;
-          
-          case 'tambourine':
-            if (tambourineRef.current) {
-              console.log('🪘 Playing remote tambourine sound');
-              tambourineRef.current.play();
-            } else {
-              console.error('❌ Tambourine ref is null');
-            }
-            break;
-        }
-      } catch (error) {
-        console.error("❌ Error playing remote sound:", error);
-      }
+      const engines = createSoundEngines(Mixer.getInstance().getStripInput(peerId));
+      const ready = engines
+        .initialize()
+        .then(() => console.log("🎵 Remote sounds ready for", peerId))
+        .catch((error) => console.error("❌ Failed to initialize remote sounds for", peerId, error));
+      const peer = { engines, ready };
+      peersRef.current.set(peerId, peer);
+      return peer;
     }, []);
 
-    // Expose playRemoteSound method via ref
+    // Expose the player via ref
     useImperativeHandle(ref, () => ({
-      playRemoteSound: (event: SoundEvent) => {
-        console.log('🎵 playRemoteSound called with event:', event, 'initialized:', initializedRef.current);
-        
-        if (!initializedRef.current) {
-          console.warn("🎵 Remote sound player not yet initialized - will try to initialize now");
-          // Try to initialize now
-          const initNow = async () => {
-            try {
-              if (!drumKitRef.current) {
-                drumKitRef.current = new DrumKit();
-                await drumKitRef.current.initialize();
-              }
-              if (!pianoRef.current) {
-                pianoRef.current = new Piano();
-                await pianoRef.current.initialize();
-              }
-              if (!triangleRef.current) {
-                triangleRef.current = new Triangle();
-                await triangleRef.current.initialize();
-              }
-              if (!tambourineRef.current) {
-                tambourineRef.current = new Tambourine();
-                await tambourineRef.current.initialize();
-              }
-              initializedRef.current = true;
-              console.log("🎵 Remote sound player initialized on-demand");
-              
-              // Now play the sound
-              playSound(event);
-            } catch (error) {
-              console.error("❌ Failed to initialize remote sound player on-demand:", error);
-            }
-          };
-          initNow();
+      playRemoteSound: (peerId: string, event: SoundEvent, delay: number = 0) => {
+        const peer = peersRef.current.get(peerId);
+        if (!peer) {
+          console.warn("🎵 Remote sounds not prepared for", peerId, "- initializing now");
+          // Already late by the time it's ready, so it plays right away
+          getPeerEngines(peerId).ready.then(() => peersRef.current.get(peerId)?.engines.play(event));
           return;
         }
 
-        playSound(event);
+        try {
+          console.log('🔊 Playing remote sound:', event.type, 'in', Math.round(delay * 1000), 'ms');
+          peer.engines.play(event, delay);
+        } catch (error) {
+          console.error("❌ Error playing remote sound:", error);
+        }
+      },
+      preparePeer: (peerId: string) => {
+        getPeerEngines(peerId);
+      },
+      releasePeer: (peerId: string) => {
+        peersRef.current.get(peerId)?.engines.dispose();
+        peersRef.current.delete(peerId);
       },
-    }), [playSound]);
+      releaseAll: () => {
+        peersRef.current.forEach((peer) => peer.engines.dispose());
+        peersRef.current.clear();
+      },
+    }), [getPeerEngines]);
 
     // Cleanup on unmount
     useEffect(() => {
+      const peers = peersRef.current;
       return () => {
-        if (drumKitRef.current) {
-          // DrumKit doesn't have dispose, but we can clear the ref
-          drumKitRef.current = null;
-        }
-        if (pianoRef.current) {
-          pianoRef.current.dispose();
-          pianoRef.current = null;
-        }
-        if (triangleRef.current) {
-          triangleRef.current.dispose();
-          triangleRef.current = null;
-        }
-        if (tambourineRef.current) {
-          tambourineRef.current.dispose();
-          tambourineRef.current = null;
-        }
-        initializedRef.current = false;
+        peers.forEach((peer) => peer.engines.dispose());
+        peers.clear();
       };
     }, []);
 
@@ -0,0 +1,46 @@
+import { Metronome } from "@/app/lib/sound/metronome";
+
+const DOT_RADIUS = 7;
+const DOT_GAP = 22;
+const MARGIN = 18;
+
+/**
+ * Draw the metronome's beat on a player canvas (top-right corner).
+ * Call at the end of a frame, with an un-mirrored transform.
+ */
+export function drawBeatIndicator(ctx: CanvasRenderingContext2D, canvasWidth: number) {
+  const metronome = Metronome.getInstance();
+  const current = metronome.getCurrentBeat();
+  if (!current) return;
+
+  const { beatsPerBar, accent } = metronome.getSettings();
+  const phase = metronome.getBeatAt(metronome.getContext().currentTime) - current.beat;
+  // Flash at the click, fading over the beat
+  const flash = Math.max(0, 1 - phase * 1.5);
+
+  ctx.save();
+  const startX = canvasWidth - MARGIN - (beatsPerBar - 1) * DOT_GAP;
+  for (let i = 0; i < beatsPerBar; i++) {
+    const x = startX + i * DOT_GAP;
+    const isCurrent = i === current.beatInBar;
+    ctx.beginPath();
+    ctx.arc(x, MARGIN, DOT_RADIUS, 0, Math.PI * 2);
+    if (isCurrent) {
+      const color = accent && i === 0 ? "255, 107, 107" : "78, 205, 196";
+      ctx.fillStyle = `rgba(${color}, ${0.4 + 0.6 * flash})`;
+    } else {
+      ctx.fillStyle = "rgba(255, 255, 255, 0.25)";
+    }
+    ctx.fill();
+  }
+
+  if (current.isCountIn) {
+    // Count the last bar of the count-in out loud, big
+    const beatsLeft = -current.beat;
+    ctx.font = "bold 48px sans-serif";
+    ctx.textAlign = "center";
+    ctx.fillStyle = `rgba(255, 255, 255, ${0.5 + 0.5 * flash})`;
+    ctx.fillText(beatsLeft <= beatsPerBar ? String(beatsLeft) : "…", canvasWidth / 2, 70);
+  }
+  ctx.restore();
+}
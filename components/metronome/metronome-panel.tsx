@@ -0,0 +1,135 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { Timer } from "lucide-react";
+import { Metronome } from "@/app/lib/sound/metronome";
+
+const TIME_SIGNATURES = [
+  { beatsPerBar: 2, beatUnit: 4 },
+  { beatsPerBar: 3, beatUnit: 4 },
+  { beatsPerBar: 4, beatUnit: 4 },
+  { beatsPerBar: 5, beatUnit: 4 },
+  { beatsPerBar: 6, beatUnit: 8 },
+  { beatsPerBar: 7, beatUnit: 8 },
+];
+
+interface MetronomePanelProps {
+  following?: boolean; // tempo is driven by the jam host
+}
+
+/**
+ * Tempo, time signature, count-in and accent controls for the shared metronome
+ */
+export default function MetronomePanel({ following = false }: MetronomePanelProps) {
+  const metronome = Metronome.getInstance();
+  const { settings, running } = useSyncExternalStore(
+    metronome.subscribe,
+    metronome.getSnapshot,
+    metronome.getSnapshot
+  );
+
+  const handleStartStop = () => {
+    if (running) {
+      metronome.stop();
+    } else {
+      metronome.start().catch((error) => {
+        console.error("❌ Failed to start metronome:", error);
+      });
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Timer className="w-4 h-4" /> Metronome
+        </h3>
+        {following ? (
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            {running ? "🔗 Following host tempo" : "🔗 Waiting for host"}
+          </span>
+        ) : (
+          <button
+            onClick={handleStartStop}
+            className={`flex h-9 items-center justify-center rounded-full px-5 font-medium text-white transition-colors ${
+              running ? "bg-red-600 hover:bg-red-700" : "bg-zinc-800 hover:bg-zinc-700"
+            }`}
+          >
+            {running ? "Stop" : "Start"}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+        <label className="flex items-center gap-2">
+          Tempo
+          <input
+            type="number"
+            min={40}
+            max={240}
+            value={settings.bpm}
+            disabled={following}
+            onChange={(e) => {
+              const bpm = Number(e.target.value);
+              if (bpm >= 20 && bpm <= 300) metronome.updateSettings({ bpm });
+            }}
+            className="w-16 rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+          />
+          BPM
+        </label>
+        <label className="flex items-center gap-2">
+          Time
+          <select
+            value={`${settings.beatsPerBar}/${settings.beatUnit}`}
+            disabled={following}
+            onChange={(e) => {
+              const [beatsPerBar, beatUnit] = e.target.value.split("/").map(Number);
+              metronome.updateSettings({ beatsPerBar, beatUnit });
+            }}
+            className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+          >
+            {TIME_SIGNATURES.map(({ beatsPerBar, beatUnit }) => (
+              <option key={`${beatsPerBar}/${beatUnit}`} value={`${beatsPerBar}/${beatUnit}`}>
+                {beatsPerBar}/{beatUnit}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Count-in
+          <select
+            value={settings.countInBars}
+            disabled={following}
+            onChange={(e) => metronome.updateSettings({ countInBars: Number(e.target.value) })}
+            className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+          >
+            {[0, 1, 2].map((bars) => (
+              <option key={bars} value={bars}>
+                {bars === 0 ? "None" : `${bars} bar${bars > 1 ? "s" : ""}`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.accent}
+            onChange={(e) => metronome.updateSettings({ accent: e.target.checked })}
+          />
+          Accent
+        </label>
+        <label className="flex items-center gap-2">
+          Volume
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            onChange={(e) => metronome.updateSettings({ volume: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
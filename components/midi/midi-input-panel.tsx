@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { Piano } from "lucide-react";
+import { ALL_INPUTS_ID, MidiInput, MidiInputRoute } from "@/app/lib/midi/midi-input";
+import { SessionRecorder } from "@/app/lib/recording/session-recorder";
+import type { PeerManager, SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { InstrumentSoundEngine } from "@/components/practice/instruments/instrument-types";
+import {
+  createSoundEngines,
+  INSTRUMENTS,
+  soundEventFromMidi,
+} from "@/components/practice/instruments/registry";
+
+interface MidiInputPanelProps {
+  getPeerManager?: () => PeerManager | null; // jam session to share the notes with
+}
+
+/**
+ * Play the instruments from a MIDI controller: notes go through the same
+ * sound engines, recorder, looper and jam peers as air hits
+ */
+export default function MidiInputPanel({ getPeerManager }: MidiInputPanelProps) {
+  const midi = MidiInput.getInstance();
+  const { settings, inputs, webMidiStatus } = useSyncExternalStore(
+    midi.subscribe,
+    midi.getSnapshot,
+    midi.getSnapshot
+  );
+  const enginesRef = useRef<InstrumentSoundEngine<SoundEvent> | null>(null);
+  const enginesReadyRef = useRef<Promise<void> | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = midi.onNote((note, velocity, channel) => {
+      const { route, sendToPeers } = midi.getSettings();
+      const event = soundEventFromMidi(note, velocity, channel, route === "auto" ? undefined : route);
+      if (!event) return;
+
+      enginesRef.current?.play(event);
+      SessionRecorder.getInstance().recordSoundEvent(event, "midi");
+      const peerManager = sendToPeers ? getPeerManager?.() : null;
+      peerManager?.sendSoundEvent(event);
+    });
+    return unsubscribe;
+  }, [midi, getPeerManager]);
+
+  useEffect(() => {
+    return () => {
+      enginesRef.current?.dispose();
+      enginesRef.current = null;
+      enginesReadyRef.current = null;
+    };
+  }, []);
+
+  const handleEnabledChange = (enabled: boolean) => {
+    if (enabled) {
+      // Audio has to be unlocked from this click
+      if (!enginesReadyRef.current) {
+        enginesRef.current = createSoundEngines();
+        enginesReadyRef.current = enginesRef.current.initialize().catch((error) => {
+          console.error("❌ Failed to initialize MIDI input sounds:", error);
+        });
+      }
+      midi.enableWebMidi().catch((error) => {
+        console.error("❌ Failed to enable Web MIDI:", error);
+      });
+    }
+    midi.updateSettings({ enabled });
+  };
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Piano className="w-4 h-4" /> MIDI In
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => handleEnabledChange(e.target.checked)}
+          />
+          Play from MIDI
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+          <label className="flex items-center gap-2">
+            Input
+            <select
+              value={settings.inputId}
+              onChange={(e) => midi.updateSettings({ inputId: e.target.value })}
+              className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+            >
+              <option value={ALL_INPUTS_ID}>All inputs</option>
+              {inputs.map((input) => (
+                <option key={input.id} value={input.id}>
+                  {input.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Play
+            <select
+              value={settings.route}
+              onChange={(e) => midi.updateSettings({ route: e.target.value as MidiInputRoute })}
+              className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+            >
+              <option value="auto">By channel (10 = percussion)</option>
+              {INSTRUMENTS.map((definition) => (
+                <option key={definition.id} value={definition.id}>
+                  {definition.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {getPeerManager !== undefined && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.sendToPeers}
+                onChange={(e) => midi.updateSettings({ sendToPeers: e.target.checked })}
+              />
+              Send to peers
+            </label>
+          )}
+          {webMidiStatus === "unavailable" && (
+            <p className="text-xs text-gray-500">Web MIDI isn&apos;t available in this browser.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { Cable } from "lucide-react";
+import { MidiOutput, VelocityCurve } from "@/app/lib/midi/midi-output";
+import { INSTRUMENTS } from "@/components/practice/instruments/registry";
+
+const CURVES: { value: VelocityCurve; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "soft", label: "Soft (easier to play loud)" },
+  { value: "hard", label: "Hard (more dynamic range)" },
+  { value: "fixed", label: "Fixed" },
+];
+
+const CHANNELS = Array.from({ length: 16 }, (_, index) => index + 1);
+
+/**
+ * Settings for sending every hit out as MIDI notes, to a DAW, a hardware synth
+ * or the virtual port. The hits themselves are routed by MidiOutput.routeSoundEvents.
+ */
+export default function MidiPanel() {
+  const midi = MidiOutput.getInstance();
+  const { settings, ports, webMidiStatus } = useSyncExternalStore(
+    midi.subscribe,
+    midi.getSnapshot,
+    midi.getSnapshot
+  );
+
+  const handleEnabledChange = (enabled: boolean) => {
+    if (enabled) {
+      midi.enableWebMidi().catch((error) => {
+        console.error("❌ Failed to enable Web MIDI:", error);
+      });
+    }
+    midi.updateSettings({ enabled });
+  };
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Cable className="w-4 h-4" /> MIDI Out
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => handleEnabledChange(e.target.checked)}
+          />
+          Send MIDI
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+            <label className="flex items-center gap-2">
+              Port
+              <select
+                value={settings.portId}
+                onChange={(e) => midi.updateSettings({ portId: e.target.value })}
+                className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+              >
+                {ports.map((port) => (
+                  <option key={port.id} value={port.id}>
+                    {port.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Velocity
+              <select
+                value={settings.curve}
+                onChange={(e) => midi.updateSettings({ curve: e.target.value as VelocityCurve })}
+                className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+              >
+                {CURVES.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {settings.curve === "fixed" && (
+              <input
+                type="number"
+                min={1}
+                max={127}
+                value={settings.fixedVelocity}
+                onChange={(e) => midi.updateSettings({ fixedVelocity: Number(e.target.value) })}
+                className="w-16 rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+                aria-label="Fixed velocity"
+              />
+            )}
+            <label className="flex items-center gap-2">
+              Note length
+              <input
+                type="number"
+                min={10}
+                max={2000}
+                step={10}
+                value={settings.noteLengthMs}
+                onChange={(e) => midi.updateSettings({ noteLengthMs: Number(e.target.value) })}
+                className="w-20 rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+              />
+              ms
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.includeRemote}
+                onChange={(e) => midi.updateSettings({ includeRemote: e.target.checked })}
+              />
+              Include peers
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+            {INSTRUMENTS.map((definition) => (
+              <label key={definition.id} className="flex items-center gap-2">
+                {definition.label}
+                <select
+                  value={settings.channels[definition.id] ?? definition.midi.channel}
+                  onChange={(e) =>
+                    midi.updateSettings({
+                      channels: { ...settings.channels, [definition.id]: Number(e.target.value) },
+                    })
+                  }
+                  className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+                >
+                  {CHANNELS.map((channel) => (
+                    <option key={channel} value={channel}>
+                      Ch {channel}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {webMidiStatus === "unavailable" && (
+            <p className="text-xs text-gray-500">
+              Web MIDI isn&apos;t available in this browser. Notes go to the virtual port (logged to the console).
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { DominantHandPreference, type DominantHand } from "@/app/lib/motion/dominant-hand";
+
+const OPTIONS: { hand: DominantHand; label: string }[] = [
+  { hand: "right", label: "Right-handed" },
+  { hand: "left", label: "Left-handed" },
+];
+
+/**
+ * Global playing-hand preference; instruments mirror their layouts and hand roles from it
+ */
+export default function DominantHandToggle() {
+  const preference = DominantHandPreference.getInstance();
+  const { hand } = useSyncExternalStore(preference.subscribe, preference.getSnapshot, preference.getSnapshot);
+
+  return (
+    <div className="flex items-center gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-sm">
+      {OPTIONS.map((option) => (
+        <button
+          key={option.hand}
+          onClick={() => preference.setHand(option.hand)}
+          aria-pressed={hand === option.hand}
+          className={`px-3 py-1.5 rounded-md font-medium transition-all ${
+            hand === option.hand
+              ? "bg-white dark:bg-zinc-700 text-black dark:text-white shadow-md"
+              : "text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState } from "react";
-import { Instrument, INSTRUMENT_INSTRUCTIONS } from "./instruments/instrument-types";
+import { Instrument } from "./instruments/instrument-types";
+import { getInstrument } from "./instruments/registry";
 import { ChevronDown, ChevronUp, Info } from "lucide-react";
 
 interface InstructionsPanelProps {
@@ -10,7 +11,7 @@ interface InstructionsPanelProps {
 
 export default function InstructionsPanel({ instrument }: InstructionsPanelProps) {
   const [isExpanded, setIsExpanded] = useState(true);
-  const instructions = INSTRUMENT_INSTRUCTIONS[instrument];
+  const { instructions, gestures } = getInstrument(instrument);
 
   return (
     <div className="w-full max-w-2xl">
@@ -45,6 +46,22 @@ export default function InstructionsPanel({ instrument }: InstructionsPanelProps
               </ol>
             </div>
 
+            {gestures.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
+                  Gestures:
+                </h3>
+                <ul className="space-y-1.5 text-sm text-zinc-700 dark:text-zinc-300">
+                  {gestures.map(({ gesture, sound }) => (
+                    <li key={gesture} className="flex justify-between gap-4">
+                      <span>{gesture}</span>
+                      <span className="font-medium text-zinc-900 dark:text-zinc-100">{sound}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {instructions.tips.length > 0 && (
               <div>
                 <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
@@ -1,76 +1,167 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
 import { DrumKit } from "@/app/lib/sound/drum-kit";
-import CalibrationWizard from "@/components/calibration/CalibrationWizard";
-import { Hands } from "@mediapipe/hands";
-import { PeerManager } from "@/app/lib/webrtc/peer-manager";
-
-type HandsType = {
-  setOptions: (options: any) => void;
-  onResults: (callback: (results: any) => void) => void;
-  send: (data: {
-    image: HTMLVideoElement | HTMLCanvasElement;
-  }) => Promise<void>;
-  close: () => Promise<void>;
+import { useMediaPipe } from "@/app/hooks/useMediaPipe";
+import { drawBeatIndicator } from "@/components/metronome/beat-indicator";
+import { SessionRecorder } from "@/app/lib/recording/session-recorder";
+import { HandTrackingFrame } from "@/app/types/mediapipe";
+import { MotionZone, Point } from "@/app/types/motion";
+import { MotionDetector } from "@/app/lib/motion/motion-detector";
+import { containsPoint, getShapeCenter } from "@/app/lib/motion/zone-detector";
+import { getHandPose } from "@/app/lib/motion/hand-pose";
+import { speedToVelocity } from "@/app/lib/sound/dynamics";
+import type { DrumSound, DrumsSoundEvent } from "./definitions/drums";
+import { DEFAULT_LAYOUT, DrumLayouts, DrumZoneLayout } from "./drum-layouts";
+import DrumLayoutEditor from "./drum-layout-editor";
+import { InstrumentPlayerProps } from "./instrument-types";
+
+interface DrumPad {
+  zone: MotionZone;
+  sound: DrumSound;
+  edgeSound?: DrumSound; // hits near the rim of a round pad
+  upperSound?: DrumSound; // hits in the top half of the pad
+  grabToChoke?: boolean; // a fist on the pad silences it
+  label: string;
+  color: string;
+  emoji: string;
+}
+
+const CANVAS_WIDTH = 640;
+const CANVAS_HEIGHT = 480;
+const HAND_COOLDOWN_MS = 100; // per-hand cooldown (ms)
+const DRUM_COOLDOWN_MS = 350; // per-drum cooldown to reduce double hits on same visual drum (tuned up)
+const MIN_DY_PIXELS = 6; // displacement guard
+// Reduce horizontal requirement so side snares are easier to hit
+const HORIZ_SPEED_THRESHOLD = 350; // px/s horizontal requirement for side snares
+// A strike this many times faster than a zone's threshold plays at full velocity
+const FULL_VELOCITY_SPEED_RATIO = 3;
+// Outer part of a round pad (fraction of its radius) that counts as the rim
+const RIM_START_RATIO = 0.75;
+// Palm center, where a grab is checked
+const PALM_LANDMARK = 9;
+// Dragging a selected pad this close to its edge (fraction of radius) resizes it
+const RESIZE_EDGE_RATIO = 0.75;
+
+/**
+ * Which of a pad's sounds a hit at this point plays
+ */
+function getPadSound(pad: DrumPad, position: Point): DrumSound {
+  const { shape } = pad.zone;
+  if (pad.edgeSound && shape.type === "circle") {
+    const distance = Math.hypot(position.x - shape.cx, position.y - shape.cy);
+    if (distance >= shape.radius * RIM_START_RATIO) return pad.edgeSound;
+  }
+  if (pad.upperSound && position.y < getShapeCenter(shape).y) return pad.upperSound;
+  return pad.sound;
+}
+
+// How each sound looks on its pad
+const PAD_STYLES: Record<DrumSound, { label: string; color: string; emoji: string }> = {
+  snare: { label: "🥁 Snare", color: "#4ECDC4", emoji: "🥁" },
+  rimshot: { label: "🥁 Rimshot", color: "#FF6B6B", emoji: "🥁" },
+  kick: { label: "🔘 Bass", color: "#222222", emoji: "🔊" },
+  hihat: { label: "🎧 Hi-Hat", color: "#B4C6FF", emoji: "🎵" },
+  "hihat-open": { label: "🎧 Open Hi-Hat", color: "#8FA8F0", emoji: "🎵" },
+  "tom-high": { label: "Tom 1", color: "#9B5DE5", emoji: "🪘" },
+  "tom-mid": { label: "Tom 2", color: "#7B3FC4", emoji: "🪘" },
+  "tom-floor": { label: "Floor Tom", color: "#5A2A9A", emoji: "🪘" },
+  crash: { label: "💥 Crash", color: "#D8A600", emoji: "💥" },
+  ride: { label: "🔔 Ride", color: "#C9A227", emoji: "🔔" },
 };
 
-interface AirDrumsPlayerProps {
-  peerManager?: PeerManager | null;
+const SWIPED_SOUNDS: DrumSound[] = ["crash", "hihat", "hihat-open"];
+const CHOKABLE_SOUNDS: DrumSound[] = ["crash", "ride", "hihat", "hihat-open"];
+
+/**
+ * The drum kit as a zone map (canvas pixels, mirrored view), built from a layout.
+ * How a pad is played follows from its sound and which side it sits on:
+ * snares fire on a downward strike that also moves outward (their rim plays
+ * a rimshot); crash and hi-hats on an outward swipe (the hi-hat's top half
+ * plays it open); everything else on any downward strike.
+ * @param velocityThreshold - downward speed (px/s) needed for a drum hit
+ */
+export function buildDrumPads(
+  width: number,
+  height: number,
+  velocityThreshold: number,
+  layout: DrumZoneLayout[] = DEFAULT_LAYOUT.zones
+): DrumPad[] {
+  const unit = Math.min(width, height);
+
+  return layout.map(({ id, sound, x, y, size }) => {
+    const outward = x < 0.5 ? "left" : "right";
+    const swiped = SWIPED_SOUNDS.includes(sound);
+    const zone: MotionZone = {
+      id,
+      shape: { type: "circle", cx: width * x, cy: height * y, radius: unit * size },
+      directions: swiped
+        ? [{ direction: outward, minVelocity: HORIZ_SPEED_THRESHOLD }]
+        : [{ direction: "down", minVelocity: velocityThreshold }],
+      // small positional guard to ignore tiny jitter
+      minDisplacement: swiped ? 4 : MIN_DY_PIXELS,
+      cooldownMs: DRUM_COOLDOWN_MS,
+    };
+    if (sound === "snare") {
+      // moving towards a side drum means moving outward
+      zone.directions?.push({ direction: outward, minVelocity: HORIZ_SPEED_THRESHOLD });
+    }
+
+    return {
+      zone,
+      sound,
+      edgeSound: sound === "snare" ? "rimshot" : undefined,
+      upperSound: sound === "hihat" ? "hihat-open" : undefined,
+      grabToChoke: CHOKABLE_SOUNDS.includes(sound),
+      ...PAD_STYLES[sound],
+    };
+  });
 }
 
-export default function AirDrumsPlayer({ peerManager = null }: AirDrumsPlayerProps = {}) {
-  const videoRef = useRef<HTMLVideoElement>(null);
+export default function AirDrumsPlayer({
+  peerManager = null,
+  Calibration,
+}: InstrumentPlayerProps = {}) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [handPositions, setHandPositions] = useState<{
     left?: { x: number; y: number };
     right?: { x: number; y: number };
   }>({});
-  const [isActive, setIsActive] = useState(false);
-  const handsRef = useRef<HandsType | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
   const drumKitRef = useRef<DrumKit | null>(null);
   // Make default more forgiving so it's easier to trigger; user can lower further with slider.
-  // Lower default a bit to make zones easier to hit.
-  const [velocityThreshold, setVelocityThreshold] = useState<number>(1500);
+  // Landmarks are smoothed before detection, so this no longer has to sit
+  // above the jitter of raw two-frame velocities.
+  const [velocityThreshold, setVelocityThreshold] = useState<number>(1000);
   const [handSpeeds, setHandSpeeds] = useState<Record<number, number>>({});
 
-  // Store previous hand positions for velocity calculation
-  // Store both index finger and thumb positions (like holding a drumstick)
-  const previousPositionsRef = useRef<
-    Map<
-      number,
-      {
-        indexX: number;
-        indexY: number;
-        thumbX: number;
-        thumbY: number;
-        timestamp: number;
-      }
-    >
-  >(new Map());
-  const lastTriggerRef = useRef<Map<number, number>>(new Map());
-  // Per-drum cooldowns keyed by 'left'|'right' to reduce double-triggering on the same visual drum
-  const drumLastTriggerRef = useRef<Map<string, number>>(new Map());
+  // Turns the drum zone map into hits. Works in canvas pixels so thresholds stay in px/s.
+  const motionDetectorRef = useRef<MotionDetector | null>(null);
   // Visual flash timestamps for zones when a hit is registered
   const hitFlashRef = useRef<Map<string, number>>(new Map());
-  const prevVerticalSpeedRef = useRef<Map<number, number>>(new Map());
-  const prevHorizontalSpeedRef = useRef<Map<number, number>>(new Map());
-  // Preloaded images for drums (optional SVGs in public/assets)
-  const imagesRef = useRef<Record<string, HTMLImageElement | null>>({
-    left: null,
-    right: null,
-    bass: null,
-    hihat: null,
-    crash: null,
-  });
+  // Hands currently making a fist, so a grab chokes only once
+  const grabbingHandsRef = useRef<Set<number>>(new Set());
+  // Preloaded images for drum sounds (optional SVGs in public/assets)
+  const imagesRef = useRef<Partial<Record<DrumSound, HTMLImageElement | null>>>({});
+
+  // Zone layout, and the editor for it
+  const layouts = DrumLayouts.getInstance();
+  const { current: layout } = useSyncExternalStore(
+    layouts.subscribe,
+    layouts.getSnapshot,
+    layouts.getSnapshot
+  );
+  const [editing, setEditing] = useState(false);
+  const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
+  const dragRef = useRef<{ id: string; mode: "move" | "resize"; offset: Point } | null>(null);
 
   useEffect(() => {
-    if (!videoRef.current || !canvasRef.current) return;
-
     // Initialize drum kit for sound playback
     drumKitRef.current = new DrumKit();
+    motionDetectorRef.current = new MotionDetector([], {
+      width: CANVAS_WIDTH,
+      height: CANVAS_HEIGHT,
+      handCooldownMs: HAND_COOLDOWN_MS,
+    });
 
   // Preload optional drum images from /assets (public folder)
   const loadImg = (path: string) => {
@@ -82,593 +173,266 @@ export default function AirDrumsPlayer({ peerManager = null }: AirDrumsPlayerPro
       return null;
     }
   };
-  imagesRef.current.left = loadImg("/assets/snare.svg");
-  imagesRef.current.right = loadImg("/assets/snare.svg");
-  imagesRef.current.bass = loadImg("/assets/bass.svg");
-  imagesRef.current.hihat = loadImg("/assets/hihat.svg");
+  const snare = loadImg("/assets/snare.svg");
+  const hihat = loadImg("/assets/hihat.svg");
+  imagesRef.current.snare = snare;
+  imagesRef.current.rimshot = snare;
+  imagesRef.current.kick = loadImg("/assets/bass.svg");
+  imagesRef.current.hihat = hihat;
+  imagesRef.current["hihat-open"] = hihat;
   imagesRef.current.crash = loadImg("/assets/crash.svg");
 
-    // Load MediaPipe Hands from CDN
-    const initHands = () => {
-      // Check if Hands is already available (from script tag or previous load)
-      const checkAndInit = () => {
-        const Hands = (window as any).Hands;
-
-        if (!Hands) {
-          // If not available, load the script
-          const script = document.createElement("script");
-          script.src = "https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js";
-          script.crossOrigin = "anonymous";
-          script.onload = () => {
-            const HandsClass = (window as any).Hands;
-            if (HandsClass) {
-              initializeHands(HandsClass);
-            }
-          };
-          script.onerror = () => {
-            console.error("Failed to load MediaPipe Hands script");
-          };
-          document.head.appendChild(script);
-        } else {
-          initializeHands(Hands);
-        }
-      };
+    return () => {
+      if (drumKitRef.current) {
+        drumKitRef.current.dispose();
+      }
+    };
+  }, []);
+
+  const handleFrame = (rawFrame: HandTrackingFrame) => {
+    const canvasCtx = canvasRef.current?.getContext("2d");
+    const motionDetector = motionDetectorRef.current;
+    if (!canvasCtx || !canvasRef.current || !motionDetector) return;
+    // Smoothed landmarks for grabs and drawing as well as hits
+    const frame = motionDetector.smooth(rawFrame);
 
-      const initializeHands = (Hands: any) => {
+    // Get canvas dimensions for coordinate conversion
+    const canvasWidth = canvasRef.current.width;
+    const canvasHeight = canvasRef.current.height;
+
+    // Drum zones in canvas pixels, in the mirrored view the user sees
+    const pads = buildDrumPads(canvasWidth, canvasHeight, velocityThreshold, layout.zones);
+
+    // A single timestamp used for hit flashes
+    const currentTime = performance.now();
+
+    // Record a hit or choke and send it to peers
+    const shareDrumEvent = (event: DrumsSoundEvent) => {
+      SessionRecorder.getInstance().recordSoundEvent(event);
+
+      // Send sound event to peers if peerManager is available
+      if (peerManager) {
         try {
-          const hands = new Hands({
-            locateFile: (file: string) => {
-              return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-            },
-          });
-
-          hands.setOptions({
-            maxNumHands: 2,
-            modelComplexity: 1,
-            minDetectionConfidence: 0.5,
-            minTrackingConfidence: 0.5,
-          });
-
-          hands.onResults((results: any) => {
-            const canvasCtx = canvasRef.current?.getContext("2d");
-            if (!canvasCtx || !canvasRef.current) return;
-
-            // Get canvas dimensions for coordinate conversion
-            const canvasWidth = canvasRef.current.width;
-            const canvasHeight = canvasRef.current.height;
-
-            // Helper function to convert normalized coordinates (0-1) to pixel coordinates
-            const toPixelCoords = (
-              normalizedX: number,
-              normalizedY: number
-            ) => {
-              // Keep X flipped for the mirrored video (visual left/right), but
-              // do NOT flip Y — MediaPipe's normalized Y already increases downward
-              // which matches canvas coordinates (0 at top). Flipping Y caused
-              // upward gestures to appear as downward movement.
-              // We will flip the canvas drawing context instead of flipping
-              // the normalized X here. That keeps logical coordinates in a
-              // standard left-to-right space (normalizedX * width) while
-              // allowing us to mirror the visual output with `ctx.scale(-1,1)`
-              // so drawn text remains readable.
-              return {
-                x: Math.round(normalizedX * canvasWidth),
-                y: Math.round(normalizedY * canvasHeight),
-              };
-            };
-
-            // Trigger on high finger/hand velocity (any direction) instead of entering a snare zone.
-            // This detects quick motions of the index finger tip and plays a sound when speed exceeds a threshold.
-            // Require much stronger/faster motion to trigger a hit. Increase this if light motions still trigger.
-            // Typical tuning notes:
-            // - 1600: medium fast gestures
-            // - 3000-5000: fast, deliberate strikes
-            // - >5000: very aggressive gestures only
-            // Trigger on high downward finger velocity. The threshold is adjustable at runtime.
-            const VELOCITY_THRESHOLD = velocityThreshold; // px/s (adjustable via UI)
-            const COOLDOWN_MS = 100; // per-hand cooldown (ms)
-            const DRUM_COOLDOWN_MS = 350; // per-drum cooldown to reduce double hits on same visual drum (tuned up)
-
-            // Precompute drum positions for per-drum cooldown checks (mirror-consistent with drawing below)
-            // Slightly larger drums to make zones more forgiving
-            const drumRadius = Math.min(canvasWidth, canvasHeight) * 0.14;
-            const drumY = canvasHeight * 0.74; // place drums toward the bottom
-            const leftDrumX = canvasWidth * 0.2;
-            const rightDrumX = canvasWidth * 0.8;
-
-            // A single timestamp used for cooldowns and hit flashes
-            const currentTime = performance.now();
-
-            if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-
-              results.multiHandLandmarks.forEach((landmarks: any[], handIndex: number) => {
-                // Use index finger tip (landmark 8) for velocity tracking
-                const indexTip = toPixelCoords(landmarks[8].x, landmarks[8].y);
-
-                const previous = previousPositionsRef.current.get(handIndex);
-
-                if (previous) {
-                  const timeDelta = (currentTime - previous.timestamp) / 1000; // seconds
-                  // Convert to visual X coordinates because the canvas drawing
-                  // context is flipped horizontally (we mirrored the canvas
-                  // for a user-friendly view). The indexTip.x returned by
-                  // toPixelCoords is in logical (sensor) coords; convert to
-                  // visual coords by mirroring across the canvas width.
-                  const indexVisualX = canvasWidth - indexTip.x;
-                  const prevIndexVisualX = canvasWidth - previous.indexX;
-                  const dy = indexTip.y - previous.indexY;
-                  const dx = indexVisualX - prevIndexVisualX;
-                  // Speeds in px/s
-                  const verticalSpeed = timeDelta > 0 ? dy / timeDelta : 0; // px/s downward
-                  const horizontalSpeed = timeDelta > 0 ? dx / timeDelta : 0; // px/s rightward
-
-                  const lastTrigger = lastTriggerRef.current.get(handIndex) || 0;
-                  // Update debug UI with current vertical speed for this hand
-                  setHandSpeeds((prev) => ({ ...prev, [handIndex]: verticalSpeed }));
-
-                  // Zone detection thresholds
-                  const MIN_DY_PIXELS = 6; // displacement guard
-                  // Reduce horizontal requirement so side snares are easier to hit
-                  const HORIZ_SPEED_THRESHOLD = 350; // px/s horizontal requirement for side snares
-
-                  // Define zones (match drawing positions)
-                  const bassX = canvasWidth * 0.5;
-                  const bassY = canvasHeight * 0.88;
-                  const bassRadius = Math.min(canvasWidth, canvasHeight) * 0.18;
-
-                  // Move hi-hat toward the right side of the screen and make
-                  // it trigger only on a rightward (positive) horizontal velocity.
-                  // Place the hi-hat slightly above center on the right side.
-                  const hiHatX = canvasWidth * 0.85; // right side
-                  const hiHatY = canvasHeight * 0.42; // slightly up from middle-right
-                  const hiHatRadius = Math.min(canvasWidth, canvasHeight) * 0.12; // make hi-hat easier to hit
-
-                  // distance to each zone center
-                  const distLeft = Math.hypot(indexVisualX - leftDrumX, indexTip.y - drumY);
-                  const distRight = Math.hypot(indexVisualX - rightDrumX, indexTip.y - drumY);
-                  const distBass = Math.hypot(indexVisualX - bassX, indexTip.y - bassY);
-                  const distHiHat = Math.hypot(indexVisualX - hiHatX, indexTip.y - hiHatY);
-                  // crash on left (mirror of hi-hat): mid-left crash cymbal
-                  const crashX = canvasWidth * 0.15;
-                  const crashY = canvasHeight * 0.42;
-                  const crashRadius = hiHatRadius * 1.25; // slightly larger
-                  const distCrash = Math.hypot(indexVisualX - crashX, indexTip.y - crashY);
-
-                  // Helper to register hit (set per-hand and per-zone cooldowns and visual flash)
-                  const registerHit = (zoneId: string, play: () => void, soundType?: 'snare' | 'kick' | 'hihat' | 'crash') => {
-                    const lastDrumTrigger = drumLastTriggerRef.current.get(zoneId) || 0;
-                    if ((currentTime - lastDrumTrigger) <= DRUM_COOLDOWN_MS) return false;
-                    // pass per-hand cooldown too
-                    if ((currentTime - lastTrigger) <= COOLDOWN_MS) return false;
-                    // trigger
-                    play();
-                    
-                    // Send sound event to peers if peerManager is available
-                    if (peerManager && soundType) {
-                      try {
-                        console.log('📤 Sending sound event to peers:', { type: 'drums', sound: soundType });
-                        peerManager.sendSoundEvent({
-                          type: 'drums',
-                          sound: soundType,
-                        });
-                        console.log('✅ Sound event sent successfully');
-                      } catch (error) {
-                        console.error('❌ Failed to send sound event:', error);
-                      }
-                    } else {
-                      if (!peerManager) {
-                        console.log('ℹ️ No peerManager - playing locally only');
-                      }
-                    }
-                    
-                    lastTriggerRef.current.set(handIndex, currentTime);
-                    drumLastTriggerRef.current.set(zoneId, currentTime);
-                    // record flash
-                    (hitFlashRef.current as Map<string, number>).set(zoneId, currentTime);
-                    return true;
-                  };
-
-                  // Read previous vertical speed once (default 0)
-                  const prevSpeed = prevVerticalSpeedRef.current.get(handIndex) || 0;
-
-                  // Side snares require downward + horizontal motion towards the drum
-                  // Left snare
-                  if (
-                    distLeft < drumRadius &&
-                    dy > MIN_DY_PIXELS &&
-                    verticalSpeed > VELOCITY_THRESHOLD &&
-                    prevSpeed <= VELOCITY_THRESHOLD
-                  ) {
-                    // moving towards left drum means horizontalSpeed is negative (leftward) if approaching
-                    if (horizontalSpeed < -HORIZ_SPEED_THRESHOLD) {
-                      if (drumKitRef.current) {
-                        registerHit("left", () => drumKitRef.current!.playSnare(), 'snare');
-                      }
-                    }
-                  }
-
-                  // Right snare
-                  if (
-                    distRight < drumRadius &&
-                    dy > MIN_DY_PIXELS &&
-                    verticalSpeed > VELOCITY_THRESHOLD &&
-                    prevSpeed <= VELOCITY_THRESHOLD
-                  ) {
-                    // moving towards right drum means horizontalSpeed is positive (rightward)
-                    if (horizontalSpeed > HORIZ_SPEED_THRESHOLD) {
-                      if (drumKitRef.current) {
-                        registerHit("right", () =>
-                          drumKitRef.current!.playSnare(), 'snare'
-                        );
-                      }
-                    }
-                  }
-
-                  // Bass (kick) at bottom: only downward movement needed
-                  if (
-                    distBass < bassRadius &&
-                    dy > MIN_DY_PIXELS &&
-                    verticalSpeed > VELOCITY_THRESHOLD &&
-                    prevSpeed <= VELOCITY_THRESHOLD
-                  ) {
-                    if (drumKitRef.current) {
-                      registerHit("bass", () =>
-                        drumKitRef.current!.playKick(), 'kick'
-                      );
-                    }
-                  }
-
-                  // Hi-hat: right-side zone, triggered by a rightward horizontal
-                  // motion. We require a rising-edge on horizontal speed to
-                  // avoid repeated triggers from sustained motion.
-                  const prevHSpeed = prevHorizontalSpeedRef.current.get(handIndex) || 0;
-                  if (
-                    distHiHat < hiHatRadius &&
-                    Math.abs(dx) > 4 && // small positional guard to ignore tiny jitter
-                    horizontalSpeed > HORIZ_SPEED_THRESHOLD &&
-                    prevHSpeed <= HORIZ_SPEED_THRESHOLD
-                  ) {
-                    if (drumKitRef.current) {
-                      registerHit("hihat", () => drumKitRef.current!.playHiHat(), 'hihat');
-                    }
-                  }
-
-                  // Crash: left-side mid zone, triggered by leftward horizontal motion
-                  if (
-                    distCrash < crashRadius &&
-                    Math.abs(dx) > 4 &&
-                    horizontalSpeed < -HORIZ_SPEED_THRESHOLD &&
-                    prevHSpeed >= -HORIZ_SPEED_THRESHOLD
-                  ) {
-                    if (drumKitRef.current) {
-                      registerHit("crash", () => drumKitRef.current!.playCrash(), 'crash');
-                    }
-                  }
-
-                  // store current vertical and horizontal speed for next-frame edge detection
-                  prevVerticalSpeedRef.current.set(handIndex, verticalSpeed);
-                  prevHorizontalSpeedRef.current.set(handIndex, horizontalSpeed);
-                }
-
-                // Update previous position (only index finger, not thumb - this code uses index finger only)
-                previousPositionsRef.current.set(handIndex, {
-                  indexX: indexTip.x,
-                  indexY: indexTip.y,
-                  thumbX: indexTip.x, // Use same as index since we're only tracking index finger
-                  thumbY: indexTip.y,
-                  timestamp: currentTime,
-                });
-              });
-            }
-
-            canvasCtx.save();
-            canvasCtx.clearRect(
-              0,
-              0,
-              canvasRef.current.width,
-              canvasRef.current.height
-            );
-
-            // Draw the camera image mirrored so the view feels natural to the user.
-            // We only mirror the image drawing; overlays (text/labels/landmarks)
-            // are drawn afterwards in the normal transform so they remain readable.
-            canvasCtx.save();
-            canvasCtx.translate(canvasRef.current.width, 0);
-            canvasCtx.scale(-1, 1);
-            canvasCtx.drawImage(
-              results.image,
-              0,
-              0,
-              canvasRef.current.width,
-              canvasRef.current.height
-            );
-            canvasCtx.restore();
-
-            // Draw drum visuals near the bottom of the camera view so the
-            // user has a visual target. These are stylized drawn drums (no
-            // external image assets required).
-            const drawDrum = (
-              x: number,
-              y: number,
-              radius: number,
-              label: string,
-              fillColor: string
-            ) => {
-              // rim
-              canvasCtx.beginPath();
-              canvasCtx.arc(x, y, radius + 8, 0, Math.PI * 2);
-              canvasCtx.fillStyle = "rgba(0,0,0,0.35)";
-              canvasCtx.fill();
-
-              // drum body (radial gradient)
-              const grad = canvasCtx.createRadialGradient(
-                x - radius * 0.3,
-                y - radius * 0.4,
-                radius * 0.1,
-                x,
-                y,
-                radius
-              );
-              grad.addColorStop(0, fillColor);
-              grad.addColorStop(1, "#222");
-              canvasCtx.beginPath();
-              canvasCtx.arc(x, y, radius, 0, Math.PI * 2);
-              canvasCtx.fillStyle = grad;
-              canvasCtx.fill();
-
-              // center highlight
-              canvasCtx.beginPath();
-              canvasCtx.arc(
-                x,
-                y - radius * 0.15,
-                radius * 0.25,
-                0,
-                Math.PI * 2
-              );
-              canvasCtx.fillStyle = "rgba(255,255,255,0.06)";
-              canvasCtx.fill();
-
-              // label
-              canvasCtx.fillStyle = "#fff";
-              canvasCtx.font = `${Math.max(
-                12,
-                Math.round(radius * 0.35)
-              )}px Arial`;
-              canvasCtx.textAlign = "center";
-              canvasCtx.fillText(label, x, y + radius + 18);
-            };
-
-            // Provide visual flash when a drum was recently hit
-            const flashLeft = hitFlashRef.current.get("left") || 0;
-            const flashRight = hitFlashRef.current.get("right") || 0;
-            const flashBass = hitFlashRef.current.get("bass") || 0;
-            const flashHiHat = hitFlashRef.current.get("hihat") || 0;
-            const FLASH_DURATION = 180; // ms
-
-            const drawDrumWithFlash = (
-              id: string,
-              x: number,
-              y: number,
-              radius: number,
-              label: string,
-              fillColor: string,
-              emoji?: string
-            ) => {
-              const flashAge = currentTime - (hitFlashRef.current.get(id) || 0);
-              if (flashAge <= FLASH_DURATION) {
-                const alpha = 1 - flashAge / FLASH_DURATION;
-                // bright rim
-                canvasCtx.beginPath();
-                canvasCtx.arc(x, y, radius + 12, 0, Math.PI * 2);
-                canvasCtx.fillStyle = `rgba(255,255,200,${0.5 * alpha})`;
-                canvasCtx.fill();
-              }
-              // If an image was preloaded for this drum, draw it centered.
-              const img = imagesRef.current[id as keyof typeof imagesRef.current];
-              if (img && img.complete) {
-                const w = Math.round(radius * 2.2);
-                canvasCtx.drawImage(img, x - w / 2, y - w / 2, w, w);
-                // draw label below
-                canvasCtx.fillStyle = "#fff";
-                canvasCtx.font = `${Math.max(12, Math.round(radius * 0.28))}px Arial`;
-                canvasCtx.textAlign = "center";
-                canvasCtx.fillText(label, x, y + radius + 18);
-              } else {
-                // fallback to procedural drawing
-                drawDrum(x, y, radius, label, fillColor);
-                if (emoji) {
-                  canvasCtx.font = `${Math.max(16, Math.round(radius * 0.9))}px Arial`;
-                  canvasCtx.fillText(emoji, x, y + Math.round(radius * 0.05));
-                }
-              }
-            };
-
-            // Draw left/right snares
-            drawDrumWithFlash(
-              "left",
-              leftDrumX,
-              drumY,
-              drumRadius,
-              "🥁 Snare (L)",
-              "#4ECDC4",
-              "🥁"
-            );
-            drawDrumWithFlash(
-              "right",
-              rightDrumX,
-              drumY,
-              drumRadius,
-              "🥁 Snare (R)",
-              "#FF6B6B",
-              "🥁"
-            );
-
-            // Draw crash cymbal on mid-left
-            const crashX = canvasWidth * 0.15;
-            const crashY = canvasHeight * 0.42;
-            const crashRadius = Math.min(canvasWidth, canvasHeight) * 0.15;
-            drawDrumWithFlash("crash", crashX, crashY, crashRadius, "💥 Crash", "#D8A600", "💥");
-
-            // Draw bass (kick) at bottom center
-            const bassX = canvasWidth * 0.5;
-            const bassY = canvasHeight * 0.88;
-            const bassRadius = Math.min(canvasWidth, canvasHeight) * 0.18;
-            drawDrumWithFlash(
-              "bass",
-              bassX,
-              bassY,
-              bassRadius,
-              "🔘 Bass",
-              "#222222",
-              "🔊"
-            );
-
-            // Draw hi-hat at middle-right (match detection zone)
-            const hiHatX = canvasWidth * 0.85;
-            const hiHatY = canvasHeight * 0.42;
-            const hiHatRadius = Math.min(canvasWidth, canvasHeight) * 0.12;
-            drawDrumWithFlash("hihat", hiHatX, hiHatY, hiHatRadius, "🎧 Hi-Hat (R)", "#B4C6FF", "🎵");
-
-            // Draw hand landmarks
-            if (results.multiHandLandmarks) {
-              for (const landmarks of results.multiHandLandmarks) {
-                // Draw connections
-                drawConnections(canvasCtx, landmarks, HAND_CONNECTIONS);
-                // Draw landmarks
-                drawLandmarks(canvasCtx, landmarks, {
-                  color: "#00FF00",
-                  lineWidth: 2,
-                });
-              }
-            }
-
-            // Extract wrist positions and handedness for calibration guidance
-            const positions: {
-              left?: { x: number; y: number };
-              right?: { x: number; y: number };
-            } = {};
-            try {
-              if (results.multiHandLandmarks && results.multiHandedness) {
-                for (let i = 0; i < results.multiHandLandmarks.length; i++) {
-                  const landmarks = results.multiHandLandmarks[i];
-                  const handednessLabel =
-                    results.multiHandedness[i]?.label || "";
-                  // MediaPipe: landmark 0 is wrist; x,y are normalized [0..1]
-                  const wrist = landmarks[0];
-                  // The canvas/video element is mirrored via CSS (scale-x-[-1]) so
-                  // the visual left/right the user sees is flipped. To keep the
-                  // overlay guidance intuitive, compute the visual X by flipping
-                  // the normalized landmark X and assign handedness accordingly
-                  // (MediaPipe's "Left" refers to the subject's left).
-                  const visualX = 1 - (wrist.x ?? 0);
-                  if (handednessLabel.toLowerCase().includes("left")) {
-                    // subject's left appears on the right side of the mirrored view
-                    positions.right = { x: visualX, y: wrist.y };
-                  } else if (handednessLabel.toLowerCase().includes("right")) {
-                    // subject's right appears on the left side of the mirrored view
-                    positions.left = { x: visualX, y: wrist.y };
-                  }
-                }
-              }
-            } catch (err) {
-              // swallow any parsing errors
-              console.warn(
-                "Error parsing hand landmarks for calibration:",
-                err
-              );
-            }
-
-            // Update React state used by calibration UI
-            setHandPositions(positions);
-
-            canvasCtx.restore();
-          });
-
-          handsRef.current = hands;
+          console.log('📤 Sending sound event to peers:', event);
+          peerManager.sendSoundEvent(event);
+          console.log('✅ Sound event sent successfully');
         } catch (error) {
-          console.error("Error initializing MediaPipe Hands:", error);
+          console.error('❌ Failed to send sound event:', error);
         }
-      };
-
-      checkAndInit();
+      } else {
+        console.log('ℹ️ No peerManager - playing locally only');
+      }
     };
 
-    initHands();
+    const playDrum = (sound: DrumSound, velocity: number) => {
+      const drumKit = drumKitRef.current;
+      if (!drumKit) return;
+      drumKit.play(sound, velocity);
+      shareDrumEvent({ type: "drums", sound, velocity });
+    };
 
-    return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach((track) => track.stop());
-        streamRef.current = null;
-      }
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
+    // Grabbing a cymbal (closing the hand on it) chokes it
+    const grabbing = new Set<number>();
+    for (const { landmarks, handIndex } of frame.hands) {
+      if (getHandPose(landmarks) !== "fist" || !landmarks[PALM_LANDMARK]) continue;
+      grabbing.add(handIndex);
+      if (grabbingHandsRef.current.has(handIndex)) continue;
+
+      const palm = motionDetector.toDetectorSpace(landmarks[PALM_LANDMARK]);
+      const pad = pads.find((p) => p.grabToChoke && containsPoint(p.zone.shape, palm));
+      if (pad && drumKitRef.current) {
+        drumKitRef.current.choke(pad.sound);
+        shareDrumEvent({ type: "drums", sound: pad.sound, choke: true });
       }
-      if (drumKitRef.current) {
-        drumKitRef.current.dispose();
-      }
-    };
-  }, []);
+    }
+    grabbingHandsRef.current = grabbing;
+
+    motionDetector.setZones(pads.map((pad) => pad.zone));
+    const events = motionDetector.process(frame);
+    for (const event of events) {
+      const pad = pads.find((p) => p.zone.id === event.zoneId);
+      if (!pad) continue;
+      // Harder strikes (relative to the zone's threshold) play louder and brighter
+      const threshold = pad.zone.directions?.[0]?.minVelocity ?? velocityThreshold;
+      playDrum(
+        getPadSound(pad, event.position),
+        speedToVelocity(
+          event.velocity.magnitude,
+          threshold,
+          threshold * FULL_VELOCITY_SPEED_RATIO
+        )
+      );
+      // record flash
+      hitFlashRef.current.set(event.zoneId, currentTime);
+    }
 
-  const processFrame = async () => {
-    // Keep the RAF loop running as long as the camera stream is active.
-    if (!videoRef.current) return;
+    // Update debug UI with current vertical speed for each hand
+    frame.hands.forEach(({ handIndex }) => {
+      const velocity = motionDetector.getVelocity(handIndex);
+      if (velocity) {
+        setHandSpeeds((prev) => ({ ...prev, [handIndex]: velocity.y }));
+      }
+    });
+
+    canvasCtx.save();
+    canvasCtx.clearRect(
+      0,
+      0,
+      canvasRef.current.width,
+      canvasRef.current.height
+    );
+
+    // Draw the camera image mirrored so the view feels natural to the user.
+    // We only mirror the image drawing; overlays (text/labels/landmarks)
+    // are drawn afterwards in the normal transform so they remain readable.
+    canvasCtx.save();
+    canvasCtx.translate(canvasRef.current.width, 0);
+    canvasCtx.scale(-1, 1);
+    canvasCtx.drawImage(
+      frame.image,
+      0,
+      0,
+      canvasRef.current.width,
+      canvasRef.current.height
+    );
+    canvasCtx.restore();
+
+    drawDrumPads(canvasCtx, pads, {
+      images: imagesRef.current,
+      flashes: hitFlashRef.current,
+      now: currentTime,
+      selectedId: editing ? selectedZoneId : null,
+    });
+
+    // Draw hand landmarks
+    for (const { landmarks } of frame.hands) {
+      // Draw connections
+      drawConnections(canvasCtx, landmarks, HAND_CONNECTIONS);
+      // Draw landmarks
+      drawLandmarks(canvasCtx, landmarks, {
+        color: "#00FF00",
+        lineWidth: 2,
+      });
+    }
 
+    // Extract wrist positions and handedness for calibration guidance
+    const positions: {
+      left?: { x: number; y: number };
+      right?: { x: number; y: number };
+    } = {};
     try {
-      if (videoRef.current.readyState === videoRef.current.HAVE_ENOUGH_DATA) {
-        // Only call MediaPipe when it's available. If it's not yet loaded,
-        // skip sending for this frame but continue the loop so the camera
-        // appears active immediately.
-        if (handsRef.current) {
-          try {
-            await handsRef.current.send({ image: videoRef.current });
-          } catch (err) {
-            // Don't let a transient error stop the loop.
-            console.warn("MediaPipe send error (ignored):", err);
-          }
+      for (const { landmarks, handedness } of frame.hands) {
+        const handednessLabel = handedness || "";
+        // MediaPipe: landmark 0 is wrist; x,y are normalized [0..1]
+        const wrist = landmarks[0];
+        // The canvas/video element is mirrored via CSS (scale-x-[-1]) so
+        // the visual left/right the user sees is flipped. To keep the
+        // overlay guidance intuitive, compute the visual X by flipping
+        // the normalized landmark X and assign handedness accordingly
+        // (MediaPipe's "Left" refers to the subject's left).
+        const visualX = 1 - (wrist.x ?? 0);
+        if (handednessLabel.toLowerCase().includes("left")) {
+          // subject's left appears on the right side of the mirrored view
+          positions.right = { x: visualX, y: wrist.y };
+        } else if (handednessLabel.toLowerCase().includes("right")) {
+          // subject's right appears on the left side of the mirrored view
+          positions.left = { x: visualX, y: wrist.y };
         }
       }
     } catch (err) {
-      console.warn("processFrame error:", err);
+      // swallow any parsing errors
+      console.warn(
+        "Error parsing hand landmarks for calibration:",
+        err
+      );
     }
 
-    if (streamRef.current) {
-      animationFrameRef.current = requestAnimationFrame(processFrame);
+    // Update React state used by calibration UI
+    setHandPositions(positions);
+
+    canvasCtx.restore();
+    drawBeatIndicator(canvasCtx, canvasWidth);
+  };
+
+  const { isActive, startCamera: startTracking, stopCamera } = useMediaPipe(handleFrame);
+
+  // Without the camera, draw the pads on their own so the layout can still be edited
+  useEffect(() => {
+    if (!editing || isActive) return;
+    const canvas = canvasRef.current;
+    const canvasCtx = canvas?.getContext("2d");
+    if (!canvas || !canvasCtx) return;
+    canvasCtx.fillStyle = "black";
+    canvasCtx.fillRect(0, 0, canvas.width, canvas.height);
+    drawDrumPads(canvasCtx, buildDrumPads(canvas.width, canvas.height, velocityThreshold, layout.zones), {
+      images: imagesRef.current,
+      flashes: hitFlashRef.current,
+      now: performance.now(),
+      selectedId: selectedZoneId,
+    });
+  }, [editing, isActive, layout, selectedZoneId, velocityThreshold]);
+
+  // Canvas pixel under the pointer (the canvas is scaled to fit its box)
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  // Layout editor: press a pad to select it, drag its body to move it or its edge to resize it
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!editing) return;
+    const point = toCanvasPoint(e);
+    const { width, height } = e.currentTarget;
+    // Pads drawn last are on top
+    const pad = buildDrumPads(width, height, velocityThreshold, layout.zones)
+      .reverse()
+      .find((p) => containsPoint(p.zone.shape, point));
+    setSelectedZoneId(pad?.zone.id ?? null);
+    if (!pad || pad.zone.shape.type !== "circle") return;
+
+    const { cx, cy, radius } = pad.zone.shape;
+    const onEdge = Math.hypot(point.x - cx, point.y - cy) >= radius * RESIZE_EDGE_RATIO;
+    dragRef.current = {
+      id: pad.zone.id,
+      mode: onEdge ? "resize" : "move",
+      offset: { x: point.x - cx, y: point.y - cy },
+    };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const zone = drag && layout.zones.find((z) => z.id === drag.id);
+    if (!drag || !zone) return;
+    const point = toCanvasPoint(e);
+    const { width, height } = e.currentTarget;
+
+    if (drag.mode === "move") {
+      layouts.updateZone(drag.id, {
+        x: (point.x - drag.offset.x) / width,
+        y: (point.y - drag.offset.y) / height,
+      });
+    } else {
+      const radius = Math.hypot(point.x - zone.x * width, point.y - zone.y * height);
+      layouts.updateZone(drag.id, { size: radius / Math.min(width, height) });
     }
   };
 
-  const startCamera = async () => {
-    if (!videoRef.current) return;
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
 
+  const startCamera = async () => {
     try {
       // Initialize audio context for the drum kit (requires user interaction)
       if (drumKitRef.current) {
         await drumKitRef.current.initialize();
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: "user",
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-        },
-      });
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-
-        videoRef.current.onloadedmetadata = () => {
-          if (videoRef.current) {
-            // Start playing video and the RAF loop regardless of whether
-            // MediaPipe Hands has finished loading. processFrame will only
-            // call into MediaPipe when it's available.
-            videoRef.current.play();
-            setIsActive(true);
-            processFrame();
-          }
-        };
-      }
+      await startTracking();
     } catch (error) {
       console.error("Error starting camera:", error);
       alert(
@@ -677,21 +441,6 @@ export default function AirDrumsPlayer({ peerManager = null }: AirDrumsPlayerPro
     }
   };
 
-  const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop());
-      streamRef.current = null;
-    }
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
-    setIsActive(false);
-  };
-
   return (
     <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
       <main className="flex min-h-screen w-full max-w-4xl flex-col items-center justify-center gap-8 py-16 px-8">
@@ -703,26 +452,23 @@ export default function AirDrumsPlayer({ peerManager = null }: AirDrumsPlayerPro
         </p>
 
         <div className="relative w-full max-w-2xl rounded-lg border-2 border-zinc-300 dark:border-zinc-700 overflow-hidden bg-black">
-          <video
-            ref={videoRef}
-            className="w-full h-auto transform scale-x-[-1]"
-            style={{ display: "none" }}
-            playsInline
-          />
           <canvas
             ref={canvasRef}
             className="w-full h-auto"
-            width={640}
-            height={480}
-            style={{ background: "black" }}
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
+            style={{ background: "black", touchAction: editing ? "none" : undefined }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
           />
-          {/* Drums-only calibration overlay */}
-          <div className="absolute inset-0 pointer-events-none">
-            <CalibrationWizard
-              handPositions={handPositions}
-              isCameraActive={isActive}
-            />
-          </div>
+          {/* Drums calibration overlay */}
+          {Calibration && (
+            <div className="absolute inset-0 pointer-events-none">
+              <Calibration handPositions={handPositions} isCameraActive={isActive} />
+            </div>
+          )}
         </div>
 
         <div className="flex gap-4">
@@ -741,8 +487,21 @@ export default function AirDrumsPlayer({ peerManager = null }: AirDrumsPlayerPro
               Stop Camera
             </button>
           )}
+          <button
+            onClick={() => {
+              setEditing(!editing);
+              setSelectedZoneId(null);
+            }}
+            className="flex h-12 items-center justify-center gap-2 rounded-full border border-zinc-300 dark:border-zinc-700 px-6 font-medium transition-colors hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          >
+            {editing ? "Done Editing" : "Edit Layout"}
+          </button>
         </div>
 
+        {editing && (
+          <DrumLayoutEditor selectedZoneId={selectedZoneId} onSelectZone={setSelectedZoneId} />
+        )}
+
         {/* Runtime tuning UI: threshold slider and per-hand speed readout */}
         <div className="w-full max-w-2xl flex flex-col gap-2 mt-4">
           <label className="text-sm text-gray-600 dark:text-gray-300">
@@ -781,6 +540,138 @@ export default function AirDrumsPlayer({ peerManager = null }: AirDrumsPlayerPro
   );
 }
 
+interface DrawPadsOptions {
+  images: Partial<Record<DrumSound, HTMLImageElement | null>>;
+  flashes: Map<string, number>; // zone id → performance.now() of its last hit
+  now: number;
+  selectedId?: string | null; // zone selected in the layout editor
+}
+
+/**
+ * Draw the pads so the player has visual targets. These are stylized drawn
+ * drums unless an image was preloaded for the sound.
+ */
+function drawDrumPads(
+  canvasCtx: CanvasRenderingContext2D,
+  pads: DrumPad[],
+  { images, flashes, now, selectedId }: DrawPadsOptions
+) {
+  const drawDrum = (
+    x: number,
+    y: number,
+    radius: number,
+    label: string,
+    fillColor: string
+  ) => {
+    // rim
+    canvasCtx.beginPath();
+    canvasCtx.arc(x, y, radius + 8, 0, Math.PI * 2);
+    canvasCtx.fillStyle = "rgba(0,0,0,0.35)";
+    canvasCtx.fill();
+
+    // drum body (radial gradient)
+    const grad = canvasCtx.createRadialGradient(
+      x - radius * 0.3,
+      y - radius * 0.4,
+      radius * 0.1,
+      x,
+      y,
+      radius
+    );
+    grad.addColorStop(0, fillColor);
+    grad.addColorStop(1, "#222");
+    canvasCtx.beginPath();
+    canvasCtx.arc(x, y, radius, 0, Math.PI * 2);
+    canvasCtx.fillStyle = grad;
+    canvasCtx.fill();
+
+    // center highlight
+    canvasCtx.beginPath();
+    canvasCtx.arc(
+      x,
+      y - radius * 0.15,
+      radius * 0.25,
+      0,
+      Math.PI * 2
+    );
+    canvasCtx.fillStyle = "rgba(255,255,255,0.06)";
+    canvasCtx.fill();
+
+    // label
+    canvasCtx.fillStyle = "#fff";
+    canvasCtx.font = `${Math.max(
+      12,
+      Math.round(radius * 0.35)
+    )}px Arial`;
+    canvasCtx.textAlign = "center";
+    canvasCtx.fillText(label, x, y + radius + 18);
+  };
+
+  // Provide visual flash when a drum was recently hit
+  const FLASH_DURATION = 180; // ms
+
+  const drawDrumWithFlash = (
+    id: string,
+    sound: DrumSound,
+    x: number,
+    y: number,
+    radius: number,
+    label: string,
+    fillColor: string,
+    emoji?: string
+  ) => {
+    const flashAge = now - (flashes.get(id) || 0);
+    if (flashAge <= FLASH_DURATION) {
+      const alpha = 1 - flashAge / FLASH_DURATION;
+      // bright rim
+      canvasCtx.beginPath();
+      canvasCtx.arc(x, y, radius + 12, 0, Math.PI * 2);
+      canvasCtx.fillStyle = `rgba(255,255,200,${0.5 * alpha})`;
+      canvasCtx.fill();
+    }
+    // If an image was preloaded for this drum, draw it centered.
+    const img = images[sound];
+    if (img && img.complete) {
+      const w = Math.round(radius * 2.2);
+      canvasCtx.drawImage(img, x - w / 2, y - w / 2, w, w);
+      // draw label below
+      canvasCtx.fillStyle = "#fff";
+      canvasCtx.font = `${Math.max(12, Math.round(radius * 0.28))}px Arial`;
+      canvasCtx.textAlign = "center";
+      canvasCtx.fillText(label, x, y + radius + 18);
+    } else {
+      // fallback to procedural drawing
+      drawDrum(x, y, radius, label, fillColor);
+      if (emoji) {
+        canvasCtx.font = `${Math.max(16, Math.round(radius * 0.9))}px Arial`;
+        canvasCtx.fillText(emoji, x, y + Math.round(radius * 0.05));
+      }
+    }
+  };
+
+
+  for (const pad of pads) {
+    if (pad.zone.shape.type !== "circle") continue;
+    const { cx, cy, radius } = pad.zone.shape;
+    drawDrumWithFlash(pad.zone.id, pad.sound, cx, cy, radius, pad.label, pad.color, pad.emoji);
+
+    if (pad.zone.id === selectedId) {
+      // Selected in the layout editor: outline plus a resize handle on the rim
+      canvasCtx.beginPath();
+      canvasCtx.arc(cx, cy, radius, 0, Math.PI * 2);
+      canvasCtx.strokeStyle = "#FFD166";
+      canvasCtx.lineWidth = 3;
+      canvasCtx.setLineDash([8, 6]);
+      canvasCtx.stroke();
+      canvasCtx.setLineDash([]);
+      canvasCtx.beginPath();
+      canvasCtx.arc(cx + radius, cy, 7, 0, Math.PI * 2);
+      canvasCtx.fillStyle = "#FFD166";
+      canvasCtx.fill();
+    }
+  }
+}
+
 // Helper functions for drawing
 const HAND_CONNECTIONS = [
   [0, 1],
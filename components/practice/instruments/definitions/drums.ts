@@ -0,0 +1,150 @@
+import CalibrationWizard from "@/components/calibration/CalibrationWizard";
+import { DRUM_PIECES, DrumKit, DrumPiece } from "@/app/lib/sound/drum-kit";
+import { clampVelocity } from "@/app/lib/sound/dynamics";
+import { GM_PERCUSSION, GM_PERCUSSION_CHANNEL } from "@/app/lib/midi/midi-notes";
+import AirDrumsPlayer, { buildDrumPads } from "../air-drums-player";
+import {
+  defineInstrument,
+  isEventOfType,
+  parseEventVelocity,
+} from "../instrument-types";
+
+export type DrumSound = DrumPiece;
+
+const DRUM_SOUNDS: readonly DrumSound[] = DRUM_PIECES;
+
+const GM_DRUM_NOTES: Record<DrumSound, number> = {
+  snare: GM_PERCUSSION.acousticSnare,
+  rimshot: GM_PERCUSSION.sideStick,
+  kick: GM_PERCUSSION.bassDrum,
+  hihat: GM_PERCUSSION.closedHiHat,
+  "hihat-open": GM_PERCUSSION.openHiHat,
+  "tom-high": GM_PERCUSSION.highTom,
+  "tom-mid": GM_PERCUSSION.lowMidTom,
+  "tom-floor": GM_PERCUSSION.highFloorTom,
+  crash: GM_PERCUSSION.crashCymbal1,
+  ride: GM_PERCUSSION.rideCymbal1,
+};
+
+// Incoming GM notes, including close relatives of each sound
+const GM_NOTE_SOUNDS: Record<number, DrumSound> = {
+  [GM_PERCUSSION.acousticBassDrum]: "kick",
+  [GM_PERCUSSION.bassDrum]: "kick",
+  [GM_PERCUSSION.sideStick]: "rimshot",
+  [GM_PERCUSSION.acousticSnare]: "snare",
+  [GM_PERCUSSION.electricSnare]: "snare",
+  [GM_PERCUSSION.closedHiHat]: "hihat",
+  [GM_PERCUSSION.pedalHiHat]: "hihat",
+  [GM_PERCUSSION.openHiHat]: "hihat-open",
+  [GM_PERCUSSION.highTom]: "tom-high",
+  [GM_PERCUSSION.hiMidTom]: "tom-high",
+  [GM_PERCUSSION.lowMidTom]: "tom-mid",
+  [GM_PERCUSSION.lowTom]: "tom-mid",
+  [GM_PERCUSSION.highFloorTom]: "tom-floor",
+  [GM_PERCUSSION.lowFloorTom]: "tom-floor",
+  [GM_PERCUSSION.crashCymbal1]: "crash",
+  [GM_PERCUSSION.crashCymbal2]: "crash",
+  [GM_PERCUSSION.splashCymbal]: "crash",
+  [GM_PERCUSSION.chineseCymbal]: "crash",
+  [GM_PERCUSSION.rideCymbal1]: "ride",
+  [GM_PERCUSSION.rideBell]: "ride",
+};
+
+// Stage zones go by the sound of their pad, so every pad of a sound lights
+// up with it (in any layout); these sounds are also played on another pad
+const DRUM_STAGE_PADS: Partial<Record<DrumSound, DrumSound>> = {
+  rimshot: "snare", // the snare's rim
+  "hihat-open": "hihat", // the hi-hat's top half
+};
+
+export type DrumsSoundEvent = {
+  type: "drums";
+  sound: DrumSound;
+  velocity?: number; // normalized strike strength (0-1); omitted = full strength
+  choke?: boolean; // silence the sound's choke group instead of hitting it
+};
+
+export const drums = defineInstrument<"drums", DrumsSoundEvent>({
+  id: "drums",
+  label: "🥁 Drums",
+  instructions: {
+    title: "How to Play Air Drums",
+    steps: [
+      "Position your hands in the bottom corners of the screen",
+      "Hold the calibration pose for 3 seconds",
+      "Strike downward quickly to hit the left or right snare drums",
+      "Strike down at center-bottom for the bass kick",
+      "Strike near the edge of a snare for a rimshot",
+      "Strike down on the three toms above the snares and the ride at the top",
+      "Swipe right across the upper-right pad for the hi-hat (top half = open)",
+      "Swipe left across the upper-left pad for the crash",
+      "Make a fist on a ringing cymbal to choke it",
+    ],
+    tips: [
+      "Use quick, deliberate motions for better detection",
+      "Adjust velocity threshold if drums are too sensitive or not sensitive enough",
+      "Move horizontally while striking down for side snares",
+      "Watch the hand speed indicators to see your gesture speed",
+      "Left-handed? Switch to left-handed to mirror the kit (hi-hat and crash swap sides)",
+    ],
+  },
+  gestures: [
+    { gesture: "Strike down on the left or right pad", sound: "Snare" },
+    { gesture: "Strike the edge of a snare pad", sound: "Rimshot" },
+    { gesture: "Strike down at center-bottom", sound: "Kick" },
+    { gesture: "Strike down on a tom (left to right: high, mid, floor)", sound: "Toms" },
+    { gesture: "Strike down on the top-center pad", sound: "Ride" },
+    { gesture: "Swipe right across the lower half of the hi-hat", sound: "Closed hi-hat" },
+    { gesture: "Swipe right across the upper half of the hi-hat", sound: "Open hi-hat" },
+    { gesture: "Swipe left across the upper-left pad", sound: "Crash" },
+    { gesture: "Make a fist on a cymbal", sound: "Choke" },
+  ],
+  Player: AirDrumsPlayer,
+  Calibration: CalibrationWizard,
+  createSoundEngine: (output) => {
+    const kit = new DrumKit(output);
+    return {
+      initialize: () => kit.initialize(),
+      play: (event, delay) => {
+        if (event.choke) {
+          kit.choke(event.sound, delay);
+          return;
+        }
+        kit.play(event.sound, clampVelocity(event.velocity), delay);
+      },
+      dispose: () => kit.dispose(),
+    };
+  },
+  stage: {
+    getZones: (width, height, layouts) =>
+      buildDrumPads(width, height, 0, layouts?.drums).map(({ zone, sound, label, color }) => ({
+        id: sound,
+        label,
+        color,
+        shape: zone.shape,
+      })),
+    getHitZoneIds: (event) => {
+      if (event.choke) return [];
+      const pad = DRUM_STAGE_PADS[event.sound];
+      return pad ? [event.sound, pad] : [event.sound];
+    },
+  },
+  midi: {
+    channel: GM_PERCUSSION_CHANNEL,
+    // Chokes have no note of their own
+    getNote: (event) => (event.choke ? null : GM_DRUM_NOTES[event.sound]),
+    parseNote: (note, velocity) => {
+      const sound = GM_NOTE_SOUNDS[note];
+      return sound ? { type: "drums", sound, velocity } : null;
+    },
+  },
+  parseSoundEvent: (value) => {
+    if (!isEventOfType(value, "drums")) return null;
+    const sound = value.sound as DrumSound;
+    if (!DRUM_SOUNDS.includes(sound)) return null;
+    const velocity = parseEventVelocity(value);
+    if (velocity === null) return null;
+    if (value.choke === true) return { type: "drums", sound, choke: true };
+    return { type: "drums", sound, velocity };
+  },
+});
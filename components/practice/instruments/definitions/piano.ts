@@ -0,0 +1,94 @@
+import { Piano, PIANO_NOTES } from "@/app/lib/sound/piano";
+import { clampVelocity } from "@/app/lib/sound/dynamics";
+import { noteNameToMidi } from "@/app/lib/midi/midi-notes";
+import PianoPlayer from "../piano-player";
+import {
+  defineInstrument,
+  isEventOfType,
+  parseEventVelocity,
+} from "../instrument-types";
+
+export type PianoSoundEvent = {
+  type: "piano";
+  noteIndex: number; // key on the paper keyboard, 0 = leftmost
+  velocity?: number;
+};
+
+// MIDI note numbers of the paper keyboard keys
+const PIANO_MIDI_NOTES = PIANO_NOTES.map((name) => noteNameToMidi(name) ?? -1);
+
+export const piano = defineInstrument<"piano", PianoSoundEvent>({
+  id: "piano",
+  label: "🎹 Piano",
+  instructions: {
+    title: "How to Play Air Piano",
+    steps: [
+      "Lay a sheet of white paper flat in view of the camera",
+      "Wait for the paper outline and keys to appear",
+      "Tap a key on the paper with your fingertip to play a note",
+    ],
+    tips: [
+      "Good, even lighting helps the paper detection",
+      "Tap faster for louder notes",
+      "Lift your finger between notes so the key can retrigger",
+    ],
+  },
+  gestures: [
+    { gesture: "Tap a key on the paper", sound: "Piano note" },
+  ],
+  Player: PianoPlayer,
+  createSoundEngine: (output) => {
+    const instrument = new Piano(output);
+    return {
+      initialize: () => instrument.initialize(),
+      play: (event, delay) =>
+        instrument.playNote(event.noteIndex, clampVelocity(event.velocity), delay),
+      dispose: () => {
+        instrument.dispose();
+      },
+    };
+  },
+  stage: {
+    // The paper keyboard is found at play time, so the stage shows a standard row of keys
+    getZones: (width, height) => {
+      const keyWidth = (width * 0.8) / PIANO_NOTES.length;
+      return PIANO_NOTES.map((note, index) => ({
+        id: `key-${index}`,
+        label: note,
+        color: "#F5F5F5",
+        shape: {
+          type: "rect",
+          x: width * 0.1 + index * keyWidth,
+          y: height * 0.55,
+          width: keyWidth,
+          height: height * 0.35,
+        },
+      }));
+    },
+    getHitZoneIds: (event) => [`key-${event.noteIndex}`],
+  },
+  midi: {
+    channel: 1,
+    getNote: (event) => PIANO_MIDI_NOTES[event.noteIndex] ?? null,
+    parseNote: (note, velocity) => {
+      // Fold notes outside the paper keyboard into its range by octaves
+      const lowest = PIANO_MIDI_NOTES[0];
+      const highest = PIANO_MIDI_NOTES[PIANO_MIDI_NOTES.length - 1];
+      let folded = note;
+      while (folded < lowest) folded += 12;
+      while (folded > highest) folded -= 12;
+      const noteIndex = PIANO_MIDI_NOTES.indexOf(folded);
+      return noteIndex === -1 ? null : { type: "piano", noteIndex, velocity };
+    },
+  },
+  parseSoundEvent: (value) => {
+    if (!isEventOfType(value, "piano")) return null;
+    const { noteIndex } = value;
+    if (typeof noteIndex !== "number" || !Number.isInteger(noteIndex) || noteIndex < 0) {
+      return null;
+    }
+    const velocity = parseEventVelocity(value);
+    if (velocity === null) return null;
+    return { type: "piano", noteIndex, velocity };
+  },
+});
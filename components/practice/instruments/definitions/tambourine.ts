@@ -0,0 +1,73 @@
+import TambourineCalibration from "@/components/calibration/TambourineCalibration";
+import { Tambourine } from "@/app/lib/sound/tambourine";
+import { clampVelocity } from "@/app/lib/sound/dynamics";
+import { GM_PERCUSSION, GM_PERCUSSION_CHANNEL } from "@/app/lib/midi/midi-notes";
+import TambourinePlayer from "../tambourine-player";
+import {
+  defineInstrument,
+  isEventOfType,
+  parseEventVelocity,
+} from "../instrument-types";
+
+export type TambourineSoundEvent = {
+  type: "tambourine";
+  velocity?: number;
+};
+
+export const tambourine = defineInstrument<"tambourine", TambourineSoundEvent>({
+  id: "tambourine",
+  label: "🪘 Tambourine",
+  instructions: {
+    title: "How to Play Air Tambourine",
+    steps: [
+      "Raise both hands to chest height, close together",
+      "Hold the pose until calibration completes",
+      "Make a fist with one hand to hold the tambourine",
+      "Shake the fist for a ching, or keep shaking for a jingle roll",
+      "Hit the fist with your open hand for a slap",
+    ],
+    tips: [
+      "Harder hits and faster shakes play louder",
+      "A sharp strike with a single open hand also plays a ching",
+    ],
+  },
+  gestures: [
+    { gesture: "Shake the fist", sound: "Ching" },
+    { gesture: "Keep shaking", sound: "Jingle roll" },
+    { gesture: "Open hand hits the fist", sound: "Slap" },
+  ],
+  Player: TambourinePlayer,
+  Calibration: TambourineCalibration,
+  holdsWithFist: true,
+  createSoundEngine: (output) => {
+    const instrument = new Tambourine(output);
+    return {
+      initialize: () => instrument.initialize(),
+      play: (event, delay) => instrument.play(clampVelocity(event.velocity), delay),
+      dispose: () => instrument.dispose(),
+    };
+  },
+  stage: {
+    getZones: (width, height) => [
+      {
+        id: "tambourine",
+        label: "🪘 Tambourine",
+        color: "#E0A458",
+        shape: { type: "circle", cx: width * 0.5, cy: height * 0.55, radius: Math.min(width, height) * 0.22 },
+      },
+    ],
+    getHitZoneIds: () => ["tambourine"],
+  },
+  midi: {
+    channel: GM_PERCUSSION_CHANNEL,
+    getNote: () => GM_PERCUSSION.tambourine,
+    parseNote: (note, velocity) =>
+      note === GM_PERCUSSION.tambourine ? { type: "tambourine", velocity } : null,
+  },
+  parseSoundEvent: (value) => {
+    if (!isEventOfType(value, "tambourine")) return null;
+    const velocity = parseEventVelocity(value);
+    if (velocity === null) return null;
+    return { type: "tambourine", velocity };
+  },
+});
@@ -0,0 +1,82 @@
+import { Triangle } from "@/app/lib/sound/triangle";
+import { clampVelocity } from "@/app/lib/sound/dynamics";
+import { GM_PERCUSSION, GM_PERCUSSION_CHANNEL } from "@/app/lib/midi/midi-notes";
+import TrianglePlayer from "../triangle-player";
+import {
+  defineInstrument,
+  isEventOfType,
+  parseEventVelocity,
+} from "../instrument-types";
+
+export type TriangleSoundEvent = {
+  type: "triangle";
+  velocity?: number;
+};
+
+export const triangle = defineInstrument<"triangle", TriangleSoundEvent>({
+  id: "triangle",
+  label: "🔺 Triangle",
+  instructions: {
+    title: "How to Play Air Triangle",
+    steps: [
+      "Make a fist with your other hand (left if you're right-handed) to hold the triangle",
+      "Point with your dominant index finger as the beater",
+      "Swing your fingertip into an edge of the triangle to ring it",
+    ],
+    tips: [
+      "Faster swings ring louder",
+      "Move back out of the triangle before the next hit",
+    ],
+  },
+  gestures: [
+    { gesture: "Other hand's fist", sound: "Holds the triangle" },
+    { gesture: "Dominant fingertip hits an edge", sound: "Ting" },
+  ],
+  Player: TrianglePlayer,
+  holdsWithFist: true,
+  createSoundEngine: (output) => {
+    const instrument = new Triangle(output);
+    return {
+      initialize: () => instrument.initialize(),
+      play: (event, delay) => instrument.play(clampVelocity(event.velocity), delay),
+      dispose: () => instrument.dispose(),
+    };
+  },
+  stage: {
+    getZones: (width, height) => {
+      const size = Math.min(width, height) * 0.5;
+      const cx = width * 0.5;
+      const cy = height * 0.55;
+      return [
+        {
+          id: "triangle",
+          label: "🔺 Triangle",
+          color: "#C0C0C0",
+          shape: {
+            type: "polygon",
+            points: [
+              { x: cx, y: cy - size / 2 },
+              { x: cx + size / 2, y: cy + size / 2 },
+              { x: cx - size / 2, y: cy + size / 2 },
+            ],
+          },
+        },
+      ];
+    },
+    getHitZoneIds: () => ["triangle"],
+  },
+  midi: {
+    channel: GM_PERCUSSION_CHANNEL,
+    getNote: () => GM_PERCUSSION.openTriangle,
+    parseNote: (note, velocity) =>
+      note === GM_PERCUSSION.openTriangle || note === GM_PERCUSSION.muteTriangle
+        ? { type: "triangle", velocity }
+        : null,
+  },
+  parseSoundEvent: (value) => {
+    if (!isEventOfType(value, "triangle")) return null;
+    const velocity = parseEventVelocity(value);
+    if (velocity === null) return null;
+    return { type: "triangle", velocity };
+  },
+});
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { DRUM_PIECES } from "@/app/lib/sound/drum-kit";
+import type { DrumSound } from "./definitions/drums";
+import { DrumLayouts, MAX_ZONE_SIZE, MIN_ZONE_SIZE } from "./drum-layouts";
+
+interface DrumLayoutEditorProps {
+  selectedZoneId: string | null;
+  onSelectZone: (id: string | null) => void;
+}
+
+/**
+ * Controls for the drum layout editor. Moving and resizing happens on the
+ * canvas; this panel picks, saves and deletes layouts and edits the selected zone.
+ */
+export default function DrumLayoutEditor({ selectedZoneId, onSelectZone }: DrumLayoutEditorProps) {
+  const layouts = DrumLayouts.getInstance();
+  const { current, saved, modified } = useSyncExternalStore(
+    layouts.subscribe,
+    layouts.getSnapshot,
+    layouts.getSnapshot
+  );
+  const [newSound, setNewSound] = useState<DrumSound>("tom-mid");
+  const [saveName, setSaveName] = useState("");
+
+  const selected = current.zones.find((zone) => zone.id === selectedZoneId) ?? null;
+  const builtIn = layouts.isBuiltIn(current.name);
+
+  const saveAs = (name: string) => {
+    if (layouts.save(name)) setSaveName("");
+  };
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="font-medium" htmlFor="drum-layout">
+          Layout
+        </label>
+        <select
+          id="drum-layout"
+          value={current.name}
+          onChange={(e) => {
+            layouts.select(e.target.value);
+            onSelectZone(null);
+          }}
+          className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+        >
+          {saved.map((layout) => (
+            <option key={layout.name} value={layout.name}>
+              {layout.name}
+            </option>
+          ))}
+        </select>
+        {modified && <span className="text-xs text-amber-600">unsaved changes</span>}
+        {!builtIn && (
+          <>
+            <button
+              onClick={() => saveAs(current.name)}
+              disabled={!modified}
+              className="rounded bg-zinc-200 dark:bg-zinc-700 px-3 py-1 disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => {
+                layouts.deleteSaved(current.name);
+                onSelectZone(null);
+              }}
+              className="rounded bg-red-600 text-white px-3 py-1"
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && saveAs(saveName)}
+          placeholder="Layout name"
+          className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+        />
+        <button
+          onClick={() => saveAs(saveName)}
+          disabled={!saveName.trim() || layouts.isBuiltIn(saveName.trim())}
+          className="rounded bg-primary text-secondary px-3 py-1 disabled:opacity-50"
+        >
+          Save as new layout
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={newSound}
+          onChange={(e) => setNewSound(e.target.value as DrumSound)}
+          className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+          aria-label="Sound for the new zone"
+        >
+          {DRUM_PIECES.map((sound) => (
+            <option key={sound} value={sound}>
+              {sound}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => onSelectZone(layouts.addZone(newSound))}
+          className="rounded bg-zinc-200 dark:bg-zinc-700 px-3 py-1"
+        >
+          Add zone
+        </button>
+        <button
+          onClick={() => layouts.mirror()}
+          className="rounded bg-zinc-200 dark:bg-zinc-700 px-3 py-1"
+        >
+          Mirror left/right
+        </button>
+      </div>
+
+      {selected ? (
+        <div className="flex flex-wrap items-center gap-3 border-t border-zinc-200 dark:border-zinc-700 pt-3">
+          <span className="font-medium">Selected zone</span>
+          <select
+            value={selected.sound}
+            onChange={(e) => layouts.updateZone(selected.id, { sound: e.target.value as DrumSound })}
+            className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+            aria-label="Sound of the selected zone"
+          >
+            {DRUM_PIECES.map((sound) => (
+              <option key={sound} value={sound}>
+                {sound}
+              </option>
+            ))}
+          </select>
+          <input
+            type="range"
+            min={MIN_ZONE_SIZE}
+            max={MAX_ZONE_SIZE}
+            step={0.005}
+            value={selected.size}
+            onChange={(e) => layouts.updateZone(selected.id, { size: Number(e.target.value) })}
+            aria-label="Size of the selected zone"
+          />
+          <button
+            onClick={() => {
+              layouts.removeZone(selected.id);
+              onSelectZone(null);
+            }}
+            className="rounded bg-red-600 text-white px-3 py-1"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Click a pad on the camera view to select it. Drag a pad to move it, or drag its edge to resize it.
+        </p>
+      )}
+    </div>
+  );
+}
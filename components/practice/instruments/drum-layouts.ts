@@ -0,0 +1,259 @@
+import { DRUM_PIECES } from "@/app/lib/sound/drum-kit";
+import { DominantHandPreference, type DominantHand } from "@/app/lib/motion/dominant-hand";
+import type { DrumSound } from "./definitions/drums";
+
+/**
+ * Drum Layouts
+ * Where the air drum zones sit, as fractions of the camera view so a layout
+ * works at any canvas size. Players edit the current layout on the canvas
+ * and save it under a name; everything is kept in localStorage.
+ * Left-handed players start from a mirrored kit (hi-hat on the left).
+ */
+
+export interface DrumZoneLayout {
+  id: string;
+  sound: DrumSound;
+  x: number; // center, fraction of the width (mirrored view)
+  y: number; // center, fraction of the height
+  size: number; // radius, fraction of the shorter side
+}
+
+export interface DrumLayout {
+  name: string;
+  zones: DrumZoneLayout[];
+}
+
+export interface DrumLayoutsSnapshot {
+  current: DrumLayout; // the layout being played (and edited)
+  saved: DrumLayout[]; // built-in first, then the player's own
+  modified: boolean; // current differs from the saved layout of its name
+}
+
+export const MIN_ZONE_SIZE = 0.04;
+export const MAX_ZONE_SIZE = 0.3;
+
+export const DEFAULT_LAYOUT: DrumLayout = {
+  name: "Default",
+  zones: [
+    { id: "left", sound: "snare", x: 0.2, y: 0.74, size: 0.14 },
+    { id: "right", sound: "snare", x: 0.8, y: 0.74, size: 0.14 },
+    { id: "crash", sound: "crash", x: 0.15, y: 0.42, size: 0.15 },
+    { id: "bass", sound: "kick", x: 0.5, y: 0.88, size: 0.18 },
+    { id: "hihat", sound: "hihat", x: 0.85, y: 0.42, size: 0.12 },
+    { id: "tom-high", sound: "tom-high", x: 0.35, y: 0.52, size: 0.09 },
+    { id: "tom-mid", sound: "tom-mid", x: 0.5, y: 0.5, size: 0.09 },
+    { id: "tom-floor", sound: "tom-floor", x: 0.65, y: 0.52, size: 0.099 },
+    { id: "ride", sound: "ride", x: 0.5, y: 0.22, size: 0.12 },
+  ],
+};
+
+export const LEFT_HANDED_LAYOUT: DrumLayout = {
+  name: "Left-handed",
+  zones: mirrorZones(DEFAULT_LAYOUT.zones),
+};
+
+const BUILT_IN_LAYOUTS: DrumLayout[] = [DEFAULT_LAYOUT, LEFT_HANDED_LAYOUT];
+
+const STORAGE_KEY = "airstrument:drum-layouts";
+
+interface StoredLayouts {
+  current: DrumLayout;
+  saved: DrumLayout[];
+}
+
+export class DrumLayouts {
+  private static instance: DrumLayouts | null = null;
+
+  private current: DrumLayout = DEFAULT_LAYOUT;
+  private saved: DrumLayout[] = []; // the player's own
+  private listeners: Set<() => void> = new Set();
+  private snapshot: DrumLayoutsSnapshot;
+
+  constructor() {
+    if (typeof window !== "undefined") this.load();
+    this.snapshot = this.createSnapshot();
+
+    // Also catches a hand switched while no drums were on screen
+    const preference = DominantHandPreference.getInstance();
+    this.followHand(preference.getHand());
+    preference.subscribe(() => this.followHand(preference.getHand()));
+  }
+
+  static getInstance(): DrumLayouts {
+    if (!DrumLayouts.instance) {
+      DrumLayouts.instance = new DrumLayouts();
+    }
+    return DrumLayouts.instance;
+  }
+
+  isBuiltIn(name: string): boolean {
+    return BUILT_IN_LAYOUTS.some((layout) => layout.name === name);
+  }
+
+  /**
+   * Switch to a saved layout (unsaved edits to the current one are dropped)
+   */
+  select(name: string) {
+    const layout = this.getAllSaved().find((saved) => saved.name === name);
+    if (!layout) return;
+    this.update(layout);
+  }
+
+  updateZone(id: string, changes: Partial<Omit<DrumZoneLayout, "id">>) {
+    this.update({
+      ...this.current,
+      zones: this.current.zones.map((zone) =>
+        zone.id === id ? clampZone({ ...zone, ...changes }) : zone
+      ),
+    });
+  }
+
+  /**
+   * Flip the current layout left to right
+   */
+  mirror() {
+    this.update({ ...this.current, zones: mirrorZones(this.current.zones) });
+  }
+
+  /**
+   * Add a zone in the middle of the view. Returns its id.
+   */
+  addZone(sound: DrumSound): string {
+    const id = `${sound}-${Date.now().toString(36)}`;
+    this.update({
+      ...this.current,
+      zones: [...this.current.zones, { id, sound, x: 0.5, y: 0.5, size: 0.1 }],
+    });
+    return id;
+  }
+
+  removeZone(id: string) {
+    this.update({
+      ...this.current,
+      zones: this.current.zones.filter((zone) => zone.id !== id),
+    });
+  }
+
+  /**
+   * Save the current layout under a name (built-in names can't be overwritten)
+   * @returns false if the name is empty or taken by a built-in layout
+   */
+  save(name: string): boolean {
+    const trimmed = name.trim();
+    if (!trimmed || this.isBuiltIn(trimmed)) return false;
+    const layout = { name: trimmed, zones: this.current.zones };
+    this.saved = [...this.saved.filter((saved) => saved.name !== trimmed), layout];
+    this.update(layout);
+    return true;
+  }
+
+  deleteSaved(name: string) {
+    if (this.isBuiltIn(name)) return;
+    this.saved = this.saved.filter((saved) => saved.name !== name);
+    if (this.current.name === name) {
+      this.update(defaultLayoutFor(DominantHandPreference.getInstance().getHand()));
+    } else {
+      this.persist();
+      this.notify();
+    }
+  }
+
+  getSnapshot = (): DrumLayoutsSnapshot => this.snapshot;
+
+  /**
+   * Be notified when the current layout or the saved ones change. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private getAllSaved(): DrumLayout[] {
+    return [...BUILT_IN_LAYOUTS, ...this.saved];
+  }
+
+  /**
+   * Swap the built-in kit for the one matching the player's hand.
+   * Own layouts and unsaved edits are left alone.
+   */
+  private followHand(hand: DominantHand) {
+    const layout = defaultLayoutFor(hand);
+    if (this.current.name === layout.name) return;
+    if (!this.isBuiltIn(this.current.name) || this.snapshot.modified) return;
+    this.update(layout);
+  }
+
+  private update(current: DrumLayout) {
+    this.current = current;
+    this.persist();
+    this.notify();
+  }
+
+  private load() {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const stored = raw ? (JSON.parse(raw) as Partial<StoredLayouts>) : null;
+      this.saved = (stored?.saved ?? []).filter(isLayout);
+      if (stored?.current && isLayout(stored.current)) this.current = stored.current;
+    } catch (error) {
+      console.warn("⚠️ Could not load drum layouts:", error);
+    }
+  }
+
+  private persist() {
+    try {
+      const stored: StoredLayouts = { current: this.current, saved: this.saved };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn("⚠️ Could not save drum layouts:", error);
+    }
+  }
+
+  private createSnapshot(): DrumLayoutsSnapshot {
+    const saved = this.getAllSaved();
+    const savedCurrent = saved.find((layout) => layout.name === this.current.name);
+    return {
+      current: this.current,
+      saved,
+      modified: JSON.stringify(savedCurrent?.zones) !== JSON.stringify(this.current.zones),
+    };
+  }
+
+  private notify() {
+    this.snapshot = this.createSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+function defaultLayoutFor(hand: DominantHand): DrumLayout {
+  return hand === "left" ? LEFT_HANDED_LAYOUT : DEFAULT_LAYOUT;
+}
+
+function mirrorZones(zones: DrumZoneLayout[]): DrumZoneLayout[] {
+  return zones.map((zone) => ({ ...zone, x: 1 - zone.x }));
+}
+
+function clampZone(zone: DrumZoneLayout): DrumZoneLayout {
+  return {
+    ...zone,
+    x: Math.max(0, Math.min(1, zone.x)),
+    y: Math.max(0, Math.min(1, zone.y)),
+    size: Math.max(MIN_ZONE_SIZE, Math.min(MAX_ZONE_SIZE, zone.size)),
+  };
+}
+
+function isLayout(value: unknown): value is DrumLayout {
+  const layout = value as DrumLayout | null;
+  return typeof layout?.name === "string" && Array.isArray(layout.zones) && layout.zones.every(isZoneLayout);
+}
+
+export function isZoneLayout(value: unknown): value is DrumZoneLayout {
+  const zone = value as DrumZoneLayout | null;
+  return (
+    typeof zone?.id === "string" &&
+    DRUM_PIECES.includes(zone.sound) &&
+    [zone.x, zone.y, zone.size].every((n) => typeof n === "number" && Number.isFinite(n))
+  );
+}
@@ -1,70 +1,149 @@
-export type Instrument = 'drums' | 'piano' | 'tambourine' | 'triangle';
+import type { ComponentType } from 'react';
+import type { ZoneShape } from '@/app/types/motion';
+import type { PeerManager } from '@/app/lib/webrtc/peer-manager';
+import type { DrumZoneLayout } from './drum-layouts';
+
+export type { Instrument, SoundEvent } from './registry';
 
 export interface HandPositions {
   left?: { x: number; y: number };
   right?: { x: number; y: number };
 }
 
+export interface InstrumentInstructions {
+  title: string;
+  steps: string[];
+  tips: string[];
+}
+
+/**
+ * One row of an instrument's gesture → sound mapping (shown to players)
+ */
+export interface GestureMapping {
+  gesture: string;
+  sound: string;
+}
+
+/**
+ * Props for the overlay that guides a player into position
+ */
+export interface CalibrationStepProps {
+  handPositions: HandPositions;
+  isCameraActive?: boolean;
+}
+
+/**
+ * Props every instrument player component accepts
+ */
 export interface InstrumentPlayerProps {
-  isActive: boolean;
-  onStart: () => void;
-  onStop: () => void;
+  peerManager?: PeerManager | null;
+  Calibration?: ComponentType<CalibrationStepProps>;
 }
 
-export const INSTRUMENT_LABELS: Record<Instrument, string> = {
-  drums: '🥁 Drums',
-  piano: '🎹 Piano',
-  tambourine: '🪘 Tambourine',
-  triangle: '🔺 Triangle',
-};
+/**
+ * Plays an instrument's sound events (local or received from peers)
+ */
+export interface InstrumentSoundEngine<E> {
+  initialize(): Promise<void>;
+  // delay: seconds from now to schedule the sound (omitted = play immediately)
+  play(event: E, delay?: number): void;
+  dispose(): void;
+}
 
-export const INSTRUMENT_INSTRUCTIONS: Record<Instrument, {
-  title: string;
-  steps: string[];
-  tips: string[];
-}> = {
-  drums: {
-    title: 'How to Play Air Drums',
-    steps: [
-      'Position your hands in the bottom corners of the screen',
-      'Hold the calibration pose for 3 seconds',
-      'Strike downward quickly to hit the left or right snare drums',
-      'Strike down at center-bottom for the bass kick',
-      'Flick upward at center-top for the hi-hat',
-    ],
-    tips: [
-      'Use quick, deliberate motions for better detection',
-      'Adjust velocity threshold if drums are too sensitive or not sensitive enough',
-      'Move horizontally while striking down for side snares',
-      'Watch the hand speed indicators to see your gesture speed',
-    ],
-  },
-  piano: {
-    title: 'How to Play Air Piano',
-    steps: [
-      'Instructions coming soon - instrument in development',
-    ],
-    tips: [
-      'This instrument is currently being developed',
-    ],
-  },
-  tambourine: {
-    title: 'How to Play Air Tambourine',
-    steps: [
-      'Instructions coming soon - instrument in development',
-    ],
-    tips: [
-      'This instrument is currently being developed',
-    ],
-  },
-  triangle: {
-    title: 'How to Play Air Triangle',
-    steps: [
-      'Instructions coming soon - instrument in development',
-    ],
-    tips: [
-      'This instrument is currently being developed',
-    ],
-  },
-};
+/**
+ * How an instrument's sound events map onto MIDI notes
+ */
+export interface InstrumentMidiMapping<E> {
+  channel: number; // default output channel (1-16)
+  getNote: (event: E) => number | null;
+  // Incoming MIDI note → sound event (null if the note isn't played by this instrument)
+  parseNote: (note: number, velocity: number) => E | null;
+}
+
+/**
+ * A zone drawn on the jam stage. Shapes are in stage pixels, in the same
+ * mirrored view the player sees over their own camera.
+ */
+export interface StageZone {
+  id: string;
+  label: string;
+  color: string;
+  shape: ZoneShape;
+}
+
+/**
+ * Zone layouts a player has shared with the room (for instruments they can rearrange)
+ */
+export interface SharedLayouts {
+  drums?: DrumZoneLayout[];
+}
+
+/**
+ * How a remote player's instrument is drawn on the jam stage
+ */
+export interface InstrumentStageLayout<E> {
+  // layouts: what the player shared; built-in zones where they haven't
+  getZones: (width: number, height: number, layouts?: SharedLayouts) => StageZone[];
+  // Zones to flash when an event plays
+  getHitZoneIds: (event: E) => string[];
+}
 
+/**
+ * Everything the app needs to know about an instrument.
+ * Each instrument declares one of these; the registry collects them.
+ */
+export interface InstrumentDefinition<
+  Id extends string = string,
+  E extends { type: Id } = { type: Id; velocity?: number },
+> {
+  id: Id;
+  label: string;
+  instructions: InstrumentInstructions;
+  gestures: GestureMapping[];
+  Player: ComponentType<InstrumentPlayerProps>;
+  Calibration?: ComponentType<CalibrationStepProps>;
+  // The supporting hand holds the instrument in a fist, so looper gestures go to the playing hand
+  holdsWithFist?: boolean;
+  // output: node the engine plays into (defaults to the local mixer strip)
+  createSoundEngine: (output?: AudioNode) => InstrumentSoundEngine<E>;
+  midi: InstrumentMidiMapping<E>;
+  stage: InstrumentStageLayout<E>;
+  // Validate an incoming SoundEvent; null if it doesn't match the schema
+  parseSoundEvent: (value: unknown) => E | null;
+}
+
+/**
+ * Identity helper that keeps the literal id and event types of a definition
+ */
+export function defineInstrument<Id extends string, E extends { type: Id }>(
+  definition: InstrumentDefinition<Id, E>
+): InstrumentDefinition<Id, E> {
+  return definition;
+}
+
+/**
+ * Read the optional velocity field of a sound event.
+ * @returns The velocity, undefined if absent, or null if present but invalid
+ */
+export function parseEventVelocity(
+  event: Record<string, unknown>
+): number | undefined | null {
+  const { velocity } = event;
+  if (velocity === undefined) return undefined;
+  if (typeof velocity !== 'number' || !Number.isFinite(velocity)) return null;
+  return velocity;
+}
+
+/**
+ * Narrow an unknown value to a sound event of the given type
+ */
+export function isEventOfType(
+  value: unknown,
+  type: string
+): value is Record<string, unknown> & { type: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { type?: unknown }).type === type
+  );
+}
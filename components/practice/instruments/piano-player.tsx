@@ -3,46 +3,78 @@
 import { useEffect, useRef, useState } from "react";
 import { Piano } from "@/app/lib/sound/piano";
 import { AutoPaperDetector } from "@/app/lib/vision/auto-paper-detector";
-import { PeerManager } from "@/app/lib/webrtc/peer-manager";
-
-type HandsType = {
-  setOptions: (options: any) => void;
-  onResults: (callback: (results: any) => void) => void;
-  send: (data: { image: HTMLVideoElement }) => Promise<void>;
-  close: () => Promise<void>;
-};
+import { useMediaPipe } from "@/app/hooks/useMediaPipe";
+import { drawBeatIndicator } from "@/components/metronome/beat-indicator";
+import { SessionRecorder } from "@/app/lib/recording/session-recorder";
+import { HandTrackingFrame } from "@/app/types/mediapipe";
+import { MotionZone } from "@/app/types/motion";
+import { MotionDetector } from "@/app/lib/motion/motion-detector";
+import { KeyRegion } from "@/app/lib/vision/auto-paper-detector";
+import { speedToVelocity } from "@/app/lib/sound/dynamics";
+import { InstrumentPlayerProps } from "./instrument-types";
+
+const CANVAS_WIDTH = 640;
+const CANVAS_HEIGHT = 480;
+const NUM_KEYS = 10; // Number of piano keys
+const KEY_COOLDOWN_MS = 300; // Increased cooldown to prevent double triggers (was 150ms)
+const GLOBAL_COOLDOWN_MS = 200; // Minimum time between any key presses from same hand
+// Z-depth threshold: MediaPipe Z is negative when closer to camera
+// When finger touches paper, Z should be close to paper plane
+const Z_TOUCH_THRESHOLD = -0.015; // Finger touching paper
+
+interface PianoKey {
+  zone: MotionZone;
+  keyIndex: number; // in the mirrored view the player sees
+}
 
-interface PianoPlayerProps {
-  peerManager?: PeerManager | null;
+/**
+ * The paper keys as touch zones: a key plays when the fingertip presses past
+ * the paper's depth inside its elliptical hitbox (raw, un-mirrored canvas pixels)
+ */
+function buildPianoKeys(keyRegions: KeyRegion[]): PianoKey[] {
+  return keyRegions.map((keyRegion) => {
+    // Raw key 0 (left) appears on visual right after mirroring
+    const keyIndex = NUM_KEYS - 1 - keyRegion.noteIndex;
+    return {
+      keyIndex,
+      zone: {
+        id: `key-${keyIndex}`,
+        shape: {
+          type: "ellipse",
+          cx: keyRegion.hitboxCenterX,
+          cy: keyRegion.hitboxCenterY,
+          rx: keyRegion.hitboxRadiusX,
+          ry: keyRegion.hitboxRadiusY,
+        },
+        maxDepth: Z_TOUCH_THRESHOLD,
+        cooldownMs: KEY_COOLDOWN_MS,
+      },
+    };
+  });
 }
 
-export default function PianoPlayer({ peerManager = null }: PianoPlayerProps = {}) {
-  const videoRef = useRef<HTMLVideoElement>(null);
+export default function PianoPlayer({ peerManager = null }: InstrumentPlayerProps = {}) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [handPositions, setHandPositions] = useState<{
     left?: { x: number; y: number };
     right?: { x: number; y: number };
   }>({});
-  const [isActive, setIsActive] = useState(false);
   const [paperDetected, setPaperDetected] = useState(false);
-  const handsRef = useRef<HandsType | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
   const pianoRef = useRef<Piano | null>(null);
   const paperDetectorRef = useRef<AutoPaperDetector | null>(null);
-  
-  // Track which keys are currently being pressed (to avoid retriggering)
-  const activeKeysRef = useRef<Map<number, number>>(new Map()); // handIndex -> keyIndex
-  const keyCooldownRef = useRef<Map<string, number>>(new Map()); // "handIndex-keyIndex" -> timestamp
-  const handCooldownRef = useRef<Map<number, number>>(new Map()); // handIndex -> last press timestamp (global cooldown)
-  const keyReleaseTimeRef = useRef<Map<number, number>>(new Map()); // handIndex -> timestamp when key was released
+  // Turns the paper keys into presses. Works in raw canvas pixels, like the paper detector.
+  const motionDetectorRef = useRef<MotionDetector | null>(null);
   const detectionFrameCountRef = useRef<number>(0); // Count frames for periodic detection
 
   useEffect(() => {
-    if (!videoRef.current || !canvasRef.current) return;
-
     // Initialize piano for sound playback
     pianoRef.current = new Piano();
+    motionDetectorRef.current = new MotionDetector([], {
+      width: CANVAS_WIDTH,
+      height: CANVAS_HEIGHT,
+      mirror: false,
+      handCooldownMs: GLOBAL_COOLDOWN_MS,
+    });
     
     // Initialize automatic paper detector
     if (!paperDetectorRef.current) {
@@ -50,591 +82,430 @@ export default function PianoPlayer({ peerManager = null }: PianoPlayerProps = {
       console.log("📄 Auto paper detector initialized");
     }
 
-    // Load MediaPipe Hands from CDN
-    const initHands = () => {
-      // Check if Hands is already available (from script tag or previous load)
-      const checkAndInit = () => {
-        const Hands = (window as any).Hands;
-        
-        if (!Hands) {
-          // If not available, load the script
-          const script = document.createElement("script");
-          script.src = "https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js";
-          script.crossOrigin = "anonymous";
-          script.onload = () => {
-            const HandsClass = (window as any).Hands;
-            if (HandsClass) {
-              initializeHands(HandsClass);
-            }
-          };
-          script.onerror = () => {
-            console.error("Failed to load MediaPipe Hands script");
-          };
-          document.head.appendChild(script);
-        } else {
-          initializeHands(Hands);
-        }
-      };
-
-      const initializeHands = (Hands: any) => {
-        try {
-          const hands = new Hands({
-            locateFile: (file: string) => {
-              return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-            },
-          });
-
-          hands.setOptions({
-            maxNumHands: 2,
-            modelComplexity: 1,
-            minDetectionConfidence: 0.5,
-            minTrackingConfidence: 0.5,
-          });
-
-          hands.onResults((results: any) => {
-            const canvasCtx = canvasRef.current?.getContext("2d");
-            if (!canvasCtx || !canvasRef.current) return;
-
-            // Get canvas dimensions for coordinate conversion
-            const canvasWidth = canvasRef.current.width;
-            const canvasHeight = canvasRef.current.height;
-
-            // Helper function to convert normalized coordinates (0-1) to pixel coordinates
-            // Coordinate system:
-            // - MediaPipe: processes raw video, gives coordinates where x=0 is left side of raw video
-            // - Canvas: we mirror the image when drawing, but draw overlays in normal coordinates
-            // - Paper detection: works on raw buffer, coordinates in raw space
-            // - Overlays (keys, text, hands): drawn in normal coordinates (not mirrored)
-            //
-            // Since we mirror the image when drawing, MediaPipe coordinates need to be flipped
-            // for display to match the mirrored image
-            const toPixelCoords = (normalizedX: number, normalizedY: number) => {
-              // Flip X to match the mirrored image display
-              return {
-                x: Math.round((1 - normalizedX) * canvasWidth),
-                y: Math.round(normalizedY * canvasHeight),
-              };
-            };
-            
-            // Helper to flip X coordinate (convert between raw and display coordinates)
-            const flipX = (x: number) => canvasWidth - x;
-
-            // Paper piano configuration
-            const KEY_COOLDOWN_MS = 300; // Increased cooldown to prevent double triggers (was 150ms)
-            const GLOBAL_COOLDOWN_MS = 200; // Minimum time between any key presses from same hand
-            // Z-depth threshold: MediaPipe Z is negative when closer to camera
-            // When finger touches paper, Z should be close to paper plane
-            const Z_TOUCH_THRESHOLD = -0.015; // Finger touching paper
-            const NUM_KEYS = 10; // Number of piano keys
-
-            // Draw paper and key regions if detected
-            const drawPaperPiano = () => {
-              if (!paperDetectorRef.current) {
-                return;
-              }
+    return () => {
+      if (pianoRef.current) {
+        pianoRef.current.dispose();
+      }
+    };
+  }, []);
 
-              if (!paperDetectorRef.current.isDetected()) {
-                // Show detection status
-                canvasCtx.fillStyle = "rgba(255, 255, 255, 0.9)";
-                canvasCtx.font = "bold 20px Arial";
-                canvasCtx.textAlign = "center";
-                canvasCtx.fillText(
-                  "📄 Detecting paper...",
-                  canvasWidth / 2,
-                  canvasHeight / 2 - 20
-                );
-                canvasCtx.font = "16px Arial";
-                canvasCtx.fillText(
-                  "Place a white paper on your table",
-                  canvasWidth / 2,
-                  canvasHeight / 2 + 10
-                );
-                return;
-              }
+  const handleFrame = (rawFrame: HandTrackingFrame) => {
+    const canvasCtx = canvasRef.current?.getContext("2d");
+    if (!canvasCtx || !canvasRef.current) return;
+    const motionDetector = motionDetectorRef.current;
+    // Smoothed landmarks for the key presses and the fingertip overlay alike
+    const frame = motionDetector?.smooth(rawFrame) ?? rawFrame;
+
+    // Get canvas dimensions for coordinate conversion
+    const canvasWidth = canvasRef.current.width;
+    const canvasHeight = canvasRef.current.height;
+
+    // Helper function to convert normalized coordinates (0-1) to pixel coordinates
+    // Coordinate system:
+    // - MediaPipe: processes raw video, gives coordinates where x=0 is left side of raw video
+    // - Canvas: we mirror the image when drawing, but draw overlays in normal coordinates
+    // - Paper detection: works on raw buffer, coordinates in raw space
+    // - Overlays (keys, text, hands): drawn in normal coordinates (not mirrored)
+    //
+    // Since we mirror the image when drawing, MediaPipe coordinates need to be flipped
+    // for display to match the mirrored image
+    const toPixelCoords = (normalizedX: number, normalizedY: number) => {
+      // Flip X to match the mirrored image display
+      return {
+        x: Math.round((1 - normalizedX) * canvasWidth),
+        y: Math.round(normalizedY * canvasHeight),
+      };
+    };
 
-              const paperCorners = paperDetectorRef.current.getPaperCorners();
-              const keyRegions = paperDetectorRef.current.getKeyRegions();
-              
-              if (!paperCorners || keyRegions.length === 0) {
-                console.error("Paper corners or key regions are empty!");
-                return;
-              }
+    // Helper to flip X coordinate (convert between raw and display coordinates)
+    const flipX = (x: number) => canvasWidth - x;
 
-              // Draw paper outline (flip coordinates to match mirrored image)
-              canvasCtx.strokeStyle = "#00FF00";
-              canvasCtx.lineWidth = 3;
-              canvasCtx.beginPath();
-              // Flip X coordinates for display
-              const topLeft = { x: canvasWidth - paperCorners.topRight.x, y: paperCorners.topLeft.y };
-              const topRight = { x: canvasWidth - paperCorners.topLeft.x, y: paperCorners.topRight.y };
-              const bottomRight = { x: canvasWidth - paperCorners.bottomLeft.x, y: paperCorners.bottomRight.y };
-              const bottomLeft = { x: canvasWidth - paperCorners.bottomRight.x, y: paperCorners.bottomLeft.y };
-              canvasCtx.moveTo(topLeft.x, topLeft.y);
-              canvasCtx.lineTo(topRight.x, topRight.y);
-              canvasCtx.lineTo(bottomRight.x, bottomRight.y);
-              canvasCtx.lineTo(bottomLeft.x, bottomLeft.y);
-              canvasCtx.closePath();
-              canvasCtx.stroke();
-
-              // Draw corner markers
-              const corners = [topLeft, topRight, bottomRight, bottomLeft];
-              corners.forEach((corner, i) => {
-                canvasCtx.fillStyle = "#00FF00";
-                canvasCtx.beginPath();
-                canvasCtx.arc(corner.x, corner.y, 5, 0, Math.PI * 2);
-                canvasCtx.fill();
-              });
-
-              // Draw key regions as a realistic piano keyboard:
-              // - White keys (with separators)
-              // - Black keys placed above gaps (skipped above E and B)
-              // - Pressed keys show a depressed shading and brighter highlight
-              const noteNames = ["C", "D", "E", "F", "G", "A", "B", "C", "D", "E"];
-              
-              // Since we mirror the image when drawing, key regions need to be drawn mirrored
-              // keyRegions[0] (raw left) appears on visual right after image mirroring
-              // So we reverse the note index mapping to match visual layout
-              keyRegions.forEach((keyRegion, i) => {
-                // Reverse note index for display to match mirrored image
-                const visualKeyIndex = NUM_KEYS - 1 - keyRegion.noteIndex;
-                const isPressed = Array.from(activeKeysRef.current.values()).includes(visualKeyIndex);
-                
-                // Flip key region coordinates for display (to match mirrored image)
-                const flippedX = canvasWidth - (keyRegion.x + keyRegion.width);
-                const flippedY = keyRegion.y;
-
-                // White key background (flipped coordinates)
-                canvasCtx.fillStyle = isPressed ? "#FFF7D6" : "#FFFFFF"; // slight warm tint when pressed
-                canvasCtx.fillRect(flippedX, flippedY, keyRegion.width, keyRegion.height);
-
-                // Key top highlight (subtle) to give a beveled look
-                const grad = canvasCtx.createLinearGradient(flippedX, flippedY, flippedX, flippedY + keyRegion.height);
-                grad.addColorStop(0, isPressed ? "rgba(255,255,255,0.6)" : "rgba(255,255,255,0.35)");
-                grad.addColorStop(1, "rgba(200,200,200,0.03)");
-                canvasCtx.fillStyle = grad;
-                canvasCtx.fillRect(flippedX, flippedY, keyRegion.width, Math.max(6, keyRegion.height * 0.12));
-
-                // Key border / separator lines
-                canvasCtx.strokeStyle = "#333";
-                canvasCtx.lineWidth = 1;
-                canvasCtx.beginPath();
-                // Left edge
-                canvasCtx.moveTo(flippedX, flippedY);
-                canvasCtx.lineTo(flippedX, flippedY + keyRegion.height);
-                // Right edge
-                canvasCtx.moveTo(flippedX + keyRegion.width, flippedY);
-                canvasCtx.lineTo(flippedX + keyRegion.width, flippedY + keyRegion.height);
-                canvasCtx.stroke();
-
-                // If pressed, draw a shadow to simulate depressed key
-                if (isPressed) {
-                  canvasCtx.fillStyle = "rgba(0,0,0,0.08)";
-                  canvasCtx.fillRect(flippedX + 2, flippedY + keyRegion.height * 0.55, keyRegion.width - 4, keyRegion.height * 0.45);
-                }
+    // Fingertip speed (px/s) mapped onto note velocity: slower = softer
+    const SOFT_PRESS_SPEED = 100;
+    const HARD_PRESS_SPEED = 1500;
 
-                // Draw note label at bottom-center of key (text not mirrored, reads correctly)
-                canvasCtx.fillStyle = "#000000";
-                canvasCtx.font = "bold 14px Arial";
-                canvasCtx.textAlign = "center";
-                canvasCtx.fillText(noteNames[visualKeyIndex], flippedX + keyRegion.width / 2, flippedY + keyRegion.height - 10);
-              });
-
-              // Then draw black keys on top where appropriate
-              // Black keys sit between white keys except after E and B
-              // Note: Iterate in reverse to match the visual key order after mirroring
-              for (let i = keyRegions.length - 2; i >= 0; i--) {
-                const left = keyRegions[i + 1]; // Note: swapped due to reverse iteration
-                const right = keyRegions[i];
-                // Use visual note index
-                const visualNoteIndex = NUM_KEYS - 1 - i;
-                const note = noteNames[visualNoteIndex];
-                // No black key after E or B
-                if (note === "E" || note === "B") continue;
-
-                // Position black key (flip coordinates to match mirrored image)
-                const blackWidth = Math.round(Math.min(left.width, right.width) * 0.6);
-                const blackHeight = Math.round(left.height * 0.62);
-                const flippedLeftX = canvasWidth - (left.x + left.width);
-                const blackX = Math.round(flippedLeftX + left.width * 0.34); // Adjusted for flipped coordinates
-                const blackY = left.y;
-
-                // See if the black key is currently pressed by checking if any active key maps to the right adjacent white key
-                // (approximate: if finger is over the gap, we'll still show the black key as available)
-                const isPressed = false; // keep black keys visual-only; paper touch still triggers white keys
-
-                canvasCtx.fillStyle = "#000000";
-                canvasCtx.fillRect(blackX, blackY, blackWidth, blackHeight);
-
-                // Slight highlight on black key
-                const bGrad = canvasCtx.createLinearGradient(blackX, blackY, blackX, blackY + blackHeight);
-                bGrad.addColorStop(0, "rgba(255,255,255,0.04)");
-                bGrad.addColorStop(1, "rgba(0,0,0,0.6)");
-                canvasCtx.fillStyle = bGrad;
-                canvasCtx.fillRect(blackX, blackY, blackWidth, blackHeight);
-              }
+    // Draw paper and key regions if detected
+    const drawPaperPiano = () => {
+      if (!paperDetectorRef.current) {
+        return;
+      }
 
-              // Draw a subtle paper border on top of keys to keep the look cohesive
-              canvasCtx.strokeStyle = "rgba(100,100,100,0.4)";
-              canvasCtx.lineWidth = 2;
-              canvasCtx.strokeRect(topLeft.x, topLeft.y, topRight.x - topLeft.x, bottomLeft.y - topLeft.y);
-            };
-
-            // Process hand detection and piano key presses (only when paper is detected)
-            if (paperDetectorRef.current?.isDetected()) {
-              if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-                const currentTime = performance.now();
-
-                results.multiHandLandmarks.forEach((landmarks: any[], handIndex: number) => {
-                  // Get index finger tip (landmark 8) - MediaPipe provides x, y, z coordinates
-                  const indexTipLandmark = landmarks[8];
-                  const indexTipZ = indexTipLandmark.z || 0; // Z depth: negative = closer to camera
-                  
-                  // COORDINATE SYSTEM:
-                  // - MediaPipe processes RAW video: coordinates in raw space (x=0 = left in raw video)
-                  // - Canvas image is mirrored when drawn (so user sees mirrored view)
-                  // - Paper detection works on raw buffer: coordinates in raw space
-                  // - Overlays (keys, text, hands) are drawn in normal (flipped) coordinates to match mirrored image
-                  //
-                  // For detection: use raw coordinates (both paper and finger are in raw space)
-                  const rawFingerX = indexTipLandmark.x * canvasWidth;
-                  const rawFingerY = indexTipLandmark.y * canvasHeight;
-                  
-                  // Get which key the finger is pointing at (using raw coordinates)
-                  const rawKeyIndex = paperDetectorRef.current!.getKeyAtPosition(rawFingerX, rawFingerY);
-                  
-                  // Since we mirror the image, we need to reverse the key index for display/playback
-                  // Raw key 0 (left) appears on visual right after mirroring
-                  const keyIndex = rawKeyIndex !== null ? NUM_KEYS - 1 - rawKeyIndex : null;
-                  
-                  // For display, flip coordinates to match the mirrored image
-                  const indexTip = toPixelCoords(indexTipLandmark.x, indexTipLandmark.y);
-                  
-                  // Debug: log finger position and key detection (less verbose)
-                  // Uncomment for debugging:
-                  // if (keyIndex !== null) {
-                  //   console.log(`🎹 Finger at (${indexTip.x.toFixed(0)}, ${indexTip.y.toFixed(0)}) over key ${keyIndex}, Z=${indexTipZ.toFixed(3)}`);
-                  // }
-                  
-                  if (keyIndex === null) {
-                    // Finger not over any key
-                    const currentlyPressingKey = activeKeysRef.current.get(handIndex);
-                    if (currentlyPressingKey !== undefined) {
-                      activeKeysRef.current.delete(handIndex);
-                    }
-                    return;
-                  }
-                  
-                  // Check if finger is touching the paper (using Z-depth)
-                  // Make threshold less strict - try different values
-                  const isTouchingPaper = paperDetectorRef.current!.isTouchingPaper(indexTipZ, Z_TOUCH_THRESHOLD);
-                  
-                  // Check if finger is close enough to paper to trigger
-                  // Z gets more negative as finger gets closer to camera
-                  // Using a more lenient threshold so it's easier to trigger
-                  const isClose = indexTipZ < Z_TOUCH_THRESHOLD;
-                  
-                  // Check if this key is already being pressed by this hand
-                  const currentlyPressingKey = activeKeysRef.current.get(handIndex);
-                  
-                  // Check cooldown for this hand-key combination
-                  const cooldownKey = `${handIndex}-${keyIndex}`;
-                  const lastPressTime = keyCooldownRef.current.get(cooldownKey) || 0;
-                  const keyCooldownPassed = currentTime - lastPressTime > KEY_COOLDOWN_MS;
-                  
-                  // Check global cooldown for this hand (prevents rapid switching between keys)
-                  const lastHandPressTime = handCooldownRef.current.get(handIndex) || 0;
-                  const globalCooldownPassed = currentTime - lastHandPressTime > GLOBAL_COOLDOWN_MS;
-
-                  // Play note when:
-                  // 1. Finger is over a key
-                  // 2. Finger is close/touching paper (Z-depth indicates contact)
-                  // 3. Not already pressing this key (avoid retriggering)
-                  // 4. Key-specific cooldown has passed (prevents same key double-trigger)
-                  // 5. Global hand cooldown has passed (prevents rapid key switching)
-                  if (isClose && currentlyPressingKey !== keyIndex && keyCooldownPassed && globalCooldownPassed) {
-                    // Play the piano note
-                    if (pianoRef.current) {
-                      const noteName = pianoRef.current.getNotes()[keyIndex];
-                      console.log(`🎹 ✅ TRIGGER: Playing key ${keyIndex} (${noteName}) - Z=${indexTipZ.toFixed(3)}`);
-                      pianoRef.current.playNote(keyIndex);
-                      
-                      // Send sound event to peers if peerManager is available
-                      if (peerManager) {
-                        try {
-                          console.log('📤 Sending piano sound event to peers:', { type: 'piano', noteIndex: keyIndex });
-                          peerManager.sendSoundEvent({
-                            type: 'piano',
-                            noteIndex: keyIndex,
-                            velocity: 1,
-                          });
-                          console.log('✅ Piano sound event sent successfully');
-                        } catch (error) {
-                          console.error('❌ Failed to send piano sound event:', error);
-                        }
-                      }
-                    } else {
-                      console.error("❌ Piano ref is null!");
-                    }
-                    
-                    // Mark this key as active for this hand
-                    activeKeysRef.current.set(handIndex, keyIndex);
-                    
-                    // Set cooldowns
-                    keyCooldownRef.current.set(cooldownKey, currentTime);
-                    handCooldownRef.current.set(handIndex, currentTime);
-                  }
-                  
-                  // Release key when finger moves away from paper or moves to a different key
-                  // Use timestamp-based delay to prevent immediate re-trigger
-                  const RELEASE_DELAY_MS = 50; // Delay before key can be re-triggered after release
-                  
-                  if (currentlyPressingKey !== undefined) {
-                    if (!isClose) {
-                      // Finger moved away from paper - mark release time and release after delay
-                      const releaseTime = keyReleaseTimeRef.current.get(handIndex) || 0;
-                      if (releaseTime === 0) {
-                        // First frame where finger moved away - mark release time
-                        keyReleaseTimeRef.current.set(handIndex, currentTime);
-                      } else if (currentTime - releaseTime > RELEASE_DELAY_MS) {
-                        // Enough time has passed - actually release the key
-                        activeKeysRef.current.delete(handIndex);
-                        keyReleaseTimeRef.current.delete(handIndex);
-                      }
-                    } else if (keyIndex !== currentlyPressingKey) {
-                      // Finger moved to a different key - release previous key immediately
-                      activeKeysRef.current.delete(handIndex);
-                      keyReleaseTimeRef.current.delete(handIndex);
-                    } else {
-                      // Finger is still on the same key and close - clear release timer
-                      keyReleaseTimeRef.current.delete(handIndex);
-                    }
-                  }
-                });
-              }
-            }
+      if (!paperDetectorRef.current.isDetected()) {
+        // Show detection status
+        canvasCtx.fillStyle = "rgba(255, 255, 255, 0.9)";
+        canvasCtx.font = "bold 20px Arial";
+        canvasCtx.textAlign = "center";
+        canvasCtx.fillText(
+          "📄 Detecting paper...",
+          canvasWidth / 2,
+          canvasHeight / 2 - 20
+        );
+        canvasCtx.font = "16px Arial";
+        canvasCtx.fillText(
+          "Place a white paper on your table",
+          canvasWidth / 2,
+          canvasHeight / 2 + 10
+        );
+        return;
+      }
 
-            canvasCtx.save();
-            canvasCtx.clearRect(
-              0,
-              0,
-              canvasRef.current.width,
-              canvasRef.current.height
-            );
-            
-            // Mirror the camera image (like air-drums) so the view feels natural
-            // This way text and overlays remain readable (not mirrored)
-            canvasCtx.save();
-            canvasCtx.translate(canvasRef.current.width, 0);
-            canvasCtx.scale(-1, 1);
-            canvasCtx.drawImage(
-              results.image,
-              0,
-              0,
-              canvasRef.current.width,
-              canvasRef.current.height
-            );
-            canvasCtx.restore();
-
-            // Try automatic paper detection periodically (every 60 frames = ~2 seconds at 30fps)
-            // Edge detection is expensive, so run less frequently
-            if (!paperDetectorRef.current?.isDetected()) {
-              detectionFrameCountRef.current++;
-              if (detectionFrameCountRef.current % 60 === 0) {
-                try {
-                  // Get image data from the current frame
-                  const imageData = canvasCtx.getImageData(0, 0, canvasWidth, canvasHeight);
-                  const detected = paperDetectorRef.current?.detectPaper(imageData, canvasWidth, canvasHeight);
-                  if (detected) {
-                    setPaperDetected(true);
-                    console.log("✅ Paper detected automatically! Key regions:", paperDetectorRef.current?.getKeyRegions().length);
-                  } else {
-                    console.log("⏳ Detection attempt", detectionFrameCountRef.current / 30, "- no paper found yet");
-                  }
-                } catch (error) {
-                  console.error("❌ Detection error:", error);
-                }
-              }
-            }
+      const paperCorners = paperDetectorRef.current.getPaperCorners();
+      const keyRegions = paperDetectorRef.current.getKeyRegions();
 
-            // Draw paper piano (paper outline and key regions)
-            drawPaperPiano();
-
-            // Draw hand landmarks and highlight index finger
-            if (results.multiHandLandmarks) {
-              results.multiHandLandmarks.forEach((landmarks: any[], handIndex: number) => {
-                // Draw connections - flip coordinates to match mirrored image
-                drawConnections(canvasCtx, landmarks, HAND_CONNECTIONS, canvasWidth, true);
-                
-                // Draw all landmarks - flip coordinates to match mirrored image
-                drawLandmarks(canvasCtx, landmarks, {
-                  color: "#00FF00",
-                  lineWidth: 2,
-                }, canvasWidth, true);
-                
-                // Highlight index finger tip (landmark 8) - the "piano finger"
-                const indexTipLandmark = landmarks[8];
-                const indexTipZ = indexTipLandmark.z || 0;
-                
-                // Flip coordinates to match mirrored image display
-                const indexTip = toPixelCoords(indexTipLandmark.x, indexTipLandmark.y);
-                
-                // Get key if paper is detected (this is just for visualization display)
-                // Note: Actual key detection happens in the processing loop above using raw coordinates
-                let keyIndex: number | null = null;
-                let isClose = false;
-                if (paperDetectorRef.current?.isDetected()) {
-                  // For display, we need to convert back to raw coordinates for detection
-                  const rawFingerX = indexTipLandmark.x * canvasWidth;
-                  const rawFingerY = indexTipLandmark.y * canvasHeight;
-                  const rawKeyIndex = paperDetectorRef.current.getKeyAtPosition(rawFingerX, rawFingerY);
-                  // Mirror the key index to match visual layout
-                  keyIndex = rawKeyIndex !== null ? NUM_KEYS - 1 - rawKeyIndex : null;
-                  isClose = indexTipZ < Z_TOUCH_THRESHOLD;
-                }
-                
-                // Draw index finger tip with special highlight (using flipped coordinates)
-                canvasCtx.fillStyle = isClose ? "#FF0000" : "#FFFF00";
-                canvasCtx.beginPath();
-                canvasCtx.arc(indexTip.x, indexTip.y, 12, 0, Math.PI * 2);
-                canvasCtx.fill();
-                canvasCtx.strokeStyle = "#FFFFFF";
-                canvasCtx.lineWidth = 2;
-                canvasCtx.stroke();
-                
-                // Draw line from finger to hitbox circle if over paper (like reference project)
-                if (keyIndex !== null && paperDetectorRef.current?.isDetected()) {
-                  const keyRegions = paperDetectorRef.current.getKeyRegions();
-                  // Use raw key index to get the correct key region position (keyIndex is visual, need raw)
-                  const rawKeyIndex = NUM_KEYS - 1 - keyIndex;
-                  const keyRegion = keyRegions[rawKeyIndex];
-                  
-                  // Flip hitbox center coordinates to match mirrored image
-                  const flippedHitboxX = canvasWidth - keyRegion.hitboxCenterX;
-                  
-                  // Draw line from finger to hitbox center (both in flipped coordinates)
-                  canvasCtx.strokeStyle = isClose ? "rgba(0, 255, 0, 0.8)" : "rgba(255, 255, 255, 0.3)";
-                  canvasCtx.lineWidth = isClose ? 3 : 2;
-                  canvasCtx.setLineDash(isClose ? [] : [5, 5]);
-                  canvasCtx.beginPath();
-                  canvasCtx.moveTo(indexTip.x, indexTip.y);
-                  canvasCtx.lineTo(flippedHitboxX, keyRegion.hitboxCenterY);
-                  canvasCtx.stroke();
-                  canvasCtx.setLineDash([]);
-                }
-                
-                // Show key and Z-depth info
-                if (paperDetectorRef.current?.isDetected()) {
-                  canvasCtx.fillStyle = "#FFFFFF";
-                  canvasCtx.font = "bold 14px Arial";
-                  canvasCtx.textAlign = "left";
-                  const noteNames = ["C", "D", "E", "F", "G", "A", "B", "C", "D", "E"];
-                  if (keyIndex !== null) {
-                    canvasCtx.fillText(
-                      `Key: ${noteNames[keyIndex]} ${isClose ? "(TOUCHING)" : ""}`,
-                      indexTip.x + 15,
-                      indexTip.y - 20
-                    );
-                  }
-                  canvasCtx.fillText(
-                    `Z: ${indexTipZ.toFixed(3)} ${isClose ? "✓ CLOSE" : "✗ FAR"}`,
-                    indexTip.x + 15,
-                    indexTip.y - 5
-                  );
-                  canvasCtx.fillText(
-                    `Pos: (${indexTip.x.toFixed(0)}, ${indexTip.y.toFixed(0)})`,
-                    indexTip.x + 15,
-                    indexTip.y + 10
-                  );
-                }
-              });
-            }
+      if (!paperCorners || keyRegions.length === 0) {
+        console.error("Paper corners or key regions are empty!");
+        return;
+      }
 
-            // Extract wrist positions and handedness for calibration guidance
-            const positions: {
-              left?: { x: number; y: number };
-              right?: { x: number; y: number };
-            } = {};
-            try {
-              if (results.multiHandLandmarks && results.multiHandedness) {
-                for (let i = 0; i < results.multiHandLandmarks.length; i++) {
-                  const landmarks = results.multiHandLandmarks[i];
-                  const handednessLabel =
-                    results.multiHandedness[i]?.label || "";
-                  // MediaPipe: landmark 0 is wrist; x,y are normalized [0..1]
-                  const wrist = landmarks[0];
-                  // Canvas-based mirroring: we mirror the image when drawing
-                  // MediaPipe labels hands based on camera view (which hand appears on which side in raw video)
-                  // After mirroring: left side of raw video appears on right side visually, and vice versa
-                  // MediaPipe's "Left" = appears on left in raw video = appears on right visually
-                  // MediaPipe's "Right" = appears on right in raw video = appears on left visually
-                  // So we need to swap the labels to match what user sees after mirroring
-                  const visualX = 1 - (wrist.x ?? 0);
-                  // Swap labels: MediaPipe's "Left" (raw left, visual right) -> positions.right
-                  //              MediaPipe's "Right" (raw right, visual left) -> positions.left
-                  if (handednessLabel.toLowerCase().includes("left")) {
-                    // Subject's left hand (MediaPipe "Left") appears on visual right after mirroring
-                    positions.right = { x: visualX, y: wrist.y };
-                  } else if (handednessLabel.toLowerCase().includes("right")) {
-                    // Subject's right hand (MediaPipe "Right") appears on visual left after mirroring
-                    positions.left = { x: visualX, y: wrist.y };
-                  }
-                }
-              }
-            } catch (err) {
-              // swallow any parsing errors
-              console.warn(
-                "Error parsing hand landmarks for calibration:",
-                err
-              );
-            }
+      // Draw paper outline (flip coordinates to match mirrored image)
+      canvasCtx.strokeStyle = "#00FF00";
+      canvasCtx.lineWidth = 3;
+      canvasCtx.beginPath();
+      // Flip X coordinates for display
+      const topLeft = { x: canvasWidth - paperCorners.topRight.x, y: paperCorners.topLeft.y };
+      const topRight = { x: canvasWidth - paperCorners.topLeft.x, y: paperCorners.topRight.y };
+      const bottomRight = { x: canvasWidth - paperCorners.bottomLeft.x, y: paperCorners.bottomRight.y };
+      const bottomLeft = { x: canvasWidth - paperCorners.bottomRight.x, y: paperCorners.bottomLeft.y };
+      canvasCtx.moveTo(topLeft.x, topLeft.y);
+      canvasCtx.lineTo(topRight.x, topRight.y);
+      canvasCtx.lineTo(bottomRight.x, bottomRight.y);
+      canvasCtx.lineTo(bottomLeft.x, bottomLeft.y);
+      canvasCtx.closePath();
+      canvasCtx.stroke();
+
+      // Draw corner markers
+      const corners = [topLeft, topRight, bottomRight, bottomLeft];
+      corners.forEach((corner, i) => {
+        canvasCtx.fillStyle = "#00FF00";
+        canvasCtx.beginPath();
+        canvasCtx.arc(corner.x, corner.y, 5, 0, Math.PI * 2);
+        canvasCtx.fill();
+      });
 
-            // Update React state used by calibration UI
-            setHandPositions(positions);
+      // Draw key regions as a realistic piano keyboard:
+      // - White keys (with separators)
+      // - Black keys placed above gaps (skipped above E and B)
+      // - Pressed keys show a depressed shading and brighter highlight
+      const noteNames = ["C", "D", "E", "F", "G", "A", "B", "C", "D", "E"];
+
+      // Since we mirror the image when drawing, key regions need to be drawn mirrored
+      // keyRegions[0] (raw left) appears on visual right after image mirroring
+      // So we reverse the note index mapping to match visual layout
+      keyRegions.forEach((keyRegion, i) => {
+        // Reverse note index for display to match mirrored image
+        const visualKeyIndex = NUM_KEYS - 1 - keyRegion.noteIndex;
+        const isPressed = pressedKeys.has(visualKeyIndex);
+
+        // Flip key region coordinates for display (to match mirrored image)
+        const flippedX = canvasWidth - (keyRegion.x + keyRegion.width);
+        const flippedY = keyRegion.y;
+
+        // White key background (flipped coordinates)
+        canvasCtx.fillStyle = isPressed ? "#FFF7D6" : "#FFFFFF"; // slight warm tint when pressed
+        canvasCtx.fillRect(flippedX, flippedY, keyRegion.width, keyRegion.height);
+
+        // Key top highlight (subtle) to give a beveled look
+        const grad = canvasCtx.createLinearGradient(flippedX, flippedY, flippedX, flippedY + keyRegion.height);
+        grad.addColorStop(0, isPressed ? "rgba(255,255,255,0.6)" : "rgba(255,255,255,0.35)");
+        grad.addColorStop(1, "rgba(200,200,200,0.03)");
+        canvasCtx.fillStyle = grad;
+        canvasCtx.fillRect(flippedX, flippedY, keyRegion.width, Math.max(6, keyRegion.height * 0.12));
+
+        // Key border / separator lines
+        canvasCtx.strokeStyle = "#333";
+        canvasCtx.lineWidth = 1;
+        canvasCtx.beginPath();
+        // Left edge
+        canvasCtx.moveTo(flippedX, flippedY);
+        canvasCtx.lineTo(flippedX, flippedY + keyRegion.height);
+        // Right edge
+        canvasCtx.moveTo(flippedX + keyRegion.width, flippedY);
+        canvasCtx.lineTo(flippedX + keyRegion.width, flippedY + keyRegion.height);
+        canvasCtx.stroke();
+
+        // If pressed, draw a shadow to simulate depressed key
+        if (isPressed) {
+          canvasCtx.fillStyle = "rgba(0,0,0,0.08)";
+          canvasCtx.fillRect(flippedX + 2, flippedY + keyRegion.height * 0.55, keyRegion.width - 4, keyRegion.height * 0.45);
+        }
 
-            canvasCtx.restore();
-          });
+        // Draw note label at bottom-center of key (text not mirrored, reads correctly)
+        canvasCtx.fillStyle = "#000000";
+        canvasCtx.font = "bold 14px Arial";
+        canvasCtx.textAlign = "center";
+        canvasCtx.fillText(noteNames[visualKeyIndex], flippedX + keyRegion.width / 2, flippedY + keyRegion.height - 10);
+      });
 
-          handsRef.current = hands;
-        } catch (error) {
-          console.error("Error initializing MediaPipe Hands:", error);
-        }
-      };
+      // Then draw black keys on top where appropriate
+      // Black keys sit between white keys except after E and B
+      // Note: Iterate in reverse to match the visual key order after mirroring
+      for (let i = keyRegions.length - 2; i >= 0; i--) {
+        const left = keyRegions[i + 1]; // Note: swapped due to reverse iteration
+        const right = keyRegions[i];
+        // Use visual note index
+        const visualNoteIndex = NUM_KEYS - 1 - i;
+        const note = noteNames[visualNoteIndex];
+        // No black key after E or B
+        if (note === "E" || note === "B") continue;
+
+        // Position black key (flip coordinates to match mirrored image)
+        const blackWidth = Math.round(Math.min(left.width, right.width) * 0.6);
+        const blackHeight = Math.round(left.height * 0.62);
+        const flippedLeftX = canvasWidth - (left.x + left.width);
+        const blackX = Math.round(flippedLeftX + left.width * 0.34); // Adjusted for flipped coordinates
+        const blackY = left.y;
+
+        // See if the black key is currently pressed by checking if any active key maps to the right adjacent white key
+        // (approximate: if finger is over the gap, we'll still show the black key as available)
+        const isPressed = false; // keep black keys visual-only; paper touch still triggers white keys
+
+        canvasCtx.fillStyle = "#000000";
+        canvasCtx.fillRect(blackX, blackY, blackWidth, blackHeight);
+
+        // Slight highlight on black key
+        const bGrad = canvasCtx.createLinearGradient(blackX, blackY, blackX, blackY + blackHeight);
+        bGrad.addColorStop(0, "rgba(255,255,255,0.04)");
+        bGrad.addColorStop(1, "rgba(0,0,0,0.6)");
+        canvasCtx.fillStyle = bGrad;
+        canvasCtx.fillRect(blackX, blackY, blackWidth, blackHeight);
+      }
 
-      checkAndInit();
+      // Draw a subtle paper border on top of keys to keep the look cohesive
+      canvasCtx.strokeStyle = "rgba(100,100,100,0.4)";
+      canvasCtx.lineWidth = 2;
+      canvasCtx.strokeRect(topLeft.x, topLeft.y, topRight.x - topLeft.x, bottomLeft.y - topLeft.y);
     };
 
-    initHands();
-
-    return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach((track) => track.stop());
-        streamRef.current = null;
-      }
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-      }
+    // Process piano key presses (only when paper is detected, otherwise there are no keys)
+    const keys = paperDetectorRef.current?.isDetected()
+      ? buildPianoKeys(paperDetectorRef.current.getKeyRegions())
+      : [];
+    motionDetector?.setZones(keys.map((key) => key.zone));
+    const events = motionDetector?.process(frame) ?? [];
+    for (const event of events) {
+      const key = keys.find((k) => k.zone.id === event.zoneId);
+      if (!key) continue;
+      const keyIndex = key.keyIndex;
+
+      // Play the piano note; how fast the finger is moving decides how hard the key is struck
       if (pianoRef.current) {
-        pianoRef.current.dispose();
+        const noteName = pianoRef.current.getNotes()[keyIndex];
+        const velocity = speedToVelocity(event.velocity.magnitude, SOFT_PRESS_SPEED, HARD_PRESS_SPEED);
+        console.log(`🎹 ✅ TRIGGER: Playing key ${keyIndex} (${noteName}) velocity=${velocity.toFixed(2)}`);
+        pianoRef.current.playNote(keyIndex, velocity);
+
+        SessionRecorder.getInstance().recordSoundEvent({
+          type: "piano",
+          noteIndex: keyIndex,
+          velocity,
+        });
+
+        // Send sound event to peers if peerManager is available
+        if (peerManager) {
+          try {
+            console.log('📤 Sending piano sound event to peers:', { type: 'piano', noteIndex: keyIndex, velocity });
+            peerManager.sendSoundEvent({
+              type: 'piano',
+              noteIndex: keyIndex,
+              velocity,
+            });
+            console.log('✅ Piano sound event sent successfully');
+          } catch (error) {
+            console.error('❌ Failed to send piano sound event:', error);
+          }
+        }
+      } else {
+        console.error("❌ Piano ref is null!");
       }
-    };
-  }, []);
+    }
 
-  const processFrame = async () => {
-    if (!videoRef.current || !handsRef.current) return;
+    // Keys held down right now (drawn depressed)
+    const touched = motionDetector?.getTouchedZones() ?? new Set<string>();
+    const pressedKeys = new Set(
+      keys.filter((key) => touched.has(key.zone.id)).map((key) => key.keyIndex)
+    );
+
+    canvasCtx.save();
+    canvasCtx.clearRect(
+      0,
+      0,
+      canvasRef.current.width,
+      canvasRef.current.height
+    );
+
+    // Mirror the camera image (like air-drums) so the view feels natural
+    // This way text and overlays remain readable (not mirrored)
+    canvasCtx.save();
+    canvasCtx.translate(canvasRef.current.width, 0);
+    canvasCtx.scale(-1, 1);
+    canvasCtx.drawImage(
+      frame.image,
+      0,
+      0,
+      canvasRef.current.width,
+      canvasRef.current.height
+    );
+    canvasCtx.restore();
+
+    // Try automatic paper detection periodically (every 60 frames = ~2 seconds at 30fps)
+    // Edge detection is expensive, so run less frequently
+    if (!paperDetectorRef.current?.isDetected()) {
+      detectionFrameCountRef.current++;
+      if (detectionFrameCountRef.current % 60 === 0) {
+        try {
+          // Get image data from the current frame
+          const imageData = canvasCtx.getImageData(0, 0, canvasWidth, canvasHeight);
+          const detected = paperDetectorRef.current?.detectPaper(imageData, canvasWidth, canvasHeight);
+          if (detected) {
+            setPaperDetected(true);
+            console.log("✅ Paper detected automatically! Key regions:", paperDetectorRef.current?.getKeyRegions().length);
+          } else {
+            console.log("⏳ Detection attempt", detectionFrameCountRef.current / 30, "- no paper found yet");
+          }
+        } catch (error) {
+          console.error("❌ Detection error:", error);
+        }
+      }
+    }
+
+    // Draw paper piano (paper outline and key regions)
+    drawPaperPiano();
+
+    // Draw hand landmarks and highlight index finger
+    if (frame.hands.length > 0) {
+      frame.hands.forEach(({ landmarks }) => {
+        // Draw connections - flip coordinates to match mirrored image
+        drawConnections(canvasCtx, landmarks, HAND_CONNECTIONS, canvasWidth, true);
+
+        // Draw all landmarks - flip coordinates to match mirrored image
+        drawLandmarks(canvasCtx, landmarks, {
+          color: "#00FF00",
+          lineWidth: 2,
+        }, canvasWidth, true);
+
+        // Highlight index finger tip (landmark 8) - the "piano finger"
+        const indexTipLandmark = landmarks[8];
+        const indexTipZ = indexTipLandmark.z || 0;
+
+        // Flip coordinates to match mirrored image display
+        const indexTip = toPixelCoords(indexTipLandmark.x, indexTipLandmark.y);
+
+        // Get key if paper is detected (this is just for visualization display)
+        // Note: Actual key detection happens in the processing loop above using raw coordinates
+        let keyIndex: number | null = null;
+        let isClose = false;
+        if (paperDetectorRef.current?.isDetected()) {
+          // For display, we need to convert back to raw coordinates for detection
+          const rawFingerX = indexTipLandmark.x * canvasWidth;
+          const rawFingerY = indexTipLandmark.y * canvasHeight;
+          const rawKeyIndex = paperDetectorRef.current.getKeyAtPosition(rawFingerX, rawFingerY);
+          // Mirror the key index to match visual layout
+          keyIndex = rawKeyIndex !== null ? NUM_KEYS - 1 - rawKeyIndex : null;
+          isClose = indexTipZ < Z_TOUCH_THRESHOLD;
+        }
 
-    if (videoRef.current.readyState === videoRef.current.HAVE_ENOUGH_DATA) {
-      await handsRef.current.send({ image: videoRef.current });
+        // Draw index finger tip with special highlight (using flipped coordinates)
+        canvasCtx.fillStyle = isClose ? "#FF0000" : "#FFFF00";
+        canvasCtx.beginPath();
+        canvasCtx.arc(indexTip.x, indexTip.y, 12, 0, Math.PI * 2);
+        canvasCtx.fill();
+        canvasCtx.strokeStyle = "#FFFFFF";
+        canvasCtx.lineWidth = 2;
+        canvasCtx.stroke();
+
+        // Draw line from finger to hitbox circle if over paper (like reference project)
+        if (keyIndex !== null && paperDetectorRef.current?.isDetected()) {
+          const keyRegions = paperDetectorRef.current.getKeyRegions();
+          // Use raw key index to get the correct key region position (keyIndex is visual, need raw)
+          const rawKeyIndex = NUM_KEYS - 1 - keyIndex;
+          const keyRegion = keyRegions[rawKeyIndex];
+
+          // Flip hitbox center coordinates to match mirrored image
+          const flippedHitboxX = canvasWidth - keyRegion.hitboxCenterX;
+
+          // Draw line from finger to hitbox center (both in flipped coordinates)
+          canvasCtx.strokeStyle = isClose ? "rgba(0, 255, 0, 0.8)" : "rgba(255, 255, 255, 0.3)";
+          canvasCtx.lineWidth = isClose ? 3 : 2;
+          canvasCtx.setLineDash(isClose ? [] : [5, 5]);
+          canvasCtx.beginPath();
+          canvasCtx.moveTo(indexTip.x, indexTip.y);
+          canvasCtx.lineTo(flippedHitboxX, keyRegion.hitboxCenterY);
+          canvasCtx.stroke();
+          canvasCtx.setLineDash([]);
+        }
+
+        // Show key and Z-depth info
+        if (paperDetectorRef.current?.isDetected()) {
+          canvasCtx.fillStyle = "#FFFFFF";
+          canvasCtx.font = "bold 14px Arial";
+          canvasCtx.textAlign = "left";
+          const noteNames = ["C", "D", "E", "F", "G", "A", "B", "C", "D", "E"];
+          if (keyIndex !== null) {
+            canvasCtx.fillText(
+              `Key: ${noteNames[keyIndex]} ${isClose ? "(TOUCHING)" : ""}`,
+              indexTip.x + 15,
+              indexTip.y - 20
+            );
+          }
+          canvasCtx.fillText(
+            `Z: ${indexTipZ.toFixed(3)} ${isClose ? "✓ CLOSE" : "✗ FAR"}`,
+            indexTip.x + 15,
+            indexTip.y - 5
+          );
+          canvasCtx.fillText(
+            `Pos: (${indexTip.x.toFixed(0)}, ${indexTip.y.toFixed(0)})`,
+            indexTip.x + 15,
+            indexTip.y + 10
+          );
+        }
+      });
     }
 
-    if (streamRef.current) {
-      animationFrameRef.current = requestAnimationFrame(processFrame);
+    // Extract wrist positions and handedness for calibration guidance
+    const positions: {
+      left?: { x: number; y: number };
+      right?: { x: number; y: number };
+    } = {};
+    try {
+      for (const { landmarks, handedness } of frame.hands) {
+        const handednessLabel = handedness || "";
+        // MediaPipe: landmark 0 is wrist; x,y are normalized [0..1]
+        const wrist = landmarks[0];
+        // Canvas-based mirroring: we mirror the image when drawing
+        // MediaPipe labels hands based on camera view (which hand appears on which side in raw video)
+        // After mirroring: left side of raw video appears on right side visually, and vice versa
+        // MediaPipe's "Left" = appears on left in raw video = appears on right visually
+        // MediaPipe's "Right" = appears on right in raw video = appears on left visually
+        // So we need to swap the labels to match what user sees after mirroring
+        const visualX = 1 - (wrist.x ?? 0);
+        // Swap labels: MediaPipe's "Left" (raw left, visual right) -> positions.right
+        //              MediaPipe's "Right" (raw right, visual left) -> positions.left
+        if (handednessLabel.toLowerCase().includes("left")) {
+          // Subject's left hand (MediaPipe "Left") appears on visual right after mirroring
+          positions.right = { x: visualX, y: wrist.y };
+        } else if (handednessLabel.toLowerCase().includes("right")) {
+          // Subject's right hand (MediaPipe "Right") appears on visual left after mirroring
+          positions.left = { x: visualX, y: wrist.y };
+        }
+      }
+    } catch (err) {
+      // swallow any parsing errors
+      console.warn(
+        "Error parsing hand landmarks for calibration:",
+        err
+      );
     }
+
+    // Update React state used by calibration UI
+    setHandPositions(positions);
+
+    canvasCtx.restore();
+    drawBeatIndicator(canvasCtx, canvasWidth);
   };
 
-  const startCamera = async () => {
-    if (!videoRef.current || !handsRef.current) return;
+  const { isActive, startCamera: startTracking, stopCamera } = useMediaPipe(handleFrame);
 
+  const startCamera = async () => {
     try {
       // Initialize Tone.js audio context (requires user interaction)
       if (pianoRef.current) {
@@ -645,26 +516,7 @@ export default function PianoPlayer({ peerManager = null }: PianoPlayerProps = {
         console.error("❌ Piano ref is null in startCamera!");
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: "user",
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-        },
-      });
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-
-        videoRef.current.onloadedmetadata = () => {
-          if (videoRef.current) {
-            videoRef.current.play();
-            setIsActive(true);
-            processFrame();
-          }
-        };
-      }
+      await startTracking();
     } catch (error) {
       console.error("Error starting camera:", error);
       alert(
@@ -673,21 +525,6 @@ export default function PianoPlayer({ peerManager = null }: PianoPlayerProps = {
     }
   };
 
-  const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop());
-      streamRef.current = null;
-    }
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
-    setIsActive(false);
-  };
-
   // Handle manual detection trigger (press 'D' to force detection)
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -739,17 +576,11 @@ export default function PianoPlayer({ peerManager = null }: PianoPlayerProps = {
         </p>
 
         <div className="relative w-full max-w-2xl rounded-lg border-2 border-zinc-300 dark:border-zinc-700 overflow-hidden bg-black">
-          <video
-            ref={videoRef}
-            className="w-full h-auto transform scale-x-[-1]"
-            style={{ display: "none" }}
-            playsInline
-          />
           <canvas
             ref={canvasRef}
             className="w-full h-auto"
-            width={640}
-            height={480}
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
             style={{ background: "black" }}
           />
         </div>
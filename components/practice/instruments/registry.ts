@@ -0,0 +1,120 @@
+/**
+ * Instrument Registry
+ * The one list of instruments. Selectors, instructions, players, peer
+ * messages and remote playback are all driven from here, so adding an
+ * instrument means adding a definition module and listing it below.
+ */
+
+import { GM_PERCUSSION_CHANNEL } from "@/app/lib/midi/midi-notes";
+import type { InstrumentDefinition, InstrumentSoundEngine } from "./instrument-types";
+import { drums } from "./definitions/drums";
+import { piano } from "./definitions/piano";
+import { tambourine } from "./definitions/tambourine";
+import { triangle } from "./definitions/triangle";
+
+export const INSTRUMENTS = [drums, piano, tambourine, triangle] as const;
+
+type RegisteredInstrument = (typeof INSTRUMENTS)[number];
+
+export type Instrument = RegisteredInstrument["id"];
+
+// Union of every instrument's sound event schema
+export type SoundEvent =
+  RegisteredInstrument extends infer D
+    ? D extends InstrumentDefinition<string, infer E>
+      ? E
+      : never
+    : never;
+
+export const INSTRUMENT_IDS: Instrument[] = INSTRUMENTS.map(
+  (definition) => definition.id
+);
+
+export const DEFAULT_INSTRUMENT: Instrument = "drums";
+
+export function isInstrument(value: unknown): value is Instrument {
+  return INSTRUMENT_IDS.includes(value as Instrument);
+}
+
+export function getInstrument(id: Instrument): RegisteredInstrument {
+  return INSTRUMENTS.find((definition) => definition.id === id) ?? drums;
+}
+
+/**
+ * Validate a sound event received from a peer against its instrument's schema
+ */
+export function parseSoundEvent(value: unknown): SoundEvent | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { type } = value as { type?: unknown };
+  if (!isInstrument(type)) return null;
+  return getInstrument(type).parseSoundEvent(value);
+}
+
+/**
+ * Sound engines for every instrument, dispatching each event by its type
+ * @param output - Node they all play into (defaults to the local mixer strip)
+ */
+export function createSoundEngines(output?: AudioNode): InstrumentSoundEngine<SoundEvent> {
+  // Each engine only ever receives events of its own type, so the
+  // per-instrument event types can be widened to SoundEvent here
+  const engines = new Map(
+    INSTRUMENTS.map((definition) => [
+      definition.id,
+      definition.createSoundEngine(output) as InstrumentSoundEngine<SoundEvent>,
+    ])
+  );
+
+  return {
+    initialize: async () => {
+      await Promise.all([...engines.values()].map((engine) => engine.initialize()));
+    },
+    play: (event, delay) => engines.get(event.type)?.play(event, delay),
+    dispose: () => engines.forEach((engine) => engine.dispose()),
+  };
+}
+
+/**
+ * Stage zones that light up when a sound event plays
+ */
+export function getStageHitZoneIds(event: SoundEvent): string[] {
+  // The definition is looked up by the event's own type
+  const { stage } = getInstrument(event.type) as InstrumentDefinition<string, SoundEvent>;
+  return stage.getHitZoneIds(event);
+}
+
+/**
+ * MIDI note and default channel for a sound event (null if it has no note)
+ */
+export function getMidiNote(event: SoundEvent): { note: number; channel: number } | null {
+  // The definition is looked up by the event's own type
+  const { midi } = getInstrument(event.type) as InstrumentDefinition<string, SoundEvent>;
+  const note = midi.getNote(event);
+  return note === null ? null : { note, channel: midi.channel };
+}
+
+/**
+ * Sound event for an incoming MIDI note.
+ * Without a target instrument, channel 10 plays the percussion instruments
+ * (by GM note) and every other channel the melodic ones.
+ * @param velocity - Normalized 0..1
+ * @param channel - 1..16
+ */
+export function soundEventFromMidi(
+  note: number,
+  velocity: number,
+  channel: number,
+  target?: Instrument
+): SoundEvent | null {
+  const isPercussion = channel === GM_PERCUSSION_CHANNEL;
+  const candidates: readonly RegisteredInstrument[] = target
+    ? [getInstrument(target)]
+    : INSTRUMENTS.filter(
+        (definition) => (definition.midi.channel === GM_PERCUSSION_CHANNEL) === isPercussion
+      );
+
+  for (const definition of candidates) {
+    const event = definition.midi.parseNote(note, velocity);
+    if (event) return event;
+  }
+  return null;
+}
@@ -3,25 +3,34 @@
 import { useEffect, useState } from "react";
 import { Instrument } from "./instruments/instrument-types";
 import InstrumentSelector from "./instrument-selector";
+import DominantHandToggle from "./dominant-hand-toggle";
 import InstructionsPanel from "./instructions-panel";
-import AirDrumsPlayer from "./instruments/air-drums-player";
-import PianoPlayer from "./instruments/piano-player";
-import TambourinePlayer from "./instruments/tambourine-player";
-import TrianglePlayer from "./instruments/triangle-player";
+import RecordingTransport from "@/components/recording/recording-transport";
+import LooperPanel from "@/components/recording/looper-panel";
+import MetronomePanel from "@/components/metronome/metronome-panel";
+import MidiPanel from "@/components/midi/midi-panel";
+import MidiInputPanel from "@/components/midi/midi-input-panel";
+import { MidiOutput } from "@/app/lib/midi/midi-output";
+import { DEFAULT_INSTRUMENT, getInstrument, getMidiNote, isInstrument } from "./instruments/registry";
 
 export default function PracticeClient() {
-  const [selectedInstrument, setSelectedInstrument] = useState<Instrument>('drums');
+  const [selectedInstrument, setSelectedInstrument] = useState<Instrument>(DEFAULT_INSTRUMENT);
   const [mounted, setMounted] = useState(false);
 
   // Load saved instrument preference on mount
   useEffect(() => {
     setMounted(true);
     const saved = localStorage.getItem('selectedInstrument');
-    if (saved && ['drums', 'piano', 'tambourine', 'triangle'].includes(saved)) {
-      setSelectedInstrument(saved as Instrument);
+    if (isInstrument(saved)) {
+      setSelectedInstrument(saved);
     }
   }, []);
 
+  // MIDI out follows every hit, whether or not its panel is showing
+  useEffect(() => {
+    MidiOutput.getInstance().routeSoundEvents(getMidiNote);
+  }, []);
+
   // Save instrument preference whenever it changes
   useEffect(() => {
     if (mounted) {
@@ -33,6 +42,8 @@ export default function PracticeClient() {
     setSelectedInstrument(instrument);
   };
 
+  const { Player, Calibration } = getInstrument(selectedInstrument);
+
   return (
     <div className="w-full flex flex-col items-center gap-6">
       <InstrumentSelector
@@ -40,12 +51,22 @@ export default function PracticeClient() {
         onInstrumentChange={handleInstrumentChange}
       />
 
+      <DominantHandToggle />
+
       <InstructionsPanel instrument={selectedInstrument} />
 
-      {selectedInstrument === 'drums' && <AirDrumsPlayer />}
-      {selectedInstrument === 'piano' && <PianoPlayer />}
-      {selectedInstrument === 'tambourine' && <TambourinePlayer />}
-      {selectedInstrument === 'triangle' && <TrianglePlayer />}
+      <Player key={selectedInstrument} Calibration={Calibration} />
+
+      <MetronomePanel />
+
+      {/* Lives outside the player so loops survive instrument switches */}
+      <LooperPanel instrument={selectedInstrument} />
+
+      <RecordingTransport instrument={selectedInstrument} />
+
+      <MidiInputPanel />
+
+      <MidiPanel />
     </div>
   );
 }
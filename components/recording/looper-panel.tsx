@@ -0,0 +1,303 @@
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { Repeat, Square, Undo2, Trash2, Volume2, VolumeX } from "lucide-react";
+import { useMediaPipe } from "@/app/hooks/useMediaPipe";
+import { getHandPose, PoseHold } from "@/app/lib/motion/hand-pose";
+import { DominantHandPreference, otherHand, type DominantHand } from "@/app/lib/motion/dominant-hand";
+import { Looper, LooperState } from "@/app/lib/recording/looper";
+import { Metronome } from "@/app/lib/sound/metronome";
+import { isLocalSource, SessionRecorder } from "@/app/lib/recording/session-recorder";
+import type { SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { HandTrackingFrame } from "@/app/types/mediapipe";
+import { Handedness } from "@/app/types/motion";
+import { Instrument, InstrumentSoundEngine } from "@/components/practice/instruments/instrument-types";
+import { createSoundEngines, getInstrument } from "@/components/practice/instruments/registry";
+
+const STATE_LABELS: Record<LooperState, string> = {
+  empty: "Empty",
+  recording: "⏺️ Recording",
+  playing: "▶️ Playing",
+  overdubbing: "⏺️ Overdubbing",
+  stopped: "⏹️ Stopped",
+};
+
+const TOGGLE_LABELS: Record<LooperState, string> = {
+  empty: "Record",
+  recording: "Play",
+  playing: "Overdub",
+  overdubbing: "Play",
+  stopped: "Play",
+};
+
+const HAND_LABELS: Record<DominantHand, Handedness> = {
+  left: "Left",
+  right: "Right",
+};
+
+const QUANTIZE_OPTIONS = [
+  { stepsPerBeat: 0, label: "Off" },
+  { stepsPerBeat: 2, label: "1/8" },
+  { stepsPerBeat: 4, label: "1/16" },
+];
+
+interface LooperPanelProps {
+  instrument: Instrument; // the one being played, whose hands the gestures mustn't clash with
+}
+
+/**
+ * Multi-layer looper, controlled with buttons or hand poses on the control hand:
+ * hold a fist to record / play / overdub, an open palm to stop, a pinch to undo.
+ * The control hand is the free one, or for instruments held in a fist, the
+ * playing hand (between hits).
+ */
+export default function LooperPanel({ instrument }: LooperPanelProps) {
+  const enginesRef = useRef<InstrumentSoundEngine<SoundEvent> | null>(null);
+  const enginesReadyRef = useRef<Promise<void> | null>(null);
+  const [looper] = useState(() => new Looper());
+  const snapshot = useSyncExternalStore(looper.subscribe, looper.getSnapshot, looper.getSnapshot);
+
+  const [gesturesEnabled, setGesturesEnabled] = useState(true);
+  // The control hand is the one not playing (the playing one if the other
+  // holds the instrument), unless picked by hand; a pick made for the other
+  // handedness is dropped when the preference changes
+  const { holdsWithFist = false } = getInstrument(instrument);
+  const preference = DominantHandPreference.getInstance();
+  const { hand: dominantHand } = useSyncExternalStore(
+    preference.subscribe,
+    preference.getSnapshot,
+    preference.getSnapshot
+  );
+  const [controlPick, setControlPick] = useState<{ dominantHand: DominantHand; hand: Handedness } | null>(null);
+  const controlHand: Handedness =
+    controlPick?.dominantHand === dominantHand
+      ? controlPick.hand
+      : HAND_LABELS[holdsWithFist ? dominantHand : otherHand(dominantHand)];
+  const [position, setPosition] = useState(0);
+  const fistHoldRef = useRef(new PoseHold());
+  const pinchHoldRef = useRef(new PoseHold());
+  const openHoldRef = useRef(new PoseHold());
+
+  // Local hits feed the looper, which plays back through its own engines
+  useEffect(() => {
+    looper.setSink({ play: (event) => enginesRef.current?.play(event) });
+    const unsubscribe = SessionRecorder.getInstance().onSoundEvent((event, source) => {
+      if (isLocalSource(source)) looper.handleSoundEvent(event);
+    });
+    return () => {
+      unsubscribe();
+      looper.setSink(null);
+      looper.dispose();
+      enginesRef.current?.dispose();
+      enginesRef.current = null;
+      enginesReadyRef.current = null;
+    };
+  }, [looper]);
+
+  // Loop progress bar
+  const isRunning = snapshot.state !== "empty" && snapshot.state !== "stopped";
+  useEffect(() => {
+    if (!isRunning) return;
+    let frame = 0;
+    const update = () => {
+      setPosition(looper.getPosition());
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [isRunning, looper]);
+
+  const ensureEngines = () => {
+    if (!enginesReadyRef.current) {
+      enginesRef.current = createSoundEngines();
+      enginesReadyRef.current = enginesRef.current.initialize().catch((error) => {
+        console.error("❌ Failed to initialize looper sounds:", error);
+      });
+    }
+    return enginesReadyRef.current;
+  };
+
+  // The loop follows the shared metronome's tempo and meter
+  const metronome = Metronome.getInstance();
+  const { settings: tempo } = useSyncExternalStore(
+    metronome.subscribe,
+    metronome.getSnapshot,
+    metronome.getSnapshot
+  );
+  useEffect(() => {
+    // The looper counts in metronome beats (eighths in 6/8)
+    looper.setOptions({
+      bpm: (tempo.bpm * tempo.beatUnit) / 4,
+      beatsPerBar: tempo.beatsPerBar,
+    });
+  }, [looper, tempo.bpm, tempo.beatsPerBar, tempo.beatUnit]);
+
+  /**
+   * performance.now() time of the metronome's latest downbeat, so loops start on the bar
+   */
+  const getBarStart = (): number | undefined => {
+    const beat = metronome.getCurrentBeat();
+    if (!beat || beat.isCountIn) return undefined;
+    const barTime = beat.time - beat.beatInBar * metronome.getBeatDuration();
+    return performance.now() + (barTime - metronome.getContext().currentTime) * 1000;
+  };
+
+  const handleToggle = () => {
+    ensureEngines();
+    looper.toggle(getBarStart());
+  };
+
+  useMediaPipe((frame: HandTrackingFrame) => {
+    if (!gesturesEnabled) return;
+    const hand = frame.hands.find((candidate) => candidate.handedness === controlHand);
+    const pose = hand ? getHandPose(hand.landmarks) : "none";
+
+    if (fistHoldRef.current.update(pose === "fist", frame.timestamp)) {
+      console.log("✊ Looper gesture: toggle");
+      handleToggle();
+    }
+    if (pinchHoldRef.current.update(pose === "pinch", frame.timestamp)) {
+      console.log("🤏 Looper gesture: undo");
+      looper.undo();
+    }
+    if (openHoldRef.current.update(pose === "open", frame.timestamp)) {
+      console.log("✋ Looper gesture: stop");
+      looper.stop();
+    }
+  });
+
+  const locked = snapshot.state !== "empty";
+  const progress = snapshot.loopLength > 0 ? (position / snapshot.loopLength) * 100 : 0;
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Repeat className="w-4 h-4" /> Looper
+        </h3>
+        <span className="text-sm text-gray-600 dark:text-gray-300">{STATE_LABELS[snapshot.state]}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+        <span>
+          {tempo.bpm} BPM · {tempo.beatsPerBar}/{tempo.beatUnit} (from the metronome)
+        </span>
+        <label className="flex items-center gap-2">
+          Bars
+          <select
+            value={snapshot.bars}
+            disabled={locked}
+            onChange={(e) => looper.setOptions({ bars: Number(e.target.value) })}
+            className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+          >
+            {[1, 2, 4, 8].map((bars) => (
+              <option key={bars} value={bars}>
+                {bars}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Quantize
+          <select
+            value={snapshot.stepsPerBeat}
+            onChange={(e) => looper.setOptions({ stepsPerBeat: Number(e.target.value) })}
+            className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+          >
+            {QUANTIZE_OPTIONS.map(({ stepsPerBeat, label }) => (
+              <option key={stepsPerBeat} value={stepsPerBeat}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="w-full h-2 rounded bg-zinc-100 dark:bg-zinc-800 overflow-hidden">
+        <div
+          className={`h-full ${snapshot.state === "playing" ? "bg-green-500" : "bg-red-500"}`}
+          style={{ width: `${isRunning ? progress : 0}%` }}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleToggle}
+          className="flex h-10 items-center justify-center gap-2 rounded-full bg-zinc-800 px-6 font-medium text-white transition-colors hover:bg-zinc-700"
+        >
+          {TOGGLE_LABELS[snapshot.state]}
+        </button>
+        <button
+          onClick={() => looper.stop()}
+          disabled={!isRunning}
+          className="flex h-10 w-10 items-center justify-center rounded-full bg-zinc-100 dark:bg-zinc-800 disabled:opacity-50"
+          aria-label="Stop loop"
+        >
+          <Square className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => looper.undo()}
+          disabled={snapshot.state === "empty"}
+          className="flex h-10 w-10 items-center justify-center rounded-full bg-zinc-100 dark:bg-zinc-800 disabled:opacity-50"
+          aria-label="Undo last layer"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => looper.clear()}
+          disabled={snapshot.state === "empty"}
+          className="flex h-10 w-10 items-center justify-center rounded-full bg-zinc-100 dark:bg-zinc-800 disabled:opacity-50"
+          aria-label="Clear loop"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={gesturesEnabled}
+            onChange={(e) => setGesturesEnabled(e.target.checked)}
+          />
+          Gesture control
+        </label>
+        <label className="flex items-center gap-2">
+          Control hand
+          <select
+            value={controlHand}
+            onChange={(e) => setControlPick({ dominantHand, hand: e.target.value as Handedness })}
+            className="rounded border border-zinc-300 dark:border-zinc-600 bg-transparent px-2 py-1"
+          >
+            <option value="Left">Left</option>
+            <option value="Right">Right</option>
+          </select>
+        </label>
+        <span className="text-xs">✊ hold: record / overdub · ✋ hold: stop · 🤏 hold: undo</span>
+      </div>
+
+      {snapshot.layers.length > 0 && (
+        <ul className="flex flex-col gap-1">
+          {snapshot.layers.map((layer, index) => (
+            <li
+              key={layer.id}
+              className="flex items-center justify-between rounded-md px-3 py-2 text-sm bg-zinc-50 dark:bg-zinc-800"
+            >
+              <span className={layer.muted ? "opacity-50" : ""}>
+                Layer {index + 1}: {layer.instruments.map((id) => getInstrument(id).label).join(", ")}
+                <span className="text-xs text-gray-500"> · {layer.eventCount} hits</span>
+              </span>
+              <button
+                onClick={() => looper.toggleMute(layer.id)}
+                className="p-1 text-gray-500 hover:text-black dark:hover:text-white"
+                aria-label={layer.muted ? "Unmute layer" : "Mute layer"}
+              >
+                {layer.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { Circle, Pause, Play, Square, Trash2 } from "lucide-react";
+import { SessionRecorder } from "@/app/lib/recording/session-recorder";
+import { TakePlayer } from "@/app/lib/recording/take-player";
+import { deleteTake, getTake, listTakes, saveTake } from "@/app/lib/recording/take-store";
+import type { Instrument, SoundEvent } from "@/app/lib/webrtc/peer-manager";
+import { RecordedHandFrame, TakeSummary } from "@/app/types/recording";
+import { InstrumentSoundEngine } from "@/components/practice/instruments/instrument-types";
+import { createSoundEngines, getInstrument, isInstrument } from "@/components/practice/instruments/registry";
+
+const PREVIEW_WIDTH = 160;
+const PREVIEW_HEIGHT = 120;
+
+const subscribeRecording = (onChange: () => void) =>
+  SessionRecorder.getInstance().onStatusChange(onChange);
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+interface RecordingTransportProps {
+  instrument?: Instrument;
+}
+
+/**
+ * Record / play back takes of the current session.
+ * Takes are stored in IndexedDB and played through the instrument sound engines.
+ */
+export default function RecordingTransport({ instrument }: RecordingTransportProps) {
+  const isRecording = useSyncExternalStore(
+    subscribeRecording,
+    () => SessionRecorder.getInstance().isRecording(),
+    () => false
+  );
+  const [captureHands, setCaptureHands] = useState(false);
+  const [takes, setTakes] = useState<TakeSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+
+  const enginesRef = useRef<InstrumentSoundEngine<SoundEvent> | null>(null);
+  const enginesReadyRef = useRef<Promise<void> | null>(null);
+  const playerRef = useRef<TakePlayer | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const selectedTake = takes.find((take) => take.id === selectedId) ?? null;
+
+  const refreshTakes = useCallback(async () => {
+    try {
+      setTakes(await listTakes());
+    } catch (error) {
+      console.error("❌ Failed to load takes:", error);
+    }
+  }, []);
+
+  const drawHandFrame = useCallback((frame: RecordedHandFrame) => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.fillStyle = "black";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    frame.hands.forEach((hand) => {
+      ctx.fillStyle = hand.handIndex === 0 ? "#4ECDC4" : "#FF6B6B";
+      hand.landmarks.forEach((landmark) => {
+        // Mirrored, like the live view
+        const x = (1 - landmark.x) * canvas.width;
+        const y = landmark.y * canvas.height;
+        ctx.beginPath();
+        ctx.arc(x, y, 2, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    });
+  }, []);
+
+  useEffect(() => {
+    playerRef.current = new TakePlayer(
+      { play: (event) => enginesRef.current?.play(event) },
+      {
+        onHandFrame: drawHandFrame,
+        onEnd: () => {
+          setIsPlaying(false);
+          setPosition(playerRef.current?.getPosition() ?? 0);
+        },
+      }
+    );
+    listTakes()
+      .then(setTakes)
+      .catch((error) => console.error("❌ Failed to load takes:", error));
+
+    return () => {
+      playerRef.current?.dispose();
+      playerRef.current = null;
+      enginesRef.current?.dispose();
+      enginesRef.current = null;
+      enginesReadyRef.current = null;
+    };
+  }, [drawHandFrame]);
+
+  // Drive the position / elapsed readouts while something is running
+  useEffect(() => {
+    if (!isPlaying && !isRecording) return;
+    let frame = 0;
+    const update = () => {
+      if (isRecording) setElapsed(SessionRecorder.getInstance().getElapsed());
+      if (isPlaying) setPosition(playerRef.current?.getPosition() ?? 0);
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, isRecording]);
+
+  const ensureEngines = () => {
+    if (!enginesReadyRef.current) {
+      enginesRef.current = createSoundEngines();
+      enginesReadyRef.current = enginesRef.current.initialize();
+    }
+    return enginesReadyRef.current;
+  };
+
+  const handleRecordToggle = async () => {
+    const recorder = SessionRecorder.getInstance();
+    if (!recorder.isRecording()) {
+      recorder.start({ instrument, captureHands });
+      return;
+    }
+
+    const take = recorder.stop();
+    if (!take) return;
+    try {
+      await saveTake(take);
+      await refreshTakes();
+      setSelectedId(take.id);
+      setPosition(0);
+    } catch (error) {
+      console.error("❌ Failed to save take:", error);
+    }
+  };
+
+  const handleSelect = (id: string) => {
+    playerRef.current?.stop();
+    setIsPlaying(false);
+    setPosition(0);
+    setSelectedId(id);
+  };
+
+  const handlePlay = async () => {
+    const player = playerRef.current;
+    if (!player || !selectedId) return;
+
+    try {
+      await ensureEngines();
+      if (player.getTake()?.id !== selectedId) {
+        const take = await getTake(selectedId);
+        if (!take) return;
+        player.load(take);
+        player.seek(position);
+      }
+      player.play();
+      setIsPlaying(true);
+    } catch (error) {
+      console.error("❌ Failed to play take:", error);
+    }
+  };
+
+  const handlePause = () => {
+    playerRef.current?.pause();
+    setIsPlaying(false);
+  };
+
+  const handleStop = () => {
+    playerRef.current?.stop();
+    setIsPlaying(false);
+    setPosition(0);
+  };
+
+  const handleSeek = (value: number) => {
+    playerRef.current?.seek(value);
+    setPosition(value);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (selectedId === id) {
+      playerRef.current?.dispose();
+      setIsPlaying(false);
+      setPosition(0);
+      setSelectedId(null);
+    }
+    try {
+      await deleteTake(id);
+      await refreshTakes();
+    } catch (error) {
+      console.error("❌ Failed to delete take:", error);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold">Recording</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={captureHands}
+            disabled={isRecording}
+            onChange={(e) => setCaptureHands(e.target.checked)}
+          />
+          Capture hand tracking
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRecordToggle}
+          className={`flex h-10 items-center justify-center gap-2 rounded-full px-6 font-medium text-white transition-colors ${
+            isRecording ? "bg-red-600 hover:bg-red-700" : "bg-zinc-800 hover:bg-zinc-700"
+          }`}
+        >
+          {isRecording ? <Square className="w-4 h-4" /> : <Circle className="w-4 h-4 text-red-500" />}
+          {isRecording ? `Stop (${formatTime(elapsed)})` : "Record"}
+        </button>
+
+        <button
+          onClick={isPlaying ? handlePause : handlePlay}
+          disabled={!selectedTake || isRecording}
+          className="flex h-10 w-10 items-center justify-center rounded-full bg-zinc-100 dark:bg-zinc-800 disabled:opacity-50"
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={handleStop}
+          disabled={!selectedTake}
+          className="flex h-10 w-10 items-center justify-center rounded-full bg-zinc-100 dark:bg-zinc-800 disabled:opacity-50"
+          aria-label="Stop"
+        >
+          <Square className="w-4 h-4" />
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={selectedTake?.duration ?? 0}
+          step={10}
+          value={Math.min(position, selectedTake?.duration ?? 0)}
+          disabled={!selectedTake}
+          onChange={(e) => handleSeek(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="text-xs font-mono text-gray-600 dark:text-gray-300">
+          {formatTime(position)} / {formatTime(selectedTake?.duration ?? 0)}
+        </span>
+      </div>
+
+      {selectedTake?.hasHandFrames && (
+        <canvas
+          ref={previewRef}
+          width={PREVIEW_WIDTH}
+          height={PREVIEW_HEIGHT}
+          className="rounded bg-black self-center"
+        />
+      )}
+
+      {takes.length === 0 ? (
+        <p className="text-xs text-gray-500">No takes yet. Press Record and play something.</p>
+      ) : (
+        <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+          {takes.map((take) => (
+            <li
+              key={take.id}
+              className={`flex items-center justify-between gap-2 rounded-md px-3 py-2 text-sm cursor-pointer ${
+                take.id === selectedId
+                  ? "bg-blue-50 dark:bg-blue-950/30"
+                  : "hover:bg-zinc-100 dark:hover:bg-zinc-800"
+              }`}
+              onClick={() => handleSelect(take.id)}
+            >
+              <div>
+                <div className="font-medium">{take.name}</div>
+                <div className="text-xs text-gray-500">
+                  {isInstrument(take.instrument) ? getInstrument(take.instrument).label : "Session"}
+                  {" · "}
+                  {formatTime(take.duration)} · {take.eventCount} hits
+                  {take.hasHandFrames && " · hands"}
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(take.id);
+                }}
+                className="p-1 text-gray-500 hover:text-red-600"
+                aria-label="Delete take"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useEffect } from "react";
+import { SERVICE_WORKER_URL } from "@/app/lib/utils/config";
+
+/**
+ * Registers the offline cache service worker (public/sw.js).
+ * Production only: in dev the cache-first rules would serve stale HMR chunks.
+ */
+export function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,108 @@
+// Offline cache for Airstrument.
+// - MediaPipe runtime, sounds, images and Next.js build chunks: cache-first
+//   (they are versioned or never change at runtime)
+// - Pages: network-first, falling back to the last cached copy
+// Bump CACHE_VERSION whenever the precache list or strategy changes.
+
+const CACHE_VERSION = "v1";
+const CACHE_NAME = `airstrument-${CACHE_VERSION}`;
+
+const HANDS_PATH = "/mediapipe/hands/";
+
+// Everything the default tracker config (modelComplexity 1, SIMD) loads,
+// plus the pages people open first.
+const PRECACHE_URLS = [
+  "/",
+  "/practice",
+  "/jam",
+  `${HANDS_PATH}hands.js`,
+  `${HANDS_PATH}hands.binarypb`,
+  `${HANDS_PATH}hand_landmark_full.tflite`,
+  `${HANDS_PATH}hands_solution_packed_assets.data`,
+  `${HANDS_PATH}hands_solution_packed_assets_loader.js`,
+  `${HANDS_PATH}hands_solution_simd_wasm_bin.data`,
+  `${HANDS_PATH}hands_solution_simd_wasm_bin.js`,
+  `${HANDS_PATH}hands_solution_simd_wasm_bin.wasm`,
+  "/sounds/ching.mp3",
+  "/sounds/tambourine-hit.mp3",
+  "/assets/bass.svg",
+  "/assets/crash.svg",
+  "/assets/hihat.svg",
+  "/assets/snare.svg",
+];
+
+const CACHE_FIRST_PREFIXES = [HANDS_PATH, "/sounds/", "/assets/", "/_next/static/"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      // Add one by one so a single missing file doesn't abort the install
+      Promise.all(
+        PRECACHE_URLS.map((url) =>
+          cache.add(url).catch((err) => {
+            console.warn("sw: failed to precache", url, err);
+          })
+        )
+      )
+    )
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("airstrument-") && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  // Leave cross-origin traffic (PeerJS signaling, CDNs) alone
+  if (url.origin !== self.location.origin) return;
+
+  if (CACHE_FIRST_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached =
+      (await caches.match(request)) || (await caches.match("/practice"));
+    if (cached) return cached;
+    throw err;
+  }
+}
@@ -0,0 +1,50 @@
+// Plays hits through the session recorder and checks what MIDI output sends
+// to a virtual port, so the headless stand-in can be verified without a
+// browser or a DAW. Run with `npm run check:midi`.
+import assert from "node:assert/strict";
+import { MidiOutput, type MidiNoteMapper } from "@/app/lib/midi/midi-output";
+import { formatMidiMessage, VirtualMidiPort } from "@/app/lib/midi/virtual-midi-port";
+import { SessionRecorder } from "@/app/lib/recording/session-recorder";
+
+const NOTE_LENGTH_MS = 20;
+
+// Snare on the GM drum channel, nothing else
+const getNote: MidiNoteMapper = (event) =>
+  event.type === "drums" && event.sound === "snare" ? { note: 38, channel: 10 } : null;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const port = new VirtualMidiPort("check", "Check port");
+  const received: string[] = [];
+  port.onMessage((data) => received.push(formatMidiMessage(data)));
+
+  const midi = new MidiOutput();
+  midi.addPort(port);
+  midi.updateSettings({ enabled: true, portId: port.id, noteLengthMs: NOTE_LENGTH_MS });
+  midi.routeSoundEvents(getNote);
+  midi.routeSoundEvents(getNote); // a second call must not double the notes
+
+  const recorder = SessionRecorder.getInstance();
+  recorder.recordSoundEvent({ type: "drums", sound: "snare", velocity: 1 });
+  recorder.recordSoundEvent({ type: "drums", sound: "kick", velocity: 1 }); // no note
+  recorder.recordSoundEvent({ type: "drums", sound: "snare", velocity: 1 }, "remote");
+  recorder.recordSoundEvent({ type: "drums", sound: "snare", velocity: 1 }, "midi");
+  assert.deepEqual(port.getMessages(), [[0x99, 38, 127]]);
+
+  await wait(NOTE_LENGTH_MS * 3);
+  assert.deepEqual(received, ["note-on ch10 38 vel 127", "note-off ch10 38"]);
+
+  // Peers' hits are sent once asked for
+  midi.updateSettings({ includeRemote: true });
+  recorder.recordSoundEvent({ type: "drums", sound: "snare", velocity: 0 }, "remote");
+  assert.equal(received.at(-1), "note-on ch10 38 vel 1");
+
+  midi.updateSettings({ enabled: false });
+  console.log("✅ MIDI output check passed:", received.length, "messages");
+}
+
+main().catch((error) => {
+  console.error("❌ MIDI output check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+// Copies the MediaPipe Hands runtime (wasm, tflite, loaders) from node_modules
+// into public/ so the app can serve it from its own origin and work offline.
+// Runs automatically after `npm install` and before `dev`/`build`.
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const source = join(root, "node_modules", "@mediapipe", "hands");
+const target = join(root, "public", "mediapipe", "hands");
+
+// Package metadata is not needed at runtime
+const SKIP = new Set(["package.json", "README.md", "index.d.ts"]);
+
+if (!existsSync(source)) {
+  console.warn("⚠️ @mediapipe/hands is not installed; skipping asset copy");
+  process.exit(0);
+}
+
+mkdirSync(target, { recursive: true });
+
+const files = readdirSync(source).filter((file) => !SKIP.has(file));
+for (const file of files) {
+  copyFileSync(join(source, file), join(target, file));
+}
+
+console.log(`✋ Copied ${files.length} MediaPipe Hands assets to public/mediapipe/hands`);
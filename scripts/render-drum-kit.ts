@@ -0,0 +1,219 @@
+// Renders the default drum kit shipped in public/sounds/kits/default/:
+// velocity layers and round-robin variations of snare, kick and hi-hat,
+// plus the kit.json manifest that lists them. The noise is seeded, so
+// re-running it writes the same files. Run with `npm run render:kit`.
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { SampleKitManifest } from "@/app/lib/sound/sample-kit";
+
+const KIT_DIR = path.join(process.cwd(), "public", "sounds", "kits", "default");
+const SAMPLE_RATE = 44100;
+const FADE_OUT_S = 0.01;
+
+// strength: how hard the layer is hit (0-1); peak: its loudest sample
+interface Layer {
+  name: string;
+  strength: number;
+  peak: number;
+  variations: number;
+}
+
+interface PieceSpec {
+  piece: string;
+  duration: number; // seconds
+  layers: Layer[];
+  createVoice: (strength: number, variation: Variation) => Voice;
+}
+
+// One sample's waveform, called for each t (seconds) in order
+type Voice = (t: number) => number;
+
+// Small per-file differences so repeated hits don't sound identical
+interface Variation {
+  pitch: number; // frequency multiplier
+  decay: number; // decay time multiplier
+  noise: () => number; // white noise, -1..1
+}
+
+/**
+ * Seeded PRNG (mulberry32), 0..1
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * One-pole lowpass, run sample by sample
+ */
+function createLowpass(cutoff: number): (x: number) => number {
+  const a = Math.exp((-2 * Math.PI * cutoff) / SAMPLE_RATE);
+  let y = 0;
+  return (x) => {
+    y = (1 - a) * x + a * y;
+    return y;
+  };
+}
+
+function createHighpass(cutoff: number): (x: number) => number {
+  const lowpass = createLowpass(cutoff);
+  return (x) => x - lowpass(x);
+}
+
+const square = (phase: number) => (Math.sin(phase) >= 0 ? 1 : -1);
+
+function kick(strength: number, { pitch, decay, noise }: Variation): Voice {
+  const click = createLowpass(3000 + 5000 * strength);
+  let phase = 0;
+  return (t) => {
+    // The head's pitch drops fast after the beater lands
+    const frequency = (45 + (110 + 40 * strength) * Math.exp(-t / 0.035)) * pitch;
+    phase += (2 * Math.PI * frequency) / SAMPLE_RATE;
+    const body = Math.sin(phase) * Math.exp(-t / ((0.18 + 0.12 * strength) * decay));
+    const beater = click(noise()) * Math.exp(-t / 0.003) * 0.5 * strength;
+    return body + beater;
+  };
+}
+
+function snare(strength: number, { pitch, decay, noise }: Variation): Voice {
+  const highpass = createHighpass(1500);
+  // Soft hits are darker
+  const lowpass = createLowpass(4000 + 8000 * strength);
+  return (t) => {
+    const head =
+      (Math.sin(2 * Math.PI * 185 * pitch * t) * 0.6 + Math.sin(2 * Math.PI * 330 * pitch * t) * 0.35) *
+      Math.exp(-t / (0.05 * decay));
+    const wires =
+      lowpass(highpass(noise())) * Math.exp(-t / ((0.09 + 0.08 * strength) * decay)) * (0.9 + 0.8 * strength);
+    const crack = noise() * Math.exp(-t / 0.004) * 0.6 * strength;
+    return head * 0.8 + wires + crack;
+  };
+}
+
+// Inharmonic square partials, as in classic analog hi-hats
+const HIHAT_PARTIALS = [205.3, 304.4, 369.6, 522.7, 540, 800].map((frequency) => frequency * 1.7);
+
+function hihat(strength: number, { pitch, decay, noise }: Variation): Voice {
+  const highpasses = [createHighpass(7000), createHighpass(7000)];
+  const lowpass = createLowpass(9000 + 9000 * strength);
+  return (t) => {
+    const metal =
+      HIHAT_PARTIALS.reduce((sum, frequency) => sum + square(2 * Math.PI * frequency * pitch * t), 0) /
+      HIHAT_PARTIALS.length;
+    const bright = highpasses.reduce((x, highpass) => highpass(x), metal + noise() * 0.3);
+    return lowpass(bright) * Math.exp(-t / ((0.025 + 0.02 * strength) * decay));
+  };
+}
+
+const PIECES: PieceSpec[] = [
+  {
+    piece: "snare",
+    duration: 0.4,
+    layers: [
+      { name: "soft", strength: 0.3, peak: 0.6, variations: 3 },
+      { name: "medium", strength: 0.65, peak: 0.75, variations: 3 },
+      { name: "hard", strength: 1, peak: 0.9, variations: 3 },
+    ],
+    createVoice: snare,
+  },
+  {
+    piece: "kick",
+    duration: 0.5,
+    layers: [
+      { name: "soft", strength: 0.4, peak: 0.7, variations: 2 },
+      { name: "hard", strength: 1, peak: 0.9, variations: 2 },
+    ],
+    createVoice: kick,
+  },
+  {
+    piece: "hihat",
+    duration: 0.15,
+    layers: [
+      { name: "soft", strength: 0.35, peak: 0.5, variations: 3 },
+      { name: "hard", strength: 1, peak: 0.7, variations: 3 },
+    ],
+    createVoice: hihat,
+  },
+];
+
+function renderSample(spec: PieceSpec, layer: Layer, random: () => number): Float32Array {
+  const variation: Variation = {
+    pitch: 1 + (random() - 0.5) * 0.06,
+    decay: 1 + (random() - 0.5) * 0.1,
+    noise: () => random() * 2 - 1,
+  };
+  const voice = spec.createVoice(layer.strength, variation);
+  const samples = new Float32Array(Math.floor(spec.duration * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = voice(i / SAMPLE_RATE);
+  }
+
+  // Normalize to the layer's level and fade the tail so it doesn't click
+  const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0) || 1;
+  const fadeLength = Math.floor(FADE_OUT_S * SAMPLE_RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const fade = Math.min(1, (samples.length - 1 - i) / fadeLength);
+    samples[i] = (samples[i] / peak) * layer.peak * fade;
+  }
+  return samples;
+}
+
+/**
+ * 16-bit mono PCM WAV
+ */
+function encodeWav(samples: Float32Array): Buffer {
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => {
+    data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 32767), i * 2);
+  });
+
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write("data", 36);
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+async function main() {
+  await mkdir(KIT_DIR, { recursive: true });
+  const random = createRandom(2025);
+  const manifest: SampleKitManifest = { name: "Default", pieces: {} };
+
+  for (const spec of PIECES) {
+    const layers: string[][] = [];
+    for (const layer of spec.layers) {
+      const files: string[] = [];
+      for (let variation = 1; variation <= layer.variations; variation++) {
+        const file = `${spec.piece}-${layer.name}-${variation}.wav`;
+        await writeFile(path.join(KIT_DIR, file), encodeWav(renderSample(spec, layer, random)));
+        files.push(file);
+      }
+      layers.push(files);
+    }
+    manifest.pieces[spec.piece] = { layers };
+  }
+
+  await writeFile(path.join(KIT_DIR, "kit.json"), JSON.stringify(manifest, null, 2) + "\n");
+  console.log("✅ Rendered the default drum kit to", path.relative(process.cwd(), KIT_DIR));
+}
+
+main().catch((error) => {
+  console.error("❌ Rendering the drum kit failed:", error);
+  process.exit(1);
+});
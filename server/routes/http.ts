@@ -0,0 +1,60 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { SessionManager } from '../services/session-manager';
+import type { EventBroadcaster } from '../services/event-broadcaster';
+import type { PeerSignalMessage } from '../types/signaling';
+
+/**
+ * HTTP routes
+ * GET /health     - liveness and counts
+ * GET /rooms      - open rooms (not password-protected ones)
+ * GET /rooms/:id  - one room and its members (just the summary for a password room)
+ */
+export function createHttpHandler(
+  sessions: SessionManager,
+  signaling: EventBroadcaster<PeerSignalMessage>
+) {
+  return (request: IncomingMessage, response: ServerResponse) => {
+    // The app is served from another origin
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+    if (request.method !== 'GET') {
+      sendJsonResponse(response, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    if (pathname === '/health') {
+      sendJsonResponse(response, 200, {
+        ok: true,
+        ...sessions.getStats(),
+        signalingPeers: signaling.size,
+      });
+      return;
+    }
+    if (pathname === '/rooms') {
+      sendJsonResponse(response, 200, { rooms: sessions.listRooms() });
+      return;
+    }
+    const match = /^\/rooms\/([^/]+)$/.exec(pathname);
+    if (match) {
+      const room = sessions.getPublicRoom(decodeURIComponent(match[1]));
+      if (room) {
+        sendJsonResponse(response, 200, { room });
+      } else {
+        sendJsonResponse(response, 404, { error: 'Room not found' });
+      }
+      return;
+    }
+    sendJsonResponse(response, 404, { error: 'Not found' });
+  };
+}
+
+function sendJsonResponse(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
@@ -0,0 +1,248 @@
+import type { IncomingMessage, Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { EventBroadcaster, sendJson } from '../services/event-broadcaster';
+import { RoomError, SessionManager } from '../services/session-manager';
+import type {
+  PeerSignalMessage,
+  RoomClientMessage,
+  RoomServerMessage,
+} from '../types/signaling';
+
+/**
+ * WebSocket routes
+ * /peerjs - PeerJS-compatible WebRTC signaling relay (offers, answers, ICE candidates)
+ * /rooms  - room creation, membership and peer discovery
+ */
+
+export const PEERJS_PATH = '/peerjs';
+export const ROOMS_PATH = '/rooms';
+
+// Dead connections are dropped after missing one keepalive round
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+// PeerJS signal types that are relayed to `dst`
+const RELAYED_SIGNALS = new Set(['OFFER', 'ANSWER', 'CANDIDATE', 'LEAVE', 'EXPIRE']);
+
+// Token each signaling socket registered with (a reconnect must present the same one)
+const tokens = new WeakMap<WebSocket, string>();
+
+export interface WebSocketServices {
+  sessions: SessionManager;
+  signaling: EventBroadcaster<PeerSignalMessage>;
+  rooms: EventBroadcaster<RoomServerMessage>;
+}
+
+/**
+ * Route WebSocket upgrades on the HTTP server to the signaling and room handlers
+ */
+export function attachWebSockets(server: Server, services: WebSocketServices): () => void {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on('upgrade', (request, socket, head) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    if (pathname !== PEERJS_PATH && pathname !== ROOMS_PATH) {
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      alive.set(ws, true);
+      ws.on('pong', () => alive.set(ws, true));
+      if (pathname === PEERJS_PATH) {
+        handleSignalingSocket(ws, request, services);
+      } else {
+        handleRoomSocket(ws, services);
+      }
+    });
+  });
+
+  const keepalive = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, KEEPALIVE_INTERVAL_MS);
+
+  return () => {
+    clearInterval(keepalive);
+    wss.clients.forEach((ws) => ws.terminate());
+    wss.close();
+  };
+}
+
+/**
+ * PeerJS signaling: register the peer id and relay messages between peers
+ */
+function handleSignalingSocket(
+  ws: WebSocket,
+  request: IncomingMessage,
+  { signaling }: WebSocketServices
+) {
+  const params = new URL(request.url ?? '/', 'http://localhost').searchParams;
+  const id = params.get('id');
+  const token = params.get('token') ?? '';
+  if (!id) {
+    sendJson(ws, { type: 'ERROR', payload: { msg: 'No id supplied' } });
+    ws.close();
+    return;
+  }
+
+  // The same peer reconnecting presents the same token
+  const existing = signaling.get(id);
+  if (existing && tokens.get(existing) !== token) {
+    sendJson(ws, { type: 'ID-TAKEN', payload: { msg: 'ID is taken' } });
+    ws.close();
+    return;
+  }
+  existing?.close();
+  tokens.set(ws, token);
+  signaling.register(id, ws);
+  sendJson(ws, { type: 'OPEN' });
+  console.log('🔌 Signaling peer connected:', id);
+
+  ws.on('message', (raw) => {
+    let message: PeerSignalMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (!message || typeof message.type !== 'string' || !RELAYED_SIGNALS.has(message.type)) {
+      return; // HEARTBEAT and anything unknown
+    }
+    if (typeof message.dst !== 'string') return;
+
+    const relayed = signaling.send(message.dst, {
+      type: message.type,
+      src: id,
+      dst: message.dst,
+      payload: message.payload,
+    });
+    // Tell the sender its target is gone so the connection attempt fails fast
+    if (!relayed && message.type !== 'LEAVE' && message.type !== 'EXPIRE') {
+      sendJson(ws, { type: 'EXPIRE', src: message.dst, dst: id });
+    }
+  });
+
+  ws.on('close', () => {
+    signaling.unregister(id, ws);
+    console.log('🔌 Signaling peer disconnected:', id);
+  });
+}
+
+/**
+ * Rooms: one member per socket; leaving or closing the socket removes it
+ */
+function handleRoomSocket(ws: WebSocket, { sessions, rooms }: WebSocketServices) {
+  let memberId: string | null = null;
+
+  const reply = (message: RoomServerMessage) => sendJson(ws, message);
+
+  const leave = () => {
+    if (!memberId) return;
+    const peerId = memberId;
+    memberId = null;
+    rooms.unregister(peerId, ws);
+    const room = sessions.leaveRoom(peerId);
+    if (room) {
+      rooms.broadcast(
+        room.members.map((member) => member.peerId),
+        { type: 'member-left', roomId: room.id, peerId, hostId: room.hostId }
+      );
+    }
+  };
+
+  const handleMessage = (message: RoomClientMessage) => {
+    if ('instrument' in message && typeof message.instrument !== 'string') {
+      throw new RoomError('bad-request', 'Invalid instrument');
+    }
+    if ('password' in message && message.password !== undefined && typeof message.password !== 'string') {
+      throw new RoomError('bad-request', 'Invalid password');
+    }
+    switch (message.type) {
+      case 'create-room': {
+        // Stay in the current room if the new one can't be created
+        sessions.assertCanCreate(message.roomId, message.peerId, memberId ?? undefined);
+        if (memberId) leave();
+        const room = sessions.createRoom(
+          message.roomId,
+          message.peerId,
+          message.instrument,
+          message.password
+        );
+        memberId = message.peerId;
+        rooms.register(memberId, ws);
+        reply({ type: 'room-joined', room });
+        break;
+      }
+      case 'join-room': {
+        // Already in it: nothing changes, and nobody sees us leave and come back
+        const current = memberId ? sessions.getRoomOf(memberId) : null;
+        if (memberId === message.peerId && current?.id === message.roomId) {
+          reply({ type: 'room-joined', room: current });
+          break;
+        }
+        // Stay in the current room if the new one can't be joined
+        sessions.assertCanJoin(message.roomId, message.peerId, message.password, memberId ?? undefined);
+        if (memberId) leave();
+        const { room, member } = sessions.joinRoom(
+          message.roomId,
+          message.peerId,
+          message.instrument,
+          message.password
+        );
+        memberId = message.peerId;
+        rooms.register(memberId, ws);
+        reply({ type: 'room-joined', room });
+        rooms.broadcast(
+          room.members.map(({ peerId }) => peerId),
+          { type: 'member-joined', roomId: room.id, member },
+          memberId
+        );
+        break;
+      }
+      case 'leave-room':
+        leave();
+        break;
+      case 'update-member': {
+        if (!memberId) throw new RoomError('not-in-room', 'Join a room first');
+        const { roomId, member } = sessions.updateMember(memberId, message.instrument);
+        const room = sessions.getRoom(roomId);
+        rooms.broadcast(
+          room?.members.map(({ peerId }) => peerId) ?? [],
+          { type: 'member-updated', roomId, member },
+          memberId
+        );
+        break;
+      }
+      case 'list-rooms':
+        reply({ type: 'rooms', rooms: sessions.listRooms() });
+        break;
+      default:
+        throw new RoomError('bad-request', 'Unknown message type');
+    }
+  };
+
+  ws.on('message', (raw) => {
+    try {
+      const message = JSON.parse(raw.toString());
+      if (!message || typeof message !== 'object') {
+        throw new RoomError('bad-request', 'Expected a JSON object');
+      }
+      handleMessage(message as RoomClientMessage);
+    } catch (error) {
+      if (error instanceof RoomError) {
+        reply({ type: 'error', code: error.code, message: error.message });
+      } else {
+        console.error('❌ Failed to handle room message:', error);
+        reply({ type: 'error', code: 'bad-request', message: 'Malformed message' });
+      }
+    }
+  });
+
+  ws.on('close', leave);
+}
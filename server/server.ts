@@ -0,0 +1,38 @@
+/**
+ * Airstrument signaling server
+ * Rooms, peer discovery and WebRTC signaling for jam sessions, so jams can
+ * run on a local network without the public PeerJS broker.
+ *
+ *   npm run server            (PORT=9000, HOST=0.0.0.0, MAX_ROOM_MEMBERS=8 by default)
+ *   NEXT_PUBLIC_SIGNALING_URL=http://localhost:9000 npm run dev
+ */
+
+import { createServer } from 'http';
+import { createHttpHandler } from './routes/http';
+import { attachWebSockets } from './routes/websocket';
+import { EventBroadcaster } from './services/event-broadcaster';
+import { SessionManager } from './services/session-manager';
+import type { PeerSignalMessage, RoomServerMessage } from './types/signaling';
+
+const PORT = Number(process.env.PORT) || 9000;
+const HOST = process.env.HOST || '0.0.0.0';
+const MAX_ROOM_MEMBERS = Number(process.env.MAX_ROOM_MEMBERS) || undefined;
+
+const sessions = new SessionManager(MAX_ROOM_MEMBERS);
+const signaling = new EventBroadcaster<PeerSignalMessage>();
+const rooms = new EventBroadcaster<RoomServerMessage>();
+
+const server = createServer(createHttpHandler(sessions, signaling));
+const detachWebSockets = attachWebSockets(server, { sessions, signaling, rooms });
+
+server.listen(PORT, HOST, () => {
+  console.log(`🎵 Signaling server listening on http://${HOST}:${PORT}`);
+});
+
+const shutdown = () => {
+  console.log('👋 Shutting down signaling server');
+  detachWebSockets();
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,66 @@
+import { WebSocket } from 'ws';
+
+/**
+ * Event Broadcaster
+ * Delivers JSON messages to connected sockets by client id.
+ */
+export class EventBroadcaster<M> {
+  private sockets: Map<string, WebSocket> = new Map();
+
+  register(clientId: string, socket: WebSocket) {
+    this.sockets.set(clientId, socket);
+  }
+
+  /**
+   * Forget a client, but only if it is still bound to this socket
+   * (a reconnect may already have replaced it)
+   */
+  unregister(clientId: string, socket?: WebSocket) {
+    if (socket && this.sockets.get(clientId) !== socket) return;
+    this.sockets.delete(clientId);
+  }
+
+  has(clientId: string): boolean {
+    return this.sockets.has(clientId);
+  }
+
+  get(clientId: string): WebSocket | undefined {
+    return this.sockets.get(clientId);
+  }
+
+  /**
+   * @returns Whether the client was connected
+   */
+  send(clientId: string, message: M): boolean {
+    const socket = this.sockets.get(clientId);
+    if (!socket) return false;
+    return sendJson(socket, message);
+  }
+
+  /**
+   * Send to several clients, skipping one (usually the sender)
+   */
+  broadcast(clientIds: Iterable<string>, message: M, exceptId?: string) {
+    for (const clientId of clientIds) {
+      if (clientId !== exceptId) this.send(clientId, message);
+    }
+  }
+
+  get size(): number {
+    return this.sockets.size;
+  }
+}
+
+/**
+ * Send a JSON message if the socket is open
+ */
+export function sendJson(socket: WebSocket, message: unknown): boolean {
+  if (socket.readyState !== WebSocket.OPEN) return false;
+  try {
+    socket.send(JSON.stringify(message));
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to send message:', error);
+    return false;
+  }
+}
@@ -0,0 +1,222 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { RoomErrorCode, RoomInfo, RoomMember, RoomSummary } from '../types/signaling';
+
+/**
+ * Session Manager
+ * Rooms and their members. Pure bookkeeping: sockets and message delivery
+ * live in the event broadcaster.
+ */
+
+export class RoomError extends Error {
+  constructor(
+    public readonly code: RoomErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RoomError';
+  }
+}
+
+interface Room {
+  id: string;
+  hostId: string;
+  createdAt: number;
+  password: { salt: string; hash: Buffer } | null;
+  members: Map<string, RoomMember>; // by peer id, in join order
+}
+
+// Room ids and peer ids: what PeerJS accepts, kept reasonably short
+const ID_PATTERN = /^[A-Za-z0-9]+(?:[_-][A-Za-z0-9]+)*$/;
+const MAX_ID_LENGTH = 64;
+
+// Peers connect in a full mesh, so rooms stay small
+export const DEFAULT_MAX_ROOM_MEMBERS = 8;
+
+export class SessionManager {
+  private rooms: Map<string, Room> = new Map();
+  private memberRooms: Map<string, string> = new Map(); // peer id -> room id
+
+  constructor(private readonly maxMembers: number = DEFAULT_MAX_ROOM_MEMBERS) {}
+
+  /**
+   * Create a room with its first member as the host
+   */
+  createRoom(roomId: string, peerId: string, instrument: string, password?: string): RoomInfo {
+    this.assertCanCreate(roomId, peerId);
+    const room: Room = {
+      id: roomId,
+      hostId: peerId,
+      createdAt: Date.now(),
+      password: password ? hashPassword(password) : null,
+      members: new Map(),
+    };
+    this.rooms.set(roomId, room);
+    this.addMember(room, peerId, instrument);
+    console.log('🏠 Room created:', roomId, 'by', peerId);
+    return this.describeRoom(room);
+  }
+
+  /**
+   * Add a member to an existing room
+   */
+  joinRoom(
+    roomId: string,
+    peerId: string,
+    instrument: string,
+    password?: string
+  ): { room: RoomInfo; member: RoomMember } {
+    this.assertCanJoin(roomId, peerId, password);
+    const room = this.rooms.get(roomId) as Room;
+    const member = this.addMember(room, peerId, instrument);
+    console.log('👋 Peer joined room:', roomId, peerId);
+    return { room: this.describeRoom(room), member };
+  }
+
+  /**
+   * Throw the error createRoom would, without changing anything
+   * @param leavingPeerId - A peer about to leave its room, whose id may be reused
+   */
+  assertCanCreate(roomId: string, peerId: string, leavingPeerId?: string) {
+    this.validateIds(roomId, peerId);
+    if (this.rooms.has(roomId)) {
+      throw new RoomError('room-exists', `Room ${roomId} already exists`);
+    }
+    if (peerId !== leavingPeerId) this.assertNotInRoom(peerId);
+  }
+
+  /**
+   * Throw the error joinRoom would, without changing anything
+   * @param leavingPeerId - A peer about to leave its room, whose id may be reused
+   */
+  assertCanJoin(roomId: string, peerId: string, password?: string, leavingPeerId?: string) {
+    this.validateIds(roomId, peerId);
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      throw new RoomError('room-not-found', `Room ${roomId} does not exist`);
+    }
+    if (room.password && !checkPassword(room.password, password)) {
+      throw new RoomError('wrong-password', password ? 'Wrong room password' : 'This room needs a password');
+    }
+    const leavesThisRoom = leavingPeerId !== undefined && room.members.has(leavingPeerId);
+    if (room.members.size - (leavesThisRoom ? 1 : 0) >= this.maxMembers) {
+      throw new RoomError('room-full', `Room ${roomId} is full (${this.maxMembers} players)`);
+    }
+    if (peerId !== leavingPeerId) this.assertNotInRoom(peerId);
+  }
+
+  /**
+   * Remove a member. Empty rooms are deleted; if the host left, the oldest
+   * remaining member becomes host.
+   * @returns The room it left (after the change), or null if it wasn't in one
+   */
+  leaveRoom(peerId: string): RoomInfo | null {
+    const roomId = this.memberRooms.get(peerId);
+    const room = roomId ? this.rooms.get(roomId) : undefined;
+    this.memberRooms.delete(peerId);
+    if (!room) return null;
+
+    room.members.delete(peerId);
+    if (room.members.size === 0) {
+      this.rooms.delete(room.id);
+      console.log('🧹 Room closed:', room.id);
+    } else if (room.hostId === peerId) {
+      room.hostId = room.members.keys().next().value as string;
+      console.log('👑 New host for room', room.id, ':', room.hostId);
+    }
+    console.log('👋 Peer left room:', room.id, peerId);
+    return this.describeRoom(room);
+  }
+
+  updateMember(peerId: string, instrument: string): { roomId: string; member: RoomMember } {
+    const roomId = this.memberRooms.get(peerId);
+    const member = roomId ? this.rooms.get(roomId)?.members.get(peerId) : undefined;
+    if (!roomId || !member) {
+      throw new RoomError('not-in-room', 'Join a room first');
+    }
+    member.instrument = instrument;
+    return { roomId, member: { ...member } };
+  }
+
+  getRoom(roomId: string): RoomInfo | null {
+    const room = this.rooms.get(roomId);
+    return room ? this.describeRoom(room) : null;
+  }
+
+  getRoomOf(peerId: string): RoomInfo | null {
+    const roomId = this.memberRooms.get(peerId);
+    return roomId ? this.getRoom(roomId) : null;
+  }
+
+  /**
+   * Open rooms. Password rooms are left out: they're joined by invitation.
+   */
+  listRooms(): RoomSummary[] {
+    return [...this.rooms.values()]
+      .filter((room) => room.password === null)
+      .map((room) => this.summarizeRoom(room));
+  }
+
+  /**
+   * A room as anyone may see it: password rooms without their members, whose
+   * peer ids would let an outsider dial straight in
+   */
+  getPublicRoom(roomId: string): RoomInfo | RoomSummary | null {
+    const room = this.rooms.get(roomId);
+    if (!room) return null;
+    return room.password ? this.summarizeRoom(room) : this.describeRoom(room);
+  }
+
+  getStats(): { rooms: number; members: number } {
+    return { rooms: this.rooms.size, members: this.memberRooms.size };
+  }
+
+  private addMember(room: Room, peerId: string, instrument: string): RoomMember {
+    this.assertNotInRoom(peerId);
+    const member: RoomMember = { peerId, instrument, joinedAt: Date.now() };
+    room.members.set(peerId, member);
+    this.memberRooms.set(peerId, room.id);
+    return { ...member };
+  }
+
+  private assertNotInRoom(peerId: string) {
+    if (this.memberRooms.has(peerId)) {
+      throw new RoomError('peer-id-taken', `Peer ${peerId} is already in a room`);
+    }
+  }
+
+  private validateIds(...ids: string[]) {
+    for (const id of ids) {
+      if (typeof id !== 'string' || id.length > MAX_ID_LENGTH || !ID_PATTERN.test(id)) {
+        throw new RoomError('bad-request', `Invalid id: ${String(id)}`);
+      }
+    }
+  }
+
+  private summarizeRoom(room: Room): RoomSummary {
+    return {
+      id: room.id,
+      memberCount: room.members.size,
+      createdAt: room.createdAt,
+      hasPassword: room.password !== null,
+    };
+  }
+
+  private describeRoom(room: Room): RoomInfo {
+    return {
+      id: room.id,
+      hostId: room.hostId,
+      createdAt: room.createdAt,
+      hasPassword: room.password !== null,
+      members: [...room.members.values()].map((member) => ({ ...member })),
+    };
+  }
+}
+
+function hashPassword(password: string, salt: string = randomBytes(16).toString('hex')) {
+  return { salt, hash: createHash('sha256').update(salt).update(password).digest() };
+}
+
+function checkPassword(stored: { salt: string; hash: Buffer }, password: string | undefined): boolean {
+  if (typeof password !== 'string') return false;
+  return timingSafeEqual(stored.hash, hashPassword(password, stored.salt).hash);
+}
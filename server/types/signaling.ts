@@ -0,0 +1,81 @@
+/**
+ * Signaling server protocol
+ * Shared by the server and the browser client (type-only imports).
+ */
+
+/**
+ * A peer in a room. `instrument` is an instrument id from the app's registry;
+ * the server passes it through without interpreting it.
+ */
+export interface RoomMember {
+  peerId: string;
+  instrument: string;
+  joinedAt: number; // server time (ms)
+}
+
+export interface RoomInfo {
+  id: string;
+  hostId: string; // the member that created the room (or the oldest remaining one)
+  createdAt: number;
+  hasPassword: boolean;
+  members: RoomMember[];
+}
+
+export interface RoomSummary {
+  id: string;
+  memberCount: number;
+  createdAt: number;
+  hasPassword: boolean;
+}
+
+export type RoomErrorCode =
+  | 'room-exists'
+  | 'room-not-found'
+  | 'room-full'
+  | 'wrong-password'
+  | 'peer-id-taken'
+  | 'not-in-room'
+  | 'bad-request';
+
+/**
+ * Messages sent by clients on the /rooms socket
+ */
+export type RoomClientMessage =
+  | { type: 'create-room'; roomId: string; peerId: string; instrument: string; password?: string }
+  | { type: 'join-room'; roomId: string; peerId: string; instrument: string; password?: string }
+  | { type: 'leave-room' }
+  | { type: 'update-member'; instrument: string }
+  | { type: 'list-rooms' };
+
+/**
+ * Messages sent by the server on the /rooms socket
+ */
+export type RoomServerMessage =
+  | { type: 'room-joined'; room: RoomInfo }
+  | { type: 'member-joined'; roomId: string; member: RoomMember }
+  | { type: 'member-left'; roomId: string; peerId: string; hostId: string }
+  | { type: 'member-updated'; roomId: string; member: RoomMember }
+  | { type: 'rooms'; rooms: RoomSummary[] }
+  | { type: 'error'; code: RoomErrorCode; message: string };
+
+/**
+ * PeerJS server protocol (the /peerjs socket), so the PeerJS client can use
+ * this server instead of the public broker
+ */
+export type PeerSignalType =
+  | 'OPEN'
+  | 'HEARTBEAT'
+  | 'OFFER'
+  | 'ANSWER'
+  | 'CANDIDATE'
+  | 'LEAVE'
+  | 'EXPIRE'
+  | 'ID-TAKEN'
+  | 'ERROR';
+
+export interface PeerSignalMessage {
+  type: PeerSignalType;
+  src?: string;
+  dst?: string;
+  payload?: unknown;
+}